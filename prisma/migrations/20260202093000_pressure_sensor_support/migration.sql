@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "SensorType" ADD VALUE 'PRESSURE';
+ALTER TYPE "SensorType" ADD VALUE 'TANK_LEVEL';
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "MatrixJobStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "matrix_generation_jobs" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "status" "MatrixJobStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "force" BOOLEAN NOT NULL DEFAULT false,
+    "nodesProcessed" INTEGER NOT NULL DEFAULT 0,
+    "totalNodes" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "matrix_generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "matrix_generation_failures" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "leakNodeId" TEXT NOT NULL,
+    "error" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "matrix_generation_failures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "matrix_generation_jobs_networkId_idx" ON "matrix_generation_jobs"("networkId");
+
+-- CreateIndex
+CREATE INDEX "matrix_generation_jobs_networkId_status_idx" ON "matrix_generation_jobs"("networkId", "status");
+
+-- CreateIndex
+CREATE INDEX "matrix_generation_jobs_status_idx" ON "matrix_generation_jobs"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matrix_generation_failures_jobId_leakNodeId_key" ON "matrix_generation_failures"("jobId", "leakNodeId");
+
+-- CreateIndex
+CREATE INDEX "matrix_generation_failures_jobId_idx" ON "matrix_generation_failures"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "matrix_generation_jobs" ADD CONSTRAINT "matrix_generation_jobs_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matrix_generation_failures" ADD CONSTRAINT "matrix_generation_failures_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "matrix_generation_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matrix_generation_failures" ADD CONSTRAINT "matrix_generation_failures_leakNodeId_fkey" FOREIGN KEY ("leakNodeId") REFERENCES "network_nodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "MatrixVersionStatus" AS ENUM ('BUILDING', 'ACTIVE', 'SUPERSEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "sensitivity_matrix_versions" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "MatrixVersionStatus" NOT NULL DEFAULT 'BUILDING',
+    "leakSize" DOUBLE PRECISION NOT NULL,
+    "sensorIds" TEXT[],
+    "epanetFileHash" TEXT NOT NULL,
+    "generatedAt" TIMESTAMP(3),
+    "activatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sensitivity_matrix_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: existing entries become version 1 of each network's matrix
+INSERT INTO "sensitivity_matrix_versions" ("id", "networkId", "version", "status", "leakSize", "sensorIds", "epanetFileHash", "generatedAt", "activatedAt", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "networkId", 1, 'ACTIVE', 1.0, ARRAY_AGG(DISTINCT "sensorId"), 'unknown', MAX("createdAt"), MAX("createdAt"), CURRENT_TIMESTAMP
+FROM "sensitivity_matrix"
+GROUP BY "networkId";
+
+-- AlterTable
+ALTER TABLE "sensitivity_matrix" ADD COLUMN "versionId" TEXT;
+
+UPDATE "sensitivity_matrix" AS m
+SET "versionId" = v."id"
+FROM "sensitivity_matrix_versions" AS v
+WHERE v."networkId" = m."networkId";
+
+ALTER TABLE "sensitivity_matrix" ALTER COLUMN "versionId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "matrix_generation_jobs" ADD COLUMN "versionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "matrixVersionId" TEXT;
+
+-- DropIndex
+DROP INDEX "sensitivity_matrix_networkId_leakNodeId_sensorId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sensitivity_matrix_versionId_leakNodeId_sensorId_key" ON "sensitivity_matrix"("versionId", "leakNodeId", "sensorId");
+
+-- CreateIndex
+CREATE INDEX "sensitivity_matrix_versionId_idx" ON "sensitivity_matrix"("versionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sensitivity_matrix_versions_networkId_version_key" ON "sensitivity_matrix_versions"("networkId", "version");
+
+-- CreateIndex
+CREATE INDEX "sensitivity_matrix_versions_networkId_status_idx" ON "sensitivity_matrix_versions"("networkId", "status");
+
+-- AddForeignKey
+ALTER TABLE "sensitivity_matrix_versions" ADD CONSTRAINT "sensitivity_matrix_versions_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sensitivity_matrix" ADD CONSTRAINT "sensitivity_matrix_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "sensitivity_matrix_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matrix_generation_jobs" ADD CONSTRAINT "matrix_generation_jobs_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "sensitivity_matrix_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leak_detections" ADD CONSTRAINT "leak_detections_matrixVersionId_fkey" FOREIGN KEY ("matrixVersionId") REFERENCES "sensitivity_matrix_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
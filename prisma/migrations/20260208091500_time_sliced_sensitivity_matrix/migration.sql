@@ -0,0 +1,22 @@
+-- AlterTable: existing steady-state entries become the hour 0 slice
+ALTER TABLE "sensitivity_matrix" ADD COLUMN "hourOfDay" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "sensitivity_matrix_versions" ADD COLUMN "hoursOfDay" INTEGER[];
+
+UPDATE "sensitivity_matrix_versions" SET "hoursOfDay" = ARRAY[0];
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "matrixHourOfDay" INTEGER;
+
+-- DropIndex
+DROP INDEX "sensitivity_matrix_versionId_leakNodeId_sensorId_key";
+
+-- DropIndex
+DROP INDEX "sensitivity_matrix_versionId_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sensitivity_matrix_versionId_leakNodeId_sensorId_hourOfDay_key" ON "sensitivity_matrix"("versionId", "leakNodeId", "sensorId", "hourOfDay");
+
+-- CreateIndex
+CREATE INDEX "sensitivity_matrix_versionId_hourOfDay_idx" ON "sensitivity_matrix"("versionId", "hourOfDay");
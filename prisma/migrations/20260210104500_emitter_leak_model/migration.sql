@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "LeakModel" AS ENUM ('FIXED_DEMAND', 'EMITTER');
+
+-- AlterTable
+ALTER TABLE "sensitivity_matrix_versions" ADD COLUMN "leakModel" "LeakModel" NOT NULL DEFAULT 'FIXED_DEMAND',
+ADD COLUMN "emitterCoefficient" DOUBLE PRECISION,
+ADD COLUMN "emitterExponent" DOUBLE PRECISION,
+ALTER COLUMN "leakSize" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "matrix_generation_jobs" ADD COLUMN "leakModel" "LeakModel" NOT NULL DEFAULT 'FIXED_DEMAND',
+ADD COLUMN "emitterCoefficient" DOUBLE PRECISION,
+ADD COLUMN "emitterExponent" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "network_nodes" ADD COLUMN "x" DOUBLE PRECISION,
+ADD COLUMN "y" DOUBLE PRECISION;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "flowUnits" TEXT;
+
+-- AlterTable
+ALTER TABLE "sensor_readings" ADD COLUMN "originalValue" DOUBLE PRECISION,
+ADD COLUMN "originalUnit" TEXT;
+
+-- AlterTable
+ALTER TABLE "sensitivity_matrix_versions" ADD COLUMN "modelFlowUnits" TEXT;
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "thresholdUnit" TEXT;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "LinkType" AS ENUM ('PIPE', 'PUMP', 'VALVE');
+
+-- CreateEnum
+CREATE TYPE "LinkStatus" AS ENUM ('OPEN', 'CLOSED', 'CV');
+
+-- CreateTable
+CREATE TABLE "network_links" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "linkType" "LinkType" NOT NULL,
+    "fromNodeId" TEXT NOT NULL,
+    "toNodeId" TEXT NOT NULL,
+    "length" DOUBLE PRECISION,
+    "diameter" DOUBLE PRECISION,
+    "roughness" DOUBLE PRECISION,
+    "minorLoss" DOUBLE PRECISION,
+    "status" "LinkStatus" NOT NULL DEFAULT 'OPEN',
+    "valveType" TEXT,
+    "setting" DOUBLE PRECISION,
+    "vertices" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "network_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "network_links_networkId_linkId_key" ON "network_links"("networkId", "linkId");
+
+-- CreateIndex
+CREATE INDEX "network_links_networkId_idx" ON "network_links"("networkId");
+
+-- CreateIndex
+CREATE INDEX "network_links_networkId_linkType_idx" ON "network_links"("networkId", "linkType");
+
+-- CreateIndex
+CREATE INDEX "network_links_fromNodeId_idx" ON "network_links"("fromNodeId");
+
+-- CreateIndex
+CREATE INDEX "network_links_toNodeId_idx" ON "network_links"("toNodeId");
+
+-- AddForeignKey
+ALTER TABLE "network_links" ADD CONSTRAINT "network_links_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "network_links" ADD CONSTRAINT "network_links_fromNodeId_fkey" FOREIGN KEY ("fromNodeId") REFERENCES "network_nodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "network_links" ADD CONSTRAINT "network_links_toNodeId_fkey" FOREIGN KEY ("toNodeId") REFERENCES "network_nodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
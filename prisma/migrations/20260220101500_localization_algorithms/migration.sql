@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "LocalizationAlgorithm" AS ENUM ('BLENDED', 'COSINE', 'LEAST_SQUARES', 'NORMALIZED_CORRELATION', 'ANGLE', 'BAYESIAN');
+
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "localizationAlgorithm" "LocalizationAlgorithm" NOT NULL DEFAULT 'BLENDED';
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "localizationAlgorithm" "LocalizationAlgorithm";
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "LeakPriorSource" AS ENUM ('UPLOAD', 'DETECTION_HISTORY');
+
+-- CreateTable
+CREATE TABLE "node_leak_priors" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "pipeMaterial" TEXT,
+    "installationYear" INTEGER,
+    "burstCount" INTEGER NOT NULL DEFAULT 0,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "source" "LeakPriorSource" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "node_leak_priors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "node_leak_priors_nodeId_key" ON "node_leak_priors"("nodeId");
+
+-- CreateIndex
+CREATE INDEX "node_leak_priors_networkId_idx" ON "node_leak_priors"("networkId");
+
+-- AddForeignKey
+ALTER TABLE "node_leak_priors" ADD CONSTRAINT "node_leak_priors_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "node_leak_priors" ADD CONSTRAINT "node_leak_priors_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "network_nodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
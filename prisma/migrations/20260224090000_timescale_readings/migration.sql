@@ -0,0 +1,90 @@
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "readingRetentionDays" INTEGER,
+ADD COLUMN "readingCompressionDays" INTEGER;
+
+-- Reading aggregates. With TimescaleDB available, sensor_readings becomes a
+-- hypertable and the aggregates are continuous aggregates kept up to date by
+-- refresh policies. Without it they are plain views over the raw table, so
+-- queries work the same either way.
+DO $$
+DECLARE
+  resolution RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'timescaledb')
+     AND current_setting('shared_preload_libraries') LIKE '%timescaledb%' THEN
+    CREATE EXTENSION IF NOT EXISTS timescaledb;
+
+    -- Unique constraints on a hypertable must include the time column
+    ALTER TABLE "sensor_readings" DROP CONSTRAINT "sensor_readings_pkey";
+    ALTER TABLE "sensor_readings" ADD CONSTRAINT "sensor_readings_pkey" PRIMARY KEY ("id", "timestamp");
+
+    PERFORM create_hypertable(
+      'sensor_readings',
+      'timestamp',
+      chunk_time_interval => INTERVAL '1 day',
+      migrate_data => true
+    );
+
+    ALTER TABLE "sensor_readings" SET (
+      timescaledb.compress,
+      timescaledb.compress_segmentby = '"networkId", "sensorId"',
+      timescaledb.compress_orderby = '"timestamp" DESC'
+    );
+
+    FOR resolution IN
+      SELECT * FROM (VALUES
+        ('sensor_readings_1m', INTERVAL '1 minute', INTERVAL '1 hour', INTERVAL '1 minute'),
+        ('sensor_readings_15m', INTERVAL '15 minutes', INTERVAL '1 day', INTERVAL '15 minutes'),
+        ('sensor_readings_1h', INTERVAL '1 hour', INTERVAL '3 days', INTERVAL '1 hour')
+      ) AS r(view_name, bucket_width, refresh_start, refresh_every)
+    LOOP
+      EXECUTE format(
+        'CREATE MATERIALIZED VIEW %I
+         WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+         SELECT time_bucket(%L::interval, "timestamp") AS "bucket",
+                "networkId",
+                "sensorId",
+                AVG("flowValue") AS "avgValue",
+                MIN("flowValue") AS "minValue",
+                MAX("flowValue") AS "maxValue",
+                SUM("flowValue") AS "sumValue",
+                COUNT(*)::int AS "readingCount"
+         FROM "sensor_readings"
+         GROUP BY 1, "networkId", "sensorId"
+         WITH NO DATA',
+        resolution.view_name,
+        resolution.bucket_width
+      );
+      PERFORM add_continuous_aggregate_policy(
+        resolution.view_name::regclass,
+        start_offset => resolution.refresh_start,
+        end_offset => resolution.bucket_width,
+        schedule_interval => resolution.refresh_every
+      );
+    END LOOP;
+  ELSE
+    FOR resolution IN
+      SELECT * FROM (VALUES
+        ('sensor_readings_1m', INTERVAL '1 minute'),
+        ('sensor_readings_15m', INTERVAL '15 minutes'),
+        ('sensor_readings_1h', INTERVAL '1 hour')
+      ) AS r(view_name, bucket_width)
+    LOOP
+      EXECUTE format(
+        'CREATE VIEW %I AS
+         SELECT date_bin(%L::interval, "timestamp", TIMESTAMP ''2000-01-01'') AS "bucket",
+                "networkId",
+                "sensorId",
+                AVG("flowValue") AS "avgValue",
+                MIN("flowValue") AS "minValue",
+                MAX("flowValue") AS "maxValue",
+                SUM("flowValue") AS "sumValue",
+                COUNT(*)::int AS "readingCount"
+         FROM "sensor_readings"
+         GROUP BY 1, "networkId", "sensorId"',
+        resolution.view_name,
+        resolution.bucket_width
+      );
+    END LOOP;
+  END IF;
+END $$;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "DetectionMethod" AS ENUM ('MASS_BALANCE', 'NIGHT_FLOW');
+
+-- CreateEnum
+CREATE TYPE "NightUseSource" AS ENUM ('HOUSEHOLD_SENSORS', 'CONNECTION_ALLOWANCE');
+
+-- AlterTable
+ALTER TABLE "network_partitions" ADD COLUMN "connectionCount" INTEGER,
+ADD COLUMN "nightUseAllowance" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "detectionMethod" "DetectionMethod" NOT NULL DEFAULT 'MASS_BALANCE';
+
+-- CreateTable
+CREATE TABLE "dma_night_flows" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "partitionId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "minimumInflow" DOUBLE PRECISION NOT NULL,
+    "minimumAt" TIMESTAMP(3) NOT NULL,
+    "legitimateNightUse" DOUBLE PRECISION NOT NULL,
+    "nightUseSource" "NightUseSource" NOT NULL,
+    "netNightFlow" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dma_night_flows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dma_night_flows_partitionId_date_key" ON "dma_night_flows"("partitionId", "date");
+
+-- CreateIndex
+CREATE INDEX "dma_night_flows_networkId_date_idx" ON "dma_night_flows"("networkId", "date");
+
+-- AddForeignKey
+ALTER TABLE "dma_night_flows" ADD CONSTRAINT "dma_night_flows_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dma_night_flows" ADD CONSTRAINT "dma_night_flows_partitionId_fkey" FOREIGN KEY ("partitionId") REFERENCES "network_partitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ScheduleRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "detection_schedules" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "intervalSeconds" INTEGER NOT NULL,
+    "timeWindow" INTEGER NOT NULL DEFAULT 300,
+    "threshold" DOUBLE PRECISION NOT NULL DEFAULT 5,
+    "thresholdUnit" TEXT,
+    "autoLocalize" BOOLEAN NOT NULL DEFAULT false,
+    "lastRunStatus" "ScheduleRunStatus",
+    "lastRunStartedAt" TIMESTAMP(3),
+    "lastRunFinishedAt" TIMESTAMP(3),
+    "lastRunDetections" INTEGER,
+    "lastRunError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "detection_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "detection_schedules_networkId_key" ON "detection_schedules"("networkId");
+
+-- AddForeignKey
+ALTER TABLE "detection_schedules" ADD CONSTRAINT "detection_schedules_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "IncidentStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "incidentCloseWindows" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "incidentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "leak_incidents" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "partitionId" TEXT,
+    "detectionMethod" "DetectionMethod" NOT NULL,
+    "status" "IncidentStatus" NOT NULL DEFAULT 'OPEN',
+    "severity" "LeakSeverity" NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "peakImbalance" DOUBLE PRECISION NOT NULL,
+    "latestImbalance" DOUBLE PRECISION NOT NULL,
+    "detectionCount" INTEGER NOT NULL DEFAULT 1,
+    "clearWindows" INTEGER NOT NULL DEFAULT 0,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leak_incidents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leak_incidents_networkId_status_idx" ON "leak_incidents"("networkId", "status");
+
+-- CreateIndex
+CREATE INDEX "leak_incidents_nodeId_status_idx" ON "leak_incidents"("nodeId", "status");
+
+-- CreateIndex
+CREATE INDEX "leak_incidents_partitionId_idx" ON "leak_incidents"("partitionId");
+
+-- CreateIndex
+CREATE INDEX "leak_incidents_lastSeenAt_idx" ON "leak_incidents"("lastSeenAt");
+
+-- CreateIndex
+CREATE INDEX "leak_detections_incidentId_idx" ON "leak_detections"("incidentId");
+
+-- AddForeignKey
+ALTER TABLE "leak_detections" ADD CONSTRAINT "leak_detections_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "leak_incidents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leak_incidents" ADD CONSTRAINT "leak_incidents_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leak_incidents" ADD CONSTRAINT "leak_incidents_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "network_nodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leak_incidents" ADD CONSTRAINT "leak_incidents_partitionId_fkey" FOREIGN KEY ("partitionId") REFERENCES "network_partitions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "repairNodeId" TEXT,
+ADD COLUMN "repairLocation" TEXT,
+ADD COLUMN "repairedLeakFlow" DOUBLE PRECISION,
+ADD COLUMN "repairedLeakFlowUnit" TEXT,
+ADD COLUMN "resolvedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "leak_status_changes" (
+    "id" TEXT NOT NULL,
+    "detectionId" TEXT NOT NULL,
+    "fromStatus" "LeakStatus" NOT NULL,
+    "toStatus" "LeakStatus" NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leak_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leak_status_changes_detectionId_createdAt_idx" ON "leak_status_changes"("detectionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "leak_status_changes" ADD CONSTRAINT "leak_status_changes_detectionId_fkey" FOREIGN KEY ("detectionId") REFERENCES "leak_detections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "candidateRanking" TEXT[],
+ADD COLUMN "localizationRank" INTEGER,
+ADD COLUMN "localizationHopDistance" INTEGER,
+ADD COLUMN "localizationDistance" DOUBLE PRECISION;
@@ -0,0 +1,69 @@
+-- AlterEnum
+ALTER TYPE "DataSource" ADD VALUE 'SYNTHETIC';
+
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "scenarioSandbox" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateEnum
+CREATE TYPE "ScenarioStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "leak_scenarios" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "name" TEXT,
+    "status" "ScenarioStatus" NOT NULL DEFAULT 'RUNNING',
+    "seed" INTEGER NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "intervalSeconds" INTEGER NOT NULL,
+    "flowNoise" DOUBLE PRECISION NOT NULL,
+    "pressureNoise" DOUBLE PRECISION NOT NULL,
+    "driftRate" DOUBLE PRECISION NOT NULL,
+    "missingRate" DOUBLE PRECISION NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "timeWindow" INTEGER NOT NULL,
+    "baselineTimeWindow" INTEGER NOT NULL,
+    "detectionInterval" INTEGER NOT NULL,
+    "readingCount" INTEGER,
+    "windowCount" INTEGER,
+    "falseAlarmWindows" INTEGER,
+    "detectionRate" DOUBLE PRECISION,
+    "falseAlarmRate" DOUBLE PRECISION,
+    "top1Rate" DOUBLE PRECISION,
+    "top5Rate" DOUBLE PRECISION,
+    "top10Rate" DOUBLE PRECISION,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "leak_scenarios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scenario_leaks" (
+    "id" TEXT NOT NULL,
+    "scenarioId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "leakFlow" DOUBLE PRECISION NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "detectedAt" TIMESTAMP(3),
+    "localizationRank" INTEGER,
+
+    CONSTRAINT "scenario_leaks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leak_scenarios_networkId_idx" ON "leak_scenarios"("networkId");
+
+-- CreateIndex
+CREATE INDEX "scenario_leaks_scenarioId_idx" ON "scenario_leaks"("scenarioId");
+
+-- AddForeignKey
+ALTER TABLE "leak_scenarios" ADD CONSTRAINT "leak_scenarios_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "networks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scenario_leaks" ADD CONSTRAINT "scenario_leaks_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "leak_scenarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scenario_leaks" ADD CONSTRAINT "scenario_leaks_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "network_nodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
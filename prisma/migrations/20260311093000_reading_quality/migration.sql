@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "ReadingQualityFlag" AS ENUM ('OUT_OF_RANGE', 'RATE_OF_CHANGE', 'FLATLINE', 'DUPLICATE', 'OUT_OF_ORDER', 'FUTURE_TIMESTAMP');
+
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "excludeFlaggedReadings" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "sensors" ADD COLUMN "flatlineSeconds" INTEGER,
+ADD COLUMN "maxRateOfChange" DOUBLE PRECISION,
+ADD COLUMN "maxValue" DOUBLE PRECISION,
+ADD COLUMN "minValue" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "sensor_readings" ADD COLUMN "qualityFlags" "ReadingQualityFlag"[] DEFAULT ARRAY[]::"ReadingQualityFlag"[];
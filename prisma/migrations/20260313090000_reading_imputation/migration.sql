@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ImputationMethod" AS ENUM ('NONE', 'LOCF', 'LINEAR', 'SEASONAL');
+
+-- AlterTable
+ALTER TABLE "networks" ADD COLUMN "imputationMaxAge" INTEGER NOT NULL DEFAULT 3600,
+ADD COLUMN "imputationMethod" "ImputationMethod" NOT NULL DEFAULT 'NONE',
+ADD COLUMN "maxImputedFraction" DOUBLE PRECISION NOT NULL DEFAULT 0.25;
+
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "imputedFraction" DOUBLE PRECISION,
+ADD COLUMN "imputedSensors" TEXT[];
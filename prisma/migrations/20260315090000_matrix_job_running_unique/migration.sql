@@ -0,0 +1,22 @@
+-- Keep only the latest running job per network before enforcing uniqueness
+UPDATE "matrix_generation_jobs" j
+SET "status" = 'FAILED', "error" = 'Superseded by a concurrent job', "completedAt" = NOW()
+WHERE j."status" = 'IN_PROGRESS'
+  AND EXISTS (
+    SELECT 1 FROM "matrix_generation_jobs" o
+    WHERE o."networkId" = j."networkId"
+      AND o."status" = 'IN_PROGRESS'
+      AND (o."startedAt", o."id") > (j."startedAt", j."id")
+  );
+
+-- Versions left BUILDING by jobs that are no longer running can never finish
+UPDATE "sensitivity_matrix_versions" v
+SET "status" = 'FAILED'
+WHERE v."status" = 'BUILDING'
+  AND NOT EXISTS (
+    SELECT 1 FROM "matrix_generation_jobs" j
+    WHERE j."versionId" = v."id" AND j."status" = 'IN_PROGRESS'
+  );
+
+-- At most one running generation job per network
+CREATE UNIQUE INDEX "matrix_generation_jobs_networkId_running_key" ON "matrix_generation_jobs"("networkId") WHERE "status" = 'IN_PROGRESS';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "leak_detections" ADD COLUMN "multiLeakSolution" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "leak_scenarios" ADD COLUMN "heartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "sandboxNetworkId" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "detection_schedules" ADD COLUMN     "analyzeNightFlow" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lastNightFlowDate" DATE,
+ADD COLUMN     "utcOffsetMinutes" INTEGER NOT NULL DEFAULT 0;
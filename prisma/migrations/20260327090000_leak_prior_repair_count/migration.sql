@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "node_leak_priors" ADD COLUMN     "repairCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "uploadedWeight" DOUBLE PRECISION;
+
+-- Backfill: derived priors stored their history count as the burst count
+UPDATE "node_leak_priors" SET "repairCount" = "burstCount", "burstCount" = 0 WHERE "source" = 'DETECTION_HISTORY';
@@ -0,0 +1,12 @@
+-- Key sensor_readings on (id, timestamp) with or without TimescaleDB, as the
+-- timescale_readings migration already does for the hypertable
+DO $$
+BEGIN
+  IF (
+    SELECT array_length(conkey, 1) FROM pg_constraint
+    WHERE conname = 'sensor_readings_pkey'
+  ) = 1 THEN
+    ALTER TABLE "sensor_readings" DROP CONSTRAINT "sensor_readings_pkey";
+    ALTER TABLE "sensor_readings" ADD CONSTRAINT "sensor_readings_pkey" PRIMARY KEY ("id", "timestamp");
+  END IF;
+END $$;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "detection_schedules" ADD COLUMN "lastRunHeartbeatAt" TIMESTAMP(3);
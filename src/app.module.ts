@@ -8,6 +8,7 @@ import { NetworkModule } from './modules/network/network.module';
 import { SensorsModule } from './modules/sensors/sensors.module';
 import { ReadingsModule } from './modules/readings/readings.module';
 import { LeaksModule } from './modules/leaks/leaks.module';
+import { ScenariosModule } from './modules/scenarios/scenarios.module';
 import databaseConfig from './config/database.config';
 
 @Module({
@@ -22,6 +23,7 @@ import databaseConfig from './config/database.config';
     SensorsModule,
     ReadingsModule,
     LeaksModule,
+    ScenariosModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,26 @@
+// Background work refreshes a heartbeat timestamp while it runs, so any
+// instance can tell work in progress from work a stopped process left behind
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const HEARTBEAT_LEASE_MS = 5 * 60 * 1000; // Silence after which work is abandoned
+
+/**
+ * Call beat every HEARTBEAT_INTERVAL_MS until the returned stop function is
+ * called. Errors are passed to onError and do not stop the heartbeat.
+ */
+export function startHeartbeat(
+  beat: () => Promise<unknown>,
+  onError: (error: unknown) => void,
+): () => void {
+  const timer = setInterval(() => {
+    beat().catch(onError);
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Heartbeats older than this belong to abandoned work
+ */
+export function heartbeatExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() - HEARTBEAT_LEASE_MS);
+}
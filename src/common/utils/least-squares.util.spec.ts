@@ -0,0 +1,48 @@
+import { dot, solveLeastSquares } from './least-squares.util';
+
+describe('solveLeastSquares', () => {
+  it('recovers the coefficients of an exact system', () => {
+    // b = 2 a1 + 3 a2
+    const a1 = [1, 0, 1, 2];
+    const a2 = [0, 1, 1, -1];
+    const b = a1.map((v, i) => 2 * v + 3 * a2[i]);
+
+    const fit = solveLeastSquares([a1, a2], b);
+
+    expect(fit).not.toBeNull();
+    expect(fit!.coefficients[0]).toBeCloseTo(2);
+    expect(fit!.coefficients[1]).toBeCloseTo(3);
+    expect(fit!.residualSumOfSquares).toBeCloseTo(0);
+  });
+
+  it('minimises the residual of an overdetermined system', () => {
+    // Best constant through 1, 2, 6 is their mean
+    const fit = solveLeastSquares([[1, 1, 1]], [1, 2, 6]);
+
+    expect(fit!.coefficients[0]).toBeCloseTo(3);
+    expect(fit!.residualSumOfSquares).toBeCloseTo(4 + 1 + 9);
+  });
+
+  it('returns null for linearly dependent columns', () => {
+    expect(
+      solveLeastSquares(
+        [
+          [1, 2, 3],
+          [2, 4, 6],
+        ],
+        [1, 1, 1],
+      ),
+    ).toBeNull();
+  });
+
+  it('returns null without columns or with only zero columns', () => {
+    expect(solveLeastSquares([], [1, 2])).toBeNull();
+    expect(solveLeastSquares([[0, 0]], [1, 2])).toBeNull();
+  });
+});
+
+describe('dot', () => {
+  it('sums the element-wise products', () => {
+    expect(dot([1, 2, 3], [4, -5, 6])).toBe(12);
+  });
+});
@@ -0,0 +1,81 @@
+export interface LeastSquaresFit {
+  coefficients: number[];
+  residualSumOfSquares: number;
+}
+
+/**
+ * Find coefficients x minimising ||A x - b||², where A is given column by
+ * column. Solves the normal equations, which is fine for the handful of
+ * columns used here. Returns null when the columns are linearly dependent.
+ */
+export function solveLeastSquares(
+  columns: number[][],
+  target: number[],
+): LeastSquaresFit | null {
+  const n = columns.length;
+  if (n === 0) {
+    return null;
+  }
+
+  // Augmented normal equations [AᵀA | Aᵀb]
+  const system = columns.map((column) => [
+    ...columns.map((other) => dot(column, other)),
+    dot(column, target),
+  ]);
+
+  // Pivots this small relative to the largest diagonal mean dependent columns
+  const tolerance =
+    1e-10 * Math.max(...system.map((row, i) => Math.abs(row[i])));
+  if (tolerance === 0) {
+    return null;
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(system[row][col]) > Math.abs(system[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(system[pivot][col]) < tolerance) {
+      return null;
+    }
+    [system[col], system[pivot]] = [system[pivot], system[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = system[row][col] / system[col][col];
+      for (let k = col; k <= n; k++) {
+        system[row][k] -= factor * system[col][k];
+      }
+    }
+  }
+
+  const coefficients = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = system[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= system[row][k] * coefficients[k];
+    }
+    coefficients[row] = sum / system[row][row];
+  }
+
+  let residualSumOfSquares = 0;
+  for (let i = 0; i < target.length; i++) {
+    let predicted = 0;
+    for (let j = 0; j < n; j++) {
+      predicted += columns[j][i] * coefficients[j];
+    }
+    residualSumOfSquares += (target[i] - predicted) ** 2;
+  }
+
+  return { coefficients, residualSumOfSquares };
+}
+
+export function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
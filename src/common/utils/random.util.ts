@@ -0,0 +1,24 @@
+export type RandomSource = () => number;
+
+/**
+ * Seeded uniform generator on [0, 1) (mulberry32), so a run can be
+ * repeated exactly from its seed.
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample from a uniform source (Box-Muller).
+ */
+export function normalSample(random: RandomSource): number {
+  const u = 1 - random(); // (0, 1], keeps the logarithm finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,39 @@
+import { SensorType } from '@prisma/client';
+
+export type SensorQuantity = 'FLOW' | 'PRESSURE' | 'LEVEL';
+
+export interface SensorMeasurement {
+  quantity: SensorQuantity;
+  unit: string; // Unit readings and sensitivities are stored in
+}
+
+const SENSOR_MEASUREMENTS: Record<SensorType, SensorMeasurement> = {
+  [SensorType.MAINLINE_FLOW]: { quantity: 'FLOW', unit: 'L/s' },
+  [SensorType.BRANCH_JUNCTION_FLOW]: { quantity: 'FLOW', unit: 'L/s' },
+  [SensorType.HOUSEHOLD_FLOW]: { quantity: 'FLOW', unit: 'L/s' },
+  [SensorType.PRESSURE]: { quantity: 'PRESSURE', unit: 'm' },
+  [SensorType.TANK_LEVEL]: { quantity: 'LEVEL', unit: 'm' },
+};
+
+/**
+ * Sensor types that measure flow (L/s).
+ */
+export const FLOW_SENSOR_TYPES = (
+  Object.keys(SENSOR_MEASUREMENTS) as SensorType[]
+).filter((sensorType) => SENSOR_MEASUREMENTS[sensorType].quantity === 'FLOW');
+
+/**
+ * Get the physical quantity and unit measured by a sensor type.
+ */
+export function getSensorMeasurement(
+  sensorType: SensorType,
+): SensorMeasurement {
+  return SENSOR_MEASUREMENTS[sensorType];
+}
+
+/**
+ * Flow sensors are the only ones that take part in mass balance.
+ */
+export function isFlowSensor(sensorType: SensorType): boolean {
+  return SENSOR_MEASUREMENTS[sensorType].quantity === 'FLOW';
+}
@@ -0,0 +1,66 @@
+import {
+  FLOW_UNITS,
+  getEpanetUnitFactors,
+  READING_UNITS,
+  toCanonicalUnit,
+} from './units.util';
+
+describe('units.util', () => {
+  describe('getEpanetUnitFactors', () => {
+    it('leaves SI models in L/s, m and mm', () => {
+      expect(getEpanetUnitFactors('LPS')).toEqual({
+        flow: 1,
+        head: 1,
+        pressure: 1,
+        diameter: 1,
+      });
+      expect(getEpanetUnitFactors('CMH').flow).toBeCloseTo(1 / 3.6);
+    });
+
+    it('converts US customary models to SI', () => {
+      const factors = getEpanetUnitFactors('GPM');
+      expect(factors.flow).toBeCloseTo(0.0630902);
+      expect(factors.head).toBe(0.3048);
+      expect(factors.pressure).toBeCloseTo(0.70307);
+      expect(factors.diameter).toBe(25.4);
+    });
+  });
+
+  describe('toCanonicalUnit', () => {
+    it('converts flow units to L/s', () => {
+      expect(toCanonicalUnit('FLOW', 60, 'L/min')).toBeCloseTo(1);
+      expect(toCanonicalUnit('FLOW', 3.6, 'm3/h')).toBeCloseTo(1);
+      expect(toCanonicalUnit('FLOW', 86.4, 'm3/d')).toBeCloseTo(1);
+      expect(toCanonicalUnit('FLOW', 1, 'CFS')).toBeCloseTo(28.3168466);
+    });
+
+    it('converts pressure and level units to m', () => {
+      expect(toCanonicalUnit('PRESSURE', 1, 'bar')).toBeCloseTo(10.197162);
+      expect(toCanonicalUnit('PRESSURE', 100, 'kPa')).toBeCloseTo(10.197162);
+      expect(toCanonicalUnit('LEVEL', 10, 'ft')).toBeCloseTo(3.048);
+    });
+
+    it('accepts aliases', () => {
+      expect(toCanonicalUnit('FLOW', 3.6, 'm³/h')).toBeCloseTo(1);
+      expect(toCanonicalUnit('FLOW', 3.6, 'CMH')).toBeCloseTo(1);
+      expect(toCanonicalUnit('FLOW', 2, 'LPS')).toBe(2);
+      expect(toCanonicalUnit('FLOW', 60, 'LPM')).toBeCloseTo(1);
+    });
+
+    it('rejects units of another quantity', () => {
+      expect(() => toCanonicalUnit('LEVEL', 1, 'psi')).toThrow(
+        'Unit psi cannot be used for level values. Supported: m, ft',
+      );
+      expect(() => toCanonicalUnit('FLOW', 1, 'bar')).toThrow();
+    });
+  });
+
+  it('lists every accepted unit once', () => {
+    expect(new Set(READING_UNITS).size).toBe(READING_UNITS.length);
+    expect(READING_UNITS).toEqual(
+      expect.arrayContaining(['L/s', 'psi', 'm³/h', 'CMD']),
+    );
+    expect(FLOW_UNITS).toEqual(expect.arrayContaining(['m3/h', 'CMH', 'LPS']));
+    expect(FLOW_UNITS).not.toContain('psi');
+  });
+});
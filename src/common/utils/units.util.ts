@@ -0,0 +1,155 @@
+import { SensorQuantity } from './sensor-measurement.util';
+
+export type EpanetFlowUnits =
+  | 'CFS'
+  | 'GPM'
+  | 'MGD'
+  | 'IMGD'
+  | 'AFD'
+  | 'LPS'
+  | 'LPM'
+  | 'MLD'
+  | 'CMH'
+  | 'CMD';
+
+/**
+ * EPANET flow units, in the order of the EN_FlowUnits enum.
+ */
+export const EPANET_FLOW_UNITS: EpanetFlowUnits[] = [
+  'CFS',
+  'GPM',
+  'MGD',
+  'IMGD',
+  'AFD',
+  'LPS',
+  'LPM',
+  'MLD',
+  'CMH',
+  'CMD',
+];
+
+// EPANET flow unit -> L/s
+const EPANET_FLOW_FACTORS: Record<EpanetFlowUnits, number> = {
+  CFS: 28.316846592,
+  GPM: 0.0630901964,
+  MGD: 43.812636389,
+  IMGD: 52.616782407,
+  AFD: 14.276410157,
+  LPS: 1,
+  LPM: 1 / 60,
+  MLD: 1000000 / 86400,
+  CMH: 1000 / 3600,
+  CMD: 1000 / 86400,
+};
+
+// Flow units that make EPANET use US customary units for everything else
+const US_CUSTOMARY_FLOW_UNITS: EpanetFlowUnits[] = [
+  'CFS',
+  'GPM',
+  'MGD',
+  'IMGD',
+  'AFD',
+];
+
+const FEET_TO_METERS = 0.3048;
+const INCHES_TO_MILLIMETERS = 25.4;
+const PSI_TO_METERS = 0.703069579; // Water column head
+
+/**
+ * Factors that convert EPANET model values to canonical units
+ * (L/s, m, mm).
+ */
+export interface EpanetUnitFactors {
+  flow: number; // Model flow unit -> L/s
+  head: number; // Elevation, head, tank level and length -> m
+  pressure: number; // Pressure (psi or m) -> m
+  diameter: number; // Pipe diameter (in or mm) -> mm
+}
+
+export function getEpanetUnitFactors(
+  flowUnits: EpanetFlowUnits,
+): EpanetUnitFactors {
+  const usCustomary = US_CUSTOMARY_FLOW_UNITS.includes(flowUnits);
+  return {
+    flow: EPANET_FLOW_FACTORS[flowUnits],
+    head: usCustomary ? FEET_TO_METERS : 1,
+    pressure: usCustomary ? PSI_TO_METERS : 1,
+    diameter: usCustomary ? INCHES_TO_MILLIMETERS : 1,
+  };
+}
+
+// Reading unit -> canonical unit of the quantity (L/s for flow, m otherwise)
+const READING_UNIT_FACTORS: Record<SensorQuantity, Record<string, number>> = {
+  FLOW: {
+    'L/s': 1,
+    'L/min': 1 / 60,
+    'm3/h': 1000 / 3600,
+    'm3/d': 1000 / 86400,
+    MLD: 1000000 / 86400,
+    GPM: EPANET_FLOW_FACTORS.GPM,
+    CFS: EPANET_FLOW_FACTORS.CFS,
+    MGD: EPANET_FLOW_FACTORS.MGD,
+  },
+  PRESSURE: {
+    m: 1,
+    ft: FEET_TO_METERS,
+    psi: PSI_TO_METERS,
+    bar: 10.197162,
+    kPa: 0.10197162,
+  },
+  LEVEL: {
+    m: 1,
+    ft: FEET_TO_METERS,
+  },
+};
+
+// Accepted spellings that map onto a unit above
+const READING_UNIT_ALIASES: Record<string, string> = {
+  'm³/h': 'm3/h',
+  'm³/d': 'm3/d',
+  CMH: 'm3/h',
+  CMD: 'm3/d',
+  LPS: 'L/s',
+  LPM: 'L/min',
+};
+
+/**
+ * Every unit a reading may be submitted in.
+ */
+export const READING_UNITS = [
+  ...new Set([
+    ...Object.values(READING_UNIT_FACTORS).flatMap((units) =>
+      Object.keys(units),
+    ),
+    ...Object.keys(READING_UNIT_ALIASES),
+  ]),
+];
+
+/**
+ * Flow units accepted for thresholds and flow readings.
+ */
+export const FLOW_UNITS = [
+  ...Object.keys(READING_UNIT_FACTORS.FLOW),
+  ...Object.keys(READING_UNIT_ALIASES).filter(
+    (alias) => READING_UNIT_ALIASES[alias] in READING_UNIT_FACTORS.FLOW,
+  ),
+];
+
+/**
+ * Convert a value of the given quantity to its canonical unit.
+ * Throws if the unit does not measure that quantity.
+ */
+export function toCanonicalUnit(
+  quantity: SensorQuantity,
+  value: number,
+  unit: string,
+): number {
+  const factor =
+    READING_UNIT_FACTORS[quantity][READING_UNIT_ALIASES[unit] ?? unit];
+  if (factor === undefined) {
+    throw new Error(
+      `Unit ${unit} cannot be used for ${quantity.toLowerCase()} values. Supported: ${Object.keys(READING_UNIT_FACTORS[quantity]).join(', ')}`,
+    );
+  }
+  return value * factor;
+}
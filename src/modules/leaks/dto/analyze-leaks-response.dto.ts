@@ -38,10 +38,12 @@ export class LocalizedLeakDto {
       location: string | null;
     };
     localizationScore: number;
+    estimatedLeakFlow: number | null; // L/s
     topCandidates: Array<{
       nodeId: string;
       score: number;
       confidence: string;
+      estimatedLeakFlow: number; // L/s
     }>;
   };
 }
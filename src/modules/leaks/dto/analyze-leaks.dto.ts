@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsArray, ValidateNested, IsNumber, IsDateString } from 'class-validator';
+import {
+  IsString,
+  IsArray,
+  ValidateNested,
+  IsNumber,
+  IsDateString,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class SensorReadingDto {
@@ -11,7 +17,8 @@ export class SensorReadingDto {
   sensorId: string;
 
   @ApiProperty({
-    description: 'Flow value in L/s',
+    description:
+      'Measured value (L/s for flow sensors, m for pressure and tank level sensors)',
     example: 150.5,
   })
   @IsNumber()
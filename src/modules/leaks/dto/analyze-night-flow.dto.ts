@@ -0,0 +1,93 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { FLOW_UNITS } from '../../../common/utils/units.util';
+
+export class AnalyzeNightFlowDto {
+  @ApiPropertyOptional({
+    description:
+      'Analyze every DMA of this network (required unless partitionId is given)',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  networkId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Analyze a single DMA partition',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  partitionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'First night to analyze (default: endDate)',
+    example: '2024-01-15',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last night to analyze (default: the most recent complete night)',
+    example: '2024-01-21',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Offset of local time from UTC in minutes; the 02:00-04:00 window is local time (default: 0)',
+    example: 60,
+    minimum: -720,
+    maximum: 840,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(-720)
+  @Max(840)
+  utcOffsetMinutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Number of recent nights the trend is fitted over (default: 14)',
+    example: 14,
+    minimum: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(3)
+  trendDays?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Rise in net night flow over the trend period that raises a leak detection (default: 1.0 L/s)',
+    example: 1.0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  trendMargin?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Unit the trend margin is given in (default: L/s). Converted to L/s before comparison',
+    example: 'm3/h',
+    enum: FLOW_UNITS,
+  })
+  @IsOptional()
+  @IsIn(FLOW_UNITS)
+  trendMarginUnit?: string;
+}
@@ -0,0 +1,100 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { FLOW_UNITS } from '../../../common/utils/units.util';
+
+export class CreateDetectionScheduleDto {
+  @ApiProperty({
+    description: 'Network whose DMAs are checked',
+    example: 'uuid-here',
+  })
+  @IsString()
+  networkId: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the schedule runs (default: true)',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({
+    description: 'Seconds between the starts of two runs',
+    example: 900,
+    minimum: 60,
+  })
+  @IsInt()
+  @Min(60)
+  intervalSeconds: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Time window in seconds averaged for each DMA (default: 300 = 5 minutes)',
+    example: 300,
+    minimum: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  timeWindow?: number;
+
+  @ApiPropertyOptional({
+    description: 'Flow imbalance threshold in L/s (default: 5.0)',
+    example: 5.0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  threshold?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Unit the threshold is given in (default: L/s). Converted to L/s before it is stored',
+    example: 'm3/h',
+    enum: FLOW_UNITS,
+  })
+  @IsOptional()
+  @IsIn(FLOW_UNITS)
+  thresholdUnit?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Localize the detections each run raises with the network defaults (default: false)',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  autoLocalize?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Run minimum night flow analysis for every DMA once a day, after the night window has ended (default: false)',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  analyzeNightFlow?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Offset of local time from UTC in minutes; the 02:00-04:00 night window is local time (default: 0)',
+    example: 60,
+    minimum: -720,
+    maximum: 840,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(-720)
+  @Max(840)
+  utcOffsetMinutes?: number;
+}
@@ -2,11 +2,13 @@ import { ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsOptional,
   IsDateString,
+  IsIn,
   IsInt,
   IsNumber,
   IsString,
   Min,
 } from 'class-validator';
+import { FLOW_UNITS } from '../../../common/utils/units.util';
 
 export class DetectLeaksDto {
   @ApiPropertyOptional({
@@ -46,6 +48,16 @@ export class DetectLeaksDto {
   @Min(0)
   threshold?: number;
 
+  @ApiPropertyOptional({
+    description:
+      'Unit the threshold is given in (default: L/s). Converted to L/s before comparison',
+    example: 'm3/h',
+    enum: FLOW_UNITS,
+  })
+  @IsOptional()
+  @IsIn(FLOW_UNITS)
+  thresholdUnit?: string;
+
   @ApiPropertyOptional({
     description:
       'Specific node ID to check (if not provided, checks all nodes)',
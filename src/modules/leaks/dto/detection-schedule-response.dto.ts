@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ScheduleRunStatus } from '@prisma/client';
+
+export class DetectionScheduleResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Seconds between the starts of two runs',
+    example: 900,
+  })
+  intervalSeconds: number;
+
+  @ApiProperty({ example: 300 })
+  timeWindow: number;
+
+  @ApiProperty({ example: 5.0, description: 'Threshold in L/s' })
+  threshold: number;
+
+  @ApiPropertyOptional({
+    example: 'm3/h',
+    description: 'Unit the threshold was submitted in',
+  })
+  thresholdUnit?: string;
+
+  @ApiProperty({ example: false })
+  autoLocalize: boolean;
+
+  @ApiProperty({ example: true })
+  analyzeNightFlow: boolean;
+
+  @ApiProperty({ example: 60 })
+  utcOffsetMinutes: number;
+
+  @ApiPropertyOptional({
+    description: 'Latest night analyzed by the schedule',
+    example: '2024-01-24T00:00:00.000Z',
+  })
+  lastNightFlowDate?: Date;
+
+  @ApiPropertyOptional({
+    enum: ScheduleRunStatus,
+    example: ScheduleRunStatus.SUCCEEDED,
+  })
+  lastRunStatus?: ScheduleRunStatus;
+
+  @ApiPropertyOptional({ example: '2024-01-25T10:00:00.000Z' })
+  lastRunStartedAt?: Date;
+
+  @ApiPropertyOptional({ example: '2024-01-25T10:00:04.000Z' })
+  lastRunFinishedAt?: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Last sign of life from the server running the run. Running runs silent for 5 minutes are failed',
+    example: '2024-01-25T10:00:00.000Z',
+  })
+  lastRunHeartbeatAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Detections raised by the last run',
+    example: 1,
+  })
+  lastRunDetections?: number;
+
+  @ApiPropertyOptional({
+    description: 'Error message if the last run failed',
+  })
+  lastRunError?: string;
+
+  @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -1,5 +1,11 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { LeakSeverity, LeakStatus } from '@prisma/client';
+import {
+  DetectionMethod,
+  LeakSeverity,
+  LeakStatus,
+  LocalizationAlgorithm,
+} from '@prisma/client';
+import { LeakStatusChangeResponseDto } from './leak-status-change-response.dto';
 
 export class LeakDetectionResponseDto {
   @ApiProperty({ example: 'uuid-here' })
@@ -17,9 +23,19 @@ export class LeakDetectionResponseDto {
   @ApiPropertyOptional({ example: 'uuid-here' })
   partitionId?: string;
 
-  @ApiProperty({ example: 15.5, description: 'Flow imbalance in L/s' })
+  @ApiProperty({
+    example: 15.5,
+    description:
+      'Flow imbalance in L/s; for night flow detections, the rise in net night flow over the trend period',
+  })
   flowImbalance: number;
 
+  @ApiProperty({
+    enum: DetectionMethod,
+    example: DetectionMethod.MASS_BALANCE,
+  })
+  detectionMethod: DetectionMethod;
+
   @ApiProperty({ enum: LeakSeverity, example: LeakSeverity.MEDIUM })
   severity: LeakSeverity;
 
@@ -35,9 +51,100 @@ export class LeakDetectionResponseDto {
   @ApiPropertyOptional({ example: 300 })
   timeWindow?: number;
 
-  @ApiPropertyOptional({ example: 5.0 })
+  @ApiPropertyOptional({ example: 5.0, description: 'Threshold in L/s' })
   threshold?: number;
 
+  @ApiPropertyOptional({
+    example: 'm3/h',
+    description: 'Unit the threshold was submitted in',
+  })
+  thresholdUnit?: string;
+
+  @ApiPropertyOptional({
+    example: 14.2,
+    description:
+      'Leak size in L/s fitted at the localized node, for comparison with flowImbalance',
+  })
+  estimatedLeakFlow?: number;
+
+  @ApiPropertyOptional({
+    enum: LocalizationAlgorithm,
+    description: 'Algorithm used to localize the leak',
+  })
+  localizationAlgorithm?: LocalizationAlgorithm;
+
+  @ApiPropertyOptional({
+    description: 'Incident this detection is grouped into',
+    example: 'uuid-here',
+  })
+  incidentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Node nearest to where the leak was found in the field',
+    example: 'uuid-here',
+  })
+  repairNodeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Where the leak was found, as reported by the field crew',
+    example: '12 Mill Lane, service pipe joint',
+  })
+  repairLocation?: string;
+
+  @ApiPropertyOptional({
+    example: 2.5,
+    description: 'Leak size found in the field in L/s',
+  })
+  repairedLeakFlow?: number;
+
+  @ApiPropertyOptional({
+    example: 'm3/h',
+    description: 'Unit the repaired leak size was submitted in',
+  })
+  repairedLeakFlowUnit?: string;
+
+  @ApiPropertyOptional({ example: '2024-01-26T09:00:00.000Z' })
+  resolvedAt?: Date;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description:
+      'Position of the repair node in the localization ranking, 1 being the top candidate',
+  })
+  localizationRank?: number;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Network hops between the localized node and the repair node',
+  })
+  localizationHopDistance?: number;
+
+  @ApiPropertyOptional({
+    example: 140.5,
+    description:
+      'Straight-line distance between the localized node and the repair node, in map coordinate units',
+  })
+  localizationDistance?: number;
+
+  @ApiProperty({
+    example: ['HH_014'],
+    description:
+      'Sensors without readings in the window whose flow was imputed for the mass balance',
+  })
+  imputedSensors: string[];
+
+  @ApiPropertyOptional({
+    example: 0.04,
+    description: 'Share of the balanced flow that was imputed',
+  })
+  imputedFraction?: number;
+
+  @ApiPropertyOptional({
+    type: [LeakStatusChangeResponseDto],
+    description: 'Status changes, oldest first (detection details only)',
+  })
+  statusChanges?: LeakStatusChangeResponseDto[];
+
   @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
   createdAt: Date;
 
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DetectionMethod, IncidentStatus, LeakSeverity } from '@prisma/client';
+import { LeakDetectionResponseDto } from './leak-detection-response.dto';
+
+export class LeakIncidentResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  nodeId: string;
+
+  @ApiPropertyOptional({ example: 'uuid-here' })
+  partitionId?: string;
+
+  @ApiProperty({
+    enum: DetectionMethod,
+    example: DetectionMethod.MASS_BALANCE,
+  })
+  detectionMethod: DetectionMethod;
+
+  @ApiProperty({ enum: IncidentStatus, example: IncidentStatus.OPEN })
+  status: IncidentStatus;
+
+  @ApiProperty({
+    enum: LeakSeverity,
+    example: LeakSeverity.MEDIUM,
+    description: 'Severity of the latest detection',
+  })
+  severity: LeakSeverity;
+
+  @ApiProperty({
+    example: '2024-01-25T10:00:00.000Z',
+    description: 'Reading timestamp of the first detection',
+  })
+  firstSeenAt: Date;
+
+  @ApiProperty({
+    example: '2024-01-25T14:35:00.000Z',
+    description: 'Reading timestamp of the latest detection',
+  })
+  lastSeenAt: Date;
+
+  @ApiProperty({ example: 18.2, description: 'Largest flow imbalance in L/s' })
+  peakImbalance: number;
+
+  @ApiProperty({
+    example: 15.5,
+    description: 'Flow imbalance of the latest detection in L/s',
+  })
+  latestImbalance: number;
+
+  @ApiProperty({ example: 56 })
+  detectionCount: number;
+
+  @ApiProperty({
+    example: 0,
+    description:
+      'Consecutive windows below the threshold since the latest detection',
+  })
+  clearWindows: number;
+
+  @ApiPropertyOptional({
+    example: '2024-01-25T15:00:00.000Z',
+    description: 'Reading timestamp of the window that closed the incident',
+  })
+  closedAt?: Date;
+
+  @ApiPropertyOptional({
+    type: [LeakDetectionResponseDto],
+    description: 'Grouped detections (incident details only)',
+  })
+  detections?: LeakDetectionResponseDto[];
+
+  @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-25T14:35:00.000Z' })
+  updatedAt: Date;
+}
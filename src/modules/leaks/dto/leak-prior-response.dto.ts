@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeakPriorSource } from '@prisma/client';
+
+export class LeakPriorResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ description: 'Network node UUID', example: 'uuid-here' })
+  nodeId: string;
+
+  @ApiPropertyOptional({ example: 'CAST_IRON' })
+  pipeMaterial?: string;
+
+  @ApiPropertyOptional({ example: 1968 })
+  installationYear?: number;
+
+  @ApiProperty({ description: 'Past bursts, as uploaded', example: 2 })
+  burstCount: number;
+
+  @ApiProperty({
+    description:
+      'Resolved detections whose leak was found at the node, counted as bursts on top of burstCount',
+    example: 1,
+  })
+  repairCount: number;
+
+  @ApiProperty({
+    description: 'Relative prior weight (nodes without a prior weigh 1)',
+    example: 3.5,
+  })
+  weight: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Weight given in the upload. Used instead of the computed weight when set',
+    example: 3.5,
+    nullable: true,
+  })
+  uploadedWeight?: number | null;
+
+  @ApiProperty({ enum: LeakPriorSource, example: LeakPriorSource.UPLOAD })
+  source: LeakPriorSource;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeakStatus } from '@prisma/client';
+
+export class LeakStatusChangeResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  detectionId: string;
+
+  @ApiProperty({ enum: LeakStatus, example: LeakStatus.LOCALIZED })
+  fromStatus: LeakStatus;
+
+  @ApiProperty({ enum: LeakStatus, example: LeakStatus.CONFIRMED })
+  toStatus: LeakStatus;
+
+  @ApiProperty({
+    description: 'Person or process that made the change',
+    example: 'j.smith',
+  })
+  changedBy: string;
+
+  @ApiPropertyOptional({
+    example: 'Crew confirmed water surfacing at the kerb',
+  })
+  note?: string;
+
+  @ApiProperty({ example: '2024-01-25T11:30:00.000Z' })
+  createdAt: Date;
+}
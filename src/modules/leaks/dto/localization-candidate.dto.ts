@@ -1,16 +1,83 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { NodeType } from '@prisma/client';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LocalizationAlgorithm, NodeType } from '@prisma/client';
 
 export class LocalizationCandidateDto {
-  @ApiProperty({ example: 'uuid-here' })
-  nodeId: string;
+  @ApiProperty({
+    description: 'Whether the candidate is a node or a pipe',
+    enum: ['NODE', 'LINK'],
+    example: 'NODE',
+  })
+  candidateType: 'NODE' | 'LINK';
 
-  @ApiProperty({ example: 'MAIN_01' })
-  nodeIdString: string;
+  @ApiPropertyOptional({ example: 'uuid-here' })
+  nodeId?: string;
+
+  @ApiPropertyOptional({ example: 'MAIN_01' })
+  nodeIdString?: string;
 
   @ApiProperty({ description: 'Localization score 0-1', example: 0.85 })
   score: number;
 
-  @ApiProperty({ enum: NodeType, example: NodeType.JUNCTION })
-  nodeType: NodeType;
+  @ApiProperty({
+    description: 'Algorithm that produced the score',
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BLENDED,
+  })
+  algorithm: LocalizationAlgorithm;
+
+  @ApiProperty({
+    description: 'Best-fit leak flow at this candidate in L/s',
+    example: 12.4,
+  })
+  estimatedLeakFlow: number;
+
+  @ApiProperty({
+    description: '95% confidence interval of the leak flow in L/s',
+    example: { lower: 9.8, upper: 15.0 },
+  })
+  confidenceInterval: { lower: number; upper: number };
+
+  @ApiPropertyOptional({
+    description:
+      'Normalized prior probability of a leak at this node (Bayesian scoring only)',
+    example: 0.04,
+  })
+  prior?: number;
+
+  @ApiPropertyOptional({ enum: NodeType, example: NodeType.JUNCTION })
+  nodeType?: NodeType;
+
+  @ApiPropertyOptional({ description: 'Pipe UUID', example: 'uuid-here' })
+  linkId?: string;
+
+  @ApiPropertyOptional({ example: 'P_101' })
+  linkIdString?: string;
+
+  @ApiPropertyOptional({ example: 'uuid-here' })
+  fromNodeId?: string;
+
+  @ApiPropertyOptional({ example: 'J_12' })
+  fromNodeIdString?: string;
+
+  @ApiPropertyOptional({ example: 'uuid-here' })
+  toNodeId?: string;
+
+  @ApiPropertyOptional({ example: 'J_13' })
+  toNodeIdString?: string;
+
+  @ApiPropertyOptional({ description: 'Pipe length in m', example: 120.5 })
+  length?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Estimated leak position along the pipe, from the from node (0) to the to node (1)',
+    example: 0.35,
+  })
+  position?: number;
+
+  @ApiPropertyOptional({
+    description: 'Estimated distance of the leak from the from node in m',
+    example: 42.2,
+  })
+  distanceFromStart?: number;
 }
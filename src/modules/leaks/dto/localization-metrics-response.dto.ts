@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LocalizationAlgorithm } from '@prisma/client';
+
+export class LocalizationMetricsResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BLENDED,
+  })
+  algorithm: LocalizationAlgorithm;
+
+  @ApiProperty({ example: 'uuid-here' })
+  matrixVersionId: string;
+
+  @ApiPropertyOptional({
+    description: 'Sequential version number of the matrix version',
+    example: 3,
+  })
+  matrixVersion?: number;
+
+  @ApiProperty({
+    description: 'Localized leaks resolved at a known node',
+    example: 24,
+  })
+  evaluatedCount: number;
+
+  @ApiProperty({
+    description: 'Share of evaluated leaks whose repair node ranked first',
+    example: 0.42,
+  })
+  top1Rate: number;
+
+  @ApiProperty({
+    description:
+      'Share of evaluated leaks whose repair node ranked in the top 5',
+    example: 0.75,
+  })
+  top5Rate: number;
+
+  @ApiProperty({
+    description:
+      'Share of evaluated leaks whose repair node ranked in the top 10',
+    example: 0.88,
+  })
+  top10Rate: number;
+
+  @ApiProperty({
+    description:
+      'Evaluated leaks whose repair node was not among the candidates, e.g. outside the DMA',
+    example: 1,
+  })
+  notRankedCount: number;
+
+  @ApiPropertyOptional({
+    description: 'Mean rank of the repair node, over leaks where it was ranked',
+    example: 3.6,
+  })
+  meanRank?: number;
+
+  @ApiPropertyOptional({ example: 2 })
+  medianRank?: number;
+
+  @ApiPropertyOptional({
+    description: 'Mean links between the localized and repair nodes',
+    example: 2.1,
+  })
+  meanHopDistance?: number;
+
+  @ApiPropertyOptional({ example: 7 })
+  maxHopDistance?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Mean straight-line distance between the localized and repair nodes, in map coordinate units',
+    example: 184.5,
+  })
+  meanDistance?: number;
+
+  @ApiPropertyOptional({ example: 120.2 })
+  medianDistance?: number;
+}
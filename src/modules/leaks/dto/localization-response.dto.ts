@@ -1,4 +1,13 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LocalizationAlgorithm } from '@prisma/client';
+
+export class EstimatedLeakDto {
+  @ApiProperty({ example: 'uuid-here' })
+  nodeId: string;
+
+  @ApiProperty({ description: 'Estimated leak size in L/s', example: 3.2 })
+  estimatedSize: number;
+}
 
 export class LocalizationResponseDto {
   @ApiProperty({ example: 'uuid-here' })
@@ -13,16 +22,59 @@ export class LocalizationResponseDto {
   @ApiProperty({ description: 'Confidence score 0-1', example: 0.85 })
   localizationScore: number;
 
+  @ApiProperty({
+    description: 'Algorithm that produced the scores',
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BLENDED,
+  })
+  algorithm: LocalizationAlgorithm;
+
   @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
   localizedAt: Date;
 
+  @ApiProperty({
+    description: 'Sensitivity matrix version used for localization',
+    example: 'uuid-here',
+  })
+  matrixVersionId: string;
+
+  @ApiProperty({
+    description: 'Time-of-day slice (0-23) of the matrix version used',
+    example: 3,
+  })
+  matrixHourOfDay: number;
+
+  @ApiProperty({
+    description:
+      'Leak size in L/s fitted at the localized node, for comparison with flowImbalance',
+    example: 14.2,
+  })
+  estimatedLeakFlow: number;
+
   @ApiProperty({
     type: [Object],
-    description: 'Top candidate nodes with scores',
+    description:
+      'Top candidate nodes with scores and best-fit leak flow (L/s) with its 95% confidence interval, plus the node prior for Bayesian scoring',
   })
   candidateNodes: Array<{
     nodeId: string;
-    nodeIdString: string;
     score: number;
+    estimatedLeakFlow: number;
+    confidenceInterval: { lower: number; upper: number };
+    prior?: number;
   }>;
+
+  @ApiPropertyOptional({
+    type: [EstimatedLeakDto],
+    description:
+      'Simultaneous leaks explaining the sensor changes, largest first (only when maxLeaks > 1)',
+  })
+  leaks?: EstimatedLeakDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Share (0-1) of the observed sensor changes explained by the leaks (only when maxLeaks > 1)',
+    example: 0.92,
+  })
+  residualExplained?: number;
 }
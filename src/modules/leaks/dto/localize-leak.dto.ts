@@ -1,10 +1,13 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { LocalizationAlgorithm } from '@prisma/client';
 import {
+  IsEnum,
   IsOptional,
   IsString,
   IsArray,
   IsInt,
   Min,
+  Max,
 } from 'class-validator';
 
 export class LocalizeLeakDto {
@@ -36,4 +39,27 @@ export class LocalizeLeakDto {
   @IsInt()
   @Min(300)
   baselineTimeWindow?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Maximum number of simultaneous leaks to explain the sensor changes with (default: 1). Above 1, a greedy least-squares search returns each leak with its estimated size',
+    example: 2,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  maxLeaks?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Scoring algorithm used to rank candidates (default: the network's configured algorithm, BLENDED unless changed)",
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BAYESIAN,
+  })
+  @IsOptional()
+  @IsEnum(LocalizationAlgorithm)
+  algorithm?: LocalizationAlgorithm;
 }
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { NightUseSource } from '@prisma/client';
+import { LeakDetectionResponseDto } from './leak-detection-response.dto';
+
+export class NightFlowResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  partitionId: string;
+
+  @ApiProperty({
+    description: 'Night the 02:00-04:00 window belongs to',
+    example: '2024-01-15T00:00:00.000Z',
+  })
+  date: Date;
+
+  @ApiProperty({
+    description: 'Lowest 15-minute average DMA inflow in the window, in L/s',
+    example: 4.2,
+  })
+  minimumInflow: number;
+
+  @ApiProperty({
+    description: 'Start of the 15-minute bucket with the minimum',
+    example: '2024-01-15T02:45:00.000Z',
+  })
+  minimumAt: Date;
+
+  @ApiProperty({
+    description: 'Estimated legitimate customer night use, in L/s',
+    example: 1.1,
+  })
+  legitimateNightUse: number;
+
+  @ApiProperty({
+    enum: NightUseSource,
+    example: NightUseSource.HOUSEHOLD_SENSORS,
+  })
+  nightUseSource: NightUseSource;
+
+  @ApiProperty({
+    description: 'Minimum inflow less legitimate night use, in L/s',
+    example: 3.1,
+  })
+  netNightFlow: number;
+
+  @ApiProperty({ example: '2024-01-16T06:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-16T06:00:00.000Z' })
+  updatedAt: Date;
+}
+
+export class AnalyzeNightFlowResponseDto {
+  @ApiProperty({
+    description: 'Nights analyzed; nights without inflow readings are skipped',
+    type: [NightFlowResponseDto],
+  })
+  nights: NightFlowResponseDto[];
+
+  @ApiProperty({
+    description: 'Leak detections raised for DMAs with a rising night flow',
+    type: [LeakDetectionResponseDto],
+  })
+  detections: LeakDetectionResponseDto[];
+}
@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsNumber, IsOptional, Min } from 'class-validator';
+
+export class NightFlowSettingsDto {
+  @ApiPropertyOptional({
+    description:
+      'Number of service connections in the DMA (null counts the household nodes)',
+    example: 250,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  connectionCount?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Legitimate night use per connection without a household sensor, in L/h (null uses the default of 1.7)',
+    example: 1.7,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  nightUseAllowance?: number | null;
+}
@@ -1,7 +1,15 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsEnum, IsDateString } from 'class-validator';
-import { LeakStatus, LeakSeverity } from '@prisma/client';
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsDateString,
+  IsIn,
+} from 'class-validator';
+import { IncidentStatus, LeakStatus, LeakSeverity } from '@prisma/client';
 import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { DETECTION_VIEWS } from '../services/leak-incident.service';
+import type { DetectionView } from '../services/leak-incident.service';
 
 export class QueryLeakDetectionsDto extends PaginationDto {
   @ApiPropertyOptional({
@@ -61,4 +69,23 @@ export class QueryLeakDetectionsDto extends PaginationDto {
   @IsOptional()
   @IsDateString()
   endDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Return individual detections or incidents grouping consecutive detections at the same node or DMA (default: detections)',
+    enum: DETECTION_VIEWS,
+    default: 'detections',
+  })
+  @IsOptional()
+  @IsIn(DETECTION_VIEWS)
+  view?: DetectionView;
+
+  @ApiPropertyOptional({
+    description: 'Filter incidents by status (incident view only)',
+    enum: IncidentStatus,
+    example: IncidentStatus.OPEN,
+  })
+  @IsOptional()
+  @IsEnum(IncidentStatus)
+  incidentStatus?: IncidentStatus;
 }
@@ -0,0 +1,46 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+import { LocalizationAlgorithm } from '@prisma/client';
+
+export class QueryLocalizationMetricsDto {
+  @ApiPropertyOptional({
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  networkId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by localization algorithm',
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BAYESIAN,
+  })
+  @IsOptional()
+  @IsEnum(LocalizationAlgorithm)
+  algorithm?: LocalizationAlgorithm;
+
+  @ApiPropertyOptional({
+    description: 'Filter by sensitivity matrix version ID',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  matrixVersionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only leaks resolved at or after this time (ISO 8601)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only leaks resolved at or before this time (ISO 8601)',
+    example: '2024-12-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class QueryNightFlowDto {
+  @ApiPropertyOptional({
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  networkId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by DMA partition ID',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  partitionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'First night to return',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last night to return',
+    example: '2024-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
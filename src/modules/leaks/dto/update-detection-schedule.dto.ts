@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateDetectionScheduleDto } from './create-detection-schedule.dto';
+
+export class UpdateDetectionScheduleDto extends PartialType(
+  OmitType(CreateDetectionScheduleDto, ['networkId'] as const),
+) {}
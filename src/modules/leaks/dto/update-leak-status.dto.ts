@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { LeakStatus } from '@prisma/client';
+import { FLOW_UNITS } from '../../../common/utils/units.util';
+
+export class UpdateLeakStatusDto {
+  @ApiProperty({
+    description:
+      'New status. LOCALIZED is only set by localization, and RESOLVED requires the repair details',
+    enum: LeakStatus,
+    example: LeakStatus.CONFIRMED,
+  })
+  @IsEnum(LeakStatus)
+  status: LeakStatus;
+
+  @ApiProperty({
+    description: 'Who made the change, recorded in the audit trail',
+    example: 'j.smith',
+  })
+  @IsString()
+  @IsNotEmpty()
+  changedBy: string;
+
+  @ApiPropertyOptional({
+    description: 'Note recorded with the change',
+    example: 'Crew confirmed water surfacing at the kerb',
+  })
+  @IsOptional()
+  @IsString()
+  note?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Network node UUID nearest to where the leak was found (RESOLVED only)',
+    example: 'uuid-here',
+  })
+  @IsOptional()
+  @IsString()
+  repairNodeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Where the leak was found, e.g. an address (RESOLVED only)',
+    example: '12 Mill Lane, service pipe joint',
+  })
+  @IsOptional()
+  @IsString()
+  repairLocation?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Leak size found in the field, in L/s unless a unit is given (required for RESOLVED)',
+    example: 2.5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  repairedLeakFlow?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Unit the repaired leak size is given in (default: L/s). Converted to L/s before it is stored',
+    example: 'm3/h',
+    enum: FLOW_UNITS,
+  })
+  @IsOptional()
+  @IsIn(FLOW_UNITS)
+  repairedLeakFlowUnit?: string;
+}
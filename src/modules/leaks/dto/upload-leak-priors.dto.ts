@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class LeakPriorEntryDto {
+  @ApiProperty({
+    description: 'Node identifier within the network (e.g., J_12)',
+    example: 'J_12',
+  })
+  @IsString()
+  nodeId: string;
+
+  @ApiPropertyOptional({
+    description: 'Pipe material around the node',
+    example: 'CAST_IRON',
+  })
+  @IsOptional()
+  @IsString()
+  pipeMaterial?: string;
+
+  @ApiPropertyOptional({
+    description: 'Installation year of the pipes around the node',
+    example: 1968,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1800)
+  @Max(2100)
+  installationYear?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of past bursts recorded near the node',
+    example: 2,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  burstCount?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Relative prior weight. If omitted it is derived from material, age and burst count',
+    example: 3.5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight?: number;
+}
+
+export class UploadLeakPriorsDto {
+  @ApiProperty({
+    description: 'Network ID the nodes belong to',
+    example: 'uuid-here',
+  })
+  @IsString()
+  networkId: string;
+
+  @ApiProperty({
+    description: 'Prior data per node',
+    type: [LeakPriorEntryDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => LeakPriorEntryDto)
+  priors: LeakPriorEntryDto[];
+}
@@ -2,11 +2,14 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
   HttpCode,
   HttpStatus,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -14,7 +17,9 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiExtraModels,
 } from '@nestjs/swagger';
+import { LocalizationAlgorithm } from '@prisma/client';
 import { LeaksService } from './leaks.service';
 import { DetectLeaksDto } from './dto/detect-leaks.dto';
 import { LeakDetectionResponseDto } from './dto/leak-detection-response.dto';
@@ -24,11 +29,46 @@ import { LocalizationResponseDto } from './dto/localization-response.dto';
 import { LocalizationCandidateDto } from './dto/localization-candidate.dto';
 import { AnalyzeLeaksDto } from './dto/analyze-leaks.dto';
 import { AnalyzeLeaksResponseDto } from './dto/analyze-leaks-response.dto';
+import { UploadLeakPriorsDto } from './dto/upload-leak-priors.dto';
+import { LeakPriorResponseDto } from './dto/leak-prior-response.dto';
+import { LeakPriorService } from './services/leak-prior.service';
+import { AnalyzeNightFlowDto } from './dto/analyze-night-flow.dto';
+import { QueryNightFlowDto } from './dto/query-night-flow.dto';
+import { NightFlowSettingsDto } from './dto/night-flow-settings.dto';
+import {
+  AnalyzeNightFlowResponseDto,
+  NightFlowResponseDto,
+} from './dto/night-flow-response.dto';
+import { NightFlowService } from './services/night-flow.service';
+import { CreateDetectionScheduleDto } from './dto/create-detection-schedule.dto';
+import { UpdateDetectionScheduleDto } from './dto/update-detection-schedule.dto';
+import { DetectionScheduleResponseDto } from './dto/detection-schedule-response.dto';
+import { DetectionScheduleService } from './services/detection-schedule.service';
+import { LeakIncidentResponseDto } from './dto/leak-incident-response.dto';
+import { LeakIncidentService } from './services/leak-incident.service';
+import { UpdateLeakStatusDto } from './dto/update-leak-status.dto';
+import { LeakWorkflowService } from './services/leak-workflow.service';
+import { QueryLocalizationMetricsDto } from './dto/query-localization-metrics.dto';
+import { LocalizationMetricsResponseDto } from './dto/localization-metrics-response.dto';
+import { LocalizationMetricsService } from './services/localization-metrics.service';
+import {
+  CANDIDATE_TYPES,
+  CandidateType,
+} from './services/localization.service';
 
 @ApiTags('leaks')
+@ApiExtraModels(LeakIncidentResponseDto)
 @Controller('leaks')
 export class LeaksController {
-  constructor(private readonly leaksService: LeaksService) {}
+  constructor(
+    private readonly leaksService: LeaksService,
+    private readonly leakPriorService: LeakPriorService,
+    private readonly nightFlowService: NightFlowService,
+    private readonly detectionScheduleService: DetectionScheduleService,
+    private readonly leakIncidentService: LeakIncidentService,
+    private readonly leakWorkflowService: LeakWorkflowService,
+    private readonly localizationMetricsService: LocalizationMetricsService,
+  ) {}
 
   @Post('detect')
   @HttpCode(HttpStatus.CREATED)
@@ -51,16 +91,24 @@ export class LeaksController {
   }
 
   @Get('detections')
-  @ApiOperation({ summary: 'Get all leak detections with filters' })
+  @ApiOperation({
+    summary: 'Get all leak detections, or the incidents grouping them',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Paginated list of leak detections',
+    description:
+      'Paginated list of leak detections, or of incidents with view=incidents',
     schema: {
       type: 'object',
       properties: {
         data: {
           type: 'array',
-          items: { $ref: '#/components/schemas/LeakDetectionResponseDto' },
+          items: {
+            oneOf: [
+              { $ref: '#/components/schemas/LeakDetectionResponseDto' },
+              { $ref: '#/components/schemas/LeakIncidentResponseDto' },
+            ],
+          },
         },
         total: { type: 'number', example: 100 },
         page: { type: 'number', example: 1 },
@@ -72,6 +120,26 @@ export class LeaksController {
     return this.leaksService.findAll(query);
   }
 
+  @Get('incidents/:id')
+  @ApiOperation({ summary: 'Get leak incident with its detections' })
+  @ApiParam({
+    name: 'id',
+    description: 'Leak incident UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Leak incident details',
+    type: LeakIncidentResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Leak incident not found',
+  })
+  async findIncident(@Param('id') id: string) {
+    return this.leakIncidentService.findOne(id);
+  }
+
   @Get('detections/:id')
   @ApiOperation({ summary: 'Get leak detection by ID' })
   @ApiParam({
@@ -92,6 +160,38 @@ export class LeaksController {
     return this.leaksService.findOne(id);
   }
 
+  @Patch('detections/:id/status')
+  @ApiOperation({ summary: 'Change the status of a leak detection' })
+  @ApiParam({
+    name: 'id',
+    description: 'Leak detection UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Status changed and recorded in the audit trail',
+    type: LeakDetectionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Transition not allowed, or repair details missing when resolving',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Leak detection or repair node not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Status changed by someone else in the meantime',
+  })
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() updateLeakStatusDto: UpdateLeakStatusDto,
+  ) {
+    return this.leakWorkflowService.updateStatus(id, updateLeakStatusDto);
+  }
+
   @Get('detections/latest')
   @ApiOperation({ summary: 'Get most recent leak detections' })
   @ApiQuery({
@@ -137,11 +237,20 @@ export class LeaksController {
     status: 404,
     description: 'Leak detection not found',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Detection status changed while it was being localized',
+  })
   async localizeLeak(@Body() localizeLeakDto: LocalizeLeakDto) {
+    const options = {
+      maxLeaks: localizeLeakDto.maxLeaks,
+      algorithm: localizeLeakDto.algorithm,
+    };
     if (localizeLeakDto.detectionId) {
       const result = await this.leaksService.localizeLeak(
         localizeLeakDto.detectionId,
         localizeLeakDto.baselineTimeWindow,
+        options,
       );
       return [result];
     } else if (
@@ -151,11 +260,13 @@ export class LeaksController {
       return this.leaksService.localizeLeaks(
         localizeLeakDto.detectionIds,
         localizeLeakDto.baselineTimeWindow,
+        options,
       );
     } else {
       return this.leaksService.localizeLeaks(
         undefined,
         localizeLeakDto.baselineTimeWindow,
+        options,
       );
     }
   }
@@ -167,6 +278,20 @@ export class LeaksController {
     description: 'Leak detection UUID',
     example: 'uuid-here',
   })
+  @ApiQuery({
+    name: 'candidateType',
+    required: false,
+    enum: CANDIDATE_TYPES,
+    description:
+      'Return node candidates, pipe candidates with an estimated position, or both (default: NODE)',
+  })
+  @ApiQuery({
+    name: 'algorithm',
+    required: false,
+    enum: LocalizationAlgorithm,
+    description:
+      "Scoring algorithm (default: the network's configured algorithm)",
+  })
   @ApiResponse({
     status: 200,
     description: 'List of localization candidates',
@@ -180,8 +305,34 @@ export class LeaksController {
     status: 400,
     description: 'Sensitivity matrix not found or no sensor readings',
   })
-  async getLocalizationCandidates(@Param('id') id: string) {
-    return this.leaksService.getLocalizationCandidates(id);
+  async getLocalizationCandidates(
+    @Param('id') id: string,
+    @Query('candidateType') candidateType?: string,
+    @Query('algorithm') algorithm?: string,
+  ) {
+    if (
+      candidateType &&
+      !CANDIDATE_TYPES.includes(candidateType as CandidateType)
+    ) {
+      throw new BadRequestException(
+        `Invalid candidate type: ${candidateType}. Must be one of ${CANDIDATE_TYPES.join(', ')}`,
+      );
+    }
+    if (
+      algorithm &&
+      !Object.values(LocalizationAlgorithm).includes(
+        algorithm as LocalizationAlgorithm,
+      )
+    ) {
+      throw new BadRequestException(
+        `Invalid localization algorithm: ${algorithm}. Must be one of ${Object.values(LocalizationAlgorithm).join(', ')}`,
+      );
+    }
+    return this.leaksService.getLocalizationCandidates(
+      id,
+      candidateType as CandidateType | undefined,
+      algorithm as LocalizationAlgorithm | undefined,
+    );
   }
 
   @Post('analyze')
@@ -201,4 +352,262 @@ export class LeaksController {
   async analyzeLeaks(@Body() analyzeLeaksDto: AnalyzeLeaksDto) {
     return this.leaksService.analyzeLeaks(analyzeLeaksDto);
   }
+
+  @Post('priors')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Upload per-node leak priors for Bayesian localization',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Priors stored, replacing existing priors for the same nodes',
+    type: [LeakPriorResponseDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or nodes not in the network',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network not found',
+  })
+  async uploadPriors(@Body() uploadLeakPriorsDto: UploadLeakPriorsDto) {
+    return this.leakPriorService.upload(uploadLeakPriorsDto);
+  }
+
+  @Post('priors/from-history/:networkId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Derive leak priors from resolved leak detections',
+  })
+  @ApiParam({
+    name: 'networkId',
+    description: 'Network ID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Repair counts and weights updated from detection history',
+    type: [LeakPriorResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network not found',
+  })
+  async derivePriorsFromHistory(@Param('networkId') networkId: string) {
+    return this.leakPriorService.deriveFromHistory(networkId);
+  }
+
+  @Get('priors')
+  @ApiOperation({ summary: 'Get leak priors' })
+  @ApiQuery({
+    name: 'networkId',
+    required: false,
+    type: String,
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of leak priors',
+    type: [LeakPriorResponseDto],
+  })
+  async findPriors(@Query('networkId') networkId?: string) {
+    return this.leakPriorService.findAll(networkId);
+  }
+
+  @Post('mnf/analyze')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run minimum night flow analysis for DMAs',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Nightly minimum flows stored; detections raised for rising night flow',
+    type: AnalyzeNightFlowResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Partition not found',
+  })
+  async analyzeNightFlow(@Body() analyzeNightFlowDto: AnalyzeNightFlowDto) {
+    return this.nightFlowService.analyze(analyzeNightFlowDto);
+  }
+
+  @Get('mnf')
+  @ApiOperation({ summary: 'Get the daily minimum night flow series' })
+  @ApiResponse({
+    status: 200,
+    description: 'Minimum night flow per DMA and night',
+    type: [NightFlowResponseDto],
+  })
+  async findNightFlows(@Query() query: QueryNightFlowDto) {
+    return this.nightFlowService.findAll(query);
+  }
+
+  @Patch('mnf/partitions/:partitionId')
+  @ApiOperation({
+    summary: 'Update the night use settings of a DMA',
+  })
+  @ApiParam({
+    name: 'partitionId',
+    description: 'Partition UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Night use settings updated',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Partition not found',
+  })
+  async updateNightFlowSettings(
+    @Param('partitionId') partitionId: string,
+    @Body() nightFlowSettingsDto: NightFlowSettingsDto,
+  ) {
+    return this.nightFlowService.updateSettings(
+      partitionId,
+      nightFlowSettingsDto,
+    );
+  }
+
+  @Post('schedules')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Schedule leak detection for a network' })
+  @ApiResponse({
+    status: 201,
+    description: 'Detection schedule created',
+    type: DetectionScheduleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Network already has a detection schedule',
+  })
+  async createSchedule(
+    @Body() createDetectionScheduleDto: CreateDetectionScheduleDto,
+  ) {
+    return this.detectionScheduleService.create(createDetectionScheduleDto);
+  }
+
+  @Get('schedules')
+  @ApiOperation({ summary: 'Get all detection schedules' })
+  @ApiResponse({
+    status: 200,
+    description: 'Detection schedules with their last run status',
+    type: [DetectionScheduleResponseDto],
+  })
+  async findSchedules() {
+    return this.detectionScheduleService.findAll();
+  }
+
+  @Get('schedules/:id')
+  @ApiOperation({ summary: 'Get detection schedule by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Detection schedule UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Detection schedule details',
+    type: DetectionScheduleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Detection schedule not found',
+  })
+  async findSchedule(@Param('id') id: string) {
+    return this.detectionScheduleService.findOne(id);
+  }
+
+  @Patch('schedules/:id')
+  @ApiOperation({ summary: 'Update a detection schedule' })
+  @ApiParam({
+    name: 'id',
+    description: 'Detection schedule UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Detection schedule updated',
+    type: DetectionScheduleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Detection schedule not found',
+  })
+  async updateSchedule(
+    @Param('id') id: string,
+    @Body() updateDetectionScheduleDto: UpdateDetectionScheduleDto,
+  ) {
+    return this.detectionScheduleService.update(id, updateDetectionScheduleDto);
+  }
+
+  @Delete('schedules/:id')
+  @ApiOperation({ summary: 'Delete a detection schedule' })
+  @ApiParam({
+    name: 'id',
+    description: 'Detection schedule UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Detection schedule deleted',
+    type: DetectionScheduleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Detection schedule not found',
+  })
+  async removeSchedule(@Param('id') id: string) {
+    return this.detectionScheduleService.remove(id);
+  }
+
+  @Post('schedules/:id/run')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Run a detection schedule now' })
+  @ApiParam({
+    name: 'id',
+    description: 'Detection schedule UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Run finished; the schedule holds its status',
+    type: DetectionScheduleResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Detection schedule not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A run of this schedule is already in progress',
+  })
+  async runSchedule(@Param('id') id: string) {
+    return this.detectionScheduleService.runNow(id);
+  }
+
+  @Get('metrics')
+  @ApiOperation({
+    summary: 'Get localization accuracy measured against resolved leaks',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Accuracy per network, algorithm and matrix version',
+    type: [LocalizationMetricsResponseDto],
+  })
+  async getLocalizationMetrics(@Query() query: QueryLocalizationMetricsDto) {
+    return this.localizationMetricsService.getMetrics(query);
+  }
 }
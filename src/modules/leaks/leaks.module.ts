@@ -6,11 +6,41 @@ import { NetworkModule } from '../network/network.module';
 import { ReadingsModule } from '../readings/readings.module';
 import { MassBalanceService } from './services/mass-balance.service';
 import { LocalizationService } from './services/localization.service';
+import { LocalizationStrategyRegistry } from './services/localization-strategy.registry';
+import { AngleStrategy } from './services/strategies/angle.strategy';
+import { BayesianStrategy } from './services/strategies/bayesian.strategy';
+import { BlendedStrategy } from './services/strategies/blended.strategy';
+import { CosineStrategy } from './services/strategies/cosine.strategy';
+import { LeastSquaresStrategy } from './services/strategies/least-squares.strategy';
+import { NormalizedCorrelationStrategy } from './services/strategies/normalized-correlation.strategy';
+import { LeakPriorService } from './services/leak-prior.service';
+import { NightFlowService } from './services/night-flow.service';
+import { DetectionScheduleService } from './services/detection-schedule.service';
+import { LeakIncidentService } from './services/leak-incident.service';
+import { LeakWorkflowService } from './services/leak-workflow.service';
+import { LocalizationMetricsService } from './services/localization-metrics.service';
 
 @Module({
   imports: [PrismaModule, NetworkModule, ReadingsModule],
   controllers: [LeaksController],
-  providers: [LeaksService, MassBalanceService, LocalizationService],
+  providers: [
+    LeaksService,
+    MassBalanceService,
+    LocalizationService,
+    LocalizationStrategyRegistry,
+    BlendedStrategy,
+    CosineStrategy,
+    LeastSquaresStrategy,
+    NormalizedCorrelationStrategy,
+    AngleStrategy,
+    BayesianStrategy,
+    LeakPriorService,
+    NightFlowService,
+    DetectionScheduleService,
+    LeakIncidentService,
+    LeakWorkflowService,
+    LocalizationMetricsService,
+  ],
   exports: [LeaksService],
 })
 export class LeaksModule {}
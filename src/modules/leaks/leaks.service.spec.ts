@@ -0,0 +1,133 @@
+import { ConflictException } from '@nestjs/common';
+import {
+  DetectionMethod,
+  LeakSeverity,
+  LeakStatus,
+  LocalizationAlgorithm,
+} from '@prisma/client';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { ReadingsService } from '../readings/readings.service';
+import { LeaksService } from './leaks.service';
+import { LeakIncidentService } from './services/leak-incident.service';
+import { LocalizationService } from './services/localization.service';
+import { MassBalanceService } from './services/mass-balance.service';
+
+// p-limit is ESM only, and matrices are not generated here
+jest.mock('p-limit', () => jest.fn());
+
+function createService() {
+  const tx = {
+    leakDetection: {
+      create: jest.fn().mockResolvedValue({ id: 'd1' }),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 'd1' }),
+    },
+    leakStatusChange: {
+      create: jest.fn(),
+    },
+  };
+  const prisma = {
+    leakDetection: {
+      findUnique: jest
+        .fn()
+        .mockResolvedValue({ id: 'd1', status: LeakStatus.DETECTED }),
+    },
+    $transaction: jest.fn((run: (client: typeof tx) => Promise<unknown>) =>
+      run(tx),
+    ),
+  };
+  const localizationService = {
+    localizeLeakForDetection: jest.fn().mockResolvedValue({
+      localizedNodeId: 'node1',
+      localizationScore: 0.9,
+      estimatedLeakFlow: 2,
+      algorithm: LocalizationAlgorithm.BLENDED,
+      matrixVersionId: 'v1',
+      matrixHourOfDay: 3,
+      rankedNodeIds: ['node1'],
+      candidateNodes: [],
+    }),
+  };
+  const leakIncidentService = {
+    recordDetection: jest.fn().mockResolvedValue('inc1'),
+  };
+  const service = new LeaksService(
+    prisma as unknown as PrismaService,
+    {} as MassBalanceService,
+    localizationService as unknown as LocalizationService,
+    {} as ReadingsService,
+    leakIncidentService as unknown as LeakIncidentService,
+  );
+  return { service, prisma, tx, leakIncidentService };
+}
+
+describe('LeaksService', () => {
+  describe('createDetection', () => {
+    const timestamp = new Date('2026-03-01T12:00:00Z');
+
+    it('records the incident and the detection in one transaction', async () => {
+      const { service, prisma, tx, leakIncidentService } = createService();
+
+      await service.createDetection({
+        networkId: 'n1',
+        nodeId: 'node1',
+        partitionId: 'p1',
+        flowImbalance: 15,
+        timestamp,
+      });
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(leakIncidentService.recordDetection).toHaveBeenCalledWith(
+        {
+          networkId: 'n1',
+          nodeId: 'node1',
+          partitionId: 'p1',
+          detectionMethod: DetectionMethod.MASS_BALANCE,
+        },
+        { imbalance: 15, severity: LeakSeverity.MEDIUM, timestamp },
+        tx,
+      );
+      expect(tx.leakDetection.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            incidentId: 'inc1',
+            severity: LeakSeverity.MEDIUM,
+            status: LeakStatus.DETECTED,
+          }) as object,
+        }),
+      );
+    });
+  });
+
+  describe('localizeLeak', () => {
+    it('moves the detection from DETECTED to LOCALIZED', async () => {
+      const { service, tx } = createService();
+
+      await service.localizeLeak('d1');
+
+      expect(tx.leakDetection.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'd1', status: LeakStatus.DETECTED },
+        }),
+      );
+      expect(tx.leakStatusChange.create).toHaveBeenCalledWith({
+        data: {
+          detectionId: 'd1',
+          fromStatus: LeakStatus.DETECTED,
+          toStatus: LeakStatus.LOCALIZED,
+          changedBy: 'localization',
+        },
+      });
+    });
+
+    it('keeps a status change made while localization ran', async () => {
+      const { service, tx } = createService();
+      tx.leakDetection.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.localizeLeak('d1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(tx.leakStatusChange.create).not.toHaveBeenCalled();
+    });
+  });
+});
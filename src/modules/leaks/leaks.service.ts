@@ -2,16 +2,80 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { MassBalanceService } from './services/mass-balance.service';
-import { LocalizationService } from './services/localization.service';
+import {
+  MassBalanceResult,
+  MassBalanceService,
+} from './services/mass-balance.service';
+import {
+  CandidateType,
+  LeakEstimate,
+  LocalizationOptions,
+  LocalizationService,
+  NodeCandidate,
+} from './services/localization.service';
+import { LeakIncidentService } from './services/leak-incident.service';
+import { LOCALIZATION_ACTOR } from './services/leak-workflow.service';
 import { ReadingsService } from '../readings/readings.service';
 import { DetectLeaksDto } from './dto/detect-leaks.dto';
 import { QueryLeakDetectionsDto } from './dto/query-leak-detections.dto';
 import { AnalyzeLeaksDto } from './dto/analyze-leaks.dto';
-import { LeakSeverity, LeakStatus, NodeType, Prisma } from '@prisma/client';
+import {
+  DetectionMethod,
+  LeakSeverity,
+  LeakStatus,
+  LocalizationAlgorithm,
+  NodeType,
+  Prisma,
+} from '@prisma/client';
+import { toCanonicalUnit } from '../../common/utils/units.util';
+
+// Related records returned with every new detection
+const DETECTION_INCLUDE = {
+  network: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+    },
+  },
+  node: {
+    select: {
+      id: true,
+      nodeId: true,
+      nodeType: true,
+    },
+  },
+  partition: {
+    select: {
+      id: true,
+      partitionId: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.LeakDetectionInclude;
+
+export type LeakDetectionWithRelations = Prisma.LeakDetectionGetPayload<{
+  include: typeof DETECTION_INCLUDE;
+}>;
+
+// Related records returned with a localized detection
+const LOCALIZED_DETECTION_INCLUDE = {
+  node: DETECTION_INCLUDE.node,
+  partition: DETECTION_INCLUDE.partition,
+} satisfies Prisma.LeakDetectionInclude;
+
+export type LocalizedLeakDetection = Prisma.LeakDetectionGetPayload<{
+  include: typeof LOCALIZED_DETECTION_INCLUDE;
+}> & {
+  algorithm: LocalizationAlgorithm;
+  candidateNodes: NodeCandidate[];
+  leaks?: LeakEstimate[]; // Only when several leaks were fitted
+  residualExplained?: number;
+};
 
 @Injectable()
 export class LeaksService {
@@ -24,16 +88,24 @@ export class LeaksService {
     private readonly massBalanceService: MassBalanceService,
     private readonly localizationService: LocalizationService,
     private readonly readingsService: ReadingsService,
+    private readonly leakIncidentService: LeakIncidentService,
   ) {}
 
-  async detectLeaks(options: DetectLeaksDto) {
+  async detectLeaks(
+    options: DetectLeaksDto,
+  ): Promise<LeakDetectionWithRelations[]> {
     const timestamp = options.timestamp
       ? new Date(options.timestamp)
       : new Date();
-    const threshold = options.threshold ?? this.DEFAULT_THRESHOLD;
+    const threshold =
+      options.threshold !== undefined && options.thresholdUnit
+        ? toCanonicalUnit('FLOW', options.threshold, options.thresholdUnit)
+        : (options.threshold ?? this.DEFAULT_THRESHOLD);
+    const thresholdUnit =
+      options.threshold !== undefined ? options.thresholdUnit : undefined;
     const timeWindow = options.timeWindow ?? this.DEFAULT_TIME_WINDOW;
 
-    const detections: any[] = [];
+    const detections: LeakDetectionWithRelations[] = [];
 
     if (options.nodeId) {
       // Detect at specific node
@@ -42,6 +114,7 @@ export class LeaksService {
         timestamp,
         threshold,
         timeWindow,
+        thresholdUnit,
       );
       if (detection) {
         detections.push(detection);
@@ -53,34 +126,41 @@ export class LeaksService {
         timestamp,
         threshold,
         timeWindow,
+        thresholdUnit,
       );
       detections.push(...dmaDetections);
     } else {
-      // Detect at all junctions/nodes (filter by networkId if provided)
-      const where: any = {
-        nodeType: {
-          in: [NodeType.JUNCTION, NodeType.BRANCH],
-        },
-      };
-      if (options.networkId) {
-        where.networkId = options.networkId;
-      }
-
-      const nodes = await this.prisma.networkNode.findMany({
-        where,
-      });
-
-      for (const node of nodes) {
-        const detection = await this.detectLeakAtNode(
-          node.id,
+      // Detect at all junctions/nodes (filter by networkId if provided),
+      // balancing every node from one batch of readings
+      const massBalances =
+        await this.massBalanceService.calculateNetworkMassBalances(
           timestamp,
-          threshold,
-          timeWindow,
+          options.networkId,
         );
-        if (detection) {
-          detections.push(detection);
+
+      const clearNodeIds: string[] = [];
+      for (const massBalance of massBalances) {
+        if (massBalance.imbalance > threshold) {
+          detections.push(
+            await this.recordNodeDetection(
+              massBalance,
+              threshold,
+              timeWindow,
+              thresholdUnit,
+            ),
+          );
+        } else {
+          clearNodeIds.push(massBalance.nodeId);
         }
       }
+
+      await this.leakIncidentService.recordClear(
+        {
+          nodeId: { in: clearNodeIds },
+          detectionMethod: DetectionMethod.MASS_BALANCE,
+        },
+        timestamp,
+      );
     }
 
     return detections;
@@ -91,6 +171,7 @@ export class LeaksService {
     timestamp: Date,
     threshold: number = this.DEFAULT_THRESHOLD,
     timeWindow?: number,
+    thresholdUnit?: string,
   ) {
     // Calculate mass balance
     const massBalance = await this.massBalanceService.calculateMassBalance(
@@ -100,11 +181,28 @@ export class LeaksService {
 
     // Check if imbalance exceeds threshold
     if (massBalance.imbalance <= threshold) {
+      await this.leakIncidentService.recordClear(
+        { nodeId, detectionMethod: DetectionMethod.MASS_BALANCE },
+        timestamp,
+      );
       return null;
     }
 
-    // Determine severity
-    const severity = this.determineSeverity(massBalance.imbalance);
+    return this.recordNodeDetection(
+      massBalance,
+      threshold,
+      timeWindow,
+      thresholdUnit,
+    );
+  }
+
+  private async recordNodeDetection(
+    massBalance: MassBalanceResult,
+    threshold: number,
+    timeWindow?: number,
+    thresholdUnit?: string,
+  ) {
+    const { nodeId, timestamp } = massBalance;
 
     // Get partition if node belongs to one, and get networkId
     const node = await this.prisma.networkNode.findUnique({
@@ -124,46 +222,57 @@ export class LeaksService {
       throw new NotFoundException(`Node with ID ${nodeId} not found`);
     }
 
-    // Create detection
-    const detection = await this.prisma.leakDetection.create({
-      data: {
-        networkId: node.networkId,
-        nodeId,
-        partitionId: node.partition?.id,
-        flowImbalance: massBalance.imbalance,
-        severity,
-        status: LeakStatus.DETECTED,
-        detectedAt: new Date(),
-        timestamp,
-        timeWindow: timeWindow || null,
-        threshold,
-      },
-      include: {
-        network: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
-          },
+    return this.createDetection({
+      networkId: node.networkId,
+      nodeId,
+      partitionId: node.partition?.id,
+      flowImbalance: massBalance.imbalance,
+      timestamp,
+      timeWindow: timeWindow || null,
+      threshold,
+      thresholdUnit,
+    });
+  }
+
+  /**
+   * Store a new detection and add it to its incident in one transaction.
+   * Severity follows from the flow imbalance.
+   */
+  async createDetection(
+    data: Omit<
+      Prisma.LeakDetectionUncheckedCreateInput,
+      'severity' | 'status' | 'detectedAt' | 'incidentId'
+    >,
+  ): Promise<LeakDetectionWithRelations> {
+    const severity = this.determineSeverity(data.flowImbalance);
+
+    return this.prisma.$transaction(async (tx) => {
+      const incidentId = await this.leakIncidentService.recordDetection(
+        {
+          networkId: data.networkId,
+          nodeId: data.nodeId,
+          partitionId: data.partitionId,
+          detectionMethod: data.detectionMethod ?? DetectionMethod.MASS_BALANCE,
         },
-        node: {
-          select: {
-            id: true,
-            nodeId: true,
-            nodeType: true,
-          },
+        {
+          imbalance: data.flowImbalance,
+          severity,
+          timestamp: new Date(data.timestamp),
         },
-        partition: {
-          select: {
-            id: true,
-            partitionId: true,
-            name: true,
-          },
+        tx,
+      );
+
+      return tx.leakDetection.create({
+        data: {
+          ...data,
+          severity,
+          status: LeakStatus.DETECTED,
+          detectedAt: new Date(),
+          incidentId,
         },
-      },
+        include: DETECTION_INCLUDE,
+      });
     });
-
-    return detection;
   }
 
   async detectLeaksInDma(
@@ -171,7 +280,8 @@ export class LeaksService {
     timestamp: Date,
     threshold: number = this.DEFAULT_THRESHOLD,
     timeWindow: number = this.DEFAULT_TIME_WINDOW,
-  ) {
+    thresholdUnit?: string,
+  ): Promise<LeakDetectionWithRelations[]> {
     // Get partition to get networkId
     const partition = await this.prisma.networkPartition.findUnique({
       where: { id: partitionId },
@@ -192,58 +302,68 @@ export class LeaksService {
       timeWindow,
     );
 
-    const detections: any[] = [];
+    // Neither a detection nor a clear window when the balance is incomplete
+    // or mostly imputed
+    if (massBalance.detectionSuppressed) {
+      const missing = massBalance.missingSensors ?? [];
+      this.logger.warn(
+        missing.length > 0
+          ? `Detection suppressed for DMA ${partitionId} at ${timestamp.toISOString()}: no readings for ${missing.join(', ')}`
+          : `Detection suppressed for DMA ${partitionId} at ${timestamp.toISOString()}: ${((massBalance.imputedFraction ?? 0) * 100).toFixed(0)}% of the flow was imputed (${(massBalance.imputedSensors ?? []).map((sensor) => sensor.sensorId).join(', ')})`,
+      );
+      return [];
+    }
+
+    const detections: LeakDetectionWithRelations[] = [];
 
     // Check if DMA has imbalance
     if (massBalance.imbalance > threshold) {
-      const severity = this.determineSeverity(massBalance.imbalance);
+      const detection = await this.createDetection({
+        networkId: partition.networkId,
+        nodeId: massBalance.nodeId,
+        partitionId,
+        flowImbalance: massBalance.imbalance,
+        timestamp,
+        timeWindow: timeWindow || null,
+        threshold,
+        thresholdUnit,
+        imputedSensors: (massBalance.imputedSensors ?? []).map(
+          (sensor) => sensor.sensorId,
+        ),
+        imputedFraction: massBalance.imputedFraction,
+      });
 
-      const detection = await this.prisma.leakDetection.create({
-        data: {
-          networkId: partition.networkId,
+      detections.push(detection);
+    } else {
+      await this.leakIncidentService.recordClear(
+        {
           nodeId: massBalance.nodeId,
           partitionId,
-          flowImbalance: massBalance.imbalance,
-          severity,
-          status: LeakStatus.DETECTED,
-          detectedAt: new Date(),
-          timestamp,
-          timeWindow: timeWindow || null,
-          threshold,
+          detectionMethod: DetectionMethod.MASS_BALANCE,
         },
-        include: {
-          network: {
-            select: {
-              id: true,
-              name: true,
-              description: true,
-            },
-          },
-          node: {
-            select: {
-              id: true,
-              nodeId: true,
-              nodeType: true,
-            },
-          },
-          partition: {
-            select: {
-              id: true,
-              partitionId: true,
-              name: true,
-            },
-          },
-        },
-      });
-
-      detections.push(detection);
+        timestamp,
+      );
     }
 
     return detections;
   }
 
   async findAll(query: QueryLeakDetectionsDto) {
-    const { page = 1, limit = 10, networkId, nodeId, partitionId, status, severity, startDate, endDate } = query;
+    if (query.view === 'incidents') {
+      return this.leakIncidentService.findAll(query);
+    }
+
+    const {
+      page = 1,
+      limit = 10,
+      networkId,
+      nodeId,
+      partitionId,
+      status,
+      severity,
+      startDate,
+      endDate,
+    } = query;
     const skip = (page - 1) * limit;
 
     const where: Prisma.LeakDetectionWhereInput = {};
@@ -328,6 +448,9 @@ export class LeaksService {
         network: true,
         node: true,
         partition: true,
+        statusChanges: {
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -375,7 +498,8 @@ export class LeaksService {
   async localizeLeak(
     detectionId: string,
     baselineTimeWindow?: number,
-  ): Promise<any> {
+    options: LocalizationOptions = {},
+  ): Promise<LocalizedLeakDetection> {
     const detection = await this.prisma.leakDetection.findUnique({
       where: { id: detectionId },
     });
@@ -397,80 +521,91 @@ export class LeaksService {
       await this.localizationService.localizeLeakForDetection(
         detection,
         baselineTimeWindow,
+        options,
       );
 
-    // Update detection with localization results
-    const updatedDetection = await this.prisma.leakDetection.update({
-      where: { id: detectionId },
-      data: {
-        localizedNodeId: localizationResult.localizedNodeId,
-        localizationScore: localizationResult.localizationScore,
-        localizedAt: new Date(),
-        status: LeakStatus.LOCALIZED,
-      },
-      include: {
-        node: {
-          select: {
-            id: true,
-            nodeId: true,
-            nodeType: true,
-          },
+    // Update detection with localization results. The single-leak fields all
+    // come from the candidate ranking; a multi-leak solution is kept apart.
+    // A status change made while localization ran is not overwritten.
+    const updatedDetection = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.leakDetection.updateMany({
+        where: { id: detectionId, status: LeakStatus.DETECTED },
+        data: {
+          localizedNodeId: localizationResult.localizedNodeId,
+          localizationScore: localizationResult.localizationScore,
+          estimatedLeakFlow: localizationResult.estimatedLeakFlow,
+          multiLeakSolution: localizationResult.multiLeak
+            ? (localizationResult.multiLeak as unknown as Prisma.InputJsonValue)
+            : Prisma.DbNull,
+          localizationAlgorithm: localizationResult.algorithm,
+          localizedAt: new Date(),
+          matrixVersionId: localizationResult.matrixVersionId,
+          matrixHourOfDay: localizationResult.matrixHourOfDay,
+          candidateRanking: localizationResult.rankedNodeIds,
+          status: LeakStatus.LOCALIZED,
         },
-        partition: {
-          select: {
-            id: true,
-            partitionId: true,
-            name: true,
-          },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          `Leak detection with ID ${detectionId} left DETECTED status while it was being localized`,
+        );
+      }
+
+      await tx.leakStatusChange.create({
+        data: {
+          detectionId,
+          fromStatus: LeakStatus.DETECTED,
+          toStatus: LeakStatus.LOCALIZED,
+          changedBy: LOCALIZATION_ACTOR,
         },
-      },
+      });
+
+      return tx.leakDetection.findUniqueOrThrow({
+        where: { id: detectionId },
+        include: LOCALIZED_DETECTION_INCLUDE,
+      });
     });
 
     return {
       ...updatedDetection,
+      algorithm: localizationResult.algorithm,
       candidateNodes: localizationResult.candidateNodes,
+      ...(localizationResult.multiLeak && {
+        leaks: localizationResult.multiLeak.leaks,
+        residualExplained: localizationResult.multiLeak.residualExplained,
+      }),
     };
   }
 
   async localizeLeaks(
     detectionIds?: string[],
     baselineTimeWindow?: number,
-  ): Promise<any[]> {
-    let detections: any[];
-
-    if (detectionIds && detectionIds.length > 0) {
-      // Localize specific detections
-      detections = await this.prisma.leakDetection.findMany({
-        where: {
-          id: {
-            in: detectionIds,
-          },
-          status: LeakStatus.DETECTED,
-        },
-      });
-    } else {
-      // Localize all DETECTED leaks
-      detections = await this.prisma.leakDetection.findMany({
-        where: {
-          status: LeakStatus.DETECTED,
-        },
-      });
-    }
+    options: LocalizationOptions = {},
+  ): Promise<LocalizedLeakDetection[]> {
+    // Localize specific detections, or all DETECTED leaks
+    const detections = await this.prisma.leakDetection.findMany({
+      where: {
+        ...(detectionIds &&
+          detectionIds.length > 0 && { id: { in: detectionIds } }),
+        status: LeakStatus.DETECTED,
+      },
+      select: { id: true },
+    });
 
-    const results: any[] = [];
+    const results: LocalizedLeakDetection[] = [];
 
     for (const detection of detections) {
       try {
         const localized = await this.localizeLeak(
           detection.id,
           baselineTimeWindow,
+          options,
         );
         results.push(localized);
       } catch (error) {
         // Log error but continue with other detections
-        console.error(
-          `Failed to localize detection ${detection.id}:`,
-          error.message,
+        this.logger.error(
+          `Failed to localize detection ${detection.id}: ${error instanceof Error ? error.message : String(error)}`,
         );
       }
     }
@@ -478,7 +613,11 @@ export class LeaksService {
     return results;
   }
 
-  async getLocalizationCandidates(detectionId: string): Promise<any[]> {
+  async getLocalizationCandidates(
+    detectionId: string,
+    candidateType: CandidateType = 'NODE',
+    algorithm?: LocalizationAlgorithm,
+  ): Promise<any[]> {
     const detection = await this.prisma.leakDetection.findUnique({
       where: { id: detectionId },
     });
@@ -491,7 +630,11 @@ export class LeaksService {
 
     // Perform localization to get candidates
     const localizationResult =
-      await this.localizationService.localizeLeakForDetection(detection);
+      await this.localizationService.localizeLeakForDetection(
+        detection,
+        undefined,
+        { includeLinks: candidateType !== 'NODE', algorithm },
+      );
 
     // Get node details for candidates
     const candidateNodes = await Promise.all(
@@ -506,23 +649,75 @@ export class LeaksService {
         });
 
         return {
+          candidateType: 'NODE',
           nodeId: candidate.nodeId,
           nodeIdString: node?.nodeId || '',
           score: candidate.score,
+          algorithm: localizationResult.algorithm,
           nodeType: node?.nodeType,
+          estimatedLeakFlow: candidate.estimatedLeakFlow,
+          confidenceInterval: candidate.confidenceInterval,
+          prior: candidate.prior,
         };
       }),
     );
 
-    return candidateNodes;
+    if (candidateType === 'NODE') {
+      return candidateNodes;
+    }
+
+    // Get pipe and end node details for link candidates
+    const links = await this.prisma.networkLink.findMany({
+      where: {
+        id: {
+          in: localizationResult.candidateLinks.map((c) => c.linkId),
+        },
+      },
+      select: {
+        id: true,
+        linkId: true,
+        length: true,
+        fromNode: { select: { id: true, nodeId: true } },
+        toNode: { select: { id: true, nodeId: true } },
+      },
+    });
+    const linkMap = new Map(links.map((link) => [link.id, link]));
+
+    const candidateLinks = localizationResult.candidateLinks.map(
+      (candidate) => {
+        const link = linkMap.get(candidate.linkId);
+        return {
+          candidateType: 'LINK',
+          linkId: candidate.linkId,
+          linkIdString: link?.linkId || '',
+          score: candidate.score,
+          algorithm: localizationResult.algorithm,
+          estimatedLeakFlow: candidate.estimatedLeakFlow,
+          confidenceInterval: candidate.confidenceInterval,
+          fromNodeId: link?.fromNode.id,
+          fromNodeIdString: link?.fromNode.nodeId,
+          toNodeId: link?.toNode.id,
+          toNodeIdString: link?.toNode.nodeId,
+          length: link?.length,
+          position: candidate.position,
+          distanceFromStart: candidate.distanceFromStart,
+        };
+      },
+    );
+
+    if (candidateType === 'LINK') {
+      return candidateLinks;
+    }
+
+    return [...candidateNodes, ...candidateLinks].sort(
+      (a, b) => b.score - a.score,
+    );
   }
 
   async analyzeLeaks(analyzeDto: AnalyzeLeaksDto) {
     // Validate input
     if (!analyzeDto.readings || analyzeDto.readings.length === 0) {
-      throw new BadRequestException(
-        'Sensor readings array cannot be empty',
-      );
+      throw new BadRequestException('Sensor readings array cannot be empty');
     }
 
     if (!analyzeDto.timestamp) {
@@ -540,7 +735,9 @@ export class LeaksService {
 
     try {
       // 1. Store all sensor readings (batch insert)
-      this.logger.log(`Storing ${analyzeDto.readings.length} sensor readings...`);
+      this.logger.log(
+        `Storing ${analyzeDto.readings.length} sensor readings...`,
+      );
       const readingsResult = await this.readingsService.createBatchFromAnalysis(
         analyzeDto.readings,
         timestamp,
@@ -593,11 +790,13 @@ export class LeaksService {
             nodeType: NodeType;
             location: string | null;
           };
-          localizationScore: number;
+          localizationScore: number | null;
+          estimatedLeakFlow: number | null;
           topCandidates: Array<{
             nodeId: string;
             score: number;
             confidence: string;
+            estimatedLeakFlow: number;
           }>;
         };
       }> = [];
@@ -643,7 +842,7 @@ export class LeaksService {
           const topCandidates = (localizationResult.candidateNodes || [])
             .slice(0, 5)
             .map((candidate) => ({
-              nodeId: candidate.nodeId || candidate.nodeIdString || '',
+              nodeId: candidate.nodeId,
               score: candidate.score,
               confidence:
                 candidate.score > 0.8
@@ -651,6 +850,7 @@ export class LeaksService {
                   : candidate.score > 0.6
                     ? 'MEDIUM'
                     : 'LOW',
+              estimatedLeakFlow: candidate.estimatedLeakFlow,
             }));
 
           localizedDetections.push({
@@ -672,6 +872,7 @@ export class LeaksService {
                   }
                 : undefined,
               localizationScore: localizationResult.localizationScore,
+              estimatedLeakFlow: localizationResult.estimatedLeakFlow,
               topCandidates,
             },
           });
@@ -715,10 +916,7 @@ export class LeaksService {
         },
       };
     } catch (error) {
-      this.logger.error(
-        `Leak analysis failed: ${error.message}`,
-        error.stack,
-      );
+      this.logger.error(`Leak analysis failed: ${error.message}`, error.stack);
       throw new BadRequestException(
         `Failed to analyze leaks: ${error.message}`,
       );
@@ -0,0 +1,332 @@
+import { ConflictException } from '@nestjs/common';
+import { DetectionSchedule, ScheduleRunStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { HEARTBEAT_LEASE_MS } from '../../../common/utils/heartbeat.util';
+import { NetworkService } from '../../network/network.service';
+import { ReadingAggregateService } from '../../readings/services/reading-aggregate.service';
+import { LeaksService } from '../leaks.service';
+import { DetectionScheduleService } from './detection-schedule.service';
+import { LeakIncidentService } from './leak-incident.service';
+import { NightFlowService } from './night-flow.service';
+
+// p-limit is ESM only, and matrices are not generated here
+jest.mock('p-limit', () => jest.fn());
+
+const now = new Date('2026-03-02T05:00:00Z');
+
+// Runs are started without being awaited
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function schedule(overrides: Partial<DetectionSchedule> = {}) {
+  return {
+    id: 'sch1',
+    networkId: 'n1',
+    enabled: true,
+    intervalSeconds: 900,
+    timeWindow: 300,
+    threshold: 5,
+    thresholdUnit: null,
+    autoLocalize: false,
+    analyzeNightFlow: false,
+    utcOffsetMinutes: 0,
+    lastNightFlowDate: null,
+    lastRunStatus: null,
+    lastRunStartedAt: null,
+    lastRunFinishedAt: null,
+    lastRunHeartbeatAt: null,
+    lastRunDetections: null,
+    lastRunError: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  } satisfies DetectionSchedule;
+}
+
+function createService(schedules: DetectionSchedule[]) {
+  const prisma = {
+    detectionSchedule: {
+      findMany: jest.fn().mockResolvedValue(schedules),
+      findUnique: jest.fn().mockResolvedValue(schedules[0] ?? null),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn(),
+    },
+    networkPartition: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  };
+  const leaksService = {
+    detectLeaksInDma: jest.fn().mockResolvedValue([]),
+    localizeLeak: jest.fn(),
+  };
+  const nightFlowService = new NightFlowService(
+    {} as PrismaService,
+    {} as ReadingAggregateService,
+    {} as NetworkService,
+    {} as LeaksService,
+    {} as LeakIncidentService,
+  );
+  const latestNight = jest.spyOn(nightFlowService, 'latestNight');
+  const analyze = jest
+    .spyOn(nightFlowService, 'analyze')
+    .mockResolvedValue({ nights: [], detections: [] });
+  const service = new DetectionScheduleService(
+    prisma as unknown as PrismaService,
+    leaksService as unknown as LeaksService,
+    nightFlowService,
+  );
+  return { service, prisma, leaksService, latestNight, analyze };
+}
+
+describe('DetectionScheduleService', () => {
+  describe('runDueSchedules', () => {
+    const claim = (startedAt: Date) => ({
+      where: {
+        id: 'sch1',
+        OR: [
+          { lastRunStatus: null },
+          { lastRunStatus: { not: ScheduleRunStatus.RUNNING } },
+        ],
+      },
+      data: {
+        lastRunStatus: ScheduleRunStatus.RUNNING,
+        lastRunStartedAt: startedAt,
+        lastRunHeartbeatAt: startedAt,
+        lastRunError: null,
+      },
+    });
+
+    it('starts schedules whose interval has passed since the last start', async () => {
+      const { service, prisma } = createService([
+        schedule({ lastRunStartedAt: new Date(now.getTime() - 900 * 1000) }),
+        schedule({
+          id: 'sch2',
+          networkId: 'n2',
+          lastRunStartedAt: new Date(now.getTime() - 899 * 1000),
+        }),
+      ]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(prisma.detectionSchedule.findMany).toHaveBeenCalledWith({
+        where: { enabled: true },
+      });
+      expect(prisma.networkPartition.findMany).toHaveBeenCalledTimes(1);
+      expect(prisma.networkPartition.findMany).toHaveBeenCalledWith({
+        where: { networkId: 'n1' },
+        select: { id: true },
+      });
+    });
+
+    it('claims a run before detecting, unless one is already running', async () => {
+      const { service, prisma, leaksService } = createService([schedule()]);
+      prisma.networkPartition.findMany.mockResolvedValue([{ id: 'p1' }]);
+      prisma.detectionSchedule.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      const [[claimed]] = prisma.detectionSchedule.updateMany.mock.calls as [
+        [ReturnType<typeof claim>],
+      ];
+      expect(claimed).toEqual(claim(claimed.data.lastRunStartedAt));
+      expect(leaksService.detectLeaksInDma).not.toHaveBeenCalled();
+    });
+
+    it('detects in every DMA and records the outcome of the run', async () => {
+      const { service, prisma, leaksService } = createService([schedule()]);
+      prisma.networkPartition.findMany.mockResolvedValue([
+        { id: 'p1' },
+        { id: 'p2' },
+        { id: 'p3' },
+      ]);
+      leaksService.detectLeaksInDma
+        .mockResolvedValueOnce([{ id: 'd1' }])
+        .mockRejectedValueOnce(new Error('no mainline sensors'))
+        .mockResolvedValueOnce([{ id: 'd2' }]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      const startedAt = (
+        prisma.detectionSchedule.updateMany.mock.calls[0] as [
+          ReturnType<typeof claim>,
+        ]
+      )[0].data.lastRunStartedAt;
+      expect(leaksService.detectLeaksInDma).toHaveBeenCalledTimes(3);
+      expect(leaksService.detectLeaksInDma).toHaveBeenCalledWith(
+        'p1',
+        startedAt,
+        5,
+        300,
+        undefined,
+      );
+      expect(prisma.detectionSchedule.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'sch1', lastRunStartedAt: startedAt },
+        data: {
+          lastRunStatus: ScheduleRunStatus.FAILED,
+          lastRunFinishedAt: expect.any(Date) as Date,
+          lastRunDetections: 2,
+          lastRunError: 'Partition p2: no mainline sensors',
+        },
+      });
+      expect(leaksService.localizeLeak).not.toHaveBeenCalled();
+    });
+
+    it('localizes new detections when the schedule asks for it', async () => {
+      const { service, prisma, leaksService } = createService([
+        schedule({ autoLocalize: true }),
+      ]);
+      prisma.networkPartition.findMany.mockResolvedValue([{ id: 'p1' }]);
+      leaksService.detectLeaksInDma.mockResolvedValue([{ id: 'd1' }]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(leaksService.localizeLeak).toHaveBeenCalledWith('d1');
+    });
+  });
+
+  it('rejects running a schedule now while it runs', async () => {
+    const { service, prisma } = createService([schedule()]);
+    prisma.detectionSchedule.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.runNow('sch1')).rejects.toThrow(ConflictException);
+  });
+
+  it('fails running runs whose heartbeat has expired', async () => {
+    const { service, prisma } = createService([]);
+
+    await service.failAbandoned(now);
+
+    expect(prisma.detectionSchedule.updateMany).toHaveBeenCalledWith({
+      where: {
+        lastRunStatus: ScheduleRunStatus.RUNNING,
+        OR: [
+          { lastRunHeartbeatAt: null },
+          {
+            lastRunHeartbeatAt: {
+              lt: new Date(now.getTime() - HEARTBEAT_LEASE_MS),
+            },
+          },
+        ],
+      },
+      data: {
+        lastRunStatus: ScheduleRunStatus.FAILED,
+        lastRunError: 'Interrupted: the server running the detection stopped',
+        lastRunFinishedAt: now,
+      },
+    });
+  });
+
+  describe('night flow', () => {
+    // Detection itself is not due
+    const nightFlow = (overrides: Partial<DetectionSchedule> = {}) =>
+      schedule({ analyzeNightFlow: true, lastRunStartedAt: now, ...overrides });
+
+    it('claims and analyzes the latest night once its window has ended', async () => {
+      const { service, prisma, analyze } = createService([nightFlow()]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      const night = new Date('2026-03-02T00:00:00Z');
+      expect(prisma.detectionSchedule.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'sch1',
+          OR: [
+            { lastNightFlowDate: null },
+            { lastNightFlowDate: { lt: night } },
+          ],
+        },
+        data: { lastNightFlowDate: night },
+      });
+      expect(analyze).toHaveBeenCalledWith({
+        networkId: 'n1',
+        startDate: night.toISOString(),
+        endDate: night.toISOString(),
+        utcOffsetMinutes: 0,
+      });
+    });
+
+    it('waits for the night window to end in local time', async () => {
+      // 05:00 UTC is 03:00 at UTC-2, inside the window of the 2nd
+      const { service, analyze } = createService([
+        nightFlow({ utcOffsetMinutes: -120 }),
+      ]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(analyze).toHaveBeenCalledWith({
+        networkId: 'n1',
+        startDate: '2026-03-01T00:00:00.000Z',
+        endDate: '2026-03-01T00:00:00.000Z',
+        utcOffsetMinutes: -120,
+      });
+    });
+
+    it('does not analyze a night twice', async () => {
+      const { service, prisma, analyze } = createService([
+        nightFlow({ lastNightFlowDate: new Date('2026-03-02T00:00:00Z') }),
+      ]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(prisma.detectionSchedule.updateMany).not.toHaveBeenCalled();
+      expect(analyze).not.toHaveBeenCalled();
+    });
+
+    it('leaves a night claimed by another instance alone', async () => {
+      const { service, prisma, analyze } = createService([nightFlow()]);
+      prisma.detectionSchedule.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(analyze).not.toHaveBeenCalled();
+    });
+
+    it('catches up on at most a week of missed nights', async () => {
+      const { service, analyze } = createService([
+        nightFlow({ lastNightFlowDate: new Date('2026-02-27T00:00:00Z') }),
+        schedule({
+          id: 'sch2',
+          networkId: 'n2',
+          analyzeNightFlow: true,
+          lastRunStartedAt: now,
+          lastNightFlowDate: new Date('2026-01-01T00:00:00Z'),
+        }),
+      ]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(analyze).toHaveBeenCalledWith({
+        networkId: 'n1',
+        startDate: '2026-02-28T00:00:00.000Z',
+        endDate: '2026-03-02T00:00:00.000Z',
+        utcOffsetMinutes: 0,
+      });
+      expect(analyze).toHaveBeenCalledWith({
+        networkId: 'n2',
+        startDate: '2026-02-24T00:00:00.000Z',
+        endDate: '2026-03-02T00:00:00.000Z',
+        utcOffsetMinutes: 0,
+      });
+    });
+
+    it('is off unless the schedule enables it', async () => {
+      const { service, latestNight, analyze } = createService([
+        schedule({ lastRunStartedAt: now }),
+      ]);
+
+      await service.runDueSchedules(now);
+      await flush();
+
+      expect(latestNight).not.toHaveBeenCalled();
+      expect(analyze).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DetectionSchedule, ScheduleRunStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { LeaksService } from '../leaks.service';
+import { NightFlowService } from './night-flow.service';
+import { toCanonicalUnit } from '../../../common/utils/units.util';
+import {
+  heartbeatExpiry,
+  startHeartbeat,
+} from '../../../common/utils/heartbeat.util';
+import { CreateDetectionScheduleDto } from '../dto/create-detection-schedule.dto';
+import { UpdateDetectionScheduleDto } from '../dto/update-detection-schedule.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Runs DMA leak detection for every partition of a network on the
+ * network's schedule. A run is claimed in the database before it starts,
+ * so a slow run is never started a second time, and keeps a heartbeat so
+ * any instance can fail it once its server is gone. Schedules can also run
+ * minimum night flow analysis once a day, claimed the same way per night.
+ */
+@Injectable()
+export class DetectionScheduleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DetectionScheduleService.name);
+  private readonly TICK_INTERVAL_MS = 15 * 1000;
+  private readonly NIGHT_FLOW_CATCH_UP_NIGHTS = 7; // Missed nights analyzed after downtime
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly leaksService: LeaksService,
+    private readonly nightFlowService: NightFlowService,
+  ) {}
+
+  async onModuleInit() {
+    await this.failAbandoned();
+
+    this.timer = setInterval(() => {
+      this.failAbandoned()
+        .then(() => this.runDueSchedules())
+        .catch((error) =>
+          this.logger.error(
+            `Checking detection schedules failed: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+    }, this.TICK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Runs RUNNING without a recent heartbeat will never finish. Mark them
+   * failed so their schedules run again.
+   */
+  async failAbandoned(now: Date = new Date()): Promise<number> {
+    const { count } = await this.prisma.detectionSchedule.updateMany({
+      where: {
+        lastRunStatus: ScheduleRunStatus.RUNNING,
+        OR: [
+          { lastRunHeartbeatAt: null },
+          { lastRunHeartbeatAt: { lt: heartbeatExpiry(now) } },
+        ],
+      },
+      data: {
+        lastRunStatus: ScheduleRunStatus.FAILED,
+        lastRunError: 'Interrupted: the server running the detection stopped',
+        lastRunFinishedAt: now,
+      },
+    });
+
+    if (count > 0) {
+      this.logger.warn(
+        `Marked ${count} interrupted scheduled detection run(s) as failed`,
+      );
+    }
+
+    return count;
+  }
+
+  async create(dto: CreateDetectionScheduleDto) {
+    const network = await this.prisma.network.findUnique({
+      where: { id: dto.networkId },
+      select: { id: true, detectionSchedule: { select: { id: true } } },
+    });
+
+    if (!network) {
+      throw new NotFoundException(`Network with ID ${dto.networkId} not found`);
+    }
+
+    if (network.detectionSchedule) {
+      throw new ConflictException(
+        `Network ${dto.networkId} already has a detection schedule`,
+      );
+    }
+
+    const { threshold, thresholdUnit, ...rest } = dto;
+
+    return this.prisma.detectionSchedule.create({
+      data: {
+        ...rest,
+        ...this.thresholdData(threshold, thresholdUnit),
+      },
+    });
+  }
+
+  async findAll() {
+    return this.prisma.detectionSchedule.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const schedule = await this.prisma.detectionSchedule.findUnique({
+      where: { id },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`Detection schedule with ID ${id} not found`);
+    }
+
+    return schedule;
+  }
+
+  async update(id: string, dto: UpdateDetectionScheduleDto) {
+    await this.findOne(id);
+    const { threshold, thresholdUnit, ...rest } = dto;
+
+    return this.prisma.detectionSchedule.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(threshold !== undefined &&
+          this.thresholdData(threshold, thresholdUnit)),
+      },
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+    return this.prisma.detectionSchedule.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Run a schedule now, regardless of when it is due.
+   */
+  async runNow(id: string) {
+    const schedule = await this.findOne(id);
+
+    if (!(await this.run(schedule))) {
+      throw new ConflictException(
+        `Detection schedule ${id} is already running`,
+      );
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Start every enabled schedule whose interval has passed since its last
+   * run started, and the night flow analysis of those with a new night to
+   * analyze. Runs are not awaited, so a slow network does not hold up the
+   * others.
+   */
+  async runDueSchedules(now = new Date()): Promise<void> {
+    const schedules = await this.prisma.detectionSchedule.findMany({
+      where: { enabled: true },
+    });
+
+    for (const schedule of schedules) {
+      if (schedule.analyzeNightFlow) {
+        this.runNightFlow(schedule, now).catch((error) =>
+          this.logger.error(
+            `Scheduled night flow analysis for network ${schedule.networkId} failed: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+      }
+
+      if (
+        schedule.lastRunStartedAt &&
+        schedule.lastRunStartedAt.getTime() + schedule.intervalSeconds * 1000 >
+          now.getTime()
+      ) {
+        continue;
+      }
+
+      this.run(schedule).catch((error) =>
+        this.logger.error(
+          `Scheduled detection for network ${schedule.networkId} failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Detect leaks in every DMA of the schedule's network and record the
+   * outcome. Returns false without running when a run is already going.
+   */
+  private async run(schedule: DetectionSchedule): Promise<boolean> {
+    const startedAt = new Date();
+
+    const { count } = await this.prisma.detectionSchedule.updateMany({
+      where: {
+        id: schedule.id,
+        OR: [
+          { lastRunStatus: null },
+          { lastRunStatus: { not: ScheduleRunStatus.RUNNING } },
+        ],
+      },
+      data: {
+        lastRunStatus: ScheduleRunStatus.RUNNING,
+        lastRunStartedAt: startedAt,
+        lastRunHeartbeatAt: startedAt,
+        lastRunError: null,
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    // Outcomes are only recorded for this run, not one that replaced it
+    // after it was failed as abandoned
+    const thisRun = { id: schedule.id, lastRunStartedAt: startedAt };
+    const stopHeartbeat = startHeartbeat(
+      () =>
+        this.prisma.detectionSchedule.updateMany({
+          where: { ...thisRun, lastRunStatus: ScheduleRunStatus.RUNNING },
+          data: { lastRunHeartbeatAt: new Date() },
+        }),
+      (error) =>
+        this.logger.warn(
+          `Failed to record heartbeat for scheduled detection of network ${schedule.networkId}: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+    );
+
+    try {
+      await this.detect(schedule, startedAt);
+    } catch (error) {
+      await this.prisma.detectionSchedule.updateMany({
+        where: thisRun,
+        data: {
+          lastRunStatus: ScheduleRunStatus.FAILED,
+          lastRunFinishedAt: new Date(),
+          lastRunError: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    } finally {
+      stopHeartbeat();
+    }
+
+    return true;
+  }
+
+  private async detect(
+    schedule: DetectionSchedule,
+    timestamp: Date,
+  ): Promise<void> {
+    const partitions = await this.prisma.networkPartition.findMany({
+      where: { networkId: schedule.networkId },
+      select: { id: true },
+    });
+
+    // One failing DMA should not stop the others from being checked
+    const detections: Array<{ id: string }> = [];
+    const errors: string[] = [];
+    for (const partition of partitions) {
+      try {
+        detections.push(
+          ...(await this.leaksService.detectLeaksInDma(
+            partition.id,
+            timestamp,
+            schedule.threshold,
+            schedule.timeWindow,
+            schedule.thresholdUnit ?? undefined,
+          )),
+        );
+      } catch (error) {
+        errors.push(
+          `Partition ${partition.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    if (schedule.autoLocalize) {
+      for (const detection of detections) {
+        try {
+          await this.leaksService.localizeLeak(detection.id);
+        } catch (error) {
+          this.logger.warn(
+            `Could not localize scheduled detection ${detection.id}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+
+    await this.prisma.detectionSchedule.updateMany({
+      where: { id: schedule.id, lastRunStartedAt: timestamp },
+      data: {
+        lastRunStatus:
+          errors.length > 0
+            ? ScheduleRunStatus.FAILED
+            : ScheduleRunStatus.SUCCEEDED,
+        lastRunFinishedAt: new Date(),
+        lastRunDetections: detections.length,
+        lastRunError: errors.length > 0 ? errors.join('; ') : null,
+      },
+    });
+
+    this.logger.log(
+      `Scheduled detection for network ${schedule.networkId}: ${detections.length} detection(s) in ${partitions.length} DMA(s), ${errors.length} failed`,
+    );
+  }
+
+  /**
+   * Analyze the nights after the last one analyzed, up to the latest night
+   * whose window has ended. The night is claimed before the analysis
+   * starts, so each night is analyzed once.
+   */
+  private async runNightFlow(
+    schedule: DetectionSchedule,
+    now: Date,
+  ): Promise<void> {
+    const night = this.nightFlowService.latestNight(
+      schedule.utcOffsetMinutes,
+      now,
+    );
+    if (schedule.lastNightFlowDate && schedule.lastNightFlowDate >= night) {
+      return;
+    }
+
+    const { count } = await this.prisma.detectionSchedule.updateMany({
+      where: {
+        id: schedule.id,
+        OR: [{ lastNightFlowDate: null }, { lastNightFlowDate: { lt: night } }],
+      },
+      data: { lastNightFlowDate: night },
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    const earliest =
+      night.getTime() - (this.NIGHT_FLOW_CATCH_UP_NIGHTS - 1) * DAY_MS;
+    const first = schedule.lastNightFlowDate
+      ? new Date(
+          Math.max(schedule.lastNightFlowDate.getTime() + DAY_MS, earliest),
+        )
+      : night;
+
+    const { nights, detections } = await this.nightFlowService.analyze({
+      networkId: schedule.networkId,
+      startDate: first.toISOString(),
+      endDate: night.toISOString(),
+      utcOffsetMinutes: schedule.utcOffsetMinutes,
+    });
+
+    this.logger.log(
+      `Scheduled night flow analysis for network ${schedule.networkId}: ${nights.length} DMA night(s), ${detections.length} detection(s)`,
+    );
+  }
+
+  // Thresholds are stored in L/s alongside the unit they were submitted in
+  private thresholdData(threshold?: number, thresholdUnit?: string) {
+    return {
+      threshold:
+        threshold !== undefined && thresholdUnit
+          ? toCanonicalUnit('FLOW', threshold, thresholdUnit)
+          : threshold,
+      thresholdUnit: threshold !== undefined ? (thresholdUnit ?? null) : null,
+    };
+  }
+}
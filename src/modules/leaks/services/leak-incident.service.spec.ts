@@ -0,0 +1,182 @@
+import {
+  DetectionMethod,
+  IncidentStatus,
+  LeakSeverity,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { LeakIncidentService } from './leak-incident.service';
+
+const at = (minutes: number) =>
+  new Date(Date.UTC(2026, 2, 1, 12) + minutes * 60 * 1000);
+
+const key = {
+  networkId: 'n1',
+  nodeId: 'node1',
+  partitionId: 'p1',
+  detectionMethod: DetectionMethod.MASS_BALANCE,
+};
+
+function createService() {
+  const prisma = {
+    leakIncident: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({ id: 'inc-new' }),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+  return {
+    service: new LeakIncidentService(prisma as unknown as PrismaService),
+    prisma,
+  };
+}
+
+describe('LeakIncidentService', () => {
+  describe('recordDetection', () => {
+    const openIncident = {
+      id: 'inc1',
+      firstSeenAt: at(0),
+      lastSeenAt: at(10),
+      peakImbalance: 12,
+    };
+
+    it('opens an incident when none is open for the key', async () => {
+      const { service, prisma } = createService();
+
+      expect(
+        await service.recordDetection(key, {
+          imbalance: 8,
+          severity: LeakSeverity.LOW,
+          timestamp: at(0),
+        }),
+      ).toBe('inc-new');
+      expect(prisma.leakIncident.findFirst).toHaveBeenCalledWith({
+        where: { ...key, status: IncidentStatus.OPEN },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+      expect(prisma.leakIncident.create).toHaveBeenCalledWith({
+        data: {
+          ...key,
+          severity: LeakSeverity.LOW,
+          firstSeenAt: at(0),
+          lastSeenAt: at(0),
+          peakImbalance: 8,
+          latestImbalance: 8,
+        },
+      });
+    });
+
+    it('adds a later detection to the open incident', async () => {
+      const { service, prisma } = createService();
+      prisma.leakIncident.findFirst.mockResolvedValue(openIncident);
+
+      expect(
+        await service.recordDetection(key, {
+          imbalance: 25,
+          severity: LeakSeverity.HIGH,
+          timestamp: at(20),
+        }),
+      ).toBe('inc1');
+      expect(prisma.leakIncident.create).not.toHaveBeenCalled();
+      expect(prisma.leakIncident.update).toHaveBeenCalledWith({
+        where: { id: 'inc1' },
+        data: {
+          detectionCount: { increment: 1 },
+          peakImbalance: 25,
+          lastSeenAt: at(20),
+          latestImbalance: 25,
+          severity: LeakSeverity.HIGH,
+          clearWindows: 0,
+        },
+      });
+    });
+
+    it('counts an earlier detection without replacing the latest', async () => {
+      const { service, prisma } = createService();
+      prisma.leakIncident.findFirst.mockResolvedValue(openIncident);
+
+      await service.recordDetection(key, {
+        imbalance: 6,
+        severity: LeakSeverity.LOW,
+        timestamp: at(-5),
+      });
+
+      expect(prisma.leakIncident.update).toHaveBeenCalledWith({
+        where: { id: 'inc1' },
+        data: {
+          detectionCount: { increment: 1 },
+          peakImbalance: 12,
+          firstSeenAt: at(-5),
+        },
+      });
+    });
+
+    it('runs in the transaction it is given', async () => {
+      const { service, prisma } = createService();
+      const tx = {
+        leakIncident: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          create: jest.fn().mockResolvedValue({ id: 'inc-tx' }),
+        },
+      };
+
+      expect(
+        await service.recordDetection(
+          key,
+          { imbalance: 8, severity: LeakSeverity.LOW, timestamp: at(0) },
+          tx as unknown as Prisma.TransactionClient,
+        ),
+      ).toBe('inc-tx');
+      expect(prisma.leakIncident.findFirst).not.toHaveBeenCalled();
+      expect(prisma.leakIncident.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordClear', () => {
+    const where = {
+      partitionId: 'p1',
+      detectionMethod: DetectionMethod.MASS_BALANCE,
+    };
+    const open = {
+      ...where,
+      status: IncidentStatus.OPEN,
+      lastSeenAt: { lt: at(30) },
+    };
+
+    it('counts a clear window for incidents last seen before it', async () => {
+      const { service, prisma } = createService();
+
+      expect(await service.recordClear(where, at(30))).toBe(0);
+      expect(prisma.leakIncident.updateMany).toHaveBeenCalledWith({
+        where: open,
+        data: { clearWindows: { increment: 1 } },
+      });
+      expect(prisma.leakIncident.findMany).not.toHaveBeenCalled();
+    });
+
+    it("closes incidents that reached their network's close windows", async () => {
+      const { service, prisma } = createService();
+      prisma.leakIncident.updateMany.mockResolvedValueOnce({ count: 2 });
+      prisma.leakIncident.findMany.mockResolvedValue([
+        { id: 'inc1', clearWindows: 3, network: { incidentCloseWindows: 3 } },
+        { id: 'inc2', clearWindows: 2, network: { incidentCloseWindows: 3 } },
+      ]);
+
+      expect(await service.recordClear(where, at(30))).toBe(1);
+      expect(prisma.leakIncident.findMany).toHaveBeenCalledWith({
+        where: open,
+        select: {
+          id: true,
+          clearWindows: true,
+          network: { select: { incidentCloseWindows: true } },
+        },
+      });
+      expect(prisma.leakIncident.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['inc1'] } },
+        data: { status: IncidentStatus.CLOSED, closedAt: at(30) },
+      });
+    });
+  });
+});
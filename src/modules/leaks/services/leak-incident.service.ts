@@ -0,0 +1,256 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  DetectionMethod,
+  IncidentStatus,
+  LeakSeverity,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { QueryLeakDetectionsDto } from '../dto/query-leak-detections.dto';
+
+export const DETECTION_VIEWS = ['detections', 'incidents'] as const;
+export type DetectionView = (typeof DETECTION_VIEWS)[number];
+
+// Detections at the same node, DMA and method are grouped together
+export interface IncidentKey {
+  networkId: string;
+  nodeId: string;
+  partitionId?: string | null;
+  detectionMethod: DetectionMethod;
+}
+
+const INCIDENT_INCLUDE = {
+  network: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+    },
+  },
+  node: {
+    select: {
+      id: true,
+      nodeId: true,
+      nodeType: true,
+    },
+  },
+  partition: {
+    select: {
+      id: true,
+      partitionId: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.LeakIncidentInclude;
+
+/**
+ * Groups consecutive detections at the same node or DMA into one open
+ * incident, and closes it once the imbalance has stayed below the threshold
+ * for the network's number of close windows.
+ */
+@Injectable()
+export class LeakIncidentService {
+  private readonly logger = new Logger(LeakIncidentService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Add a detection to the open incident with the same key, or open a new
+   * one. Returns the incident ID. Pass the transaction the detection is
+   * created in, so the incident never counts a detection that was not
+   * stored.
+   */
+  async recordDetection(
+    key: IncidentKey,
+    detection: { imbalance: number; severity: LeakSeverity; timestamp: Date },
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<string> {
+    const incident = await tx.leakIncident.findFirst({
+      where: {
+        networkId: key.networkId,
+        nodeId: key.nodeId,
+        partitionId: key.partitionId ?? null,
+        detectionMethod: key.detectionMethod,
+        status: IncidentStatus.OPEN,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    if (!incident) {
+      const created = await tx.leakIncident.create({
+        data: {
+          ...key,
+          severity: detection.severity,
+          firstSeenAt: detection.timestamp,
+          lastSeenAt: detection.timestamp,
+          peakImbalance: detection.imbalance,
+          latestImbalance: detection.imbalance,
+        },
+      });
+      return created.id;
+    }
+
+    // Detections for earlier readings count, but do not replace the latest
+    const isLatest = detection.timestamp >= incident.lastSeenAt;
+    await tx.leakIncident.update({
+      where: { id: incident.id },
+      data: {
+        detectionCount: { increment: 1 },
+        peakImbalance: Math.max(incident.peakImbalance, detection.imbalance),
+        ...(detection.timestamp < incident.firstSeenAt && {
+          firstSeenAt: detection.timestamp,
+        }),
+        ...(isLatest && {
+          lastSeenAt: detection.timestamp,
+          latestImbalance: detection.imbalance,
+          severity: detection.severity,
+          clearWindows: 0,
+        }),
+      },
+    });
+
+    return incident.id;
+  }
+
+  /**
+   * Count a window below the threshold for the matching open incidents last
+   * seen before it, and close those that reached their network's close
+   * windows. Returns the number of incidents closed.
+   */
+  async recordClear(
+    where: Prisma.LeakIncidentWhereInput,
+    timestamp: Date,
+  ): Promise<number> {
+    const open: Prisma.LeakIncidentWhereInput = {
+      ...where,
+      status: IncidentStatus.OPEN,
+      lastSeenAt: { lt: timestamp },
+    };
+
+    const { count } = await this.prisma.leakIncident.updateMany({
+      where: open,
+      data: { clearWindows: { increment: 1 } },
+    });
+    if (count === 0) {
+      return 0;
+    }
+
+    const incidents = await this.prisma.leakIncident.findMany({
+      where: open,
+      select: {
+        id: true,
+        clearWindows: true,
+        network: { select: { incidentCloseWindows: true } },
+      },
+    });
+    const closing = incidents
+      .filter(
+        (incident) =>
+          incident.clearWindows >= incident.network.incidentCloseWindows,
+      )
+      .map((incident) => incident.id);
+
+    if (closing.length > 0) {
+      await this.prisma.leakIncident.updateMany({
+        where: { id: { in: closing } },
+        data: { status: IncidentStatus.CLOSED, closedAt: timestamp },
+      });
+      this.logger.log(`Closed ${closing.length} leak incident(s)`);
+    }
+
+    return closing.length;
+  }
+
+  /**
+   * Incidents matching the detection filters. The date range selects
+   * incidents seen within it, and the status selects incidents with at
+   * least one detection in that status.
+   */
+  async findAll(query: QueryLeakDetectionsDto) {
+    const {
+      page = 1,
+      limit = 10,
+      networkId,
+      nodeId,
+      partitionId,
+      status,
+      severity,
+      incidentStatus,
+      startDate,
+      endDate,
+    } = query;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.LeakIncidentWhereInput = {};
+
+    if (networkId) {
+      where.networkId = networkId;
+    }
+
+    if (nodeId) {
+      where.nodeId = nodeId;
+    }
+
+    if (partitionId) {
+      where.partitionId = partitionId;
+    }
+
+    if (status) {
+      where.detections = { some: { status } };
+    }
+
+    if (severity) {
+      where.severity = severity;
+    }
+
+    if (incidentStatus) {
+      where.status = incidentStatus;
+    }
+
+    if (startDate) {
+      where.lastSeenAt = { gte: new Date(startDate) };
+    }
+
+    if (endDate) {
+      where.firstSeenAt = { lte: new Date(endDate) };
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.leakIncident.findMany({
+        where,
+        include: INCIDENT_INCLUDE,
+        skip,
+        take: limit,
+        orderBy: {
+          lastSeenAt: 'desc',
+        },
+      }),
+      this.prisma.leakIncident.count({ where }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string) {
+    const incident = await this.prisma.leakIncident.findUnique({
+      where: { id },
+      include: {
+        ...INCIDENT_INCLUDE,
+        detections: {
+          orderBy: { timestamp: 'asc' },
+        },
+      },
+    });
+
+    if (!incident) {
+      throw new NotFoundException(`Leak incident with ID ${id} not found`);
+    }
+
+    return incident;
+  }
+}
@@ -0,0 +1,160 @@
+import { LeakPriorSource, LeakStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { LeakPriorService } from './leak-prior.service';
+
+const prior = (overrides: object = {}) => ({
+  pipeMaterial: null,
+  installationYear: null,
+  burstCount: 0,
+  repairCount: 0,
+  uploadedWeight: null,
+  ...overrides,
+});
+
+function createService() {
+  const prisma = {
+    network: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'n1' }),
+    },
+    networkNode: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    leakDetection: {
+      groupBy: jest.fn().mockResolvedValue([]),
+    },
+    nodeLeakPrior: {
+      upsert: jest.fn((args: object) => args),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+  return {
+    service: new LeakPriorService(prisma as unknown as PrismaService),
+    prisma,
+  };
+}
+
+describe('LeakPriorService', () => {
+  describe('deriveFromHistory', () => {
+    it('counts resolved detections by the node repaired in the field', async () => {
+      const { service, prisma } = createService();
+
+      await service.deriveFromHistory('n1');
+
+      expect(prisma.leakDetection.groupBy).toHaveBeenCalledWith({
+        by: ['repairNodeId'],
+        where: {
+          networkId: 'n1',
+          status: LeakStatus.RESOLVED,
+          repairNodeId: { not: null },
+        },
+        _count: { _all: true },
+      });
+    });
+
+    it('adds repairs to the uploaded bursts', async () => {
+      const { service, prisma } = createService();
+      prisma.leakDetection.groupBy.mockResolvedValue([
+        { repairNodeId: 'node1', _count: { _all: 2 } },
+      ]);
+      prisma.networkNode.findMany.mockResolvedValue([
+        { id: 'node1', leakPrior: prior({ burstCount: 1 }) },
+      ]);
+
+      await service.deriveFromHistory('n1');
+
+      // 1 uploaded + 2 repaired bursts: weight 1 + 3
+      expect(prisma.nodeLeakPrior.upsert).toHaveBeenCalledWith({
+        where: { nodeId: 'node1' },
+        create: {
+          repairCount: 2,
+          weight: 4,
+          networkId: 'n1',
+          nodeId: 'node1',
+          source: LeakPriorSource.DETECTION_HISTORY,
+        },
+        update: { repairCount: 2, weight: 4 },
+      });
+    });
+
+    it('keeps an uploaded weight', async () => {
+      const { service, prisma } = createService();
+      prisma.leakDetection.groupBy.mockResolvedValue([
+        { repairNodeId: 'node1', _count: { _all: 2 } },
+      ]);
+      prisma.networkNode.findMany.mockResolvedValue([
+        { id: 'node1', leakPrior: prior({ uploadedWeight: 0.5 }) },
+      ]);
+
+      await service.deriveFromHistory('n1');
+
+      expect(prisma.nodeLeakPrior.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { repairCount: 2, weight: 0.5 },
+        }),
+      );
+    });
+
+    it('resets repairs that are no longer in the history', async () => {
+      const { service, prisma } = createService();
+      prisma.networkNode.findMany.mockResolvedValue([
+        { id: 'node2', leakPrior: prior({ burstCount: 1, repairCount: 3 }) },
+      ]);
+
+      await service.deriveFromHistory('n1');
+
+      expect(prisma.networkNode.findMany).toHaveBeenCalledWith({
+        where: {
+          networkId: 'n1',
+          OR: [{ id: { in: [] } }, { leakPrior: { repairCount: { gt: 0 } } }],
+        },
+        select: { id: true, leakPrior: true },
+      });
+      expect(prisma.nodeLeakPrior.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { repairCount: 0, weight: 2 },
+        }),
+      );
+    });
+  });
+
+  describe('upload', () => {
+    it('counts earlier repairs in the computed weight', async () => {
+      const { service, prisma } = createService();
+      prisma.networkNode.findMany.mockResolvedValue([
+        { id: 'node1', nodeId: 'J1', leakPrior: { repairCount: 2 } },
+        { id: 'node2', nodeId: 'J2', leakPrior: null },
+      ]);
+
+      await service.upload({
+        networkId: 'n1',
+        priors: [
+          { nodeId: 'J1', burstCount: 1 },
+          { nodeId: 'J2', burstCount: 1, weight: 7 },
+        ],
+      });
+
+      const data = (
+        burstCount: number,
+        weight: number,
+        uploaded: number | null,
+      ) => ({
+        pipeMaterial: undefined,
+        installationYear: undefined,
+        burstCount,
+        weight,
+        uploadedWeight: uploaded,
+        source: LeakPriorSource.UPLOAD,
+      });
+      expect(prisma.nodeLeakPrior.upsert).toHaveBeenCalledWith({
+        where: { nodeId: 'node1' },
+        create: { ...data(1, 4, null), networkId: 'n1', nodeId: 'node1' },
+        update: data(1, 4, null),
+      });
+      expect(prisma.nodeLeakPrior.upsert).toHaveBeenCalledWith({
+        where: { nodeId: 'node2' },
+        create: { ...data(1, 7, 7), networkId: 'n1', nodeId: 'node2' },
+        update: data(1, 7, 7),
+      });
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { LeakPriorSource, LeakStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { UploadLeakPriorsDto } from '../dto/upload-leak-priors.dto';
+
+// Relative failure rate by pipe material; unknown materials count as 1
+const MATERIAL_FACTORS: Record<string, number> = {
+  CAST_IRON: 1.5,
+  ASBESTOS_CEMENT: 1.4,
+  STEEL: 1.3,
+  GALVANIZED_STEEL: 1.3,
+  DUCTILE_IRON: 1,
+  CONCRETE: 1,
+  PVC: 0.8,
+  HDPE: 0.7,
+  PE: 0.7,
+};
+
+const AGE_DOUBLING_YEARS = 50; // A pipe this old is twice as likely to leak as a new one
+
+interface PriorAttributes {
+  pipeMaterial?: string | null;
+  installationYear?: number | null;
+  burstCount: number;
+}
+
+/**
+ * Stores per-node leak priors for Bayesian localization, from uploaded asset
+ * data and the history of resolved detections. Repairs found in the field
+ * count as bursts on top of the uploaded ones, and an uploaded weight
+ * always wins over the computed one.
+ */
+@Injectable()
+export class LeakPriorService {
+  private readonly logger = new Logger(LeakPriorService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async upload(dto: UploadLeakPriorsDto) {
+    const network = await this.prisma.network.findUnique({
+      where: { id: dto.networkId },
+    });
+
+    if (!network) {
+      throw new NotFoundException(`Network with ID ${dto.networkId} not found`);
+    }
+
+    const nodes = await this.prisma.networkNode.findMany({
+      where: {
+        networkId: dto.networkId,
+        nodeId: { in: dto.priors.map((prior) => prior.nodeId) },
+      },
+      select: {
+        id: true,
+        nodeId: true,
+        leakPrior: { select: { repairCount: true } },
+      },
+    });
+    const nodeMap = new Map(nodes.map((node) => [node.nodeId, node]));
+
+    const missing = dto.priors
+      .map((prior) => prior.nodeId)
+      .filter((nodeId) => !nodeMap.has(nodeId));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Nodes not found in network ${dto.networkId}: ${missing.join(', ')}`,
+      );
+    }
+
+    const priors = await this.prisma.$transaction(
+      dto.priors.map((prior) => {
+        const node = nodeMap.get(prior.nodeId)!;
+        const data = {
+          pipeMaterial: prior.pipeMaterial,
+          installationYear: prior.installationYear,
+          burstCount: prior.burstCount ?? 0,
+          weight:
+            prior.weight ??
+            this.computeWeight({
+              pipeMaterial: prior.pipeMaterial,
+              installationYear: prior.installationYear,
+              burstCount:
+                (prior.burstCount ?? 0) + (node.leakPrior?.repairCount ?? 0),
+            }),
+          uploadedWeight: prior.weight ?? null,
+          source: LeakPriorSource.UPLOAD,
+        };
+
+        return this.prisma.nodeLeakPrior.upsert({
+          where: { nodeId: node.id },
+          create: { ...data, networkId: dto.networkId, nodeId: node.id },
+          update: data,
+        });
+      }),
+    );
+
+    this.logger.log(
+      `Stored ${priors.length} leak priors for network ${dto.networkId}`,
+    );
+
+    return priors;
+  }
+
+  /**
+   * Set each node's repair count to the number of resolved detections whose
+   * leak was found there in the field and recompute its weight from the
+   * uploaded bursts plus the repairs. Uploaded attributes and weights are
+   * kept.
+   */
+  async deriveFromHistory(networkId: string) {
+    const network = await this.prisma.network.findUnique({
+      where: { id: networkId },
+    });
+
+    if (!network) {
+      throw new NotFoundException(`Network with ID ${networkId} not found`);
+    }
+
+    const history = await this.prisma.leakDetection.groupBy({
+      by: ['repairNodeId'],
+      where: {
+        networkId,
+        status: LeakStatus.RESOLVED,
+        repairNodeId: { not: null },
+      },
+      _count: { _all: true },
+    });
+
+    // Repair node IDs are not foreign keys, so drop nodes that are gone.
+    // Nodes that had repairs before are recounted as well.
+    const nodes = await this.prisma.networkNode.findMany({
+      where: {
+        networkId,
+        OR: [
+          { id: { in: history.map((entry) => entry.repairNodeId!) } },
+          { leakPrior: { repairCount: { gt: 0 } } },
+        ],
+      },
+      select: {
+        id: true,
+        leakPrior: true,
+      },
+    });
+    const counts = new Map(
+      history.map((entry) => [entry.repairNodeId!, entry._count._all]),
+    );
+
+    const priors = await this.prisma.$transaction(
+      nodes.map((node) => {
+        const repairCount = counts.get(node.id) ?? 0;
+        const data = {
+          repairCount,
+          weight:
+            node.leakPrior?.uploadedWeight ??
+            this.computeWeight({
+              pipeMaterial: node.leakPrior?.pipeMaterial,
+              installationYear: node.leakPrior?.installationYear,
+              burstCount: (node.leakPrior?.burstCount ?? 0) + repairCount,
+            }),
+        };
+
+        return this.prisma.nodeLeakPrior.upsert({
+          where: { nodeId: node.id },
+          create: {
+            ...data,
+            networkId,
+            nodeId: node.id,
+            source: LeakPriorSource.DETECTION_HISTORY,
+          },
+          update: data,
+        });
+      }),
+    );
+
+    this.logger.log(
+      `Derived ${priors.length} leak priors from resolved detections for network ${networkId}`,
+    );
+
+    return priors;
+  }
+
+  async findAll(networkId?: string) {
+    return this.prisma.nodeLeakPrior.findMany({
+      where: networkId ? { networkId } : {},
+      orderBy: [{ networkId: 'asc' }, { weight: 'desc' }],
+    });
+  }
+
+  /**
+   * Prior weight per node UUID. Nodes without a stored prior weigh 1.
+   */
+  async getPriorWeights(nodeIds: string[]): Promise<Map<string, number>> {
+    const priors = await this.prisma.nodeLeakPrior.findMany({
+      where: { nodeId: { in: nodeIds } },
+      select: { nodeId: true, weight: true },
+    });
+
+    const weights = new Map(nodeIds.map((nodeId) => [nodeId, 1]));
+    for (const prior of priors) {
+      weights.set(prior.nodeId, prior.weight);
+    }
+    return weights;
+  }
+
+  /**
+   * Material factor x age factor x (1 + past bursts).
+   */
+  computeWeight(
+    attributes: PriorAttributes,
+    year = new Date().getUTCFullYear(),
+  ): number {
+    const material = attributes.pipeMaterial
+      ? (MATERIAL_FACTORS[
+          attributes.pipeMaterial
+            .trim()
+            .toUpperCase()
+            .replace(/[\s-]+/g, '_')
+        ] ?? 1)
+      : 1;
+    const age = attributes.installationYear
+      ? Math.max(0, year - attributes.installationYear)
+      : 0;
+
+    return (
+      material * (1 + age / AGE_DOUBLING_YEARS) * (1 + attributes.burstCount)
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { LeakStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import {
+  LEAK_STATUS_TRANSITIONS,
+  LeakWorkflowService,
+} from './leak-workflow.service';
+import { LocalizationMetricsService } from './localization-metrics.service';
+
+function createService(status: LeakStatus = LeakStatus.DETECTED) {
+  const tx = {
+    leakDetection: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 'd1' }),
+    },
+    leakStatusChange: {
+      create: jest.fn(),
+    },
+  };
+  const prisma = {
+    leakDetection: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'd1',
+        networkId: 'n1',
+        status,
+        localizedNodeId: 'node1',
+        candidateRanking: ['node1', 'node2'],
+      }),
+    },
+    networkNode: {
+      findUnique: jest.fn().mockResolvedValue({ networkId: 'n1' }),
+    },
+    $transaction: jest.fn((run: (client: typeof tx) => Promise<unknown>) =>
+      run(tx),
+    ),
+  };
+  const metrics = {
+    evaluate: jest.fn().mockResolvedValue({
+      localizationRank: 2,
+      localizationHopDistance: 1,
+      localizationDistance: 40,
+    }),
+  };
+  const service = new LeakWorkflowService(
+    prisma as unknown as PrismaService,
+    metrics as unknown as LocalizationMetricsService,
+  );
+  return { service, prisma, tx, metrics };
+}
+
+describe('LeakWorkflowService', () => {
+  it('only lets localization move a detection to LOCALIZED', () => {
+    for (const targets of Object.values(LEAK_STATUS_TRANSITIONS)) {
+      expect(targets).not.toContain(LeakStatus.LOCALIZED);
+    }
+    expect(LEAK_STATUS_TRANSITIONS[LeakStatus.RESOLVED]).toEqual([]);
+  });
+
+  describe('updateStatus', () => {
+    it('moves from the checked status and records the change', async () => {
+      const { service, tx } = createService(LeakStatus.DETECTED);
+
+      await service.updateStatus('d1', {
+        status: LeakStatus.CONFIRMED,
+        changedBy: 'j.smith',
+        note: 'Water at the kerb',
+      });
+
+      expect(tx.leakDetection.updateMany).toHaveBeenCalledWith({
+        where: { id: 'd1', status: LeakStatus.DETECTED },
+        data: { status: LeakStatus.CONFIRMED },
+      });
+      expect(tx.leakStatusChange.create).toHaveBeenCalledWith({
+        data: {
+          detectionId: 'd1',
+          fromStatus: LeakStatus.DETECTED,
+          toStatus: LeakStatus.CONFIRMED,
+          changedBy: 'j.smith',
+          note: 'Water at the kerb',
+        },
+      });
+    });
+
+    it('rejects transitions the state machine does not allow', async () => {
+      const { service, prisma } = createService(LeakStatus.DETECTED);
+
+      await expect(
+        service.updateStatus('d1', {
+          status: LeakStatus.RESOLVED,
+          changedBy: 'j.smith',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('reopens a false positive', async () => {
+      const { service, tx } = createService(LeakStatus.FALSE_POSITIVE);
+
+      await service.updateStatus('d1', {
+        status: LeakStatus.DETECTED,
+        changedBy: 'j.smith',
+      });
+
+      expect(tx.leakDetection.updateMany).toHaveBeenCalledWith({
+        where: { id: 'd1', status: LeakStatus.FALSE_POSITIVE },
+        data: { status: LeakStatus.DETECTED },
+      });
+    });
+
+    it('conflicts when the status changed after it was checked', async () => {
+      const { service, tx } = createService(LeakStatus.DETECTED);
+      tx.leakDetection.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.updateStatus('d1', {
+          status: LeakStatus.FALSE_POSITIVE,
+          changedBy: 'j.smith',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.leakStatusChange.create).not.toHaveBeenCalled();
+    });
+
+    it('fails for an unknown detection', async () => {
+      const { service, prisma } = createService();
+      prisma.leakDetection.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateStatus('d1', {
+          status: LeakStatus.CONFIRMED,
+          changedBy: 'j.smith',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('only takes repair details when resolving', async () => {
+      const { service } = createService(LeakStatus.DETECTED);
+
+      await expect(
+        service.updateStatus('d1', {
+          status: LeakStatus.CONFIRMED,
+          changedBy: 'j.smith',
+          repairLocation: '12 Mill Lane',
+        }),
+      ).rejects.toThrow('Repair details can only be given when resolving');
+    });
+
+    it('requires the leak size and where it was found to resolve', async () => {
+      const { service } = createService(LeakStatus.CONFIRMED);
+
+      await expect(
+        service.updateStatus('d1', {
+          status: LeakStatus.RESOLVED,
+          changedBy: 'j.smith',
+          repairNodeId: 'node2',
+        }),
+      ).rejects.toThrow('repairedLeakFlow is required');
+      await expect(
+        service.updateStatus('d1', {
+          status: LeakStatus.RESOLVED,
+          changedBy: 'j.smith',
+          repairedLeakFlow: 2,
+        }),
+      ).rejects.toThrow('repairNodeId or repairLocation is required');
+    });
+
+    it('stores the repair and scores localization when resolving', async () => {
+      const { service, tx, metrics } = createService(LeakStatus.CONFIRMED);
+
+      await service.updateStatus('d1', {
+        status: LeakStatus.RESOLVED,
+        changedBy: 'j.smith',
+        repairNodeId: 'node2',
+        repairedLeakFlow: 3.6,
+        repairedLeakFlowUnit: 'm3/h',
+      });
+
+      expect(metrics.evaluate).toHaveBeenCalledWith(
+        {
+          id: 'd1',
+          networkId: 'n1',
+          status: LeakStatus.CONFIRMED,
+          localizedNodeId: 'node1',
+          candidateRanking: ['node1', 'node2'],
+        },
+        'node2',
+      );
+      expect(tx.leakDetection.updateMany).toHaveBeenCalledWith({
+        where: { id: 'd1', status: LeakStatus.CONFIRMED },
+        data: {
+          status: LeakStatus.RESOLVED,
+          repairNodeId: 'node2',
+          repairLocation: undefined,
+          repairedLeakFlow: 1,
+          repairedLeakFlowUnit: 'm3/h',
+          resolvedAt: expect.any(Date) as Date,
+          localizationRank: 2,
+          localizationHopDistance: 1,
+          localizationDistance: 40,
+        },
+      });
+    });
+  });
+});
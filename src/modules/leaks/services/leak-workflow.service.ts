@@ -0,0 +1,205 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { LeakDetection, LeakStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { toCanonicalUnit } from '../../../common/utils/units.util';
+import { UpdateLeakStatusDto } from '../dto/update-leak-status.dto';
+import {
+  LocalizationAccuracy,
+  LocalizationMetricsService,
+} from './localization-metrics.service';
+
+/**
+ * Statuses a detection may move to from each status through
+ * PATCH /leaks/detections/:id/status. DETECTED -> LOCALIZED is made by
+ * localization only.
+ */
+export const LEAK_STATUS_TRANSITIONS: Record<LeakStatus, LeakStatus[]> = {
+  [LeakStatus.DETECTED]: [LeakStatus.CONFIRMED, LeakStatus.FALSE_POSITIVE],
+  [LeakStatus.LOCALIZED]: [LeakStatus.CONFIRMED, LeakStatus.FALSE_POSITIVE],
+  [LeakStatus.CONFIRMED]: [LeakStatus.RESOLVED, LeakStatus.FALSE_POSITIVE],
+  [LeakStatus.RESOLVED]: [],
+  [LeakStatus.FALSE_POSITIVE]: [LeakStatus.DETECTED], // Reopen
+};
+
+// Recorded as changedBy for transitions made by the service itself
+export const LOCALIZATION_ACTOR = 'localization';
+
+// Related records returned with a detection whose status changed
+const STATUS_CHANGE_INCLUDE = {
+  node: {
+    select: {
+      id: true,
+      nodeId: true,
+      nodeType: true,
+    },
+  },
+  partition: {
+    select: {
+      id: true,
+      partitionId: true,
+      name: true,
+    },
+  },
+  statusChanges: {
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.LeakDetectionInclude;
+
+/**
+ * Moves detections through the leak lifecycle and keeps an audit trail of
+ * every status change.
+ */
+@Injectable()
+export class LeakWorkflowService {
+  private readonly logger = new Logger(LeakWorkflowService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly localizationMetricsService: LocalizationMetricsService,
+  ) {}
+
+  async updateStatus(detectionId: string, dto: UpdateLeakStatusDto) {
+    const detection = await this.prisma.leakDetection.findUnique({
+      where: { id: detectionId },
+      select: {
+        id: true,
+        networkId: true,
+        status: true,
+        localizedNodeId: true,
+        candidateRanking: true,
+      },
+    });
+
+    if (!detection) {
+      throw new NotFoundException(
+        `Leak detection with ID ${detectionId} not found`,
+      );
+    }
+
+    const allowed = LEAK_STATUS_TRANSITIONS[detection.status];
+    if (!allowed.includes(dto.status)) {
+      throw new BadRequestException(
+        `Cannot change leak detection ${detectionId} from ${detection.status} to ${dto.status}. Allowed: ${allowed.join(', ') || 'none'}`,
+      );
+    }
+
+    const data: Prisma.LeakDetectionUncheckedUpdateManyInput = {
+      status: dto.status,
+    };
+
+    if (dto.status === LeakStatus.RESOLVED) {
+      Object.assign(data, await this.resolutionData(detection, dto));
+    } else if (
+      dto.repairNodeId ||
+      dto.repairLocation ||
+      dto.repairedLeakFlow !== undefined
+    ) {
+      throw new BadRequestException(
+        'Repair details can only be given when resolving a leak',
+      );
+    }
+
+    // Only move on from the status the transition was checked against; a
+    // concurrent change in between is reported rather than overwritten
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.leakDetection.updateMany({
+        where: { id: detectionId, status: detection.status },
+        data,
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          `Leak detection ${detectionId} is no longer ${detection.status}. Reload it and try again`,
+        );
+      }
+
+      await tx.leakStatusChange.create({
+        data: {
+          detectionId,
+          fromStatus: detection.status,
+          toStatus: dto.status,
+          changedBy: dto.changedBy,
+          note: dto.note,
+        },
+      });
+
+      return tx.leakDetection.findUniqueOrThrow({
+        where: { id: detectionId },
+        include: STATUS_CHANGE_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Leak detection ${detectionId}: ${detection.status} -> ${dto.status} by ${dto.changedBy}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Repair details for a resolved leak. The leak size and at least one of
+   * the repair node and location are required. A repair node also scores
+   * how close localization came.
+   */
+  private async resolutionData(
+    detection: Pick<
+      LeakDetection,
+      'networkId' | 'localizedNodeId' | 'candidateRanking'
+    >,
+    dto: UpdateLeakStatusDto,
+  ): Promise<Prisma.LeakDetectionUncheckedUpdateManyInput> {
+    if (dto.repairedLeakFlow === undefined) {
+      throw new BadRequestException(
+        'repairedLeakFlow is required to resolve a leak',
+      );
+    }
+    if (!dto.repairNodeId && !dto.repairLocation) {
+      throw new BadRequestException(
+        'repairNodeId or repairLocation is required to resolve a leak',
+      );
+    }
+
+    let accuracy: LocalizationAccuracy | null = null;
+    if (dto.repairNodeId) {
+      const node = await this.prisma.networkNode.findUnique({
+        where: { id: dto.repairNodeId },
+        select: { networkId: true },
+      });
+      if (!node) {
+        throw new NotFoundException(
+          `Network node with ID ${dto.repairNodeId} not found`,
+        );
+      }
+      if (node.networkId !== detection.networkId) {
+        throw new BadRequestException(
+          `Node ${dto.repairNodeId} belongs to a different network than the detection`,
+        );
+      }
+
+      accuracy = await this.localizationMetricsService.evaluate(
+        detection,
+        dto.repairNodeId,
+      );
+    }
+
+    return {
+      repairNodeId: dto.repairNodeId,
+      repairLocation: dto.repairLocation,
+      repairedLeakFlow: dto.repairedLeakFlowUnit
+        ? toCanonicalUnit(
+            'FLOW',
+            dto.repairedLeakFlow,
+            dto.repairedLeakFlowUnit,
+          )
+        : dto.repairedLeakFlow,
+      repairedLeakFlowUnit: dto.repairedLeakFlowUnit,
+      resolvedAt: new Date(),
+      ...accuracy,
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { LocalizationAlgorithm, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { NetworkService } from '../../network/network.service';
+import { LocalizationMetricsService } from './localization-metrics.service';
+
+// p-limit is ESM only, and matrices are not generated here
+jest.mock('p-limit', () => jest.fn());
+
+function createService() {
+  const prisma = {
+    networkNode: {
+      findMany: jest.fn().mockResolvedValue([
+        { id: 'node1', x: 0, y: 0 },
+        { id: 'node3', x: 30, y: 40 },
+      ]),
+    },
+    $queryRaw: jest.fn().mockResolvedValue([]),
+  };
+  const networkService = {
+    getHopDistance: jest.fn().mockResolvedValue(2),
+  };
+  const service = new LocalizationMetricsService(
+    prisma as unknown as PrismaService,
+    networkService as unknown as NetworkService,
+  );
+  return { service, prisma, networkService };
+}
+
+const detection = {
+  networkId: 'n1',
+  localizedNodeId: 'node1',
+  candidateRanking: ['node1', 'node2', 'node3'],
+};
+
+describe('LocalizationMetricsService', () => {
+  describe('evaluate', () => {
+    it('scores rank, hops and distance to the repair node', async () => {
+      const { service, networkService } = createService();
+
+      expect(await service.evaluate(detection, 'node3')).toEqual({
+        localizationRank: 3,
+        localizationHopDistance: 2,
+        localizationDistance: 50,
+      });
+      expect(networkService.getHopDistance).toHaveBeenCalledWith(
+        'n1',
+        'node1',
+        'node3',
+      );
+    });
+
+    it('leaves out what cannot be measured', async () => {
+      const { service, prisma, networkService } = createService();
+      prisma.networkNode.findMany.mockResolvedValue([
+        { id: 'node1', x: 0, y: 0 },
+        { id: 'node9', x: null, y: null },
+      ]);
+      networkService.getHopDistance.mockResolvedValue(null);
+
+      expect(await service.evaluate(detection, 'node9')).toEqual({
+        localizationRank: null,
+        localizationHopDistance: null,
+        localizationDistance: null,
+      });
+    });
+
+    it('skips detections that were never localized', async () => {
+      const { service, networkService } = createService();
+
+      expect(
+        await service.evaluate(
+          { ...detection, localizedNodeId: null },
+          'node3',
+        ),
+      ).toBeNull();
+      expect(
+        await service.evaluate({ ...detection, candidateRanking: [] }, 'node3'),
+      ).toBeNull();
+      expect(networkService.getHopDistance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMetrics', () => {
+    const row = {
+      networkId: 'n1',
+      algorithm: LocalizationAlgorithm.BLENDED,
+      matrixVersionId: 'v2',
+      matrixVersion: 2,
+      evaluatedCount: 8,
+      top1Count: 2,
+      top5Count: 6,
+      top10Count: 7,
+      notRankedCount: 1,
+      meanRank: 3.1,
+      medianRank: 2.5,
+      meanHopDistance: 1.4,
+      maxHopDistance: 4,
+      meanDistance: 55,
+      medianDistance: 40,
+    };
+
+    it('turns top-k counts into rates per group', async () => {
+      const { service, prisma } = createService();
+      prisma.$queryRaw.mockResolvedValue([row]);
+
+      const { top1Count, top5Count, top10Count, ...rest } = row;
+      expect(await service.getMetrics({})).toEqual([
+        {
+          ...rest,
+          top1Rate: top1Count / 8,
+          top5Rate: top5Count / 8,
+          top10Rate: top10Count / 8,
+        },
+      ]);
+    });
+
+    it('only aggregates resolved, ranked detections matching the filters', async () => {
+      const { service, prisma } = createService();
+
+      await service.getMetrics({
+        networkId: 'n1',
+        algorithm: LocalizationAlgorithm.BLENDED,
+        startDate: '2026-01-01',
+      });
+
+      const [strings, ...values] = prisma.$queryRaw.mock.calls[0] as [
+        TemplateStringsArray,
+        ...unknown[],
+      ];
+      const sql = strings.join('?');
+      expect(sql).toContain(`d."status" = 'RESOLVED'`);
+      expect(sql).toContain('d."repairNodeId" IS NOT NULL');
+      expect(sql).toContain('cardinality(d."candidateRanking") > 0');
+      expect(sql).toContain(
+        'GROUP BY d."networkId", d."localizationAlgorithm", d."matrixVersionId"',
+      );
+
+      const [filters] = values as [Prisma.Sql];
+      expect(filters.sql).toBe(
+        'AND d."networkId" = ? AND d."localizationAlgorithm"::text = ? AND d."resolvedAt" >= ?',
+      );
+      expect(filters.values).toEqual([
+        'n1',
+        LocalizationAlgorithm.BLENDED,
+        new Date('2026-01-01'),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import { LeakDetection, LocalizationAlgorithm, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { NetworkService } from '../../network/network.service';
+import { QueryLocalizationMetricsDto } from '../dto/query-localization-metrics.dto';
+
+export interface LocalizationAccuracy {
+  localizationRank: number | null; // 1-based; null if the repair node was not a candidate
+  localizationHopDistance: number | null; // null if the nodes are not connected
+  localizationDistance: number | null; // null without coordinates for both nodes
+}
+
+export interface LocalizationMetrics {
+  networkId: string;
+  algorithm: LocalizationAlgorithm;
+  matrixVersionId: string;
+  matrixVersion: number | null;
+  evaluatedCount: number;
+  top1Rate: number;
+  top5Rate: number;
+  top10Rate: number;
+  notRankedCount: number;
+  meanRank: number | null;
+  medianRank: number | null;
+  meanHopDistance: number | null;
+  maxHopDistance: number | null;
+  meanDistance: number | null;
+  medianDistance: number | null;
+}
+
+/**
+ * Measures how far localization was from where leaks were actually found,
+ * per resolved detection and aggregated per network, algorithm and matrix
+ * version.
+ */
+@Injectable()
+export class LocalizationMetricsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly networkService: NetworkService,
+  ) {}
+
+  /**
+   * Localization error of a detection whose leak was found at the repair
+   * node. Returns null when the detection was never localized.
+   */
+  async evaluate(
+    detection: Pick<
+      LeakDetection,
+      'networkId' | 'localizedNodeId' | 'candidateRanking'
+    >,
+    repairNodeId: string,
+  ): Promise<LocalizationAccuracy | null> {
+    const { localizedNodeId } = detection;
+    if (!localizedNodeId || detection.candidateRanking.length === 0) {
+      return null;
+    }
+
+    const [hopDistance, nodes] = await Promise.all([
+      this.networkService.getHopDistance(
+        detection.networkId,
+        localizedNodeId,
+        repairNodeId,
+      ),
+      this.prisma.networkNode.findMany({
+        where: { id: { in: [localizedNodeId, repairNodeId] } },
+        select: { id: true, x: true, y: true },
+      }),
+    ]);
+
+    const localized = nodes.find((node) => node.id === localizedNodeId);
+    const repaired = nodes.find((node) => node.id === repairNodeId);
+    const rank = detection.candidateRanking.indexOf(repairNodeId);
+
+    return {
+      localizationRank: rank >= 0 ? rank + 1 : null,
+      localizationHopDistance: hopDistance,
+      localizationDistance:
+        localized?.x != null &&
+        localized.y != null &&
+        repaired?.x != null &&
+        repaired.y != null
+          ? Math.hypot(localized.x - repaired.x, localized.y - repaired.y)
+          : null,
+    };
+  }
+
+  /**
+   * Accuracy of localized leaks that were resolved at a known node, grouped
+   * by network, algorithm and matrix version.
+   */
+  async getMetrics(
+    query: QueryLocalizationMetricsDto,
+  ): Promise<LocalizationMetrics[]> {
+    const conditions = [
+      query.networkId && Prisma.sql`d."networkId" = ${query.networkId}`,
+      query.algorithm &&
+        Prisma.sql`d."localizationAlgorithm"::text = ${query.algorithm}`,
+      query.matrixVersionId &&
+        Prisma.sql`d."matrixVersionId" = ${query.matrixVersionId}`,
+      query.startDate &&
+        Prisma.sql`d."resolvedAt" >= ${new Date(query.startDate)}`,
+      query.endDate && Prisma.sql`d."resolvedAt" <= ${new Date(query.endDate)}`,
+    ].filter((condition): condition is Prisma.Sql => !!condition);
+
+    // Detections localized before rankings were stored cannot be evaluated
+    const rows = await this.prisma.$queryRaw<
+      Array<
+        Omit<LocalizationMetrics, 'top1Rate' | 'top5Rate' | 'top10Rate'> & {
+          top1Count: number;
+          top5Count: number;
+          top10Count: number;
+        }
+      >
+    >`
+      SELECT
+        d."networkId",
+        d."localizationAlgorithm"::text AS "algorithm",
+        d."matrixVersionId",
+        v."version" AS "matrixVersion",
+        COUNT(*)::int AS "evaluatedCount",
+        (COUNT(*) FILTER (WHERE d."localizationRank" = 1))::int AS "top1Count",
+        (COUNT(*) FILTER (WHERE d."localizationRank" <= 5))::int AS "top5Count",
+        (COUNT(*) FILTER (WHERE d."localizationRank" <= 10))::int AS "top10Count",
+        (COUNT(*) FILTER (WHERE d."localizationRank" IS NULL))::int AS "notRankedCount",
+        AVG(d."localizationRank")::float8 AS "meanRank",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY d."localizationRank") AS "medianRank",
+        AVG(d."localizationHopDistance")::float8 AS "meanHopDistance",
+        MAX(d."localizationHopDistance") AS "maxHopDistance",
+        AVG(d."localizationDistance") AS "meanDistance",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY d."localizationDistance") AS "medianDistance"
+      FROM "leak_detections" d
+      LEFT JOIN "sensitivity_matrix_versions" v ON v."id" = d."matrixVersionId"
+      WHERE d."status" = 'RESOLVED'
+        AND d."repairNodeId" IS NOT NULL
+        AND d."localizationAlgorithm" IS NOT NULL
+        AND d."matrixVersionId" IS NOT NULL
+        AND cardinality(d."candidateRanking") > 0
+        ${conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+      GROUP BY d."networkId", d."localizationAlgorithm", d."matrixVersionId", v."version"
+      ORDER BY d."networkId", v."version" DESC NULLS LAST, 2
+    `;
+
+    return rows.map(({ top1Count, top5Count, top10Count, ...row }) => ({
+      ...row,
+      top1Rate: top1Count / row.evaluatedCount,
+      top5Rate: top5Count / row.evaluatedCount,
+      top10Rate: top10Count / row.evaluatedCount,
+    }));
+  }
+}
@@ -0,0 +1,56 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import { LocalizationStrategy } from './strategies/localization-strategy';
+import { AngleStrategy } from './strategies/angle.strategy';
+import { BayesianStrategy } from './strategies/bayesian.strategy';
+import { BlendedStrategy } from './strategies/blended.strategy';
+import { CosineStrategy } from './strategies/cosine.strategy';
+import { LeastSquaresStrategy } from './strategies/least-squares.strategy';
+import { NormalizedCorrelationStrategy } from './strategies/normalized-correlation.strategy';
+
+export const DEFAULT_LOCALIZATION_ALGORITHM = LocalizationAlgorithm.BLENDED;
+
+/**
+ * Looks up localization scoring strategies by algorithm.
+ */
+@Injectable()
+export class LocalizationStrategyRegistry {
+  private readonly strategies = new Map<
+    LocalizationAlgorithm,
+    LocalizationStrategy
+  >();
+
+  constructor(
+    blended: BlendedStrategy,
+    cosine: CosineStrategy,
+    leastSquares: LeastSquaresStrategy,
+    normalizedCorrelation: NormalizedCorrelationStrategy,
+    angle: AngleStrategy,
+    bayesian: BayesianStrategy,
+  ) {
+    for (const strategy of [
+      blended,
+      cosine,
+      leastSquares,
+      normalizedCorrelation,
+      angle,
+      bayesian,
+    ]) {
+      this.strategies.set(strategy.algorithm, strategy);
+    }
+  }
+
+  get(algorithm: LocalizationAlgorithm): LocalizationStrategy {
+    const strategy = this.strategies.get(algorithm);
+    if (!strategy) {
+      throw new BadRequestException(
+        `Unsupported localization algorithm: ${algorithm}. Must be one of ${this.algorithms().join(', ')}`,
+      );
+    }
+    return strategy;
+  }
+
+  algorithms(): LocalizationAlgorithm[] {
+    return [...this.strategies.keys()];
+  }
+}
@@ -1,18 +1,48 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../../database/prisma/prisma.service';
 import { SensitivityMatrixService } from '../../network/services/sensitivity-matrix.service';
+import {
+  DenseMatrixSlice,
+  SensitivityMatrixCacheService,
+} from '../../network/services/sensitivity-matrix-cache.service';
 import { NetworkService } from '../../network/network.service';
-import { LeakDetection } from '@prisma/client';
+import {
+  LeakDetection,
+  LinkType,
+  LocalizationAlgorithm,
+  Prisma,
+} from '@prisma/client';
+import { getSensorMeasurement } from '../../../common/utils/sensor-measurement.util';
+import {
+  dot,
+  solveLeastSquares,
+} from '../../../common/utils/least-squares.util';
+import {
+  CandidateEvidence,
+  LocalizationStrategy,
+  residualSumOfSquares,
+} from './strategies/localization-strategy';
+import {
+  DEFAULT_LOCALIZATION_ALGORITHM,
+  LocalizationStrategyRegistry,
+} from './localization-strategy.registry';
+import { LeakPriorService } from './leak-prior.service';
+import { ReadingAggregateService } from '../../readings/services/reading-aggregate.service';
+import { ReadingsService } from '../../readings/readings.service';
 
 export interface LocalizationResult {
   detectionId: string;
   originalNodeId: string;
   localizedNodeId: string;
   localizationScore: number;
-  candidateNodes: Array<{
-    nodeId: string;
-    score: number;
-  }>;
+  algorithm: LocalizationAlgorithm; // Strategy that produced every score
+  matrixVersionId: string; // Sensitivity matrix version the scores came from
+  matrixHourOfDay: number; // Time-of-day slice matched to the detection
+  estimatedLeakFlow: number; // L/s, fitted at the localized node
+  candidateNodes: NodeCandidate[];
+  rankedNodeIds: string[]; // Every candidate node, best first
+  candidateLinks: LinkCandidate[]; // Only filled when link candidates are requested
+  multiLeak?: MultiLeakResult; // Only set when more than one leak is allowed
   sensorChanges: Array<{
     sensorId: string;
     observedChange: number;
@@ -20,26 +50,78 @@ export interface LocalizationResult {
   }>;
 }
 
+export interface MatrixSlice {
+  versionId: string;
+  hourOfDay: number;
+}
+
+export interface LocalizationOptions {
+  includeLinks?: boolean; // Also rank pipes
+  maxLeaks?: number; // Explain the observed changes with up to this many leaks
+  algorithm?: LocalizationAlgorithm; // Overrides the network's default
+}
+
+export interface LeakEstimate {
+  nodeId: string;
+  estimatedSize: number; // L/s
+}
+
+export interface MultiLeakResult {
+  leaks: LeakEstimate[];
+  residualExplained: number; // Share (0-1) of the observed change vector explained
+}
+
+export const CANDIDATE_TYPES = ['NODE', 'LINK', 'BOTH'] as const;
+export type CandidateType = (typeof CANDIDATE_TYPES)[number];
+
+export interface LeakSizeFit {
+  estimatedLeakFlow: number; // L/s, least-squares scale of the sensitivity column
+  confidenceInterval: { lower: number; upper: number }; // 95%, L/s
+}
+
+export interface NodeCandidate extends LeakSizeFit {
+  nodeId: string;
+  score: number;
+  prior?: number; // Normalized prior probability, Bayesian scoring only
+}
+
+export interface LinkCandidate extends LeakSizeFit {
+  linkId: string; // NetworkLink UUID
+  score: number;
+  position: number; // Estimated leak position from fromNode (0) to toNode (1)
+  distanceFromStart: number | null; // m from fromNode, when the pipe length is known
+}
+
 @Injectable()
 export class LocalizationService {
   private readonly DEFAULT_BASELINE_TIME_WINDOW = 3600; // 1 hour in seconds
   private readonly DEFAULT_DETECTION_TIME_WINDOW = 300; // 5 minutes in seconds
+  private readonly LINK_POSITION_STEPS = 20; // Positions tried along each pipe
+  private readonly MIN_EXTRA_LEAK_GAIN = 0.05; // Share of the change an added leak must explain
+  private readonly CONFIDENCE_Z = 1.96; // 95% interval, normal approximation
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly sensitivityMatrixService: SensitivityMatrixService,
+    private readonly matrixCache: SensitivityMatrixCacheService,
     private readonly networkService: NetworkService,
+    private readonly strategyRegistry: LocalizationStrategyRegistry,
+    private readonly leakPriorService: LeakPriorService,
+    private readonly readingAggregates: ReadingAggregateService,
+    private readonly readingsService: ReadingsService,
   ) {}
 
   async localizeLeakForDetection(
     detection: LeakDetection,
     baselineTimeWindow?: number,
+    options: LocalizationOptions = {},
   ): Promise<LocalizationResult> {
     const networkId = detection.networkId;
 
-    // Check if sensitivity matrix exists for this network
-    const matrixExists = await this.sensitivityMatrixService.checkMatrixExists(networkId);
-    if (!matrixExists) {
+    // Localize against the active sensitivity matrix version for this network
+    const matrixVersion =
+      await this.sensitivityMatrixService.getActiveVersion(networkId);
+    if (!matrixVersion) {
       throw new BadRequestException(
         `Sensitivity matrix not found for network ${networkId}. Please generate the matrix first.`,
       );
@@ -79,16 +161,25 @@ export class LocalizationService {
       );
     }
 
-    // Get all potential leak nodes from sensitivity matrix (filtered by networkId)
-    let potentialNodes = await this.prisma.sensitivityMatrix.findMany({
-      where: { networkId },
-      select: {
-        leakNodeId: true,
-      },
-      distinct: ['leakNodeId'],
-    });
+    // Use the time-of-day slice closest to when the leak was detected
+    const slice: MatrixSlice = {
+      versionId: matrixVersion.id,
+      hourOfDay: this.selectHourOfDay(
+        matrixVersion.hoursOfDay,
+        detection.timestamp,
+      ),
+    };
 
-    if (potentialNodes.length === 0) {
+    // Every leak node of the slice is a potential location. The slice is
+    // cached, so bulk localization reads the matrix only once.
+    const matrix = await this.matrixCache.getSlice(
+      networkId,
+      slice.versionId,
+      slice.hourOfDay,
+    );
+    let candidateNodeIds = matrix.nodeIds;
+
+    if (candidateNodeIds.length === 0) {
       throw new BadRequestException(
         'No potential leak nodes found in sensitivity matrix',
       );
@@ -99,29 +190,52 @@ export class LocalizationService {
       const dmaNodeIds = await this.networkService.getNodeIdsInDma(
         detection.partitionId,
       );
-      potentialNodes = potentialNodes.filter(({ leakNodeId }) =>
-        dmaNodeIds.has(leakNodeId),
+      candidateNodeIds = candidateNodeIds.filter((nodeId) =>
+        dmaNodeIds.has(nodeId),
       );
 
-      if (potentialNodes.length === 0) {
+      if (candidateNodeIds.length === 0) {
         throw new BadRequestException(
           `No potential leak nodes found in DMA ${detection.partitionId}`,
         );
       }
     }
 
-    // Calculate scores for each potential node
-    const candidateScores: Array<{ nodeId: string; score: number }> = [];
-
-    for (const { leakNodeId } of potentialNodes) {
-      const score = await this.calculateLocalizationScore(
-        leakNodeId,
-        observedChanges,
-        detection.flowImbalance,
-        networkId,
-      );
-      candidateScores.push({ nodeId: leakNodeId, score });
-    }
+    // Flow and pressure changes are in different units, so scale each
+    // quantity group before they are fused into a single score
+    const sensorScales = await this.getSensorScales(observedChanges, networkId);
+
+    const algorithm = await this.resolveAlgorithm(networkId, options.algorithm);
+    const strategy = this.strategyRegistry.get(algorithm);
+
+    // Only Bayesian scoring uses priors; the posterior sums to 1 over the DMA
+    const priorWeights =
+      algorithm === LocalizationAlgorithm.BAYESIAN
+        ? await this.leakPriorService.getPriorWeights(candidateNodeIds)
+        : undefined;
+    const priors = priorWeights
+      ? this.normalizePriors(
+          candidateNodeIds.map((nodeId) => priorWeights.get(nodeId) ?? 1),
+        )
+      : undefined;
+
+    // Score each potential node with its own best-fit leak size, so a biased
+    // mass balance does not skew the ranking
+    const nodeScores = this.calculateMatrixScores(
+      matrix,
+      candidateNodeIds,
+      observedChanges,
+      strategy,
+      sensorScales,
+      priors,
+    );
+    const candidateScores: NodeCandidate[] = candidateNodeIds.map(
+      (nodeId, i) => ({
+        nodeId,
+        ...nodeScores[i],
+        ...(priors && { prior: priors[i] }),
+      }),
+    );
 
     // Sort by score (descending)
     candidateScores.sort((a, b) => b.score - a.score);
@@ -134,12 +248,40 @@ export class LocalizationService {
       );
     }
 
-    // Get predicted changes for top candidate
-    const predictedChanges = await this.getPredictedChanges(
-      topCandidate.nodeId,
-      detection.flowImbalance,
-      networkId,
-    );
+    const candidateLinks = options.includeLinks
+      ? await this.scoreLinkCandidates(
+          networkId,
+          new Set(candidateNodeIds),
+          observedChanges,
+          matrix,
+          strategy,
+          sensorScales,
+          priorWeights,
+        )
+      : [];
+
+    const multiLeak =
+      (options.maxLeaks ?? 1) > 1
+        ? this.findLeakCombination(
+            observedChanges,
+            this.getSensitivityVectors(matrix, candidateNodeIds),
+            options.maxLeaks!,
+            sensorScales,
+          )
+        : undefined;
+
+    // Predicted changes for the top candidate at its fitted leak size
+    const topSensitivity =
+      this.getSensitivityVectors(matrix, [topCandidate.nodeId]).get(
+        topCandidate.nodeId,
+      ) ?? new Map<string, number>();
+    const predictedChanges = new Map<string, number>();
+    for (const [sensorId, sensitivity] of topSensitivity.entries()) {
+      predictedChanges.set(
+        sensorId,
+        sensitivity * topCandidate.estimatedLeakFlow,
+      );
+    }
 
     // Build sensor changes array
     const sensorChanges: Array<{
@@ -162,7 +304,14 @@ export class LocalizationService {
       originalNodeId: detection.nodeId,
       localizedNodeId: topCandidate.nodeId,
       localizationScore: topCandidate.score,
+      algorithm,
+      estimatedLeakFlow: topCandidate.estimatedLeakFlow,
+      matrixVersionId: slice.versionId,
+      matrixHourOfDay: slice.hourOfDay,
       candidateNodes: candidateScores.slice(0, 10), // Top 10 candidates
+      rankedNodeIds: candidateScores.map((candidate) => candidate.nodeId),
+      candidateLinks: candidateLinks.slice(0, 10),
+      multiLeak,
       sensorChanges,
     };
   }
@@ -187,40 +336,12 @@ export class LocalizationService {
       baselineEnd.getTime() - baselineWindow * 1000,
     );
 
-    // Get all active sensors for this network
-    const sensors = await this.prisma.sensor.findMany({
-      where: {
-        networkId,
-        isActive: true,
-      },
-      select: { id: true, sensorId: true },
-    });
-
-    const baselineMap = new Map<string, number>();
-
-    // For each sensor, calculate average reading in the baseline window
-    for (const sensor of sensors) {
-      const readings = await this.prisma.sensorReading.findMany({
-        where: {
-          sensorId: sensor.id,
-          timestamp: {
-            gte: baselineStart,
-            lt: baselineEnd,
-          },
-        },
-        select: {
-          flowValue: true,
-        },
-      });
-
-      if (readings.length > 0) {
-        const sum = readings.reduce((acc, r) => acc + r.flowValue, 0);
-        const average = sum / readings.length;
-        baselineMap.set(sensor.sensorId, average);
-      }
-    }
-
-    return baselineMap;
+    // Averaged from the reading aggregates when the window is long enough
+    return this.readingAggregates.getSensorAverages(
+      networkId,
+      baselineStart,
+      baselineEnd,
+    );
   }
 
   /**
@@ -250,31 +371,38 @@ export class LocalizationService {
       },
       select: { id: true, sensorId: true },
     });
+    const qualityFilter = await this.qualityFilter(networkId);
 
-    for (const sensor of sensors) {
-      const baseline = baselineReadings.get(sensor.sensorId);
-      if (baseline === undefined) {
-        continue; // Skip sensors without baseline
-      }
+    // Skip sensors without baseline
+    const withBaseline = sensors.filter((sensor) =>
+      baselineReadings.has(sensor.sensorId),
+    );
+    if (withBaseline.length === 0) {
+      return changes;
+    }
 
-      // Get average reading in the anomaly window
-      const readings = await this.prisma.sensorReading.findMany({
-        where: {
-          sensorId: sensor.id,
-          timestamp: {
-            gte: anomalyStart,
-            lte: anomalyEnd,
-          },
-        },
-        select: {
-          flowValue: true,
+    // Average reading in the anomaly window, for all sensors at once
+    const averages = await this.prisma.sensorReading.groupBy({
+      by: ['sensorId'],
+      where: {
+        sensorId: { in: withBaseline.map((sensor) => sensor.id) },
+        timestamp: {
+          gte: anomalyStart,
+          lte: anomalyEnd,
         },
-      });
+        ...qualityFilter,
+      },
+      _avg: { flowValue: true },
+    });
+    const averageBySensor = new Map(
+      averages.map((row) => [row.sensorId, row._avg.flowValue]),
+    );
 
-      if (readings.length > 0) {
-        const sum = readings.reduce((acc, r) => acc + r.flowValue, 0);
-        const anomalyAverage = sum / readings.length;
-        const observedChange = anomalyAverage - baseline;
+    for (const sensor of withBaseline) {
+      const anomalyAverage = averageBySensor.get(sensor.id);
+      if (anomalyAverage !== undefined && anomalyAverage !== null) {
+        const observedChange =
+          anomalyAverage - baselineReadings.get(sensor.sensorId)!;
         changes.set(sensor.sensorId, observedChange);
       }
     }
@@ -290,40 +418,11 @@ export class LocalizationService {
   ): Promise<Map<string, number>> {
     const startTime = new Date(timestamp.getTime() - timeWindow * 1000);
 
-    // Get all active sensors for this network
-    const sensors = await this.prisma.sensor.findMany({
-      where: {
-        networkId,
-        isActive: true,
-      },
-      select: { id: true, sensorId: true },
-    });
-
-    const baselineMap = new Map<string, number>();
-
-    // For each sensor, calculate average reading in the baseline window
-    for (const sensor of sensors) {
-      const readings = await this.prisma.sensorReading.findMany({
-        where: {
-          sensorId: sensor.id,
-          timestamp: {
-            gte: startTime,
-            lt: timestamp,
-          },
-        },
-        select: {
-          flowValue: true,
-        },
-      });
-
-      if (readings.length > 0) {
-        const sum = readings.reduce((acc, r) => acc + r.flowValue, 0);
-        const average = sum / readings.length;
-        baselineMap.set(sensor.sensorId, average);
-      }
-    }
-
-    return baselineMap;
+    return this.readingAggregates.getSensorAverages(
+      networkId,
+      startTime,
+      timestamp,
+    );
   }
 
   async getObservedChanges(
@@ -342,30 +441,26 @@ export class LocalizationService {
       select: { id: true, sensorId: true },
     });
 
-    for (const sensor of sensors) {
-      const baseline = baselineReadings.get(sensor.sensorId);
-      if (baseline === undefined) {
-        continue; // Skip sensors without baseline
-      }
+    // Skip sensors without baseline
+    const withBaseline = sensors.filter((sensor) =>
+      baselineReadings.has(sensor.sensorId),
+    );
+    if (withBaseline.length === 0) {
+      return changes;
+    }
 
-      // Get reading at detection timestamp (or latest before)
-      const reading = await this.prisma.sensorReading.findFirst({
-        where: {
-          sensorId: sensor.id,
-          timestamp: {
-            lte: timestamp,
-          },
-        },
-        orderBy: {
-          timestamp: 'desc',
-        },
-        select: {
-          flowValue: true,
-        },
-      });
+    // Reading at detection timestamp (or latest before), for all sensors at
+    // once; flagged readings are left out on networks that exclude them
+    const summaries = await this.readingsService.getSensorSummaries({
+      timestamp,
+      sensorIds: withBaseline.map((sensor) => sensor.id),
+    });
 
-      if (reading) {
-        const observedChange = reading.flowValue - baseline;
+    for (const sensor of withBaseline) {
+      const summary = summaries.get(sensor.id);
+      if (summary) {
+        const observedChange =
+          summary.latestValue - baselineReadings.get(sensor.sensorId)!;
         changes.set(sensor.sensorId, observedChange);
       }
     }
@@ -373,134 +468,548 @@ export class LocalizationService {
     return changes;
   }
 
-  async calculateLocalizationScore(
-    leakNodeId: string,
+  // Leaves out flagged readings on networks that exclude them
+  private async qualityFilter(
+    networkId: string,
+  ): Promise<Prisma.SensorReadingWhereInput> {
+    const network = await this.prisma.network.findUnique({
+      where: { id: networkId },
+      select: { excludeFlaggedReadings: true },
+    });
+    return network?.excludeFlaggedReadings
+      ? { qualityFlags: { isEmpty: true } }
+      : {};
+  }
+
+  /**
+   * Score leak candidates given their sensitivity columns (change per L/s at
+   * each sensor). A leak size is fitted for each candidate first, and the
+   * strategy compares the observed changes with the fitted prediction.
+   * Candidates without sensitivities score 0.
+   */
+  calculateLocalizationScores(
+    sensitivities: Map<string, number>[],
+    observedChanges: Map<string, number>,
+    strategy: LocalizationStrategy,
+    sensorScales?: Map<string, number>,
+    priors?: number[],
+  ): Array<{ score: number } & LeakSizeFit> {
+    const { sensorIds, scales, target } = this.alignObserved(
+      observedChanges,
+      sensorScales,
+    );
+
+    return this.scoreColumns(
+      sensitivities.map((sensitivity) =>
+        sensitivity.size === 0
+          ? null
+          : sensorIds.map(
+              (sensorId, i) => (sensitivity.get(sensorId) ?? 0) / scales[i],
+            ),
+      ),
+      target,
+      strategy,
+      priors,
+    );
+  }
+
+  /**
+   * Same as calculateLocalizationScores, reading the columns of the given
+   * nodes straight from a cached matrix slice. Nodes outside the slice
+   * score 0.
+   */
+  calculateMatrixScores(
+    matrix: DenseMatrixSlice,
+    nodeIds: string[],
     observedChanges: Map<string, number>,
-    estimatedLeakSize: number,
+    strategy: LocalizationStrategy,
+    sensorScales?: Map<string, number>,
+    priors?: number[],
+  ): Array<{ score: number } & LeakSizeFit> {
+    const { sensorIds, scales, target } = this.alignObserved(
+      observedChanges,
+      sensorScales,
+    );
+    const width = matrix.sensorIds.length;
+    const offsets = sensorIds.map(
+      (sensorId) => matrix.sensorIndex.get(sensorId) ?? -1,
+    );
+
+    const columns = nodeIds.map((nodeId) => {
+      const row = matrix.nodeIndex.get(nodeId);
+      if (row === undefined) {
+        return null;
+      }
+
+      const column = new Float64Array(sensorIds.length);
+      for (let i = 0; i < offsets.length; i++) {
+        if (offsets[i] >= 0) {
+          column[i] = matrix.values[row * width + offsets[i]] / scales[i];
+        }
+      }
+      return column;
+    });
+
+    return this.scoreColumns(columns, target, strategy, priors);
+  }
+
+  /**
+   * Fit and score all candidates in one pass over their scaled columns,
+   * aligned with the scaled target. Null columns score 0.
+   */
+  private scoreColumns(
+    columns: Array<ArrayLike<number> | null>,
+    target: number[],
+    strategy: LocalizationStrategy,
+    priors?: number[],
+  ): Array<{ score: number } & LeakSizeFit> {
+    const evaluated = columns.map((column) =>
+      this.evaluateColumn(column ?? new Float64Array(target.length), target),
+    );
+
+    const scores = strategy.scoreCandidates(
+      evaluated.map(({ predicted }, i) => ({
+        observed: target,
+        predicted,
+        prior: columns[i] ? (priors?.[i] ?? 1 / columns.length) : 0,
+      })),
+    );
+
+    return evaluated.map(({ fit }, i) => ({
+      score: columns[i] ? scores[i] : 0,
+      ...fit,
+    }));
+  }
+
+  /**
+   * Fit the leak size for one sensitivity column and build the scaled
+   * observed and predicted vectors, aligned by observed sensor.
+   */
+  private buildEvidence(
+    sensitivity: Map<string, number>,
+    observedChanges: Map<string, number>,
+    sensorScales?: Map<string, number>,
+  ): { fit: LeakSizeFit; evidence: Omit<CandidateEvidence, 'prior'> } {
+    const { sensorIds, scales, target } = this.alignObserved(
+      observedChanges,
+      sensorScales,
+    );
+    const { fit, predicted } = this.evaluateColumn(
+      sensorIds.map(
+        (sensorId, i) => (sensitivity.get(sensorId) ?? 0) / scales[i],
+      ),
+      target,
+    );
+
+    return { fit, evidence: { observed: target, predicted } };
+  }
+
+  /**
+   * Least-squares leak size for one sensitivity column: the scale q that
+   * minimises sum((observed - q * sensitivity)^2) over the (scaled) sensors,
+   * with a confidence interval from the residual spread. Leaks cannot be
+   * negative, so the estimate and bounds are clamped at zero.
+   */
+  fitLeakSize(
+    sensitivity: Map<string, number>,
+    observedChanges: Map<string, number>,
+    sensorScales?: Map<string, number>,
+  ): LeakSizeFit {
+    return this.buildEvidence(sensitivity, observedChanges, sensorScales).fit;
+  }
+
+  /**
+   * Fit the leak size for a scaled column and predict the scaled changes
+   * at that size.
+   */
+  private evaluateColumn(
+    column: ArrayLike<number>,
+    target: number[],
+  ): { fit: LeakSizeFit; predicted: number[] } {
+    let sumXX = 0;
+    let sumXY = 0;
+    for (let i = 0; i < target.length; i++) {
+      sumXX += column[i] * column[i];
+      sumXY += column[i] * target[i];
+    }
+
+    if (sumXX === 0) {
+      return {
+        fit: {
+          estimatedLeakFlow: 0,
+          confidenceInterval: { lower: 0, upper: 0 },
+        },
+        predicted: target.map(() => 0),
+      };
+    }
+
+    const size = sumXY / sumXX;
+    let rss = 0;
+    for (let i = 0; i < target.length; i++) {
+      rss += (target[i] - size * column[i]) ** 2;
+    }
+    const degreesOfFreedom = target.length - 1;
+    const standardError =
+      degreesOfFreedom > 0 ? Math.sqrt(rss / degreesOfFreedom / sumXX) : 0;
+    const margin = this.CONFIDENCE_Z * standardError;
+    const estimatedLeakFlow = Math.max(0, size);
+
+    return {
+      fit: {
+        estimatedLeakFlow,
+        confidenceInterval: {
+          lower: Math.max(0, size - margin),
+          upper: Math.max(0, size + margin),
+        },
+      },
+      predicted: Array.from(column, (x) => x * estimatedLeakFlow),
+    };
+  }
+
+  /**
+   * Observed changes as a target vector scaled per sensor, in the order of
+   * observedChanges.
+   */
+  private alignObserved(
+    observedChanges: Map<string, number>,
+    sensorScales?: Map<string, number>,
+  ): { sensorIds: string[]; scales: number[]; target: number[] } {
+    const sensorIds = [...observedChanges.keys()];
+    const scales = sensorIds.map(
+      (sensorId) => sensorScales?.get(sensorId) ?? 1,
+    );
+    const target = sensorIds.map(
+      (sensorId, i) => observedChanges.get(sensorId)! / scales[i],
+    );
+    return { sensorIds, scales, target };
+  }
+
+  /**
+   * Rank pipes by interpolating the sensitivities of their end nodes: a leak
+   * part-way along a pipe is approximated as a weighted mix of leaks at its
+   * two ends. Each pipe keeps its best-fitting position. Only pipes whose
+   * ends are both candidate nodes are scored. Node prior weights, when
+   * given, are interpolated to the chosen position.
+   */
+  async scoreLinkCandidates(
     networkId: string,
-  ): Promise<number> {
-    // Get sensitivity values for this leak node (filtered by networkId)
-    const sensitivityEntries = await this.prisma.sensitivityMatrix.findMany({
+    candidateNodeIds: Set<string>,
+    observedChanges: Map<string, number>,
+    matrix: DenseMatrixSlice,
+    strategy: LocalizationStrategy,
+    sensorScales?: Map<string, number>,
+    priorWeights?: Map<string, number>,
+  ): Promise<LinkCandidate[]> {
+    const links = await this.prisma.networkLink.findMany({
       where: {
         networkId,
-        leakNodeId,
+        linkType: LinkType.PIPE,
+        fromNodeId: { in: [...candidateNodeIds] },
+        toNodeId: { in: [...candidateNodeIds] },
       },
-      include: {
-        sensor: {
-          select: {
-            sensorId: true,
-          },
-        },
+      select: {
+        id: true,
+        fromNodeId: true,
+        toNodeId: true,
+        length: true,
       },
     });
 
-    if (sensitivityEntries.length === 0) {
-      return 0;
+    if (links.length === 0) {
+      return [];
     }
 
-    // Build predicted changes map
-    const predictedChanges = new Map<string, number>();
-    for (const entry of sensitivityEntries) {
-      const predictedChange = entry.sensitivityValue * estimatedLeakSize;
-      predictedChanges.set(entry.sensor.sensorId, predictedChange);
-    }
+    const endNodeIds = new Set(
+      links.flatMap((link) => [link.fromNodeId, link.toNodeId]),
+    );
+    const sensitivities = this.getSensitivityVectors(matrix, [...endNodeIds]);
 
-    // Calculate correlation/score using least squares method
-    let sumSquaredDiff = 0;
-    let sumObservedSquared = 0;
-    let sumPredictedSquared = 0;
-    let count = 0;
+    const bestFits: Array<{
+      link: (typeof links)[number];
+      position: number;
+      sensitivity: Map<string, number>;
+    }> = [];
 
-    for (const [sensorId, observedChange] of observedChanges.entries()) {
-      const predictedChange = predictedChanges.get(sensorId) || 0;
+    for (const link of links) {
+      const from = sensitivities.get(link.fromNodeId);
+      const to = sensitivities.get(link.toNodeId);
+      if (!from || !to) {
+        continue;
+      }
 
-      if (predictedChange === 0 && observedChange === 0) {
-        continue; // Skip sensors with no change
+      const sensorIds = new Set([...from.keys(), ...to.keys()]);
+
+      // Try evenly spaced positions and keep the one with the smallest residual
+      let best: (typeof bestFits)[number] | null = null;
+      let bestResidual = Infinity;
+      for (let step = 0; step <= this.LINK_POSITION_STEPS; step++) {
+        const position = step / this.LINK_POSITION_STEPS;
+        const sensitivity = new Map<string, number>();
+        for (const sensorId of sensorIds) {
+          sensitivity.set(
+            sensorId,
+            (1 - position) * (from.get(sensorId) ?? 0) +
+              position * (to.get(sensorId) ?? 0),
+          );
+        }
+
+        const { evidence } = this.buildEvidence(
+          sensitivity,
+          observedChanges,
+          sensorScales,
+        );
+        const residual = residualSumOfSquares(
+          evidence.observed,
+          evidence.predicted,
+        );
+        if (residual < bestResidual) {
+          best = { link, position, sensitivity };
+          bestResidual = residual;
+        }
       }
 
-      const diff = observedChange - predictedChange;
-      sumSquaredDiff += diff * diff;
-      sumObservedSquared += observedChange * observedChange;
-      sumPredictedSquared += predictedChange * predictedChange;
-      count++;
+      if (best) {
+        bestFits.push(best);
+      }
     }
 
-    if (count === 0) {
-      return 0;
+    const priors = priorWeights
+      ? this.normalizePriors(
+          bestFits.map(
+            ({ link, position }) =>
+              (1 - position) * (priorWeights.get(link.fromNodeId) ?? 1) +
+              position * (priorWeights.get(link.toNodeId) ?? 1),
+          ),
+        )
+      : undefined;
+
+    const scores = this.calculateLocalizationScores(
+      bestFits.map(({ sensitivity }) => sensitivity),
+      observedChanges,
+      strategy,
+      sensorScales,
+      priors,
+    );
+
+    const candidates: LinkCandidate[] = bestFits.map(
+      ({ link, position }, i) => ({
+        linkId: link.id,
+        ...scores[i],
+        position,
+        distanceFromStart: link.length !== null ? link.length * position : null,
+      }),
+    );
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Explain the observed changes with up to maxLeaks simultaneous leaks using
+   * greedy forward least squares: each round adds the node whose leak, refitted
+   * together with those already chosen, leaves the smallest residual. Sizes
+   * must stay positive, and a further leak is only added when it explains a
+   * meaningful extra share of the observed changes.
+   */
+  findLeakCombination(
+    observedChanges: Map<string, number>,
+    sensitivities: Map<string, Map<string, number>>,
+    maxLeaks: number,
+    sensorScales?: Map<string, number>,
+  ): MultiLeakResult {
+    const sensorIds = [...observedChanges.keys()];
+    const scale = (sensorId: string) => sensorScales?.get(sensorId) ?? 1;
+
+    const target = sensorIds.map(
+      (sensorId) => observedChanges.get(sensorId)! / scale(sensorId),
+    );
+    const columns = new Map<string, number[]>();
+    for (const [nodeId, vector] of sensitivities.entries()) {
+      columns.set(
+        nodeId,
+        sensorIds.map(
+          (sensorId) => (vector.get(sensorId) ?? 0) / scale(sensorId),
+        ),
+      );
     }
 
-    // Calculate normalized score using inverse of residual sum of squares
-    // Normalize to 0-1 range
-    const rss = sumSquaredDiff / count;
-    const score = 1 / (1 + rss);
-
-    // Alternative: Use correlation coefficient if both have variance
-    if (sumObservedSquared > 0 && sumPredictedSquared > 0) {
-      // Calculate Pearson correlation
-      let sumProduct = 0;
-      let sumObserved = 0;
-      let sumPredicted = 0;
-
-      for (const [sensorId, observedChange] of observedChanges.entries()) {
-        const predictedChange = predictedChanges.get(sensorId) || 0;
-        sumProduct += observedChange * predictedChange;
-        sumObserved += observedChange;
-        sumPredicted += predictedChange;
+    const total = dot(target, target);
+    if (total === 0) {
+      return { leaks: [], residualExplained: 0 };
+    }
+
+    let selected: string[] = [];
+    let sizes: number[] = [];
+    let residual = total;
+
+    while (selected.length < maxLeaks) {
+      let best: { nodeId: string; sizes: number[]; residual: number } | null =
+        null;
+
+      for (const [nodeId, column] of columns.entries()) {
+        if (selected.includes(nodeId)) {
+          continue;
+        }
+
+        const fit = solveLeastSquares(
+          [...selected.map((id) => columns.get(id)!), column],
+          target,
+        );
+        if (!fit || fit.coefficients.some((size) => size <= 0)) {
+          continue;
+        }
+
+        if (!best || fit.residualSumOfSquares < best.residual) {
+          best = {
+            nodeId,
+            sizes: fit.coefficients,
+            residual: fit.residualSumOfSquares,
+          };
+        }
       }
 
-      const n = count;
-      const meanObserved = sumObserved / n;
-      const meanPredicted = sumPredicted / n;
-
-      let covariance = 0;
-      let varianceObserved = 0;
-      let variancePredicted = 0;
-
-      for (const [sensorId, observedChange] of observedChanges.entries()) {
-        const predictedChange = predictedChanges.get(sensorId) || 0;
-        const obsDiff = observedChange - meanObserved;
-        const predDiff = predictedChange - meanPredicted;
-        covariance += obsDiff * predDiff;
-        varianceObserved += obsDiff * obsDiff;
-        variancePredicted += predDiff * predDiff;
+      if (
+        !best ||
+        (selected.length > 0 &&
+          (residual - best.residual) / total < this.MIN_EXTRA_LEAK_GAIN)
+      ) {
+        break;
       }
 
-      if (varianceObserved > 0 && variancePredicted > 0) {
-        const correlation =
-          covariance / Math.sqrt(varianceObserved * variancePredicted);
-        // Use weighted average of RSS-based score and correlation
-        return (score * 0.5 + (correlation + 1) * 0.25); // Normalize correlation to 0-1
+      selected = [...selected, best.nodeId];
+      sizes = best.sizes;
+      residual = best.residual;
+    }
+
+    return {
+      leaks: selected
+        .map((nodeId, i) => ({ nodeId, estimatedSize: sizes[i] }))
+        .sort((a, b) => b.estimatedSize - a.estimatedSize),
+      residualExplained: Math.max(0, 1 - residual / total),
+    };
+  }
+
+  /**
+   * Sensitivities of several leak nodes from a cached slice, keyed by leak
+   * node and then by sensor code. Zero entries are left out.
+   */
+  private getSensitivityVectors(
+    matrix: DenseMatrixSlice,
+    leakNodeIds: string[],
+  ): Map<string, Map<string, number>> {
+    const width = matrix.sensorIds.length;
+    const vectors = new Map<string, Map<string, number>>();
+
+    for (const nodeId of leakNodeIds) {
+      const row = matrix.nodeIndex.get(nodeId);
+      if (row === undefined) {
+        continue;
       }
+
+      const vector = new Map<string, number>();
+      matrix.sensorIds.forEach((sensorId, col) => {
+        const value = matrix.values[row * width + col];
+        if (value !== 0) {
+          vector.set(sensorId, value);
+        }
+      });
+      vectors.set(nodeId, vector);
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Scale prior weights to sum to 1, falling back to uniform when they
+   * carry no information.
+   */
+  private normalizePriors(weights: number[]): number[] {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return total > 0
+      ? weights.map((weight) => weight / total)
+      : weights.map(() => 1 / weights.length);
+  }
+
+  /**
+   * The request's algorithm wins, then the network's configured default.
+   */
+  private async resolveAlgorithm(
+    networkId: string,
+    requested?: LocalizationAlgorithm,
+  ): Promise<LocalizationAlgorithm> {
+    if (requested) {
+      return requested;
     }
 
-    return score;
+    const network = await this.prisma.network.findUnique({
+      where: { id: networkId },
+      select: { localizationAlgorithm: true },
+    });
+
+    return network?.localizationAlgorithm ?? DEFAULT_LOCALIZATION_ALGORITHM;
+  }
+
+  /**
+   * Pick the matrix slice hour closest to the detection time, wrapping
+   * around midnight. Hours are compared in UTC, the clock EPANET pattern
+   * times are assumed to follow.
+   */
+  private selectHourOfDay(hoursOfDay: number[], timestamp: Date): number {
+    if (hoursOfDay.length === 0) {
+      return 0;
+    }
+
+    const hour = timestamp.getUTCHours() + timestamp.getUTCMinutes() / 60;
+    const distance = (h: number) => {
+      const diff = Math.abs(h - hour);
+      return Math.min(diff, 24 - diff);
+    };
+
+    return hoursOfDay.reduce((best, h) =>
+      distance(h) < distance(best) ? h : best,
+    );
   }
 
-  private async getPredictedChanges(
-    leakNodeId: string,
-    estimatedLeakSize: number,
+  /**
+   * Compute a per-sensor scale so flow (L/s) and pressure/level (m) evidence
+   * can be fused. Each sensor is scaled by the RMS observed change of all
+   * sensors measuring the same quantity.
+   */
+  async getSensorScales(
+    observedChanges: Map<string, number>,
     networkId: string,
   ): Promise<Map<string, number>> {
-    const sensitivityEntries = await this.prisma.sensitivityMatrix.findMany({
+    const sensors = await this.prisma.sensor.findMany({
       where: {
         networkId,
-        leakNodeId,
-      },
-      include: {
-        sensor: {
-          select: {
-            sensorId: true,
-          },
-        },
+        sensorId: { in: [...observedChanges.keys()] },
       },
+      select: { sensorId: true, sensorType: true },
     });
 
-    const predictedChanges = new Map<string, number>();
-    for (const entry of sensitivityEntries) {
-      const predictedChange = entry.sensitivityValue * estimatedLeakSize;
-      predictedChanges.set(entry.sensor.sensorId, predictedChange);
+    const sumSquaresByQuantity = new Map<string, number>();
+    const countByQuantity = new Map<string, number>();
+    const quantityBySensor = new Map<string, string>();
+
+    for (const sensor of sensors) {
+      const { quantity } = getSensorMeasurement(sensor.sensorType);
+      const change = observedChanges.get(sensor.sensorId) ?? 0;
+      quantityBySensor.set(sensor.sensorId, quantity);
+      sumSquaresByQuantity.set(
+        quantity,
+        (sumSquaresByQuantity.get(quantity) ?? 0) + change * change,
+      );
+      countByQuantity.set(quantity, (countByQuantity.get(quantity) ?? 0) + 1);
+    }
+
+    const scales = new Map<string, number>();
+    for (const [sensorId, quantity] of quantityBySensor.entries()) {
+      const rms = Math.sqrt(
+        (sumSquaresByQuantity.get(quantity) ?? 0) /
+          (countByQuantity.get(quantity) ?? 1),
+      );
+      scales.set(sensorId, rms > 0 ? rms : 1);
     }
 
-    return predictedChanges;
+    return scales;
   }
 }
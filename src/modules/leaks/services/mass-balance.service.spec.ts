@@ -0,0 +1,150 @@
+import { ImputationMethod, NodeType, SensorType } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { FLOW_SENSOR_TYPES } from '../../../common/utils/sensor-measurement.util';
+import {
+  ReadingsService,
+  SensorReadingSummary,
+} from '../../readings/readings.service';
+import { ReadingImputationService } from '../../readings/services/reading-imputation.service';
+import { MassBalanceService } from './mass-balance.service';
+
+const timestamp = new Date('2026-03-01T12:00:00Z');
+
+const sensor = (id: string, sensorType: SensorType, nodeType: NodeType) => ({
+  id,
+  sensorId: id.toUpperCase(),
+  sensorType,
+  node: { nodeType },
+});
+
+function createService(averages: Record<string, number>) {
+  const prisma = {
+    networkPartition: {
+      findUnique: jest.fn().mockResolvedValue({
+        mainline: {
+          id: 'mainline',
+          sensors: [sensor('in1', SensorType.MAINLINE_FLOW, NodeType.MAINLINE)],
+        },
+        sensors: [
+          sensor('out1', SensorType.HOUSEHOLD_FLOW, NodeType.HOUSEHOLD),
+          sensor('out2', SensorType.HOUSEHOLD_FLOW, NodeType.HOUSEHOLD),
+        ],
+        network: {
+          excludeFlaggedReadings: false,
+          imputationMethod: ImputationMethod.NONE,
+          imputationMaxAge: 3600,
+          maxImputedFraction: 0.2,
+        },
+      }),
+    },
+  };
+  const summaries = new Map<string, SensorReadingSummary>(
+    Object.entries(averages).map(([sensorId, averageValue]) => [
+      sensorId,
+      {
+        sensorId,
+        latestValue: averageValue,
+        latestTimestamp: timestamp,
+        averageValue,
+        readingCount: 1,
+      },
+    ]),
+  );
+  const readingsService = {
+    getSensorSummaries: jest.fn().mockResolvedValue(summaries),
+  };
+  const readingImputation = {
+    impute: jest.fn().mockResolvedValue(new Map()),
+  };
+  const service = new MassBalanceService(
+    prisma as unknown as PrismaService,
+    readingsService as unknown as ReadingsService,
+    readingImputation as unknown as ReadingImputationService,
+  );
+  return { service, prisma, readingImputation };
+}
+
+describe('MassBalanceService', () => {
+  describe('calculateDmaMassBalance', () => {
+    it('only loads flow sensors of the partition', async () => {
+      const { service, prisma } = createService({ in1: 5, out1: 2, out2: 2 });
+
+      await service.calculateDmaMassBalance('p1', timestamp, 600);
+
+      expect(prisma.networkPartition.findUnique).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        include: {
+          network: {
+            select: {
+              excludeFlaggedReadings: true,
+              imputationMethod: true,
+              imputationMaxAge: true,
+              maxImputedFraction: true,
+            },
+          },
+          mainline: { include: { sensors: { where: { isActive: true } } } },
+          sensors: {
+            where: { isActive: true, sensorType: { in: FLOW_SENSOR_TYPES } },
+            include: { node: { select: { nodeType: true } } },
+          },
+        },
+      });
+    });
+
+    it('balances mainline inflow against household outflow', async () => {
+      const { service } = createService({ in1: 5, out1: 2, out2: 2 });
+
+      const result = await service.calculateDmaMassBalance(
+        'p1',
+        timestamp,
+        600,
+      );
+
+      expect(result.imbalance).toBe(1);
+      expect(result.sensorsUsed).toEqual({
+        inflow: ['IN1'],
+        outflow: ['OUT1', 'OUT2'],
+      });
+      expect(result.detectionSuppressed).toBe(false);
+    });
+
+    it('suppresses detection when a sensor could not be imputed', async () => {
+      // out2 silent and nothing imputed: its flow would read as a leak
+      const { service } = createService({ in1: 5, out1: 2 });
+
+      const result = await service.calculateDmaMassBalance(
+        'p1',
+        timestamp,
+        600,
+      );
+
+      expect(result.imbalance).toBe(3);
+      expect(result.missingSensors).toEqual(['OUT2']);
+      expect(result.imputedFraction).toBe(0);
+      expect(result.detectionSuppressed).toBe(true);
+    });
+
+    it('keeps detection when a small share of the flow is imputed', async () => {
+      const { service, readingImputation } = createService({
+        in1: 10,
+        out1: 9,
+      });
+      readingImputation.impute.mockResolvedValue(
+        new Map([['out2', { value: 0.5, method: ImputationMethod.LOCF }]]),
+      );
+
+      const result = await service.calculateDmaMassBalance(
+        'p1',
+        timestamp,
+        600,
+      );
+
+      expect(result.missingSensors).toEqual([]);
+      expect(result.imputedSensors).toEqual([
+        { sensorId: 'OUT2', value: 0.5, method: ImputationMethod.LOCF },
+      ]);
+      expect(result.imputedFraction).toBeCloseTo(0.5 / 19.5);
+      expect(result.detectionSuppressed).toBe(false);
+    });
+  });
+});
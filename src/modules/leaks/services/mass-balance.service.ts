@@ -1,6 +1,18 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../database/prisma/prisma.service';
-import { NodeType } from '@prisma/client';
+import { ImputationMethod, NodeType, Prisma } from '@prisma/client';
+import { FLOW_SENSOR_TYPES } from '../../../common/utils/sensor-measurement.util';
+import {
+  ReadingsService,
+  SensorReadingSummary,
+} from '../../readings/readings.service';
+import { ReadingImputationService } from '../../readings/services/reading-imputation.service';
+
+export interface ImputedSensor {
+  sensorId: string; // Sensor code
+  method: ImputationMethod;
+  value: number; // Imputed flow in L/s
+}
 
 export interface MassBalanceResult {
   nodeId: string;
@@ -13,11 +25,33 @@ export interface MassBalanceResult {
     outflow: string[]; // Sensor IDs used for outflow
   };
   missingSensors?: string[]; // Sensors that should exist but don't
+  imputedSensors?: ImputedSensor[]; // Sensors without readings whose flow was imputed
+  imputedFraction?: number; // Share of inflow + outflow that was imputed
+  detectionSuppressed?: boolean; // Sensors missing or too much imputed to trust the imbalance
 }
 
+const FLOW_SENSORS = {
+  where: { isActive: true, sensorType: { in: FLOW_SENSOR_TYPES } },
+  select: { id: true, sensorId: true },
+} satisfies Prisma.NetworkNode$sensorsArgs;
+
+// Flow sensors on either side of a node, for node mass balance
+const NODE_BALANCE_INCLUDE = {
+  parent: { select: { sensors: FLOW_SENSORS } },
+  children: { select: { sensors: FLOW_SENSORS } },
+} satisfies Prisma.NetworkNodeInclude;
+
+type BalanceNode = Prisma.NetworkNodeGetPayload<{
+  include: typeof NODE_BALANCE_INCLUDE;
+}>;
+
 @Injectable()
 export class MassBalanceService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly readingsService: ReadingsService,
+    private readonly readingImputation: ReadingImputationService,
+  ) {}
 
   async calculateMassBalance(
     nodeId: string,
@@ -25,66 +59,82 @@ export class MassBalanceService {
   ): Promise<MassBalanceResult> {
     const node = await this.prisma.networkNode.findUnique({
       where: { id: nodeId },
-      include: {
-        parent: {
-          include: {
-            sensors: {
-              where: { isActive: true },
-            },
-          },
-        },
-        children: {
-          include: {
-            sensors: {
-              where: { isActive: true },
-            },
-          },
-        },
-        sensors: {
-          where: { isActive: true },
-        },
-      },
+      include: NODE_BALANCE_INCLUDE,
     });
 
     if (!node) {
       throw new Error(`Node with ID ${nodeId} not found`);
     }
 
-    const inflow = await this.getInflowForNode(nodeId, timestamp);
-    const outflow = await this.getOutflowForNode(nodeId, timestamp);
+    const summaries = await this.readingsService.getSensorSummaries({
+      timestamp,
+      sensorIds: [
+        ...(node.parent?.sensors ?? []),
+        ...node.children.flatMap((child) => child.sensors),
+      ].map((sensor) => sensor.id),
+    });
 
-    // Get sensor IDs used
-    const inflowSensors: string[] = [];
-    const outflowSensors: string[] = [];
+    return this.balanceNode(node, timestamp, summaries);
+  }
 
-    // Inflow sensors (from parent)
-    if (node.parent) {
-      for (const sensor of node.parent.sensors) {
-        const reading = await this.getLatestReadingForSensor(
-          sensor.id,
-          timestamp,
-        );
-        if (reading !== null) {
-          inflowSensors.push(sensor.sensorId);
-        }
+  /**
+   * Mass balance for every junction and branch node, optionally within one
+   * network, from a single readings query. Scenario sandboxes are only
+   * balanced when asked for by ID.
+   */
+  async calculateNetworkMassBalances(
+    timestamp: Date,
+    networkId?: string,
+  ): Promise<MassBalanceResult[]> {
+    const [nodes, summaries] = await Promise.all([
+      this.prisma.networkNode.findMany({
+        where: {
+          nodeType: { in: [NodeType.JUNCTION, NodeType.BRANCH] },
+          ...(networkId
+            ? { networkId }
+            : { network: { scenarioSandbox: false } }),
+        },
+        include: NODE_BALANCE_INCLUDE,
+      }),
+      this.readingsService.getSensorSummaries({ timestamp, networkId }),
+    ]);
+
+    return nodes.map((node) => this.balanceNode(node, timestamp, summaries));
+  }
+
+  /**
+   * Inflow from the parent's sensors and outflow to the children's sensors,
+   * using each sensor's latest reading. There is no window to fall outside
+   * of, so unlike DMA mass balance nothing is imputed; sensors that never
+   * reported are left out.
+   */
+  private balanceNode(
+    node: BalanceNode,
+    timestamp: Date,
+    summaries: Map<string, SensorReadingSummary>,
+  ): MassBalanceResult {
+    let inflow = 0;
+    const inflowSensors: string[] = [];
+    for (const sensor of node.parent?.sensors ?? []) {
+      const summary = summaries.get(sensor.id);
+      if (summary) {
+        inflow += summary.latestValue;
+        inflowSensors.push(sensor.sensorId);
       }
     }
 
-    // Outflow sensors (from children)
-    for (const child of node.children) {
-      for (const sensor of child.sensors) {
-        const reading = await this.getLatestReadingForSensor(
-          sensor.id,
-          timestamp,
-        );
-        if (reading !== null) {
-          outflowSensors.push(sensor.sensorId);
-        }
+    let outflow = 0;
+    const outflowSensors: string[] = [];
+    for (const sensor of node.children.flatMap((child) => child.sensors)) {
+      const summary = summaries.get(sensor.id);
+      if (summary) {
+        outflow += summary.latestValue;
+        outflowSensors.push(sensor.sensorId);
       }
     }
 
     return {
-      nodeId,
+      nodeId: node.id,
       inflow,
       outflow,
       imbalance: inflow - outflow,
@@ -96,78 +146,12 @@ export class MassBalanceService {
     };
   }
 
-  async getInflowForNode(nodeId: string, timestamp: Date): Promise<number> {
-    const node = await this.prisma.networkNode.findUnique({
-      where: { id: nodeId },
-      include: {
-        parent: {
-          include: {
-            sensors: {
-              where: { isActive: true },
-            },
-          },
-        },
-      },
-    });
-
-    if (!node || !node.parent) {
-      return 0;
-    }
-
-    let totalInflow = 0;
-
-    // Sum flows from parent node sensors
-    for (const sensor of node.parent.sensors) {
-      const reading = await this.getLatestReadingForSensor(
-        sensor.id,
-        timestamp,
-      );
-      if (reading !== null) {
-        totalInflow += reading;
-      }
-    }
-
-    return totalInflow;
-  }
-
-  async getOutflowForNode(nodeId: string, timestamp: Date): Promise<number> {
-    const node = await this.prisma.networkNode.findUnique({
-      where: { id: nodeId },
-      include: {
-        children: {
-          include: {
-            sensors: {
-              where: { isActive: true },
-            },
-          },
-        },
-      },
-    });
-
-    if (!node) {
-      return 0;
-    }
-
-    let totalOutflow = 0;
-
-    // Sum flows from child node sensors
-    for (const child of node.children) {
-      for (const sensor of child.sensors) {
-        const reading = await this.getLatestReadingForSensor(
-          sensor.id,
-          timestamp,
-        );
-        if (reading !== null) {
-          totalOutflow += reading;
-        }
-      }
-    }
-
-    return totalOutflow;
-  }
-
   /**
    * Calculate mass balance for a DMA (partition).
+   * Sensors without readings in the window are imputed with the network's
+   * imputation method; detection is suppressed when the imputed share of
+   * the flow exceeds the network's maximum, or when any sensor could not be
+   * imputed, since its flow is missing from the balance entirely.
    * @param partitionId - The partition UUID
    * @param timestamp - End of the time window
    * @param timeWindow - Time window in seconds for aggregation (required for DMA detection)
@@ -186,6 +170,14 @@ export class MassBalanceService {
     const partition = await this.prisma.networkPartition.findUnique({
       where: { id: partitionId },
       include: {
+        network: {
+          select: {
+            excludeFlaggedReadings: true,
+            imputationMethod: true,
+            imputationMaxAge: true,
+            maxImputedFraction: true,
+          },
+        },
         mainline: {
           include: {
             sensors: {
@@ -194,7 +186,7 @@ export class MassBalanceService {
           },
         },
         sensors: {
-          where: { isActive: true },
+          where: { isActive: true, sensorType: { in: FLOW_SENSOR_TYPES } },
           include: {
             node: {
               select: {
@@ -210,41 +202,74 @@ export class MassBalanceService {
       throw new Error(`Partition with ID ${partitionId} not found`);
     }
 
-    // Inflow: mainline entry sensor (aggregated over time window)
-    let inflow = 0;
-    const inflowSensors: string[] = [];
-    for (const sensor of partition.mainline.sensors) {
-      if (sensor.sensorType === 'MAINLINE_FLOW') {
-        const reading = await this.getAggregatedReadingForSensor(
-          sensor.id,
-          timestamp,
-          timeWindow,
-        );
-        if (reading !== null) {
-          inflow += reading;
-          inflowSensors.push(sensor.sensorId);
+    // Inflow: mainline entry sensors; outflow: all household sensors in the DMA
+    const inflowCandidates = partition.mainline.sensors.filter(
+      (sensor) => sensor.sensorType === 'MAINLINE_FLOW',
+    );
+    const outflowCandidates = partition.sensors.filter(
+      (sensor) =>
+        sensor.node.nodeType === NodeType.HOUSEHOLD ||
+        sensor.sensorType === 'HOUSEHOLD_FLOW',
+    );
+
+    const summaries = await this.readingsService.getSensorSummaries({
+      timestamp,
+      timeWindow,
+      sensorIds: [...inflowCandidates, ...outflowCandidates].map(
+        (sensor) => sensor.id,
+      ),
+    });
+
+    const { network } = partition;
+    const imputed = await this.readingImputation.impute(
+      [...inflowCandidates, ...outflowCandidates]
+        .filter((sensor) => summaries.get(sensor.id)?.averageValue == null)
+        .map((sensor) => sensor.id),
+      new Date(timestamp.getTime() - timeWindow * 1000),
+      timestamp,
+      {
+        method: network.imputationMethod,
+        maxAge: network.imputationMaxAge,
+        excludeFlagged: network.excludeFlaggedReadings,
+      },
+    );
+
+    // Both sides are averaged over the time window
+    const imputedSensors: ImputedSensor[] = [];
+    const missingSensors: string[] = [];
+    const sumFlows = (sensors: typeof inflowCandidates, used: string[]) => {
+      let flow = 0;
+      for (const sensor of sensors) {
+        const average = summaries.get(sensor.id)?.averageValue;
+        const estimate = imputed.get(sensor.id);
+        if (average != null) {
+          flow += average;
+        } else if (estimate) {
+          flow += estimate.value;
+          imputedSensors.push({ sensorId: sensor.sensorId, ...estimate });
+        } else {
+          missingSensors.push(sensor.sensorId);
+          continue;
         }
+        used.push(sensor.sensorId);
       }
-    }
+      return flow;
+    };
 
-    // Outflow: sum of all household sensors in DMA (aggregated over time window)
-    let outflow = 0;
+    const inflowSensors: string[] = [];
     const outflowSensors: string[] = [];
-    for (const sensor of partition.sensors) {
-      if (
-        sensor.node.nodeType === NodeType.HOUSEHOLD ||
-        sensor.sensorType === 'HOUSEHOLD_FLOW'
-      ) {
-        const reading = await this.getAggregatedReadingForSensor(
-          sensor.id,
-          timestamp,
-          timeWindow,
-        );
-        if (reading !== null) {
-          outflow += reading;
-          outflowSensors.push(sensor.sensorId);
-        }
-      }
+    const inflow = sumFlows(inflowCandidates, inflowSensors);
+    const outflow = sumFlows(outflowCandidates, outflowSensors);
+
+    const imputedFlow = imputedSensors.reduce(
+      (sum, sensor) => sum + Math.abs(sensor.value),
+      0,
+    );
+    const totalFlow = Math.abs(inflow) + Math.abs(outflow);
+    // With no flow at all, any imputed sensor is all the input there is
+    let imputedFraction = imputedSensors.length > 0 ? 1 : 0;
+    if (totalFlow > 0) {
+      imputedFraction = imputedFlow / totalFlow;
     }
 
     return {
@@ -257,64 +282,19 @@ export class MassBalanceService {
         inflow: inflowSensors,
         outflow: outflowSensors,
       },
+      missingSensors,
+      imputedSensors,
+      imputedFraction,
+      detectionSuppressed:
+        missingSensors.length > 0 ||
+        imputedFraction > network.maxImputedFraction,
     };
   }
 
-  private async getLatestReadingForSensor(
-    sensorId: string,
-    timestamp: Date,
-  ): Promise<number | null> {
-    // Get the latest reading at or before the specified timestamp
-    const reading = await this.prisma.sensorReading.findFirst({
-      where: {
-        sensorId,
-        timestamp: {
-          lte: timestamp,
-        },
-      },
-      orderBy: {
-        timestamp: 'desc',
-      },
-    });
-
-    return reading ? reading.flowValue : null;
-  }
-
   /**
-   * Get aggregated (averaged) reading for a sensor over a time window.
-   * @param sensorId - The sensor UUID
-   * @param timestamp - End of the time window
-   * @param timeWindowSeconds - Length of the time window in seconds
-   * @returns Average flow value over the window, or null if no readings
+   * Latest reading of every active sensor within the time window, keyed by
+   * sensor code.
    */
-  async getAggregatedReadingForSensor(
-    sensorId: string,
-    timestamp: Date,
-    timeWindowSeconds: number,
-  ): Promise<number | null> {
-    const startTime = new Date(timestamp.getTime() - timeWindowSeconds * 1000);
-
-    const readings = await this.prisma.sensorReading.findMany({
-      where: {
-        sensorId,
-        timestamp: {
-          gte: startTime,
-          lte: timestamp,
-        },
-      },
-      select: {
-        flowValue: true,
-      },
-    });
-
-    if (readings.length === 0) {
-      return null;
-    }
-
-    const sum = readings.reduce((acc, r) => acc + r.flowValue, 0);
-    return sum / readings.length;
-  }
-
   async getLatestReadingsForTimestamp(
     timestamp: Date,
     timeWindow?: number,
@@ -323,31 +303,19 @@ export class MassBalanceService {
       ? new Date(timestamp.getTime() - timeWindow * 1000)
       : timestamp;
 
-    // Get all active sensors
-    const sensors = await this.prisma.sensor.findMany({
-      where: { isActive: true },
-      select: { id: true, sensorId: true },
-    });
+    const [sensors, summaries] = await Promise.all([
+      this.prisma.sensor.findMany({
+        where: { isActive: true },
+        select: { id: true, sensorId: true },
+      }),
+      this.readingsService.getSensorSummaries({ timestamp, timeWindow }),
+    ]);
 
     const readingsMap = new Map<string, number>();
-
-    // For each sensor, get the latest reading within the time window
     for (const sensor of sensors) {
-      const reading = await this.prisma.sensorReading.findFirst({
-        where: {
-          sensorId: sensor.id,
-          timestamp: {
-            gte: startTime,
-            lte: timestamp,
-          },
-        },
-        orderBy: {
-          timestamp: 'desc',
-        },
-      });
-
-      if (reading) {
-        readingsMap.set(sensor.sensorId, reading.flowValue);
+      const summary = summaries.get(sensor.id);
+      if (summary && summary.latestTimestamp >= startTime) {
+        readingsMap.set(sensor.sensorId, summary.latestValue);
       }
     }
 
@@ -0,0 +1,424 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  DetectionMethod,
+  NightUseSource,
+  NodeType,
+  Prisma,
+  SensorType,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { NetworkService } from '../../network/network.service';
+import { ReadingAggregateService } from '../../readings/services/reading-aggregate.service';
+import { LeaksService } from '../leaks.service';
+import { LeakIncidentService } from './leak-incident.service';
+import { solveLeastSquares } from '../../../common/utils/least-squares.util';
+import { toCanonicalUnit } from '../../../common/utils/units.util';
+import { FLOW_SENSOR_TYPES } from '../../../common/utils/sensor-measurement.util';
+import { AnalyzeNightFlowDto } from '../dto/analyze-night-flow.dto';
+import { QueryNightFlowDto } from '../dto/query-night-flow.dto';
+import { NightFlowSettingsDto } from '../dto/night-flow-settings.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Local-time window searched for the minimum inflow
+const NIGHT_START_HOUR = 2;
+const NIGHT_END_HOUR = 4;
+
+// Sensors metering what enters a DMA and what its customers use
+const NIGHT_FLOW_INCLUDE = {
+  mainline: {
+    select: {
+      sensors: {
+        where: { isActive: true, sensorType: SensorType.MAINLINE_FLOW },
+        select: { id: true },
+      },
+    },
+  },
+  sensors: {
+    where: {
+      isActive: true,
+      sensorType: { in: FLOW_SENSOR_TYPES },
+      OR: [
+        { sensorType: SensorType.HOUSEHOLD_FLOW },
+        { node: { nodeType: NodeType.HOUSEHOLD } },
+      ],
+    },
+    select: { id: true },
+  },
+} satisfies Prisma.NetworkPartitionInclude;
+
+type NightFlowPartition = Prisma.NetworkPartitionGetPayload<{
+  include: typeof NIGHT_FLOW_INCLUDE;
+}>;
+
+/**
+ * Minimum night flow (MNF) analysis. Stores each DMA's lowest 02:00-04:00
+ * inflow per night, less legitimate customer use, and raises a leak
+ * detection when that net night flow trends upwards.
+ */
+@Injectable()
+export class NightFlowService {
+  private readonly logger = new Logger(NightFlowService.name);
+  private readonly DEFAULT_NIGHT_USE_ALLOWANCE = 1.7; // L/h per connection
+  private readonly DEFAULT_TREND_DAYS = 14;
+  private readonly DEFAULT_TREND_MARGIN = 1.0; // L/s
+  private readonly MIN_TREND_NIGHTS = 3;
+  private readonly MAX_NIGHTS = 92;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly readingAggregates: ReadingAggregateService,
+    private readonly networkService: NetworkService,
+    private readonly leaksService: LeaksService,
+    private readonly leakIncidentService: LeakIncidentService,
+  ) {}
+
+  async analyze(dto: AnalyzeNightFlowDto) {
+    if (!dto.networkId && !dto.partitionId) {
+      throw new BadRequestException(
+        'Either networkId or partitionId is required',
+      );
+    }
+
+    const offsetMs = (dto.utcOffsetMinutes ?? 0) * 60 * 1000;
+    const endDate = dto.endDate
+      ? this.toDate(dto.endDate)
+      : this.latestNight(dto.utcOffsetMinutes);
+    const startDate = dto.startDate ? this.toDate(dto.startDate) : endDate;
+
+    const nightCount =
+      Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1;
+    if (nightCount < 1) {
+      throw new BadRequestException('startDate must not be after endDate');
+    }
+    if (nightCount > this.MAX_NIGHTS) {
+      throw new BadRequestException(
+        `At most ${this.MAX_NIGHTS} nights can be analyzed at once`,
+      );
+    }
+
+    const partitions = await this.prisma.networkPartition.findMany({
+      where: dto.partitionId
+        ? { id: dto.partitionId }
+        : { networkId: dto.networkId },
+      include: NIGHT_FLOW_INCLUDE,
+    });
+
+    if (dto.partitionId && partitions.length === 0) {
+      throw new NotFoundException(
+        `Partition with ID ${dto.partitionId} not found`,
+      );
+    }
+
+    const margin =
+      dto.trendMargin !== undefined && dto.trendMarginUnit
+        ? toCanonicalUnit('FLOW', dto.trendMargin, dto.trendMarginUnit)
+        : (dto.trendMargin ?? this.DEFAULT_TREND_MARGIN);
+
+    const nights: NonNullable<Awaited<ReturnType<typeof this.analyzeNight>>>[] =
+      [];
+    const detections: NonNullable<
+      Awaited<ReturnType<typeof this.checkTrend>>
+    >[] = [];
+
+    for (const partition of partitions) {
+      const connectionCount =
+        partition.connectionCount ?? (await this.countHouseholds(partition.id));
+
+      for (let night = 0; night < nightCount; night++) {
+        const record = await this.analyzeNight(
+          partition,
+          new Date(startDate.getTime() + night * DAY_MS),
+          offsetMs,
+          connectionCount,
+        );
+        if (record) {
+          nights.push(record);
+        }
+      }
+
+      const detection = await this.checkTrend(
+        partition,
+        dto.trendDays ?? this.DEFAULT_TREND_DAYS,
+        margin,
+        dto.trendMargin !== undefined ? dto.trendMarginUnit : undefined,
+      );
+      if (detection) {
+        detections.push(detection);
+      }
+    }
+
+    this.logger.log(
+      `Analyzed ${nights.length} DMA night(s) across ${partitions.length} partition(s), ${detections.length} detection(s)`,
+    );
+
+    return { nights, detections };
+  }
+
+  /**
+   * Latest night whose 02:00-04:00 window has ended, in local time
+   */
+  latestNight(utcOffsetMinutes = 0, now: Date = new Date()): Date {
+    return this.toDate(
+      new Date(
+        now.getTime() + utcOffsetMinutes * 60 * 1000 - NIGHT_END_HOUR * HOUR_MS,
+      ).toISOString(),
+    );
+  }
+
+  async findAll(query: QueryNightFlowDto) {
+    const where: Prisma.DmaNightFlowWhereInput = {};
+
+    if (query.networkId) {
+      where.networkId = query.networkId;
+    }
+
+    if (query.partitionId) {
+      where.partitionId = query.partitionId;
+    }
+
+    if (query.startDate || query.endDate) {
+      where.date = {};
+      if (query.startDate) {
+        where.date.gte = this.toDate(query.startDate);
+      }
+      if (query.endDate) {
+        where.date.lte = this.toDate(query.endDate);
+      }
+    }
+
+    return this.prisma.dmaNightFlow.findMany({
+      where,
+      orderBy: [{ partitionId: 'asc' }, { date: 'asc' }],
+    });
+  }
+
+  async updateSettings(partitionId: string, dto: NightFlowSettingsDto) {
+    const partition = await this.prisma.networkPartition.findUnique({
+      where: { id: partitionId },
+      select: { id: true },
+    });
+
+    if (!partition) {
+      throw new NotFoundException(`Partition with ID ${partitionId} not found`);
+    }
+
+    return this.prisma.networkPartition.update({
+      where: { id: partitionId },
+      data: {
+        connectionCount: dto.connectionCount,
+        nightUseAllowance: dto.nightUseAllowance,
+      },
+      select: {
+        id: true,
+        partitionId: true,
+        name: true,
+        connectionCount: true,
+        nightUseAllowance: true,
+      },
+    });
+  }
+
+  /**
+   * Find the night's lowest 15-minute inflow and store it with the night use
+   * estimated at the same time. Returns null when no bucket in the window
+   * has readings from every inflow sensor.
+   */
+  private async analyzeNight(
+    partition: NightFlowPartition,
+    date: Date,
+    offsetMs: number,
+    connectionCount: number,
+  ) {
+    const inflowSensorIds = partition.mainline.sensors.map(
+      (sensor) => sensor.id,
+    );
+    if (inflowSensorIds.length === 0) {
+      return null;
+    }
+
+    const householdSensorIds = new Set(
+      partition.sensors.map((sensor) => sensor.id),
+    );
+    const start = new Date(
+      date.getTime() + NIGHT_START_HOUR * HOUR_MS - offsetMs,
+    );
+    const end = new Date(date.getTime() + NIGHT_END_HOUR * HOUR_MS - offsetMs);
+
+    const buckets = await this.readingAggregates.aggregateSeries({
+      sensorIds: [...inflowSensorIds, ...householdSensorIds],
+      start,
+      end,
+      bucket: '15m',
+      fn: 'avg',
+    });
+
+    const byTime = new Map<
+      number,
+      { inflow: number; inflowSensors: number; use: number; useSensors: number }
+    >();
+    for (const bucket of buckets) {
+      const time = bucket.bucket.getTime();
+      const entry = byTime.get(time) ?? {
+        inflow: 0,
+        inflowSensors: 0,
+        use: 0,
+        useSensors: 0,
+      };
+      if (householdSensorIds.has(bucket.sensorId)) {
+        entry.use += bucket.value;
+        entry.useSensors++;
+      } else {
+        entry.inflow += bucket.value;
+        entry.inflowSensors++;
+      }
+      byTime.set(time, entry);
+    }
+
+    // A bucket missing an inflow sensor would understate the minimum
+    let minimum: {
+      time: number;
+      inflow: number;
+      use: number;
+      useSensors: number;
+    } | null = null;
+    for (const [time, entry] of byTime) {
+      if (
+        entry.inflowSensors === inflowSensorIds.length &&
+        (!minimum || entry.inflow < minimum.inflow)
+      ) {
+        minimum = { time, ...entry };
+      }
+    }
+
+    if (!minimum) {
+      return null;
+    }
+
+    // Connections without a reporting household sensor get the allowance
+    const allowance =
+      (partition.nightUseAllowance ?? this.DEFAULT_NIGHT_USE_ALLOWANCE) / 3600;
+    const legitimateNightUse =
+      minimum.use +
+      Math.max(0, connectionCount - minimum.useSensors) * allowance;
+
+    const data = {
+      minimumInflow: minimum.inflow,
+      minimumAt: new Date(minimum.time),
+      legitimateNightUse,
+      nightUseSource:
+        minimum.useSensors > 0
+          ? NightUseSource.HOUSEHOLD_SENSORS
+          : NightUseSource.CONNECTION_ALLOWANCE,
+      netNightFlow: minimum.inflow - legitimateNightUse,
+    };
+
+    return this.prisma.dmaNightFlow.upsert({
+      where: { partitionId_date: { partitionId: partition.id, date } },
+      create: {
+        ...data,
+        networkId: partition.networkId,
+        partitionId: partition.id,
+        date,
+      },
+      update: data,
+    });
+  }
+
+  /**
+   * Fit a straight line through the DMA's most recent nights and raise a
+   * detection when net night flow rose by more than the margin over them.
+   * A night is only reported once.
+   */
+  private async checkTrend(
+    partition: NightFlowPartition,
+    trendDays: number,
+    margin: number,
+    marginUnit?: string,
+  ) {
+    const records = (
+      await this.prisma.dmaNightFlow.findMany({
+        where: { partitionId: partition.id },
+        orderBy: { date: 'desc' },
+        take: trendDays,
+      })
+    ).reverse();
+
+    if (records.length < this.MIN_TREND_NIGHTS) {
+      return null;
+    }
+
+    const first = records[0].date.getTime();
+    const days = records.map(
+      (record) => (record.date.getTime() - first) / DAY_MS,
+    );
+    const fit = solveLeastSquares(
+      [days, days.map(() => 1)],
+      records.map((record) => record.netNightFlow),
+    );
+    if (!fit) {
+      return null;
+    }
+
+    const rise = fit.coefficients[0] * days[days.length - 1];
+    const latest = records[records.length - 1];
+    if (rise <= margin) {
+      // Each night without a rise counts towards closing the incident
+      await this.leakIncidentService.recordClear(
+        {
+          partitionId: partition.id,
+          detectionMethod: DetectionMethod.NIGHT_FLOW,
+        },
+        latest.minimumAt,
+      );
+      return null;
+    }
+
+    const existing = await this.prisma.leakDetection.findFirst({
+      where: {
+        partitionId: partition.id,
+        detectionMethod: DetectionMethod.NIGHT_FLOW,
+        timestamp: latest.minimumAt,
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      return null;
+    }
+
+    this.logger.log(
+      `Net night flow of partition ${partition.id} rose ${rise.toFixed(2)} L/s over ${records.length} nights`,
+    );
+
+    return this.leaksService.createDetection({
+      networkId: partition.networkId,
+      nodeId: partition.mainlineId,
+      partitionId: partition.id,
+      flowImbalance: rise,
+      detectionMethod: DetectionMethod.NIGHT_FLOW,
+      timestamp: latest.minimumAt,
+      timeWindow: 15 * 60,
+      threshold: margin,
+      thresholdUnit: marginUnit,
+    });
+  }
+
+  private async countHouseholds(partitionId: string): Promise<number> {
+    const nodeIds = await this.networkService.getNodeIdsInDma(partitionId);
+
+    return this.prisma.networkNode.count({
+      where: { id: { in: [...nodeIds] }, nodeType: NodeType.HOUSEHOLD },
+    });
+  }
+
+  // Midnight UTC of the calendar date in an ISO 8601 string
+  private toDate(value: string): Date {
+    return new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import {
+  CandidateEvidence,
+  PerCandidateStrategy,
+  cosineSimilarity,
+} from './localization-strategy';
+
+/**
+ * Angle between observed and predicted vectors: 1 when they point the same
+ * way, 0 at a right angle or beyond. Linear in angle, so it separates close
+ * candidates better than cosine similarity near the top.
+ */
+@Injectable()
+export class AngleStrategy extends PerCandidateStrategy {
+  readonly algorithm = LocalizationAlgorithm.ANGLE;
+
+  protected score({ observed, predicted }: CandidateEvidence): number {
+    const cosine = cosineSimilarity(observed, predicted);
+    if (cosine === null) {
+      return 0;
+    }
+    const angle = Math.acos(Math.min(1, Math.max(-1, cosine)));
+    return Math.max(0, 1 - angle / (Math.PI / 2));
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import {
+  CandidateEvidence,
+  LocalizationStrategy,
+  residualSumOfSquares,
+} from './localization-strategy';
+
+/**
+ * Posterior probability of each candidate, assuming Gaussian sensor noise:
+ * prior x exp(-RSS / 2σ²), normalised to sum to 1 over the candidates.
+ * σ² is estimated from the median residual across the candidates, so one
+ * candidate fitting the noise closely does not make the posterior overconfident.
+ */
+@Injectable()
+export class BayesianStrategy implements LocalizationStrategy {
+  readonly algorithm = LocalizationAlgorithm.BAYESIAN;
+
+  scoreCandidates(candidates: CandidateEvidence[]): number[] {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const residuals = candidates.map(({ observed, predicted }) =>
+      residualSumOfSquares(observed, predicted),
+    );
+    const sensorCount = candidates[0].observed.length;
+    const observedEnergy = candidates[0].observed.reduce(
+      (acc, o) => acc + o * o,
+      0,
+    );
+
+    // Floor the noise estimate so a perfect fit does not make it zero
+    const variance = Math.max(
+      median(residuals) / Math.max(sensorCount - 1, 1),
+      (1e-6 * observedEnergy) / Math.max(sensorCount, 1),
+      Number.EPSILON,
+    );
+
+    // Work in log space and subtract the maximum to avoid underflow
+    const logPosteriors = candidates.map(({ prior }, i) =>
+      prior > 0 ? Math.log(prior) - residuals[i] / (2 * variance) : -Infinity,
+    );
+    const maxLog = Math.max(...logPosteriors);
+    if (maxLog === -Infinity) {
+      return candidates.map(() => 0);
+    }
+
+    const weights = logPosteriors.map((log) => Math.exp(log - maxLog));
+    const total = weights.reduce((acc, w) => acc + w, 0);
+    return weights.map((w) => w / total);
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
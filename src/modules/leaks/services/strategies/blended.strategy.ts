@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import {
+  CandidateEvidence,
+  PerCandidateStrategy,
+} from './localization-strategy';
+
+/**
+ * The original score: half inverse mean squared residual and a quarter of
+ * Pearson correlation shifted to 0-1, both over the sensors that changed.
+ * Falls back to the residual term alone when either vector has no variance.
+ */
+@Injectable()
+export class BlendedStrategy extends PerCandidateStrategy {
+  readonly algorithm = LocalizationAlgorithm.BLENDED;
+
+  protected score({ observed, predicted }: CandidateEvidence): number {
+    let sumSquaredDiff = 0;
+    let sumObservedSquared = 0;
+    let sumPredictedSquared = 0;
+    let count = 0;
+
+    // Skip sensors with no change
+    const sensors = observed
+      .map((_, i) => i)
+      .filter((i) => predicted[i] !== 0 || observed[i] !== 0);
+
+    for (const i of sensors) {
+      const diff = observed[i] - predicted[i];
+      sumSquaredDiff += diff * diff;
+      sumObservedSquared += observed[i] * observed[i];
+      sumPredictedSquared += predicted[i] * predicted[i];
+      count++;
+    }
+
+    if (count === 0) {
+      return 0;
+    }
+
+    // Inverse of the mean squared residual, in the 0-1 range
+    const rss = sumSquaredDiff / count;
+    const score = 1 / (1 + rss);
+
+    if (sumObservedSquared === 0 || sumPredictedSquared === 0) {
+      return score;
+    }
+
+    const meanObserved =
+      sensors.reduce((acc, i) => acc + observed[i], 0) / count;
+    const meanPredicted =
+      sensors.reduce((acc, i) => acc + predicted[i], 0) / count;
+
+    let covariance = 0;
+    let varianceObserved = 0;
+    let variancePredicted = 0;
+
+    for (const i of sensors) {
+      const obsDiff = observed[i] - meanObserved;
+      const predDiff = predicted[i] - meanPredicted;
+      covariance += obsDiff * predDiff;
+      varianceObserved += obsDiff * obsDiff;
+      variancePredicted += predDiff * predDiff;
+    }
+
+    if (varianceObserved > 0 && variancePredicted > 0) {
+      const correlation =
+        covariance / Math.sqrt(varianceObserved * variancePredicted);
+      return score * 0.5 + (correlation + 1) * 0.25;
+    }
+
+    return score;
+  }
+}
@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import {
+  CandidateEvidence,
+  PerCandidateStrategy,
+  cosineSimilarity,
+} from './localization-strategy';
+
+/**
+ * Cosine similarity between observed and predicted change vectors.
+ * Insensitive to leak size, only the pattern across sensors matters.
+ */
+@Injectable()
+export class CosineStrategy extends PerCandidateStrategy {
+  readonly algorithm = LocalizationAlgorithm.COSINE;
+
+  protected score({ observed, predicted }: CandidateEvidence): number {
+    return cosineSimilarity(observed, predicted) ?? 0;
+  }
+}
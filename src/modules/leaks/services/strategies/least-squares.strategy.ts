@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import {
+  CandidateEvidence,
+  PerCandidateStrategy,
+  residualSumOfSquares,
+} from './localization-strategy';
+
+/**
+ * Share of the observed change vector explained by the fitted leak
+ * (1 - RSS / ||observed||², i.e. R² without centring).
+ */
+@Injectable()
+export class LeastSquaresStrategy extends PerCandidateStrategy {
+  readonly algorithm = LocalizationAlgorithm.LEAST_SQUARES;
+
+  protected score({ observed, predicted }: CandidateEvidence): number {
+    const total = observed.reduce((acc, o) => acc + o * o, 0);
+    if (total === 0) {
+      return 0;
+    }
+    return Math.max(0, 1 - residualSumOfSquares(observed, predicted) / total);
+  }
+}
@@ -0,0 +1,128 @@
+import { AngleStrategy } from './angle.strategy';
+import { BayesianStrategy } from './bayesian.strategy';
+import { BlendedStrategy } from './blended.strategy';
+import { CosineStrategy } from './cosine.strategy';
+import { LeastSquaresStrategy } from './least-squares.strategy';
+import { CandidateEvidence } from './localization-strategy';
+import { NormalizedCorrelationStrategy } from './normalized-correlation.strategy';
+
+// Three sensors; the leak is at A. Each candidate's sensitivity column is
+// scaled by its least-squares leak size, as localization does.
+const observed = [2, 1, 0];
+const columns = {
+  A: [1, 0.5, 0],
+  B: [0.5, 1, 0],
+  C: [0, 0, 1],
+};
+
+function evidence(
+  column: number[],
+  prior = 1 / 3,
+  target = observed,
+): CandidateEvidence {
+  const norm = column.reduce((acc, s) => acc + s * s, 0);
+  const size = column.reduce((acc, s, i) => acc + s * target[i], 0) / norm;
+  return { observed: target, predicted: column.map((s) => s * size), prior };
+}
+
+const candidates = [columns.A, columns.B, columns.C].map((column) =>
+  evidence(column),
+);
+
+// Candidate names from best to worst score
+function ranking(scores: number[]): string[] {
+  return ['A', 'B', 'C']
+    .map((name, i) => ({ name, score: scores[i] }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ name }) => name);
+}
+
+describe('localization strategies', () => {
+  it('cosine ranks the matching pattern first', () => {
+    const scores = new CosineStrategy().scoreCandidates(candidates);
+    expect(ranking(scores)).toEqual(['A', 'B', 'C']);
+    expect(scores[0]).toBeCloseTo(1);
+    expect(scores[1]).toBeCloseTo(0.8);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('angle ranks the matching pattern first', () => {
+    const scores = new AngleStrategy().scoreCandidates(candidates);
+    expect(ranking(scores)).toEqual(['A', 'B', 'C']);
+    expect(scores[0]).toBeCloseTo(1);
+    expect(scores[1]).toBeCloseTo(1 - Math.acos(0.8) / (Math.PI / 2));
+  });
+
+  it('least squares scores the share of the change explained', () => {
+    const scores = new LeastSquaresStrategy().scoreCandidates(candidates);
+    expect(ranking(scores)).toEqual(['A', 'B', 'C']);
+    expect(scores[0]).toBeCloseTo(1);
+    expect(scores[1]).toBeCloseTo(0.64);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('normalized correlation ranks the matching pattern first', () => {
+    const scores = new NormalizedCorrelationStrategy().scoreCandidates(
+      candidates,
+    );
+    expect(ranking(scores)).toEqual(['A', 'B', 'C']);
+    expect(scores[0]).toBeCloseTo(1);
+    expect(scores[1]).toBeCloseTo(0.75);
+    expect(scores[2]).toBe(0);
+  });
+
+  describe('blended', () => {
+    const strategy = new BlendedStrategy();
+
+    it('ranks the matching pattern first', () => {
+      const scores = strategy.scoreCandidates(candidates);
+      expect(ranking(scores)).toEqual(['A', 'C', 'B']);
+      expect(scores[0]).toBeCloseTo(1);
+    });
+
+    it('is not changed by sensors that saw no change', () => {
+      const padded = [...observed, 0, 0];
+      const pad = (column: number[]) => [...column, 0, 0];
+
+      expect(
+        strategy.scoreCandidates([
+          evidence(pad(columns.A), 1 / 3, padded),
+          evidence(pad(columns.B), 1 / 3, padded),
+        ]),
+      ).toEqual(strategy.scoreCandidates(candidates.slice(0, 2)));
+    });
+  });
+
+  describe('bayesian', () => {
+    const strategy = new BayesianStrategy();
+
+    it('gives a posterior over the candidates', () => {
+      const scores = strategy.scoreCandidates(candidates);
+      expect(ranking(scores)).toEqual(['A', 'B', 'C']);
+      expect(scores.reduce((acc, s) => acc + s, 0)).toBeCloseTo(1);
+    });
+
+    it('does not put all the mass on a candidate that fits exactly', () => {
+      const scores = strategy.scoreCandidates(candidates);
+      expect(scores[0]).toBeLessThan(0.99);
+      expect(scores[1]).toBeGreaterThan(0.01);
+    });
+
+    it('lets a strong prior outweigh a moderate misfit', () => {
+      const scores = strategy.scoreCandidates([
+        evidence(columns.A, 0.1),
+        evidence(columns.B, 0.8),
+        evidence(columns.C, 0.1),
+      ]);
+      expect(ranking(scores)[0]).toBe('B');
+    });
+
+    it('scores candidates with a zero prior 0', () => {
+      const scores = strategy.scoreCandidates([
+        evidence(columns.A, 0),
+        evidence(columns.B, 1),
+      ]);
+      expect(scores).toEqual([0, 1]);
+    });
+  });
+});
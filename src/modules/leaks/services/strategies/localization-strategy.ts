@@ -0,0 +1,56 @@
+import { LocalizationAlgorithm } from '@prisma/client';
+
+/**
+ * Evidence for one leak candidate. Vectors are aligned by sensor and already
+ * scaled so flow and pressure sensors are comparable.
+ */
+export interface CandidateEvidence {
+  observed: number[];
+  predicted: number[]; // Sensitivity column times the fitted leak size
+  prior: number; // Prior probability of a leak at this candidate
+}
+
+/**
+ * Turns observed vs predicted sensor changes into a ranking score.
+ * Candidates are scored together so strategies can normalise across them.
+ * Higher is better; scores are comparable within a single call.
+ */
+export interface LocalizationStrategy {
+  readonly algorithm: LocalizationAlgorithm;
+  scoreCandidates(candidates: CandidateEvidence[]): number[];
+}
+
+/**
+ * Base for strategies whose score depends on one candidate at a time.
+ */
+export abstract class PerCandidateStrategy implements LocalizationStrategy {
+  abstract readonly algorithm: LocalizationAlgorithm;
+
+  scoreCandidates(candidates: CandidateEvidence[]): number[] {
+    return candidates.map((candidate) => this.score(candidate));
+  }
+
+  protected abstract score(candidate: CandidateEvidence): number;
+}
+
+export function residualSumOfSquares(
+  observed: number[],
+  predicted: number[],
+): number {
+  return observed.reduce((acc, o, i) => acc + (o - predicted[i]) ** 2, 0);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number | null {
+  let product = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    product += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return null;
+  }
+  return product / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { LocalizationAlgorithm } from '@prisma/client';
+import {
+  CandidateEvidence,
+  PerCandidateStrategy,
+  cosineSimilarity,
+} from './localization-strategy';
+
+/**
+ * Pearson correlation of the mean-centred vectors, shifted to 0-1.
+ */
+@Injectable()
+export class NormalizedCorrelationStrategy extends PerCandidateStrategy {
+  readonly algorithm = LocalizationAlgorithm.NORMALIZED_CORRELATION;
+
+  protected score({ observed, predicted }: CandidateEvidence): number {
+    const centre = (values: number[]) => {
+      const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+      return values.map((v) => v - mean);
+    };
+
+    const correlation = cosineSimilarity(centre(observed), centre(predicted));
+    return correlation === null ? 0 : (correlation + 1) / 2;
+  }
+}
@@ -0,0 +1,131 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { LinkStatus, LinkType } from '@prisma/client';
+
+export class LinkVertexDto {
+  @ApiProperty({ example: 1262.4 })
+  @IsNumber()
+  x: number;
+
+  @ApiProperty({ example: 841.7 })
+  @IsNumber()
+  y: number;
+}
+
+export class CreateNetworkLinkDto {
+  @ApiProperty({
+    description: 'Network ID this link belongs to',
+    example: 'uuid-here',
+  })
+  @IsString()
+  networkId: string;
+
+  @ApiProperty({
+    description: 'Unique link identifier within the network (e.g., P_101)',
+    example: 'P_101',
+  })
+  @IsString()
+  linkId: string;
+
+  @ApiProperty({
+    description: 'Type of link',
+    enum: LinkType,
+    example: LinkType.PIPE,
+  })
+  @IsEnum(LinkType)
+  linkType: LinkType;
+
+  @ApiProperty({
+    description: 'Upstream network node UUID',
+    example: 'uuid-here',
+  })
+  @IsString()
+  fromNodeId: string;
+
+  @ApiProperty({
+    description: 'Downstream network node UUID',
+    example: 'uuid-here',
+  })
+  @IsString()
+  toNodeId: string;
+
+  @ApiPropertyOptional({
+    description: 'Pipe length in m',
+    example: 120.5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  length?: number;
+
+  @ApiPropertyOptional({
+    description: 'Diameter in mm',
+    example: 150,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  diameter?: number;
+
+  @ApiPropertyOptional({
+    description: "Roughness coefficient for the model's headloss formula",
+    example: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  roughness?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minor loss coefficient',
+    example: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  minorLoss?: number;
+
+  @ApiPropertyOptional({
+    description: 'Link status (default: OPEN)',
+    enum: LinkStatus,
+    example: LinkStatus.OPEN,
+  })
+  @IsOptional()
+  @IsEnum(LinkStatus)
+  status?: LinkStatus;
+
+  @ApiPropertyOptional({
+    description: 'Valve type (PRV, PSV, PBV, FCV, TCV or GPV)',
+    example: 'PRV',
+  })
+  @IsOptional()
+  @IsString()
+  valveType?: string;
+
+  @ApiPropertyOptional({
+    description: 'Valve setting',
+    example: 30,
+  })
+  @IsOptional()
+  @IsNumber()
+  setting?: number;
+
+  @ApiPropertyOptional({
+    description: 'Intermediate map points between the two nodes',
+    type: [LinkVertexDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LinkVertexDto)
+  vertices?: LinkVertexDto[];
+}
@@ -4,6 +4,7 @@ import {
   IsEnum,
   IsOptional,
   IsInt,
+  IsNumber,
   Min,
   ValidateIf,
 } from 'class-validator';
@@ -82,5 +83,21 @@ export class CreateNetworkNodeDto {
   @IsOptional()
   @IsString()
   location?: string;
+
+  @ApiPropertyOptional({
+    description: 'Map x coordinate (same units as the EPANET model)',
+    example: 1250.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  x?: number;
+
+  @ApiPropertyOptional({
+    description: 'Map y coordinate (same units as the EPANET model)',
+    example: 830.2,
+  })
+  @IsOptional()
+  @IsNumber()
+  y?: number;
 }
 
@@ -19,6 +19,13 @@ export class ImportResponseDto {
   })
   linksImported: number;
 
+  @ApiProperty({
+    description:
+      'Flow units declared in the EPANET [OPTIONS] section. Imported values are converted to L/s',
+    example: 'LPS',
+  })
+  flowUnits: string;
+
   @ApiProperty({
     description: 'Number of DMAs created',
     example: 5,
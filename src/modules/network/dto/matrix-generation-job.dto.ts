@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeakModel, MatrixJobStatus } from '@prisma/client';
+
+export class MatrixGenerationJobDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Network the matrix is generated for',
+    example: 'uuid-here',
+  })
+  networkId: string;
+
+  @ApiPropertyOptional({
+    description: 'Sensitivity matrix version built by this job',
+    example: 'uuid-here',
+    nullable: true,
+  })
+  versionId?: string | null;
+
+  @ApiProperty({
+    enum: MatrixJobStatus,
+    example: MatrixJobStatus.IN_PROGRESS,
+  })
+  status: MatrixJobStatus;
+
+  @ApiProperty({
+    description: 'Whether a new version was built while one was active',
+    example: false,
+  })
+  force: boolean;
+
+  @ApiProperty({
+    enum: LeakModel,
+    description: 'Requested leak model',
+    example: LeakModel.FIXED_DEMAND,
+  })
+  leakModel: LeakModel;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  emitterCoefficient?: number | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  emitterExponent?: number | null;
+
+  @ApiProperty({ example: 150 })
+  nodesProcessed: number;
+
+  @ApiProperty({ example: 200 })
+  totalNodes: number;
+
+  @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
+  startedAt: Date;
+
+  @ApiPropertyOptional({
+    example: '2024-01-25T10:30:00.000Z',
+    nullable: true,
+  })
+  completedAt?: Date | null;
+
+  @ApiProperty({
+    description:
+      'Last sign of life from the server running the job. Running jobs silent for 5 minutes are failed',
+    example: '2024-01-25T10:29:30.000Z',
+  })
+  heartbeatAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Error message if the job failed',
+    example: 'Baseline simulation failed',
+    nullable: true,
+  })
+  error?: string | null;
+
+  @ApiProperty({
+    description: 'Related record counts',
+    example: { failures: 2 },
+  })
+  _count: {
+    failures: number;
+  };
+}
@@ -0,0 +1,97 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeakModel, MatrixVersionStatus } from '@prisma/client';
+
+export class MatrixVersionDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ description: 'Version number within the network', example: 3 })
+  version: number;
+
+  @ApiProperty({
+    enum: MatrixVersionStatus,
+    example: MatrixVersionStatus.ACTIVE,
+  })
+  status: MatrixVersionStatus;
+
+  @ApiProperty({
+    enum: LeakModel,
+    description: 'How leaks were simulated',
+    example: LeakModel.FIXED_DEMAND,
+  })
+  leakModel: LeakModel;
+
+  @ApiPropertyOptional({
+    description: 'Leak size used for FIXED_DEMAND simulations (L/s)',
+    example: 1.0,
+    nullable: true,
+  })
+  leakSize: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Emitter coefficient for EMITTER simulations ((L/s)/m^exponent)',
+    example: null,
+    nullable: true,
+  })
+  emitterCoefficient: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Emitter pressure exponent for EMITTER simulations',
+    example: null,
+    nullable: true,
+  })
+  emitterExponent: number | null;
+
+  @ApiProperty({
+    description: 'Sensor UUIDs the matrix was generated for',
+    example: ['uuid-1', 'uuid-2'],
+  })
+  sensorIds: string[];
+
+  @ApiProperty({
+    description: 'Hours of day (0-23) with sensitivity slices',
+    example: [0, 1, 2, 3],
+  })
+  hoursOfDay: number[];
+
+  @ApiPropertyOptional({
+    description:
+      'Flow units of the EPANET model. Sensitivities are stored in L/s and m regardless',
+    example: 'GPM',
+    nullable: true,
+  })
+  modelFlowUnits?: string | null;
+
+  @ApiProperty({
+    description: 'SHA-256 of the EPANET file the matrix was generated from',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  epanetFileHash: string;
+
+  @ApiPropertyOptional({
+    example: '2024-01-25T10:30:00.000Z',
+    nullable: true,
+  })
+  generatedAt?: Date | null;
+
+  @ApiPropertyOptional({
+    example: '2024-01-25T10:30:00.000Z',
+    nullable: true,
+  })
+  activatedAt?: Date | null;
+
+  @ApiProperty({ example: '2024-01-25T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Related record counts',
+    example: { entries: 2400 },
+  })
+  _count: {
+    entries: number;
+  };
+}
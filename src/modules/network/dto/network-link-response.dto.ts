@@ -0,0 +1,56 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LinkStatus, LinkType } from '@prisma/client';
+import { LinkVertexDto } from './create-network-link.dto';
+
+export class NetworkLinkResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Network ID this link belongs to',
+    example: 'uuid-here',
+  })
+  networkId: string;
+
+  @ApiProperty({ example: 'P_101' })
+  linkId: string;
+
+  @ApiProperty({ enum: LinkType, example: LinkType.PIPE })
+  linkType: LinkType;
+
+  @ApiProperty({ description: 'Upstream node UUID', example: 'uuid-here' })
+  fromNodeId: string;
+
+  @ApiProperty({ description: 'Downstream node UUID', example: 'uuid-here' })
+  toNodeId: string;
+
+  @ApiPropertyOptional({ description: 'Length in m', example: 120.5 })
+  length?: number;
+
+  @ApiPropertyOptional({ description: 'Diameter in mm', example: 150 })
+  diameter?: number;
+
+  @ApiPropertyOptional({ example: 100 })
+  roughness?: number;
+
+  @ApiPropertyOptional({ example: 0 })
+  minorLoss?: number;
+
+  @ApiProperty({ enum: LinkStatus, example: LinkStatus.OPEN })
+  status: LinkStatus;
+
+  @ApiPropertyOptional({ example: 'PRV' })
+  valveType?: string;
+
+  @ApiPropertyOptional({ example: 30 })
+  setting?: number;
+
+  @ApiPropertyOptional({ type: [LinkVertexDto] })
+  vertices?: LinkVertexDto[];
+
+  @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
+  updatedAt: Date;
+}
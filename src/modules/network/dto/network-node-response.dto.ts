@@ -35,6 +35,12 @@ export class NetworkNodeResponseDto {
   @ApiPropertyOptional({ example: 'Main branch West' })
   location?: string;
 
+  @ApiPropertyOptional({ description: 'Map x coordinate', example: 1250.5 })
+  x?: number;
+
+  @ApiPropertyOptional({ description: 'Map y coordinate', example: 830.2 })
+  y?: number;
+
   @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
   createdAt: Date;
 
@@ -0,0 +1,154 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { ImputationMethod, LocalizationAlgorithm } from '@prisma/client';
+
+export class UpdateNetworkSettingsDto {
+  @ApiPropertyOptional({
+    description:
+      'Default leak localization algorithm when a request does not choose one',
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BAYESIAN,
+  })
+  @IsOptional()
+  @IsEnum(LocalizationAlgorithm)
+  localizationAlgorithm?: LocalizationAlgorithm;
+
+  @ApiPropertyOptional({
+    description:
+      'Delete raw readings older than this many days (aggregates are kept). Null keeps them forever',
+    example: 90,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readingRetentionDays?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Compress raw readings older than this many days (TimescaleDB only). Chunks are shared by all networks, so they are compressed after the longest setting',
+    example: 7,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readingCompressionDays?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Consecutive detection windows below the threshold after which an open leak incident is closed',
+    example: 3,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  incidentCloseWindows?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Leave readings with quality flags out of detection and localization',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  excludeFlaggedReadings?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "How DMA mass balance fills in sensors without readings in the window. Node mass balance is not windowed and always uses each sensor's latest reading, so it is not imputed",
+    enum: ImputationMethod,
+    example: ImputationMethod.LOCF,
+  })
+  @IsOptional()
+  @IsEnum(ImputationMethod)
+  imputationMethod?: ImputationMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'Seconds a reading may be carried forward or interpolated from',
+    example: 3600,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  imputationMaxAge?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Share of the balanced flow (0-1) that may be imputed before DMA detection is suppressed. Detection is always suppressed while a sensor has no reading that can be imputed',
+    example: 0.25,
+    minimum: 0,
+    maximum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxImputedFraction?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Superseded sensitivity matrix versions whose entries are kept, newest first. Versions a detection was localized against are always kept. Null keeps them all',
+    example: 2,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  matrixVersionRetention?: number | null;
+}
+
+export class NetworkSettingsDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiPropertyOptional({ example: 'North District' })
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Flow units of the imported EPANET model',
+    example: 'GPM',
+  })
+  flowUnits?: string;
+
+  @ApiProperty({
+    enum: LocalizationAlgorithm,
+    example: LocalizationAlgorithm.BLENDED,
+  })
+  localizationAlgorithm: LocalizationAlgorithm;
+
+  @ApiPropertyOptional({ example: 90, nullable: true })
+  readingRetentionDays?: number | null;
+
+  @ApiPropertyOptional({ example: 7, nullable: true })
+  readingCompressionDays?: number | null;
+
+  @ApiProperty({ example: 3 })
+  incidentCloseWindows: number;
+
+  @ApiProperty({ example: false })
+  excludeFlaggedReadings: boolean;
+
+  @ApiProperty({ enum: ImputationMethod, example: ImputationMethod.NONE })
+  imputationMethod: ImputationMethod;
+
+  @ApiProperty({ example: 3600 })
+  imputationMaxAge: number;
+
+  @ApiProperty({ example: 0.25 })
+  maxImputedFraction: number;
+
+  @ApiPropertyOptional({ example: 2, nullable: true })
+  matrixVersionRetention?: number | null;
+}
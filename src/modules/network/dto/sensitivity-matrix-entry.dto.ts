@@ -36,7 +36,20 @@ export class SensitivityMatrixEntryDto {
   networkId: string;
 
   @ApiProperty({
-    description: 'Sensitivity value (L/s per L/s)',
+    description: 'Matrix version this entry belongs to',
+    example: 'uuid-here',
+  })
+  versionId: string;
+
+  @ApiProperty({
+    description: 'Hour of day (0-23) of the extended-period simulation slice',
+    example: 3,
+  })
+  hourOfDay: number;
+
+  @ApiProperty({
+    description:
+      'Sensitivity value (L/s per L/s for flow sensors, m per L/s for pressure and tank level sensors)',
     example: 0.42,
   })
   sensitivityValue: number;
@@ -1,4 +1,60 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeakModel } from '@prisma/client';
+
+export class ActiveMatrixVersionDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ description: 'Version number', example: 3 })
+  version: number;
+
+  @ApiProperty({
+    enum: LeakModel,
+    description: 'How leaks were simulated',
+    example: LeakModel.FIXED_DEMAND,
+  })
+  leakModel: LeakModel;
+
+  @ApiPropertyOptional({
+    description: 'Leak size used for FIXED_DEMAND simulations (L/s)',
+    example: 1.0,
+    nullable: true,
+  })
+  leakSize: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Emitter coefficient for EMITTER simulations ((L/s)/m^exponent)',
+    example: null,
+    nullable: true,
+  })
+  emitterCoefficient: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Emitter pressure exponent for EMITTER simulations',
+    example: null,
+    nullable: true,
+  })
+  emitterExponent: number | null;
+
+  @ApiProperty({
+    description: 'Number of sensors the matrix covers',
+    example: 12,
+  })
+  sensorCount: number;
+
+  @ApiProperty({
+    description: 'Hours of day (0-23) with sensitivity slices',
+    example: [0, 1, 2, 3],
+  })
+  hoursOfDay: number[];
+
+  @ApiProperty({
+    description: 'SHA-256 of the EPANET file the matrix was generated from',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  epanetFileHash: string;
+}
 
 export class SensitivityMatrixStatsDto {
   @ApiProperty({
@@ -8,7 +64,7 @@ export class SensitivityMatrixStatsDto {
   exists: boolean;
 
   @ApiProperty({
-    description: 'Total number of entries in the matrix',
+    description: 'Total number of entries in the active matrix',
     example: 250000,
   })
   totalEntries: number;
@@ -18,4 +74,10 @@ export class SensitivityMatrixStatsDto {
     example: '2024-01-25T10:30:00.000Z',
   })
   lastComputed?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Active matrix version (when filtered by network)',
+    type: ActiveMatrixVersionDto,
+  })
+  activeVersion?: ActiveMatrixVersionDto;
 }
@@ -1,13 +1,47 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { SensitivityMatrixStatsDto } from './sensitivity-matrix-stats.dto';
 
+export class FailedMatrixNodeDto {
+  @ApiProperty({
+    description: 'Leak node whose simulation failed',
+    example: 'uuid-here',
+  })
+  leakNodeId: string;
+
+  @ApiProperty({
+    description: 'Simulation error',
+    example: 'Leak simulation failed for node J5',
+  })
+  error: string;
+}
+
 export class SensitivityMatrixStatusDto {
+  @ApiPropertyOptional({
+    description: 'Generation job ID',
+    example: 'uuid-here',
+  })
+  jobId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Network the job generates the matrix for',
+    example: 'uuid-here',
+  })
+  networkId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Matrix version the job builds. It becomes active when the job completes',
+    example: 'uuid-here',
+    nullable: true,
+  })
+  versionId?: string | null;
+
   @ApiProperty({
     description: 'Generation status',
-    enum: ['not_started', 'in_progress', 'completed', 'error'],
+    enum: ['not_started', 'in_progress', 'completed', 'error', 'cancelled'],
     example: 'completed',
   })
-  status: 'not_started' | 'in_progress' | 'completed' | 'error';
+  status: 'not_started' | 'in_progress' | 'completed' | 'error' | 'cancelled';
 
   @ApiPropertyOptional({
     description: 'Generation progress information',
@@ -23,6 +57,25 @@ export class SensitivityMatrixStatusDto {
     percentage: number;
   };
 
+  @ApiPropertyOptional({
+    description: 'When the job started',
+    example: '2024-01-25T10:00:00.000Z',
+  })
+  startedAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'When the job finished, failed or was cancelled',
+    example: '2024-01-25T10:30:00.000Z',
+    nullable: true,
+  })
+  completedAt?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Nodes whose leak simulation failed and can be retried',
+    type: [FailedMatrixNodeDto],
+  })
+  failedNodes?: FailedMatrixNodeDto[];
+
   @ApiPropertyOptional({
     description: 'Matrix statistics',
     type: SensitivityMatrixStatsDto,
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateNetworkLinkDto } from './create-network-link.dto';
+
+export class UpdateNetworkLinkDto extends PartialType(
+  OmitType(CreateNetworkLinkDto, ['networkId'] as const),
+) {}
@@ -2,6 +2,8 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
@@ -24,15 +26,25 @@ import {
 import { NetworkService } from './network.service';
 import { CreateNetworkNodeDto } from './dto/create-network-node.dto';
 import { NetworkNodeResponseDto } from './dto/network-node-response.dto';
+import { CreateNetworkLinkDto } from './dto/create-network-link.dto';
+import { UpdateNetworkLinkDto } from './dto/update-network-link.dto';
+import { NetworkLinkResponseDto } from './dto/network-link-response.dto';
+import {
+  NetworkSettingsDto,
+  UpdateNetworkSettingsDto,
+} from './dto/network-settings.dto';
 import { ImportResponseDto } from './dto/import-response.dto';
 import { SensitivityMatrixStatsDto } from './dto/sensitivity-matrix-stats.dto';
 import { SensitivityMatrixStatusDto } from './dto/sensitivity-matrix-status.dto';
+import { MatrixVersionDto } from './dto/matrix-version.dto';
+import { MatrixGenerationJobDto } from './dto/matrix-generation-job.dto';
 import { SensitivityMatrixEntryDto } from './dto/sensitivity-matrix-entry.dto';
 import { CoverageAnalysisDto } from './dto/coverage-analysis.dto';
 import { SensitivityMatrixService } from './services/sensitivity-matrix.service';
 import { CoverageAnalysisService } from './services/coverage-analysis.service';
+import { NetworkLinkService } from './services/network-link.service';
 import { EpanetImportDto } from './dto/epanet-import.dto';
-import { NodeType } from '@prisma/client';
+import { LeakModel, LinkType, NodeType } from '@prisma/client';
 
 @ApiTags('network')
 @Controller('network')
@@ -41,6 +53,7 @@ export class NetworkController {
     private readonly networkService: NetworkService,
     private readonly sensitivityMatrixService: SensitivityMatrixService,
     private readonly coverageAnalysisService: CoverageAnalysisService,
+    private readonly networkLinkService: NetworkLinkService,
   ) {}
 
   @Post('nodes')
@@ -117,7 +130,8 @@ export class NetworkController {
     name: 'networkId',
     required: false,
     type: String,
-    description: 'Network ID to search in (recommended since nodeId is unique per network)',
+    description:
+      'Network ID to search in (recommended since nodeId is unique per network)',
     example: 'uuid-here',
   })
   @ApiResponse({
@@ -136,6 +150,130 @@ export class NetworkController {
     return this.networkService.findByNodeId(nodeId, networkId);
   }
 
+  @Post('links')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a new network link (pipe, pump or valve)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Network link created successfully',
+    type: NetworkLinkResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Link endpoints are invalid or belong to another network',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Link with this ID already exists',
+  })
+  createLink(@Body() createNetworkLinkDto: CreateNetworkLinkDto) {
+    return this.networkLinkService.create(createNetworkLinkDto);
+  }
+
+  @Get('links')
+  @ApiOperation({ summary: 'Get all network links' })
+  @ApiQuery({
+    name: 'networkId',
+    required: false,
+    type: String,
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @ApiQuery({
+    name: 'linkType',
+    required: false,
+    enum: LinkType,
+    description: 'Filter by link type',
+  })
+  @ApiQuery({
+    name: 'nodeId',
+    required: false,
+    type: String,
+    description: 'Only links connected to this node UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of network links',
+    type: [NetworkLinkResponseDto],
+  })
+  findAllLinks(
+    @Query('networkId') networkId?: string,
+    @Query('linkType') linkType?: LinkType,
+    @Query('nodeId') nodeId?: string,
+  ) {
+    return this.networkLinkService.findAll(networkId, linkType, nodeId);
+  }
+
+  @Get('links/:id')
+  @ApiOperation({ summary: 'Get network link by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Network link UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Network link details',
+    type: NetworkLinkResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network link not found',
+  })
+  findOneLink(@Param('id') id: string) {
+    return this.networkLinkService.findOne(id);
+  }
+
+  @Patch('links/:id')
+  @ApiOperation({
+    summary: 'Update a network link (e.g. open or close a valve)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Network link UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Network link updated successfully',
+    type: NetworkLinkResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network link not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Link with this ID already exists',
+  })
+  updateLink(
+    @Param('id') id: string,
+    @Body() updateNetworkLinkDto: UpdateNetworkLinkDto,
+  ) {
+    return this.networkLinkService.update(id, updateNetworkLinkDto);
+  }
+
+  @Delete('links/:id')
+  @ApiOperation({ summary: 'Delete a network link' })
+  @ApiParam({
+    name: 'id',
+    description: 'Network link UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Network link deleted',
+    type: NetworkLinkResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network link not found',
+  })
+  removeLink(@Param('id') id: string) {
+    return this.networkLinkService.remove(id);
+  }
+
   @Post('import/epanet')
   @HttpCode(HttpStatus.CREATED)
   @UseInterceptors(FileInterceptor('file'))
@@ -164,7 +302,9 @@ export class NetworkController {
 
   @Post('sensitivity-matrix/generate')
   @HttpCode(HttpStatus.ACCEPTED)
-  @ApiOperation({ summary: 'Generate sensitivity matrix using real EPANET simulations' })
+  @ApiOperation({
+    summary: 'Generate sensitivity matrix using real EPANET simulations',
+  })
   @ApiQuery({
     name: 'force',
     required: false,
@@ -179,6 +319,27 @@ export class NetworkController {
     description: 'Network ID from import',
     example: 'uuid-here',
   })
+  @ApiQuery({
+    name: 'leakModel',
+    required: false,
+    enum: LeakModel,
+    description:
+      "How leaks are simulated. Defaults to the active version's model, or FIXED_DEMAND",
+  })
+  @ApiQuery({
+    name: 'emitterCoefficient',
+    required: false,
+    type: Number,
+    description: 'Emitter coefficient for EMITTER leaks ((L/s)/m^exponent)',
+    example: 0.1,
+  })
+  @ApiQuery({
+    name: 'emitterExponent',
+    required: false,
+    type: Number,
+    description: 'Emitter pressure exponent for EMITTER leaks',
+    example: 0.5,
+  })
   @ApiResponse({
     status: 202,
     description: 'Matrix generation started',
@@ -191,29 +352,64 @@ export class NetworkController {
   })
   @ApiResponse({
     status: 400,
-    description: 'No network nodes or sensors found, or network ID missing',
+    description:
+      'No network nodes or sensors found, network ID missing, or invalid leak model',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Another generation job started for the network at the same time',
   })
   async generateMatrix(
     @Query('force') force?: string,
     @Query('networkId') networkId?: string,
+    @Query('leakModel') leakModel?: string,
+    @Query('emitterCoefficient') emitterCoefficient?: string,
+    @Query('emitterExponent') emitterExponent?: string,
   ) {
     if (!networkId) {
       throw new BadRequestException('Network ID is required');
     }
+    if (
+      leakModel &&
+      !Object.values(LeakModel).includes(leakModel as LeakModel)
+    ) {
+      throw new BadRequestException(
+        `Invalid leak model: ${leakModel}. Must be one of ${Object.values(LeakModel).join(', ')}`,
+      );
+    }
     const forceRegenerate = force === 'true' || force === '1';
     return this.sensitivityMatrixService.generateMatrix(
       forceRegenerate,
       networkId,
+      {
+        leakModel: leakModel as LeakModel | undefined,
+        emitterCoefficient: emitterCoefficient
+          ? parseFloat(emitterCoefficient)
+          : undefined,
+        emitterExponent: emitterExponent
+          ? parseFloat(emitterExponent)
+          : undefined,
+      },
     );
   }
 
   @Get('sensitivity-matrix/status')
-  @ApiOperation({ summary: 'Get sensitivity matrix generation status' })
+  @ApiOperation({
+    summary: 'Get sensitivity matrix generation status for a job or network',
+  })
+  @ApiQuery({
+    name: 'jobId',
+    required: false,
+    type: String,
+    description: 'Generation job ID (takes precedence over networkId)',
+    example: 'uuid-here',
+  })
   @ApiQuery({
     name: 'networkId',
     required: false,
     type: String,
-    description: 'Filter by network ID',
+    description: 'Network ID (returns the latest job for the network)',
     example: 'uuid-here',
   })
   @ApiResponse({
@@ -221,8 +417,146 @@ export class NetworkController {
     description: 'Generation status',
     type: SensitivityMatrixStatusDto,
   })
-  async getMatrixStatus(@Query('networkId') networkId?: string) {
-    return this.sensitivityMatrixService.getGenerationStatus();
+  @ApiResponse({
+    status: 400,
+    description: 'Neither jobId nor networkId provided',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Generation job not found',
+  })
+  async getMatrixStatus(
+    @Query('jobId') jobId?: string,
+    @Query('networkId') networkId?: string,
+  ) {
+    return this.sensitivityMatrixService.getGenerationStatus({
+      jobId,
+      networkId,
+    });
+  }
+
+  @Get('sensitivity-matrix/jobs')
+  @ApiOperation({ summary: 'List sensitivity matrix generation jobs' })
+  @ApiQuery({
+    name: 'networkId',
+    required: false,
+    type: String,
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Generation jobs, most recent first',
+    type: [MatrixGenerationJobDto],
+  })
+  async getMatrixJobs(@Query('networkId') networkId?: string) {
+    return this.sensitivityMatrixService.findJobs(networkId);
+  }
+
+  @Post('sensitivity-matrix/jobs/:jobId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a running sensitivity matrix generation job',
+  })
+  @ApiParam({
+    name: 'jobId',
+    description: 'Generation job UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Job cancelled (or already finished)',
+    type: SensitivityMatrixStatusDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Generation job not found',
+  })
+  async cancelMatrixJob(@Param('jobId') jobId: string) {
+    return this.sensitivityMatrixService.cancelJob(jobId);
+  }
+
+  @Post('sensitivity-matrix/jobs/:jobId/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary:
+      'Resume a failed or cancelled generation job, skipping nodes already computed',
+  })
+  @ApiParam({
+    name: 'jobId',
+    description: 'Generation job UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Job resumed',
+    type: SensitivityMatrixStatusDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Job is not failed or cancelled, or another job is running',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Another generation job started for the network at the same time',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Generation job not found',
+  })
+  async resumeMatrixJob(@Param('jobId') jobId: string) {
+    return this.sensitivityMatrixService.resumeJob(jobId);
+  }
+
+  @Post('sensitivity-matrix/jobs/:jobId/retry-failed')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Retry only the nodes that failed in a generation job',
+  })
+  @ApiParam({
+    name: 'jobId',
+    description: 'Generation job UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Retry started (or nothing to retry)',
+    type: SensitivityMatrixStatusDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Job is still running, or another job is running',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Another generation job started for the network at the same time',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Generation job not found',
+  })
+  async retryFailedMatrixNodes(@Param('jobId') jobId: string) {
+    return this.sensitivityMatrixService.retryFailedNodes(jobId);
+  }
+
+  @Get('sensitivity-matrix/versions')
+  @ApiOperation({ summary: 'List sensitivity matrix versions' })
+  @ApiQuery({
+    name: 'networkId',
+    required: false,
+    type: String,
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Matrix versions, newest first per network',
+    type: [MatrixVersionDto],
+  })
+  async getMatrixVersions(@Query('networkId') networkId?: string) {
+    return this.sensitivityMatrixService.findVersions(networkId);
   }
 
   @Get('sensitivity-matrix/stats')
@@ -252,6 +586,20 @@ export class NetworkController {
     description: 'Network ID',
     example: 'uuid-here',
   })
+  @ApiQuery({
+    name: 'versionId',
+    required: false,
+    type: String,
+    description: 'Matrix version ID (defaults to the active version)',
+    example: 'uuid-here',
+  })
+  @ApiQuery({
+    name: 'hourOfDay',
+    required: false,
+    type: Number,
+    description: 'Filter by time-of-day slice (0-23)',
+    example: 3,
+  })
   @ApiQuery({
     name: 'leakNodeId',
     required: false,
@@ -302,6 +650,8 @@ export class NetworkController {
     @Query('sensorId') sensorId?: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('versionId') versionId?: string,
+    @Query('hourOfDay') hourOfDay?: string,
   ) {
     if (!networkId) {
       throw new BadRequestException('Network ID is required');
@@ -314,11 +664,15 @@ export class NetworkController {
       sensorId,
       pageNum,
       limitNum,
+      versionId,
+      hourOfDay !== undefined ? parseInt(hourOfDay, 10) : undefined,
     );
   }
 
   @Get('sensitivity-matrix/node/:nodeId')
-  @ApiOperation({ summary: 'Get sensitivity matrix entries for a specific leak node' })
+  @ApiOperation({
+    summary: 'Get sensitivity matrix entries for a specific leak node',
+  })
   @ApiParam({
     name: 'nodeId',
     description: 'Leak node UUID',
@@ -338,7 +692,9 @@ export class NetworkController {
   }
 
   @Get('sensitivity-matrix/sensor/:sensorId')
-  @ApiOperation({ summary: 'Get sensitivity matrix entries for a specific sensor' })
+  @ApiOperation({
+    summary: 'Get sensitivity matrix entries for a specific sensor',
+  })
   @ApiParam({
     name: 'sensorId',
     description: 'Sensor UUID',
@@ -381,5 +737,53 @@ export class NetworkController {
     }
     return this.coverageAnalysisService.analyzeCoverage(networkId);
   }
-}
 
+  @Get(':networkId/settings')
+  @ApiOperation({ summary: 'Get network settings' })
+  @ApiParam({
+    name: 'networkId',
+    description: 'Network UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Network settings',
+    type: NetworkSettingsDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network not found',
+  })
+  getSettings(@Param('networkId') networkId: string) {
+    return this.networkService.getSettings(networkId);
+  }
+
+  @Patch(':networkId/settings')
+  @ApiOperation({
+    summary:
+      'Update network settings such as the default localization algorithm',
+  })
+  @ApiParam({
+    name: 'networkId',
+    description: 'Network UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Network settings updated',
+    type: NetworkSettingsDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network not found',
+  })
+  updateSettings(
+    @Param('networkId') networkId: string,
+    @Body() updateNetworkSettingsDto: UpdateNetworkSettingsDto,
+  ) {
+    return this.networkService.updateSettings(
+      networkId,
+      updateNetworkSettingsDto,
+    );
+  }
+}
@@ -7,6 +7,11 @@ import { SensitivityMatrixService } from './services/sensitivity-matrix.service'
 import { StorageService } from './services/storage.service';
 import { EpanetSimulationService } from './services/epanet-simulation.service';
 import { CoverageAnalysisService } from './services/coverage-analysis.service';
+import { MatrixGenerationJobService } from './services/matrix-generation-job.service';
+import { MatrixVersionService } from './services/matrix-version.service';
+import { MatrixRetentionService } from './services/matrix-retention.service';
+import { NetworkLinkService } from './services/network-link.service';
+import { SensitivityMatrixCacheService } from './services/sensitivity-matrix-cache.service';
 
 @Module({
   imports: [PrismaModule],
@@ -18,8 +23,20 @@ import { CoverageAnalysisService } from './services/coverage-analysis.service';
     StorageService,
     EpanetSimulationService,
     CoverageAnalysisService,
+    MatrixGenerationJobService,
+    MatrixVersionService,
+    MatrixRetentionService,
+    NetworkLinkService,
+    SensitivityMatrixCacheService,
+  ],
+  exports: [
+    NetworkService,
+    SensitivityMatrixService,
+    NetworkLinkService,
+    SensitivityMatrixCacheService,
+    StorageService,
+    EpanetSimulationService,
   ],
-  exports: [NetworkService, SensitivityMatrixService],
 })
 export class NetworkModule {}
 
@@ -7,11 +7,30 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
 import { CreateNetworkNodeDto } from './dto/create-network-node.dto';
-import { NodeType } from '@prisma/client';
-import { EpanetParserService } from './services/epanet-parser.service';
+import { UpdateNetworkSettingsDto } from './dto/network-settings.dto';
+import { LinkStatus, LinkType, NodeType, Prisma } from '@prisma/client';
+import {
+  EpanetLink,
+  EpanetParserService,
+} from './services/epanet-parser.service';
 import { StorageService } from './services/storage.service';
 import { randomUUID } from 'crypto';
 
+const NETWORK_SETTINGS_SELECT = {
+  id: true,
+  name: true,
+  flowUnits: true,
+  localizationAlgorithm: true,
+  readingRetentionDays: true,
+  readingCompressionDays: true,
+  incidentCloseWindows: true,
+  excludeFlaggedReadings: true,
+  imputationMethod: true,
+  imputationMaxAge: true,
+  maxImputedFraction: true,
+  matrixVersionRetention: true,
+} satisfies Prisma.NetworkSelect;
+
 @Injectable()
 export class NetworkService {
   private readonly logger = new Logger(NetworkService.name);
@@ -160,6 +179,29 @@ export class NetworkService {
     return node;
   }
 
+  async getSettings(networkId: string) {
+    const network = await this.prisma.network.findUnique({
+      where: { id: networkId },
+      select: NETWORK_SETTINGS_SELECT,
+    });
+
+    if (!network) {
+      throw new NotFoundException(`Network with ID ${networkId} not found`);
+    }
+
+    return network;
+  }
+
+  async updateSettings(networkId: string, dto: UpdateNetworkSettingsDto) {
+    await this.getSettings(networkId);
+
+    return this.prisma.network.update({
+      where: { id: networkId },
+      data: dto,
+      select: NETWORK_SETTINGS_SELECT,
+    });
+  }
+
   async importFromEpanet(file: Express.Multer.File) {
     if (!file) {
       throw new BadRequestException('EPANET file is required');
@@ -199,13 +241,14 @@ export class NetworkService {
         this.epanetParser.mapToNetworkNodes(parsedData);
 
       // Create Network and nodes in transaction
-      const { network, createdNodes } = await this.prisma.$transaction(
+      const { createdNodes, linksCreated } = await this.prisma.$transaction(
         async (tx) => {
           // Create Network record first
           const network = await tx.network.create({
             data: {
               id: networkId,
               epanetFileId: networkId, // Store networkId for file storage compatibility
+              flowUnits: parsedData.options.flowUnits, // Parsed values are converted to L/s
             },
           });
 
@@ -220,6 +263,8 @@ export class NetworkService {
               nodeType: nodeData.nodeType,
               epanetNodeId: nodeData.epanetNodeId,
               location: nodeData.location,
+              x: nodeData.x,
+              y: nodeData.y,
             });
           }
 
@@ -283,6 +328,29 @@ export class NetworkService {
             }
           }
 
+          // Store every link so loops are kept, unlike the parent tree above
+          const linksToCreate: Prisma.NetworkLinkCreateManyInput[] = [];
+          for (const link of parsedData.links) {
+            const fromNodeId = nodeIdToUuid.get(link.fromNode);
+            const toNodeId = nodeIdToUuid.get(link.toNode);
+            if (!fromNodeId || !toNodeId) {
+              this.logger.warn(
+                `Skipping link ${link.id}: node ${fromNodeId ? link.toNode : link.fromNode} not found`,
+              );
+              continue;
+            }
+            linksToCreate.push(
+              this.toNetworkLinkData(networkId, link, fromNodeId, toNodeId),
+            );
+          }
+
+          if (linksToCreate.length > 0) {
+            await tx.networkLink.createMany({
+              data: linksToCreate,
+              skipDuplicates: true,
+            });
+          }
+
           // Return network and all nodes
           const allNodes = await tx.networkNode.findMany({
             where: {
@@ -290,7 +358,11 @@ export class NetworkService {
             },
           });
 
-          return { network, createdNodes: allNodes };
+          return {
+            network,
+            createdNodes: allNodes,
+            linksCreated: linksToCreate.length,
+          };
         },
         {
           timeout: 300000, // 5 minutes timeout for very large networks
@@ -316,7 +388,8 @@ export class NetworkService {
       return {
         status: 'success',
         nodesImported: createdNodes.length,
-        linksImported: parsedData.links.length,
+        linksImported: linksCreated,
+        flowUnits: parsedData.options.flowUnits,
         dmAsCreated: dmAsCreated.length,
         message: 'Network imported successfully',
         networkId,
@@ -331,6 +404,32 @@ export class NetworkService {
     }
   }
 
+  private toNetworkLinkData(
+    networkId: string,
+    link: EpanetLink,
+    fromNodeId: string,
+    toNodeId: string,
+  ): Prisma.NetworkLinkCreateManyInput {
+    return {
+      networkId,
+      linkId: link.id,
+      linkType: LinkType[link.linkType],
+      fromNodeId,
+      toNodeId,
+      length: link.length,
+      diameter: link.diameter,
+      roughness: link.roughness,
+      minorLoss: link.minorLoss,
+      status:
+        link.status && link.status in LinkStatus
+          ? LinkStatus[link.status as keyof typeof LinkStatus]
+          : LinkStatus.OPEN,
+      valveType: link.valveType,
+      setting: link.setting,
+      vertices: link.vertices,
+    };
+  }
+
   async createDmasForMainlines(networkId: string) {
     const mainlines = await this.prisma.networkNode.findMany({
       where: {
@@ -457,5 +556,72 @@ export class NetworkService {
 
     return nodeIds;
   }
+
+  /**
+   * Number of links on the shortest path between two nodes of a network,
+   * treating pipes, pumps, valves and the node hierarchy as undirected
+   * edges. Returns null when the nodes are not connected.
+   */
+  async getHopDistance(
+    networkId: string,
+    fromNodeId: string,
+    toNodeId: string,
+  ): Promise<number | null> {
+    if (fromNodeId === toNodeId) {
+      return 0;
+    }
+
+    const [links, nodes] = await Promise.all([
+      this.prisma.networkLink.findMany({
+        where: { networkId },
+        select: { fromNodeId: true, toNodeId: true },
+      }),
+      this.prisma.networkNode.findMany({
+        where: { networkId, parentId: { not: null } },
+        select: { id: true, parentId: true },
+      }),
+    ]);
+
+    const neighbours = new Map<string, string[]>();
+    const connect = (a: string, b: string) => {
+      for (const [node, other] of [
+        [a, b],
+        [b, a],
+      ]) {
+        const list = neighbours.get(node);
+        if (list) {
+          list.push(other);
+        } else {
+          neighbours.set(node, [other]);
+        }
+      }
+    };
+    for (const link of links) {
+      connect(link.fromNodeId, link.toNodeId);
+    }
+    for (const node of nodes) {
+      connect(node.id, node.parentId!);
+    }
+
+    // Breadth-first search, one hop per level
+    const distances = new Map<string, number>([[fromNodeId, 0]]);
+    const queue = [fromNodeId];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      for (const next of neighbours.get(current) ?? []) {
+        if (distances.has(next)) {
+          continue;
+        }
+        const distance = distances.get(current)! + 1;
+        if (next === toNodeId) {
+          return distance;
+        }
+        distances.set(next, distance);
+        queue.push(next);
+      }
+    }
+
+    return null;
+  }
 }
 
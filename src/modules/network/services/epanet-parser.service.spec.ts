@@ -0,0 +1,239 @@
+import { EpanetParserService } from './epanet-parser.service';
+
+const parser = new EpanetParserService();
+
+function parse(...lines: string[]) {
+  return parser.parseFile({
+    buffer: Buffer.from(lines.join('\n')),
+  } as Express.Multer.File);
+}
+
+// A small SI model with one object of each kind
+const model = [
+  '[TITLE]',
+  'Test network',
+  '',
+  '[JUNCTIONS]',
+  ';ID  Elev  Demand  Pattern',
+  ' J1  100   2.5     P1',
+  ' J2  90',
+  '',
+  '[RESERVOIRS]',
+  ' R1  150   HP',
+  '',
+  '[TANKS]',
+  ';ID  Elev  InitLvl  MinLvl  MaxLvl  Diam',
+  ' T1  120   3        1       6       20',
+  '',
+  '[PIPES]',
+  ';ID  Node1  Node2  Length  Diam  Roughness  MinorLoss  Status',
+  ' P1  R1     J1     500     300   110        0.5        Open',
+  ' P2  J1     J2     250     200   100        0          CV',
+  '',
+  '[PUMPS]',
+  ' PU1  J2  T1  HEAD C1  SPEED 1.2',
+  '',
+  '[VALVES]',
+  ' V1  J1  J2  150  PRV  40  0.2',
+  '',
+  '[STATUS]',
+  ' P2   Closed',
+  ' PU1  0.8',
+  '',
+  '[PATTERNS]',
+  ' P1  1.0  1.2  0.8',
+  ' P1  0.9',
+  '',
+  '[CURVES]',
+  ' C1  50  30',
+  '',
+  '[DEMANDS]',
+  ' J1  2.5  P1  ;Residential',
+  ' J1  1.0',
+  '',
+  '[CONTROLS]',
+  ' LINK PU1 CLOSED IF NODE T1 ABOVE 5.5',
+  ' LINK V1 OPEN AT TIME 16',
+  '',
+  '[COORDINATES]',
+  ' J1  10  20',
+  ' J2  30  40',
+  '',
+  '[VERTICES]',
+  ' P1  1  2',
+  ' P1  3  4',
+  '',
+  '[TAGS]',
+  ' NODE  J1  North zone',
+  ' LINK  P1  Trunk',
+  '',
+  '[OPTIONS]',
+  ' Units              LPS',
+  ' Headloss           D-W',
+  ' Demand Multiplier  1.5',
+  ' Emitter Exponent   0.6',
+  ' Pattern            P1',
+  '',
+  '[END]',
+];
+
+describe('EpanetParserService', () => {
+  describe('parseFile', () => {
+    const data = parse(...model);
+    const node = (id: string) => data.nodes.find((n) => n.id === id);
+    const link = (id: string) => data.links.find((l) => l.id === id);
+
+    it('reads the title and nodes', () => {
+      expect(data.title).toBe('Test network');
+      expect(node('J1')).toMatchObject({
+        nodeType: 'JUNCTION',
+        elevation: 100,
+        demand: 2.5,
+        patternId: 'P1',
+      });
+      expect(node('R1')).toMatchObject({
+        nodeType: 'RESERVOIR',
+        elevation: 150,
+        patternId: 'HP',
+      });
+      expect(node('T1')).toMatchObject({
+        nodeType: 'TANK',
+        elevation: 120,
+        initLevel: 3,
+        minLevel: 1,
+        maxLevel: 6,
+        tankDiameter: 20,
+      });
+    });
+
+    it('reads pipes, pumps and valves', () => {
+      expect(link('P1')).toMatchObject({
+        linkType: 'PIPE',
+        fromNode: 'R1',
+        toNode: 'J1',
+        length: 500,
+        diameter: 300,
+        roughness: 110,
+        minorLoss: 0.5,
+        status: 'OPEN',
+      });
+      expect(link('PU1')).toMatchObject({
+        linkType: 'PUMP',
+        parameters: { HEAD: 'C1', SPEED: '1.2' },
+      });
+      expect(link('V1')).toMatchObject({
+        linkType: 'VALVE',
+        diameter: 150,
+        valveType: 'PRV',
+        setting: 40,
+        minorLoss: 0.2,
+      });
+    });
+
+    it('applies [STATUS] as a status or a setting', () => {
+      expect(link('P2')!.status).toBe('CLOSED');
+      expect(link('PU1')!.setting).toBe(0.8);
+    });
+
+    it('appends pattern continuation lines', () => {
+      expect(data.patterns).toEqual([
+        { id: 'P1', multipliers: [1.0, 1.2, 0.8, 0.9] },
+      ]);
+      expect(data.curves).toEqual([{ id: 'C1', points: [{ x: 50, y: 30 }] }]);
+    });
+
+    it('uses the [DEMANDS] comment as the category', () => {
+      expect(data.demands).toEqual([
+        {
+          nodeId: 'J1',
+          baseDemand: 2.5,
+          patternId: 'P1',
+          category: 'Residential',
+        },
+        { nodeId: 'J1', baseDemand: 1.0 },
+      ]);
+    });
+
+    it('reads node and time controls', () => {
+      expect(data.controls).toEqual([
+        {
+          statement: 'LINK PU1 CLOSED IF NODE T1 ABOVE 5.5',
+          linkId: 'PU1',
+          action: 'CLOSED',
+          condition: 'NODE',
+          nodeId: 'T1',
+          comparison: 'ABOVE',
+          value: 5.5,
+        },
+        {
+          statement: 'LINK V1 OPEN AT TIME 16',
+          linkId: 'V1',
+          action: 'OPEN',
+          condition: 'TIME',
+          time: '16',
+        },
+      ]);
+    });
+
+    it('attaches coordinates, vertices and tags', () => {
+      expect(node('J1')).toMatchObject({ x: 10, y: 20, tag: 'North zone' });
+      expect(node('R1')!.x).toBeUndefined();
+      expect(link('P1')).toMatchObject({
+        vertices: [
+          { x: 1, y: 2 },
+          { x: 3, y: 4 },
+        ],
+        tag: 'Trunk',
+      });
+    });
+
+    it('reads single and multi-word options', () => {
+      expect(data.options).toEqual({
+        flowUnits: 'LPS',
+        headloss: 'D-W',
+        demandMultiplier: 1.5,
+        emitterExponent: 0.6,
+        defaultPatternId: 'P1',
+        values: {
+          UNITS: 'LPS',
+          HEADLOSS: 'D-W',
+          'DEMAND MULTIPLIER': '1.5',
+          'EMITTER EXPONENT': '0.6',
+          PATTERN: 'P1',
+        },
+      });
+    });
+  });
+
+  describe('unit conversion', () => {
+    it('converts US customary models to L/s, m and mm', () => {
+      const data = parse(
+        '[JUNCTIONS]',
+        ' J1  100  10',
+        '[PIPES]',
+        ' P1  J1  J2  1000  12  100',
+        '[VALVES]',
+        ' V1  J1  J2  8  PRV  50',
+        '[DEMANDS]',
+        ' J1  10',
+        '[OPTIONS]',
+        ' Units  GPM',
+      );
+
+      expect(data.options.flowUnits).toBe('GPM');
+      expect(data.nodes[0].elevation).toBeCloseTo(30.48);
+      expect(data.nodes[0].demand).toBeCloseTo(0.630902);
+      expect(data.links[0].length).toBeCloseTo(304.8);
+      expect(data.links[0].diameter).toBeCloseTo(304.8);
+      expect(data.links[1].setting).toBeCloseTo(35.1535);
+      expect(data.demands[0].baseDemand).toBeCloseTo(0.630902);
+    });
+
+    it('defaults to GPM without a Units option', () => {
+      const data = parse('[JUNCTIONS]', ' J1  10');
+
+      expect(data.options.flowUnits).toBe('GPM');
+      expect(data.nodes[0].elevation).toBeCloseTo(3.048);
+    });
+  });
+});
@@ -1,10 +1,26 @@
 import { Injectable } from '@nestjs/common';
 import { NodeType } from '@prisma/client';
-
+import {
+  EPANET_FLOW_UNITS,
+  EpanetFlowUnits,
+  getEpanetUnitFactors,
+} from '../../../common/utils/units.util';
+
+// Values are converted to canonical units after parsing: flows in L/s,
+// elevations, levels and lengths in m, diameters in mm. Coordinates,
+// curves and control thresholds stay in model units.
 export interface EpanetNode {
   id: string;
-  elevation?: number;
+  elevation?: number; // Elevation, or total head for reservoirs
   demand?: number;
+  patternId?: string; // Demand pattern (junctions) or head pattern (reservoirs)
+  initLevel?: number; // Tanks only
+  minLevel?: number;
+  maxLevel?: number;
+  tankDiameter?: number;
+  x?: number; // From [COORDINATES]
+  y?: number;
+  tag?: string; // From [TAGS]
   nodeType: 'JUNCTION' | 'TANK' | 'RESERVOIR';
 }
 
@@ -14,13 +30,63 @@ export interface EpanetLink {
   toNode: string;
   length?: number;
   diameter?: number;
+  roughness?: number; // Pipes only
+  minorLoss?: number; // Pipes and valves
+  status?: string; // Initial status, e.g. OPEN, CLOSED, CV
+  valveType?: string; // PRV, PSV, PBV, FCV, TCV or GPV
+  setting?: number; // Valve setting
+  parameters?: Record<string, string>; // Pump keywords, e.g. HEAD, POWER, SPEED
+  vertices?: Array<{ x: number; y: number }>; // From [VERTICES]
+  tag?: string; // From [TAGS]
   linkType: 'PIPE' | 'PUMP' | 'VALVE';
 }
 
+export interface EpanetPattern {
+  id: string;
+  multipliers: number[];
+}
+
+export interface EpanetCurve {
+  id: string;
+  points: Array<{ x: number; y: number }>;
+}
+
+export interface EpanetDemand {
+  nodeId: string;
+  baseDemand: number;
+  patternId?: string;
+  category?: string;
+}
+
+export interface EpanetControl {
+  statement: string; // Control line as written in the file
+  linkId: string;
+  action: string; // OPEN, CLOSED or a numeric setting
+  condition: 'NODE' | 'TIME' | 'CLOCKTIME';
+  nodeId?: string; // NODE conditions
+  comparison?: 'ABOVE' | 'BELOW';
+  value?: number; // Level or pressure threshold for NODE conditions
+  time?: string; // TIME and CLOCKTIME conditions, e.g. "16" or "10:00 AM"
+}
+
+export interface EpanetOptions {
+  flowUnits: EpanetFlowUnits; // Units the model was written in
+  headloss?: string; // H-W, D-W or C-M
+  demandMultiplier?: number;
+  emitterExponent?: number;
+  defaultPatternId?: string;
+  values: Record<string, string>; // Every option as written, keyed by upper-case name
+}
+
 export interface ParsedEpanetData {
   nodes: EpanetNode[];
   links: EpanetLink[];
   title?: string;
+  patterns: EpanetPattern[];
+  curves: EpanetCurve[];
+  demands: EpanetDemand[];
+  controls: EpanetControl[];
+  options: EpanetOptions;
 }
 
 export interface NetworkNodeData {
@@ -29,8 +95,21 @@ export interface NetworkNodeData {
   parentId?: string;
   epanetNodeId: string;
   location?: string;
+  x?: number;
+  y?: number;
 }
 
+// Options whose names span two words; all others are a single keyword
+const MULTI_WORD_OPTIONS = [
+  'DEMAND MULTIPLIER',
+  'DEMAND MODEL',
+  'EMITTER EXPONENT',
+  'SPECIFIC GRAVITY',
+  'MINIMUM PRESSURE',
+  'REQUIRED PRESSURE',
+  'PRESSURE EXPONENT',
+];
+
 @Injectable()
 export class EpanetParserService {
   parseFile(file: Express.Multer.File): ParsedEpanetData {
@@ -40,17 +119,38 @@ export class EpanetParserService {
     const data: ParsedEpanetData = {
       nodes: [],
       links: [],
+      patterns: [],
+      curves: [],
+      demands: [],
+      controls: [],
+      options: {
+        flowUnits: 'GPM', // EPANET default when [OPTIONS] has no Units
+        values: {},
+      },
     };
 
+    // Sections may appear in any order, so these are attached at the end
+    const coordinates = new Map<string, { x: number; y: number }>();
+    const vertices = new Map<string, Array<{ x: number; y: number }>>();
+    const statuses = new Map<string, string>();
+    const tags: Array<{ objectType: string; id: string; tag: string }> = [];
+
     let currentSection: string | null = null;
     let lineNumber = 0;
 
     for (const line of lines) {
       lineNumber++;
-      const trimmedLine = line.trim();
+
+      // Strip inline comments. [DEMANDS] uses the comment as the category.
+      const commentStart = line.indexOf(';');
+      const comment =
+        commentStart >= 0 ? line.slice(commentStart + 1).trim() : undefined;
+      const trimmedLine = (
+        commentStart >= 0 ? line.slice(0, commentStart) : line
+      ).trim();
 
       // Skip empty lines and comments
-      if (!trimmedLine || trimmedLine.startsWith(';')) {
+      if (!trimmedLine) {
         continue;
       }
 
@@ -94,12 +194,282 @@ export class EpanetParserService {
         case 'VALVES':
           this.parseValve(trimmedLine, data);
           break;
+
+        case 'COORDINATES':
+          this.parsePoint(trimmedLine, (id, point) =>
+            coordinates.set(id, point),
+          );
+          break;
+
+        case 'VERTICES':
+          this.parsePoint(trimmedLine, (id, point) => {
+            if (!vertices.has(id)) {
+              vertices.set(id, []);
+            }
+            vertices.get(id)!.push(point);
+          });
+          break;
+
+        case 'STATUS': {
+          const [id, value] = this.split(trimmedLine);
+          if (id && value) {
+            statuses.set(id, value.toUpperCase());
+          }
+          break;
+        }
+
+        case 'PATTERNS':
+          this.parsePattern(trimmedLine, data);
+          break;
+
+        case 'CURVES':
+          this.parseCurve(trimmedLine, data);
+          break;
+
+        case 'DEMANDS':
+          this.parseDemand(trimmedLine, comment, data);
+          break;
+
+        case 'CONTROLS':
+          this.parseControl(trimmedLine, data);
+          break;
+
+        case 'TAGS': {
+          const [objectType, id, ...rest] = this.split(trimmedLine);
+          if (objectType && id && rest.length > 0) {
+            tags.push({
+              objectType: objectType.toUpperCase(),
+              id,
+              tag: rest.join(' '),
+            });
+          }
+          break;
+        }
+
+        case 'OPTIONS':
+          this.parseOption(trimmedLine, data);
+          break;
       }
     }
 
+    for (const node of data.nodes) {
+      const point = coordinates.get(node.id);
+      if (point) {
+        node.x = point.x;
+        node.y = point.y;
+      }
+    }
+
+    for (const link of data.links) {
+      const linkVertices = vertices.get(link.id);
+      if (linkVertices) {
+        link.vertices = linkVertices;
+      }
+
+      // [STATUS] holds OPEN/CLOSED or a numeric setting (pump speed, valve setting)
+      const status = statuses.get(link.id);
+      if (status === 'OPEN' || status === 'CLOSED') {
+        link.status = status;
+      } else if (status !== undefined) {
+        link.setting = this.parseNumber(status) ?? link.setting;
+      }
+    }
+
+    const nodesById = new Map(data.nodes.map((node) => [node.id, node]));
+    const linksById = new Map(data.links.map((link) => [link.id, link]));
+    for (const { objectType, id, tag } of tags) {
+      const target =
+        objectType === 'NODE' ? nodesById.get(id) : linksById.get(id);
+      if (target) {
+        target.tag = tag;
+      }
+    }
+
+    this.normalizeUnits(data);
+
     return data;
   }
 
+  /**
+   * Convert parsed values from the model's units to canonical units.
+   * US customary models (CFS, GPM, MGD, IMGD, AFD) use ft, in and psi.
+   */
+  private normalizeUnits(data: ParsedEpanetData): void {
+    const factors = getEpanetUnitFactors(data.options.flowUnits);
+    const scale = (value: number | undefined, factor: number) =>
+      value === undefined ? undefined : value * factor;
+
+    for (const node of data.nodes) {
+      node.elevation = scale(node.elevation, factors.head);
+      node.demand = scale(node.demand, factors.flow);
+      if (node.nodeType === 'TANK') {
+        node.initLevel = scale(node.initLevel, factors.head);
+        node.minLevel = scale(node.minLevel, factors.head);
+        node.maxLevel = scale(node.maxLevel, factors.head);
+        node.tankDiameter = scale(node.tankDiameter, factors.head);
+      }
+    }
+
+    for (const link of data.links) {
+      link.length = scale(link.length, factors.head);
+      link.diameter = scale(link.diameter, factors.diameter);
+
+      // Valve settings are pressures for pressure valves, flows for FCVs
+      if (link.valveType === 'FCV') {
+        link.setting = scale(link.setting, factors.flow);
+      } else if (['PRV', 'PSV', 'PBV'].includes(link.valveType ?? '')) {
+        link.setting = scale(link.setting, factors.pressure);
+      }
+    }
+
+    for (const demand of data.demands) {
+      demand.baseDemand *= factors.flow;
+    }
+  }
+
+  private split(line: string): string[] {
+    return line.split(/\s+/).filter((p) => p.length > 0);
+  }
+
+  private parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  private parsePoint(
+    line: string,
+    add: (id: string, point: { x: number; y: number }) => void,
+  ): void {
+    const [id, x, y] = this.split(line);
+    const point = { x: parseFloat(x), y: parseFloat(y) };
+    if (id && !isNaN(point.x) && !isNaN(point.y)) {
+      add(id, point);
+    }
+  }
+
+  private parsePattern(line: string, data: ParsedEpanetData): void {
+    const [id, ...values] = this.split(line);
+    if (!id) return;
+
+    // Long patterns continue over several lines with the same ID
+    let pattern = data.patterns.find((p) => p.id === id);
+    if (!pattern) {
+      pattern = { id, multipliers: [] };
+      data.patterns.push(pattern);
+    }
+
+    for (const value of values) {
+      const multiplier = parseFloat(value);
+      if (!isNaN(multiplier)) {
+        pattern.multipliers.push(multiplier);
+      }
+    }
+  }
+
+  private parseCurve(line: string, data: ParsedEpanetData): void {
+    const [id, x, y] = this.split(line);
+    const point = { x: parseFloat(x), y: parseFloat(y) };
+    if (!id || isNaN(point.x) || isNaN(point.y)) return;
+
+    let curve = data.curves.find((c) => c.id === id);
+    if (!curve) {
+      curve = { id, points: [] };
+      data.curves.push(curve);
+    }
+    curve.points.push(point);
+  }
+
+  private parseDemand(
+    line: string,
+    comment: string | undefined,
+    data: ParsedEpanetData,
+  ): void {
+    const [nodeId, baseDemand, patternId] = this.split(line);
+    const demand = parseFloat(baseDemand);
+    if (!nodeId || isNaN(demand)) return;
+
+    data.demands.push({
+      nodeId,
+      baseDemand: demand,
+      ...(patternId && { patternId }),
+      ...(comment && { category: comment }),
+    });
+  }
+
+  /**
+   * Parse simple controls:
+   *   LINK id status IF NODE id ABOVE/BELOW value
+   *   LINK id status AT TIME time
+   *   LINK id status AT CLOCKTIME time AM/PM
+   */
+  private parseControl(line: string, data: ParsedEpanetData): void {
+    const parts = this.split(line);
+    if (parts.length < 6 || parts[0].toUpperCase() !== 'LINK') return;
+
+    const [, linkId, action, keyword, subject] = parts;
+    const control: EpanetControl = {
+      statement: parts.join(' '),
+      linkId,
+      action: action.toUpperCase(),
+      condition: 'TIME',
+    };
+
+    if (keyword.toUpperCase() === 'IF' && subject.toUpperCase() === 'NODE') {
+      const comparison = parts[6]?.toUpperCase();
+      control.condition = 'NODE';
+      control.nodeId = parts[5];
+      if (comparison === 'ABOVE' || comparison === 'BELOW') {
+        control.comparison = comparison;
+      }
+      control.value = this.parseNumber(parts[7]);
+    } else if (keyword.toUpperCase() === 'AT') {
+      control.condition =
+        subject.toUpperCase() === 'CLOCKTIME' ? 'CLOCKTIME' : 'TIME';
+      control.time = parts.slice(5).join(' ');
+    } else {
+      return;
+    }
+
+    data.controls.push(control);
+  }
+
+  private parseOption(line: string, data: ParsedEpanetData): void {
+    const parts = this.split(line);
+    if (parts.length < 2) return;
+
+    const firstTwo = `${parts[0]} ${parts[1]}`.toUpperCase();
+    const keyLength = MULTI_WORD_OPTIONS.includes(firstTwo) ? 2 : 1;
+    const key = parts.slice(0, keyLength).join(' ').toUpperCase();
+    const value = parts.slice(keyLength).join(' ');
+    if (!value) return;
+
+    const options = data.options;
+    options.values[key] = value;
+
+    switch (key) {
+      case 'UNITS': {
+        const units = value.toUpperCase() as EpanetFlowUnits;
+        if (EPANET_FLOW_UNITS.includes(units)) {
+          options.flowUnits = units;
+        }
+        break;
+      }
+      case 'HEADLOSS':
+        options.headloss = value.toUpperCase();
+        break;
+      case 'DEMAND MULTIPLIER':
+        options.demandMultiplier = this.parseNumber(value);
+        break;
+      case 'EMITTER EXPONENT':
+        options.emitterExponent = this.parseNumber(value);
+        break;
+      case 'PATTERN':
+        options.defaultPatternId = value;
+        break;
+    }
+  }
+
   private parseJunction(line: string, data: ParsedEpanetData): void {
     const parts = line.split(/\s+/).filter((p) => p.length > 0);
     if (parts.length < 1) return;
@@ -115,6 +485,9 @@ export class EpanetParserService {
     if (parts[2]) {
       node.demand = parseFloat(parts[2]);
     }
+    if (parts[3]) {
+      node.patternId = parts[3];
+    }
 
     data.nodes.push(node);
   }
@@ -131,6 +504,10 @@ export class EpanetParserService {
     if (parts[1]) {
       node.elevation = parseFloat(parts[1]);
     }
+    node.initLevel = this.parseNumber(parts[2]);
+    node.minLevel = this.parseNumber(parts[3]);
+    node.maxLevel = this.parseNumber(parts[4]);
+    node.tankDiameter = this.parseNumber(parts[5]);
 
     data.nodes.push(node);
   }
@@ -147,6 +524,9 @@ export class EpanetParserService {
     if (parts[1]) {
       node.elevation = parseFloat(parts[1]);
     }
+    if (parts[2]) {
+      node.patternId = parts[2];
+    }
 
     data.nodes.push(node);
   }
@@ -168,6 +548,11 @@ export class EpanetParserService {
     if (parts[4]) {
       link.diameter = parseFloat(parts[4]);
     }
+    link.roughness = this.parseNumber(parts[5]);
+    link.minorLoss = this.parseNumber(parts[6]);
+    if (parts[7]) {
+      link.status = parts[7].toUpperCase();
+    }
 
     data.links.push(link);
   }
@@ -183,6 +568,15 @@ export class EpanetParserService {
       linkType: 'PUMP',
     };
 
+    // Remaining fields are keyword/value pairs, e.g. HEAD curve1 SPEED 1.2
+    const parameters: Record<string, string> = {};
+    for (let i = 3; i + 1 < parts.length; i += 2) {
+      parameters[parts[i].toUpperCase()] = parts[i + 1];
+    }
+    if (Object.keys(parameters).length > 0) {
+      link.parameters = parameters;
+    }
+
     data.links.push(link);
   }
 
@@ -197,6 +591,13 @@ export class EpanetParserService {
       linkType: 'VALVE',
     };
 
+    link.diameter = this.parseNumber(parts[3]);
+    if (parts[4]) {
+      link.valveType = parts[4].toUpperCase();
+    }
+    link.setting = this.parseNumber(parts[5]);
+    link.minorLoss = this.parseNumber(parts[6]);
+
     data.links.push(link);
   }
 
@@ -249,10 +650,13 @@ export class EpanetParserService {
 
     // Process entry nodes as mainlines
     for (const epanetId of entryNodes) {
+      const epanetNode = parsedData.nodes.find((n) => n.id === epanetId);
       const nodeData: NetworkNodeData = {
         nodeId: epanetId,
         nodeType: NodeType.MAINLINE,
         epanetNodeId: epanetId,
+        x: epanetNode?.x,
+        y: epanetNode?.y,
       };
       nodes.push(nodeData);
       nodeMap.set(epanetId, epanetId);
@@ -293,6 +697,8 @@ export class EpanetParserService {
         nodeType,
         parentId: parentId ? nodeMap.get(parentId) : undefined,
         epanetNodeId: node.id,
+        x: node.x,
+        y: node.y,
       };
 
       nodes.push(nodeData);
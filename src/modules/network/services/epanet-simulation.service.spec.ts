@@ -0,0 +1,83 @@
+import { LeakModel } from '@prisma/client';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EpanetSimulationService } from './epanet-simulation.service';
+
+// Reservoir feeding two junctions; J2's demand follows a day/night pattern
+const model = `
+[JUNCTIONS]
+ J1  50  0
+ J2  50  1  DAY
+
+[RESERVOIRS]
+ R1  100
+
+[PIPES]
+ P1  R1  J1  500  300  100
+ P2  J1  J2  500  200  100
+
+[PATTERNS]
+ DAY  0.5  0.5  0.5  0.5  0.5  0.5  1.5  1.5  1.5  1.5  1.5  1.5
+ DAY  1.5  1.5  1.5  1.5  1.5  1.5  0.5  0.5  0.5  0.5  0.5  0.5
+
+[TIMES]
+ Duration            24:00
+ Hydraulic Timestep  1:00
+ Pattern Timestep    1:00
+
+[OPTIONS]
+ Units  LPS
+
+[END]
+`;
+
+describe('EpanetSimulationService', () => {
+  const service = new EpanetSimulationService();
+  const sensors = { flow: ['J2'], pressure: ['J2'], level: [] };
+  let file: string;
+
+  beforeAll(() => {
+    file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'epanet-')),
+      'net.inp',
+    );
+    fs.writeFileSync(file, model);
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+
+  it('keeps a fixed-demand leak constant over the demand pattern', async () => {
+    const network = await service.loadNetwork(file);
+    const baseline = await service.runBaselineSimulation(
+      network.project,
+      sensors,
+    );
+    const withLeak = await service.runLeakSimulation(
+      network.project,
+      'J2',
+      { model: LeakModel.FIXED_DEMAND, leakSize: 2 },
+      sensors,
+    );
+
+    expect(withLeak.size).toBe(24);
+    for (const [hour, slice] of withLeak) {
+      const sensitivity = service.calculateSensitivity(
+        baseline.get(hour)!,
+        slice,
+        slice.leakFlow!,
+      );
+      expect(slice.leakFlow).toBe(2);
+      expect(sensitivity.nodeFlows.get('J2')).toBeCloseTo(1);
+    }
+
+    // The leak is removed again afterwards
+    const after = await service.runBaselineSimulation(network.project, sensors);
+    expect(after.get(0)!.nodeFlows.get('J2')).toBeCloseTo(
+      baseline.get(0)!.nodeFlows.get('J2')!,
+    );
+    service.closeProject(network.project);
+  });
+});
@@ -1,5 +1,12 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { Project, Workspace } from 'epanet-js';
+import { LeakModel } from '@prisma/client';
+import {
+  EPANET_FLOW_UNITS,
+  EpanetFlowUnits,
+  EpanetUnitFactors,
+  getEpanetUnitFactors,
+} from '../../../common/utils/units.util';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -7,13 +14,50 @@ import * as path from 'path';
 // Using numeric values since direct import has issues
 const NodeProperty = {
   BaseDemand: 1,
+  Emitter: 3,
+  TankLevel: 8,
   Demand: 9,
+  Pressure: 11,
 } as const;
 
+const Option = {
+  EmitExpon: 3,
+  DemandMult: 4,
+} as const;
+
+const TimeParameter = {
+  Duration: 0,
+  StartTime: 10,
+} as const;
+
+const SECONDS_PER_HOUR = 3600;
+const SECONDS_PER_DAY = 86400;
+const INIT_HYD_NO_SAVE = 0;
+
+export interface SensorNodeIds {
+  flow: string[]; // EPANET node IDs with flow sensors
+  pressure: string[]; // EPANET node IDs with pressure sensors
+  level: string[]; // EPANET tank IDs with level sensors
+}
+
+// Values are converted from the model's units to canonical units
 export interface SimulationResults {
   nodeFlows: Map<string, number>; // EPANET node ID -> flow value (L/s)
+  nodePressures: Map<string, number>; // EPANET node ID -> pressure head (m)
+  tankLevels: Map<string, number>; // EPANET node ID -> tank water level (m)
+  leakFlow?: number; // Simulated leak outflow (L/s), set for leak simulations
 }
 
+export interface LeakModelConfig {
+  model: LeakModel;
+  leakSize?: number; // Constant leak flow for FIXED_DEMAND (L/s)
+  emitterCoefficient?: number; // EMITTER: L/s = coefficient * (pressure in m)^exponent
+  emitterExponent?: number;
+}
+
+// Hour of day (0-23) -> sensor values at that time of the extended-period run
+export type TimeSlicedResults = Map<number, SimulationResults>;
+
 @Injectable()
 export class EpanetSimulationService {
   private readonly logger = new Logger(EpanetSimulationService.name);
@@ -86,80 +130,22 @@ export class EpanetSimulationService {
   }
 
   /**
-   * Run baseline simulation (no leaks) with error handling
+   * Run baseline extended-period simulation (no leaks) with error handling
    */
   async runBaselineSimulation(
     project: Project,
-    sensorNodeIds: string[], // EPANET node IDs where sensors are located
-  ): Promise<Map<string, number>> {
+    sensorNodes: SensorNodeIds,
+  ): Promise<TimeSlicedResults> {
     try {
       this.logger.log(
-        `Running baseline simulation for ${sensorNodeIds.length} sensor nodes...`,
+        `Running baseline simulation for ${sensorNodes.flow.length} flow, ${sensorNodes.pressure.length} pressure and ${sensorNodes.level.length} level sensor nodes...`,
       );
 
-      // Run hydraulic simulation with timeout protection
-      const simulationPromise = new Promise<void>((resolve, reject) => {
-        try {
-          project.solveH();
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      });
-
-      await Promise.race([
-        simulationPromise,
-        new Promise((_, reject) =>
-          setTimeout(
-            () => reject(new Error('Simulation timeout')),
-            this.SIMULATION_TIMEOUT,
-          ),
-        ),
-      ]);
-
-      // Get flow results for sensor nodes
-      const results = new Map<string, number>();
-      let successCount = 0;
-      let failureCount = 0;
-
-      for (const nodeId of sensorNodeIds) {
-        try {
-          // Get node index
-          const nodeIndex = project.getNodeIndex(nodeId);
-          if (nodeIndex <= 0) {
-            // EPANET indices start from 1, 0 or negative means not found
-            this.logger.warn(
-              `Node ${nodeId} not found in EPANET model (index: ${nodeIndex})`,
-            );
-            failureCount++;
-            results.set(nodeId, 0);
-            continue;
-          }
-
-          // Get computed demand/flow at node (L/s)
-          // NodeProperty.Demand = current computed demand (read-only after simulation)
-          const demand = project.getNodeValue(nodeIndex, NodeProperty.Demand);
-          if (isNaN(demand) || !isFinite(demand)) {
-            this.logger.warn(
-              `Invalid demand value for node ${nodeId}: ${demand}`,
-            );
-            results.set(nodeId, 0);
-            failureCount++;
-          } else {
-            results.set(nodeId, demand);
-            successCount++;
-          }
-        } catch (error) {
-          this.logger.warn(
-            `Failed to get flow for node ${nodeId}: ${error instanceof Error ? error.message : String(error)}`,
-          );
-          results.set(nodeId, 0);
-          failureCount++;
-        }
-      }
+      const { slices, successCount, failureCount } =
+        await this.solveWithTimeout(project, sensorNodes);
 
       this.logger.log(
-        `Baseline simulation complete: ${successCount} successful, ${failureCount} failed readings`,
+        `Baseline simulation complete: ${slices.size} hourly slice(s), ${successCount} successful, ${failureCount} failed readings`,
       );
 
       if (successCount === 0) {
@@ -168,7 +154,7 @@ export class EpanetSimulationService {
         );
       }
 
-      return results;
+      return slices;
     } catch (error) {
       this.logger.error(
         `Baseline simulation failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -181,120 +167,157 @@ export class EpanetSimulationService {
   }
 
   /**
-   * Run simulation with leak at specified node with error handling
+   * Set the emitter pressure exponent. EPANET applies it to every emitter
+   * in the model, so set it before the baseline run to keep baseline and
+   * leak simulations comparable.
+   */
+  setEmitterExponent(project: Project, exponent: number): void {
+    if (exponent <= 0 || !isFinite(exponent)) {
+      throw new BadRequestException(
+        `Invalid emitter exponent: ${exponent}. Must be positive and finite.`,
+      );
+    }
+    project.setOption(Option.EmitExpon, exponent);
+  }
+
+  /**
+   * Run extended-period simulation with leak at specified node with error handling.
+   * FIXED_DEMAND adds the leak as a demand category without a pattern, so it
+   * stays constant through the day; EMITTER adds an emitter so leak outflow
+   * follows the simulated pressure.
    */
   async runLeakSimulation(
     project: Project,
     leakNodeId: string, // EPANET node ID where leak occurs
-    leakSize: number, // Leak size in L/s
-    sensorNodeIds: string[], // EPANET node IDs where sensors are located
-  ): Promise<Map<string, number>> {
-    let originalBaseDemand: number = 0;
-    let nodeIndex: number = 0;
+    leak: LeakModelConfig,
+    sensorNodes: SensorNodeIds,
+  ): Promise<TimeSlicedResults> {
+    return this.runLeakSimulations(
+      project,
+      [{ nodeId: leakNodeId, leak }],
+      sensorNodes,
+    );
+  }
 
-    try {
-      this.logger.debug(
-        `Running leak simulation: ${leakSize} L/s at node ${leakNodeId}`,
-      );
+  /**
+   * Run extended-period simulation with several leaks at once. leakFlow in
+   * the results is the total outflow of all leaks.
+   */
+  async runLeakSimulations(
+    project: Project,
+    leaks: Array<{ nodeId: string; leak: LeakModelConfig }>, // EPANET node IDs
+    sensorNodes: SensorNodeIds,
+  ): Promise<TimeSlicedResults> {
+    const leakNodeIds = leaks.map(({ nodeId }) => nodeId).join(', ');
+    // Applied changes, undone in reverse so repeated nodes end up unchanged
+    const applied: Array<{ nodeId: string; undo: () => void }> = [];
 
-      // Validate leak size
-      if (leakSize <= 0 || !isFinite(leakSize)) {
-        throw new BadRequestException(
-          `Invalid leak size: ${leakSize}. Must be positive and finite.`,
+    try {
+      const factors = this.getUnitFactors(project);
+      const exponent = project.getOption(Option.EmitExpon);
+      // EPANET scales every demand category by the demand multiplier
+      const demandMultiplier = project.getOption(Option.DemandMult) || 1;
+      const leakFlowReaders: Array<() => number> = [];
+
+      for (const [i, { nodeId: leakNodeId, leak }] of leaks.entries()) {
+        const amount =
+          leak.model === LeakModel.EMITTER
+            ? leak.emitterCoefficient
+            : leak.leakSize;
+
+        this.logger.debug(
+          leak.model === LeakModel.EMITTER
+            ? `Running emitter leak simulation: coefficient ${amount} at node ${leakNodeId}`
+            : `Running leak simulation: ${amount} L/s at node ${leakNodeId}`,
         );
-      }
 
-      // Get node index
-      nodeIndex = project.getNodeIndex(leakNodeId);
-      if (!nodeIndex || nodeIndex <= 0) {
-        throw new BadRequestException(
-          `Leak node ${leakNodeId} not found in EPANET model (index: ${nodeIndex})`,
-        );
-      }
-
-      // Get current base demand at node
-      const baseDemandValue = project.getNodeValue(nodeIndex, NodeProperty.BaseDemand);
-      originalBaseDemand = baseDemandValue ?? 0;
-
-      // Add leak as additional base demand
-      const newBaseDemand = originalBaseDemand + leakSize;
-      project.setNodeValue(nodeIndex, NodeProperty.BaseDemand, newBaseDemand);
+        // Validate leak size or emitter coefficient
+        if (amount === undefined || amount <= 0 || !isFinite(amount)) {
+          throw new BadRequestException(
+            `Invalid ${leak.model === LeakModel.EMITTER ? 'emitter coefficient' : 'leak size'}: ${amount}. Must be positive and finite.`,
+          );
+        }
 
-      // Run hydraulic simulation with timeout protection
-      const simulationPromise = new Promise<void>((resolve, reject) => {
-        try {
-          project.solveH();
-          resolve();
-        } catch (error) {
-          reject(error);
+        // Get node index
+        const nodeIndex: number = project.getNodeIndex(leakNodeId);
+        if (!nodeIndex || nodeIndex <= 0) {
+          throw new BadRequestException(
+            `Leak node ${leakNodeId} not found in EPANET model (index: ${nodeIndex})`,
+          );
         }
-      });
-
-      await Promise.race([
-        simulationPromise,
-        new Promise((_, reject) =>
-          setTimeout(
-            () => reject(new Error('Simulation timeout')),
-            this.SIMULATION_TIMEOUT,
-          ),
-        ),
-      ]);
-
-      // Get flow results for sensor nodes
-      const results = new Map<string, number>();
-
-      for (const sensorNodeId of sensorNodeIds) {
-        try {
-          const sensorNodeIndex = project.getNodeIndex(sensorNodeId);
-          if (sensorNodeIndex <= 0) {
-            this.logger.warn(
-              `Sensor node ${sensorNodeId} not found in EPANET model`,
-            );
-            results.set(sensorNodeId, 0);
-            continue;
-          }
 
-          const demand = project.getNodeValue(
-            sensorNodeIndex,
-            NodeProperty.Demand,
+        if (leak.model === LeakModel.EMITTER) {
+          // Add the emitter on top of the node's own, in model units
+          const originalValue: number =
+            project.getNodeValue(nodeIndex, NodeProperty.Emitter) ?? 0;
+          project.setNodeValue(
+            nodeIndex,
+            NodeProperty.Emitter,
+            originalValue +
+              (amount * Math.pow(factors.pressure, exponent)) / factors.flow,
           );
-          if (isNaN(demand) || !isFinite(demand)) {
-            this.logger.warn(
-              `Invalid demand value for sensor node ${sensorNodeId}: ${demand}`,
-            );
-            results.set(sensorNodeId, 0);
-          } else {
-            results.set(sensorNodeId, demand);
-          }
-        } catch (error) {
-          this.logger.warn(
-            `Failed to get flow for sensor node ${sensorNodeId}: ${error instanceof Error ? error.message : String(error)}`,
+          applied.push({
+            nodeId: leakNodeId,
+            undo: () =>
+              project.setNodeValue(
+                nodeIndex,
+                NodeProperty.Emitter,
+                originalValue,
+              ),
+          });
+        } else {
+          // A category of its own keeps the node's demand pattern off the leak
+          const demandName = `leak-${i}`;
+          project.addDemand(
+            nodeIndex,
+            amount / factors.flow / demandMultiplier,
+            '',
+            demandName,
           );
-          results.set(sensorNodeId, 0);
+          applied.push({
+            nodeId: leakNodeId,
+            undo: () =>
+              project.deleteDemand(
+                nodeIndex,
+                project.getDemandIndex(nodeIndex, demandName),
+              ),
+          });
         }
+
+        // Leak outflow at each time slice: constant for FIXED_DEMAND,
+        // coefficient * pressure^exponent for EMITTER
+        leakFlowReaders.push(() => {
+          if (leak.model !== LeakModel.EMITTER) {
+            return amount;
+          }
+          const pressure =
+            project.getNodeValue(nodeIndex, NodeProperty.Pressure) *
+            factors.pressure;
+          return pressure > 0 ? amount * Math.pow(pressure, exponent) : 0;
+        });
       }
 
-      return results;
+      const { slices } = await this.solveWithTimeout(project, sensorNodes, () =>
+        leakFlowReaders.reduce((sum, read) => sum + read(), 0),
+      );
+
+      return slices;
     } catch (error) {
       this.logger.error(
-        `Leak simulation failed for node ${leakNodeId}: ${error instanceof Error ? error.message : String(error)}`,
+        `Leak simulation failed for node ${leakNodeIds}: ${error instanceof Error ? error.message : String(error)}`,
         error instanceof Error ? error.stack : undefined,
       );
       throw new BadRequestException(
-        `Leak simulation failed for node ${leakNodeId}: ${error instanceof Error ? error.message : String(error)}`,
+        `Leak simulation failed for node ${leakNodeIds}: ${error instanceof Error ? error.message : String(error)}`,
       );
     } finally {
-      // Always restore original base demand
-      if (nodeIndex > 0) {
+      // Always remove the leak demand or restore the emitter coefficient
+      for (const change of applied.reverse()) {
         try {
-          project.setNodeValue(
-            nodeIndex,
-            NodeProperty.BaseDemand,
-            originalBaseDemand,
-          );
+          change.undo();
         } catch (restoreError) {
           this.logger.error(
-            `Failed to restore original demand for node ${leakNodeId}: ${restoreError instanceof Error ? restoreError.message : String(restoreError)}`,
+            `Failed to restore original demand for node ${change.nodeId}: ${restoreError instanceof Error ? restoreError.message : String(restoreError)}`,
           );
         }
       }
@@ -305,23 +328,222 @@ export class EpanetSimulationService {
    * Calculate sensitivity values from baseline and leak simulation results
    */
   calculateSensitivity(
-    baseline: Map<string, number>,
-    withLeak: Map<string, number>,
+    baseline: SimulationResults,
+    withLeak: SimulationResults,
     leakSize: number,
-  ): Map<string, number> {
-    const sensitivity = new Map<string, number>();
-
-    for (const [sensorNodeId, baselineValue] of baseline.entries()) {
-      const leakValue = withLeak.get(sensorNodeId) || 0;
-      const change = leakValue - baselineValue;
-      
-      // Sensitivity = change in sensor reading / leak size
-      // Units: (L/s) / (L/s) = dimensionless
-      const sensitivityValue = leakSize > 0 ? change / leakSize : 0;
-      sensitivity.set(sensorNodeId, sensitivityValue);
+  ): SimulationResults {
+    // Sensitivity = change in sensor reading / leak size
+    // Units: (L/s) / (L/s) for flow, m / (L/s) for pressure head and tank level
+    const sensitivityOf = (
+      baselineValues: Map<string, number>,
+      leakValues: Map<string, number>,
+    ): Map<string, number> => {
+      const sensitivity = new Map<string, number>();
+      for (const [sensorNodeId, baselineValue] of baselineValues.entries()) {
+        const leakValue = leakValues.get(sensorNodeId) || 0;
+        const change = leakValue - baselineValue;
+        sensitivity.set(sensorNodeId, leakSize > 0 ? change / leakSize : 0);
+      }
+      return sensitivity;
+    };
+
+    return {
+      nodeFlows: sensitivityOf(baseline.nodeFlows, withLeak.nodeFlows),
+      nodePressures: sensitivityOf(
+        baseline.nodePressures,
+        withLeak.nodePressures,
+      ),
+      tankLevels: sensitivityOf(baseline.tankLevels, withLeak.tankLevels),
+    };
+  }
+
+  /**
+   * Run the extended-period hydraulic solver with timeout protection
+   */
+  private async solveWithTimeout(
+    project: Project,
+    sensorNodes: SensorNodeIds,
+    readLeakFlow?: () => number,
+  ): Promise<{
+    slices: TimeSlicedResults;
+    successCount: number;
+    failureCount: number;
+  }> {
+    const simulationPromise = new Promise<{
+      slices: TimeSlicedResults;
+      successCount: number;
+      failureCount: number;
+    }>((resolve, reject) => {
+      try {
+        resolve(this.runExtendedPeriod(project, sensorNodes, readLeakFlow));
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    return Promise.race([
+      simulationPromise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error('Simulation timeout')),
+          this.SIMULATION_TIMEOUT,
+        );
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Step through the extended-period run and read sensor values at every
+   * whole hour, keyed by hour of day. Runs shorter than a day are extended
+   * to 24h so every hour is covered; for longer runs the last day wins,
+   * once tank levels have settled. Steady-state models (duration 0) give a
+   * single slice at the model's start time.
+   */
+  private runExtendedPeriod(
+    project: Project,
+    sensorNodes: SensorNodeIds,
+    readLeakFlow?: () => number,
+  ): {
+    slices: TimeSlicedResults;
+    successCount: number;
+    failureCount: number;
+  } {
+    const duration = project.getTimeParameter(TimeParameter.Duration);
+    if (duration > 0 && duration < SECONDS_PER_DAY) {
+      project.setTimeParameter(TimeParameter.Duration, SECONDS_PER_DAY);
     }
+    const startTime = project.getTimeParameter(TimeParameter.StartTime);
+
+    const slices: TimeSlicedResults = new Map();
+    let successCount = 0;
+    let failureCount = 0;
+
+    project.openH();
+    try {
+      project.initH(INIT_HYD_NO_SAVE);
+
+      let timeStep = 0;
+      do {
+        const time = project.runH();
+
+        if (time % SECONDS_PER_HOUR === 0) {
+          const hourOfDay = Math.floor(
+            ((startTime + time) % SECONDS_PER_DAY) / SECONDS_PER_HOUR,
+          );
+          const snapshot = this.readSensorValues(project, sensorNodes);
+          if (readLeakFlow) {
+            snapshot.results.leakFlow = readLeakFlow();
+          }
+          slices.set(hourOfDay, snapshot.results);
+          successCount += snapshot.successCount;
+          failureCount += snapshot.failureCount;
+        }
+
+        timeStep = project.nextH();
+      } while (timeStep > 0);
+    } finally {
+      project.closeH();
+    }
+
+    return { slices, successCount, failureCount };
+  }
+
+  /**
+   * Flow units the model was written in
+   */
+  getFlowUnits(project: Project): EpanetFlowUnits {
+    return EPANET_FLOW_UNITS[project.getFlowUnits()] ?? 'GPM';
+  }
+
+  private getUnitFactors(project: Project): EpanetUnitFactors {
+    return getEpanetUnitFactors(this.getFlowUnits(project));
+  }
+
+  /**
+   * Read computed demand, pressure head and tank level for sensor nodes,
+   * converted to L/s and m. Nodes that are missing or return invalid
+   * values are recorded as 0.
+   */
+  private readSensorValues(
+    project: Project,
+    sensorNodes: SensorNodeIds,
+  ): {
+    results: SimulationResults;
+    successCount: number;
+    failureCount: number;
+  } {
+    let successCount = 0;
+    let failureCount = 0;
+    const factors = this.getUnitFactors(project);
+
+    const readValues = (
+      nodeIds: string[],
+      property: number,
+      label: string,
+      factor: number,
+    ): Map<string, number> => {
+      const values = new Map<string, number>();
+
+      for (const nodeId of nodeIds) {
+        try {
+          const nodeIndex = project.getNodeIndex(nodeId);
+          if (nodeIndex <= 0) {
+            // EPANET indices start from 1, 0 or negative means not found
+            this.logger.warn(
+              `Node ${nodeId} not found in EPANET model (index: ${nodeIndex})`,
+            );
+            values.set(nodeId, 0);
+            failureCount++;
+            continue;
+          }
+
+          const value = project.getNodeValue(nodeIndex, property);
+          if (isNaN(value) || !isFinite(value)) {
+            this.logger.warn(
+              `Invalid ${label} value for node ${nodeId}: ${value}`,
+            );
+            values.set(nodeId, 0);
+            failureCount++;
+          } else {
+            values.set(nodeId, value * factor);
+            successCount++;
+          }
+        } catch (error) {
+          this.logger.warn(
+            `Failed to get ${label} for node ${nodeId}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          values.set(nodeId, 0);
+          failureCount++;
+        }
+      }
 
-    return sensitivity;
+      return values;
+    };
+
+    const results: SimulationResults = {
+      // NodeProperty.Demand = current computed demand (read-only after simulation)
+      nodeFlows: readValues(
+        sensorNodes.flow,
+        NodeProperty.Demand,
+        'demand',
+        factors.flow,
+      ),
+      nodePressures: readValues(
+        sensorNodes.pressure,
+        NodeProperty.Pressure,
+        'pressure',
+        factors.pressure,
+      ),
+      tankLevels: readValues(
+        sensorNodes.level,
+        NodeProperty.TankLevel,
+        'tank level',
+        factors.head,
+      ),
+    };
+
+    return { results, successCount, failureCount };
   }
 
   /**
@@ -0,0 +1,118 @@
+import { ConflictException } from '@nestjs/common';
+import {
+  LeakModel,
+  MatrixJobStatus,
+  MatrixVersionStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { HEARTBEAT_LEASE_MS } from '../../../common/utils/heartbeat.util';
+import { MatrixGenerationJobService } from './matrix-generation-job.service';
+
+function createService() {
+  const prisma = {
+    matrixGenerationJob: {
+      create: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    matrixGenerationFailure: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    sensitivityMatrixVersion: {
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+  return {
+    service: new MatrixGenerationJobService(prisma as unknown as PrismaService),
+    prisma,
+  };
+}
+
+describe('MatrixGenerationJobService', () => {
+  describe('failAbandoned', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const expiry = new Date(now.getTime() - HEARTBEAT_LEASE_MS);
+
+    it('fails only running jobs whose heartbeat has expired', async () => {
+      const { service, prisma } = createService();
+      prisma.matrixGenerationJob.findMany.mockResolvedValue([
+        { id: 'j1', versionId: 'v1' },
+        { id: 'j2', versionId: null },
+      ]);
+      prisma.matrixGenerationJob.updateMany.mockResolvedValue({ count: 2 });
+
+      expect(await service.failAbandoned(now)).toBe(2);
+      expect(prisma.matrixGenerationJob.findMany).toHaveBeenCalledWith({
+        where: {
+          status: MatrixJobStatus.IN_PROGRESS,
+          heartbeatAt: { lt: expiry },
+        },
+        select: { id: true, versionId: true },
+      });
+      expect(prisma.matrixGenerationJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: MatrixJobStatus.IN_PROGRESS,
+          heartbeatAt: { lt: expiry },
+          id: { in: ['j1', 'j2'] },
+        },
+        data: {
+          status: MatrixJobStatus.FAILED,
+          error: 'Interrupted: the server running the job stopped',
+          completedAt: now,
+        },
+      });
+      expect(prisma.sensitivityMatrixVersion.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['v1'] }, status: MatrixVersionStatus.BUILDING },
+        data: { status: MatrixVersionStatus.FAILED },
+      });
+    });
+
+    it('leaves jobs with a live heartbeat alone', async () => {
+      const { service, prisma } = createService();
+
+      expect(await service.failAbandoned(now)).toBe(0);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  it('refreshes the heartbeat of running jobs only', async () => {
+    const { service, prisma } = createService();
+
+    await service.heartbeat('j1');
+
+    expect(prisma.matrixGenerationJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'j1', status: MatrixJobStatus.IN_PROGRESS },
+      data: { heartbeatAt: expect.any(Date) as Date },
+    });
+  });
+
+  it('rejects a second running job for a network', async () => {
+    const { service, prisma } = createService();
+    prisma.matrixGenerationJob.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+      }),
+    );
+
+    await expect(
+      service.create('n1', false, { model: LeakModel.FIXED_DEMAND }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('hands out recorded failures once for a retry', async () => {
+    const { service, prisma } = createService();
+    prisma.matrixGenerationFailure.findMany.mockResolvedValue([
+      { leakNodeId: 'node1' },
+      { leakNodeId: 'node2' },
+    ]);
+
+    expect(await service.takeFailures('j1')).toEqual(['node1', 'node2']);
+    expect(prisma.matrixGenerationFailure.deleteMany).toHaveBeenCalledWith({
+      where: { jobId: 'j1' },
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  MatrixGenerationJob,
+  MatrixJobStatus,
+  MatrixVersionStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { heartbeatExpiry } from '../../../common/utils/heartbeat.util';
+import { LeakModelConfig } from './epanet-simulation.service';
+
+export interface NodeFailure {
+  leakNodeId: string;
+  error: string;
+}
+
+/**
+ * Persists sensitivity matrix generation jobs so progress survives restarts
+ * and several networks can generate at the same time. The process running
+ * a job refreshes its heartbeat, so any instance can fail jobs whose
+ * process stopped without failing jobs another instance is running.
+ */
+@Injectable()
+export class MatrixGenerationJobService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(MatrixGenerationJobService.name);
+  private readonly ABANDONED_CHECK_INTERVAL_MS = 60 * 1000;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit() {
+    await this.failAbandoned();
+
+    this.timer = setInterval(() => {
+      this.failAbandoned().catch((error) =>
+        this.logger.error(
+          `Checking for abandoned matrix generation jobs failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }, this.ABANDONED_CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Jobs IN_PROGRESS without a recent heartbeat can no longer make progress.
+   * Mark them and their versions failed so they can be resumed.
+   */
+  async failAbandoned(now: Date = new Date()): Promise<number> {
+    const where: Prisma.MatrixGenerationJobWhereInput = {
+      status: MatrixJobStatus.IN_PROGRESS,
+      heartbeatAt: { lt: heartbeatExpiry(now) },
+    };
+    const abandoned = await this.prisma.matrixGenerationJob.findMany({
+      where,
+      select: { id: true, versionId: true },
+    });
+
+    if (abandoned.length === 0) {
+      return 0;
+    }
+
+    // The heartbeat is checked again in case a job was resumed meanwhile
+    const [{ count }] = await this.prisma.$transaction([
+      this.prisma.matrixGenerationJob.updateMany({
+        where: { ...where, id: { in: abandoned.map((job) => job.id) } },
+        data: {
+          status: MatrixJobStatus.FAILED,
+          error: 'Interrupted: the server running the job stopped',
+          completedAt: now,
+        },
+      }),
+      this.failBuildingVersions(
+        abandoned.flatMap((job) => (job.versionId ? [job.versionId] : [])),
+      ),
+    ]);
+
+    this.logger.warn(
+      `Marked ${count} abandoned matrix generation job(s) as failed`,
+    );
+    return count;
+  }
+
+  /**
+   * Record that the job is still being worked on
+   */
+  async heartbeat(jobId: string): Promise<void> {
+    await this.prisma.matrixGenerationJob.updateMany({
+      where: { id: jobId, status: MatrixJobStatus.IN_PROGRESS },
+      data: { heartbeatAt: new Date() },
+    });
+  }
+
+  /**
+   * Start a job. A partial unique index allows one running job per network,
+   * so a concurrent start is rejected with a conflict.
+   */
+  async create(
+    networkId: string,
+    force: boolean,
+    leak: LeakModelConfig,
+  ): Promise<MatrixGenerationJob> {
+    try {
+      return await this.prisma.matrixGenerationJob.create({
+        data: {
+          networkId,
+          force,
+          leakModel: leak.model,
+          emitterCoefficient: leak.emitterCoefficient,
+          emitterExponent: leak.emitterExponent,
+          status: MatrixJobStatus.IN_PROGRESS,
+        },
+      });
+    } catch (error) {
+      throw this.toRunningConflict(error, networkId);
+    }
+  }
+
+  async findOne(jobId: string) {
+    const job = await this.prisma.matrixGenerationJob.findUnique({
+      where: { id: jobId },
+      include: {
+        failures: {
+          select: {
+            leakNodeId: true,
+            error: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!job) {
+      throw new NotFoundException(
+        `Matrix generation job with ID ${jobId} not found`,
+      );
+    }
+
+    return job;
+  }
+
+  async findLatestForNetwork(networkId: string) {
+    return this.prisma.matrixGenerationJob.findFirst({
+      where: { networkId },
+      include: {
+        failures: {
+          select: {
+            leakNodeId: true,
+            error: true,
+            createdAt: true,
+          },
+        },
+      },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  async findRunningForNetwork(
+    networkId: string,
+  ): Promise<MatrixGenerationJob | null> {
+    return this.prisma.matrixGenerationJob.findFirst({
+      where: { networkId, status: MatrixJobStatus.IN_PROGRESS },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  async findAll(networkId?: string) {
+    return this.prisma.matrixGenerationJob.findMany({
+      where: networkId ? { networkId } : {},
+      include: {
+        _count: {
+          select: { failures: true },
+        },
+      },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  async markRunning(jobId: string): Promise<void> {
+    try {
+      await this.prisma.matrixGenerationJob.update({
+        where: { id: jobId },
+        data: {
+          status: MatrixJobStatus.IN_PROGRESS,
+          error: null,
+          completedAt: null,
+          heartbeatAt: new Date(),
+        },
+      });
+    } catch (error) {
+      throw this.toRunningConflict(error);
+    }
+  }
+
+  async attachVersion(jobId: string, versionId: string): Promise<void> {
+    await this.prisma.matrixGenerationJob.update({
+      where: { id: jobId },
+      data: { versionId },
+    });
+  }
+
+  async updateProgress(
+    jobId: string,
+    nodesProcessed: number,
+    totalNodes: number,
+  ): Promise<void> {
+    await this.prisma.matrixGenerationJob.update({
+      where: { id: jobId },
+      data: { nodesProcessed, totalNodes },
+    });
+  }
+
+  async markCompleted(jobId: string): Promise<void> {
+    await this.prisma.matrixGenerationJob.update({
+      where: { id: jobId },
+      data: {
+        status: MatrixJobStatus.COMPLETED,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async markFailed(jobId: string, error: string): Promise<void> {
+    await this.prisma.matrixGenerationJob.update({
+      where: { id: jobId },
+      data: {
+        status: MatrixJobStatus.FAILED,
+        error,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Request cancellation. The running generation checks the persisted
+   * status between batches and stops when it sees CANCELLED.
+   */
+  async cancel(jobId: string): Promise<MatrixGenerationJob> {
+    const job = await this.findOne(jobId);
+    if (job.status !== MatrixJobStatus.IN_PROGRESS) {
+      return job;
+    }
+
+    const [cancelled] = await this.prisma.$transaction([
+      this.prisma.matrixGenerationJob.update({
+        where: { id: jobId },
+        data: {
+          status: MatrixJobStatus.CANCELLED,
+          completedAt: new Date(),
+        },
+      }),
+      this.failBuildingVersions(job.versionId ? [job.versionId] : []),
+    ]);
+    return cancelled;
+  }
+
+  async isCancelled(jobId: string): Promise<boolean> {
+    const job = await this.prisma.matrixGenerationJob.findUnique({
+      where: { id: jobId },
+      select: { status: true },
+    });
+    return job?.status === MatrixJobStatus.CANCELLED;
+  }
+
+  async recordFailures(jobId: string, failures: NodeFailure[]): Promise<void> {
+    if (failures.length === 0) {
+      return;
+    }
+
+    await this.prisma.matrixGenerationFailure.createMany({
+      data: failures.map((failure) => ({ jobId, ...failure })),
+      skipDuplicates: true,
+    });
+  }
+
+  async countFailures(jobId: string): Promise<number> {
+    return this.prisma.matrixGenerationFailure.count({ where: { jobId } });
+  }
+
+  /**
+   * Remove and return the recorded failures so the nodes can be retried.
+   * Nodes that fail again are recorded anew.
+   */
+  async takeFailures(jobId: string): Promise<string[]> {
+    const failures = await this.prisma.matrixGenerationFailure.findMany({
+      where: { jobId },
+      select: { leakNodeId: true },
+    });
+
+    await this.prisma.matrixGenerationFailure.deleteMany({
+      where: { jobId },
+    });
+
+    return failures.map((failure) => failure.leakNodeId);
+  }
+
+  // Versions of jobs that stopped can only be finished by resuming the job
+  private failBuildingVersions(versionIds: string[]) {
+    return this.prisma.sensitivityMatrixVersion.updateMany({
+      where: { id: { in: versionIds }, status: MatrixVersionStatus.BUILDING },
+      data: { status: MatrixVersionStatus.FAILED },
+    });
+  }
+
+  private toRunningConflict(error: unknown, networkId?: string): unknown {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return new ConflictException(
+        `A matrix generation job is already running for ${networkId ? `network ${networkId}` : 'this network'}`,
+      );
+    }
+    return error;
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { MatrixVersionService } from './matrix-version.service';
+
+/**
+ * Applies each network's sensitivity matrix retention setting.
+ * Runs hourly while the application is up.
+ */
+@Injectable()
+export class MatrixRetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MatrixRetentionService.name);
+  private readonly POLICY_INTERVAL_MS = 60 * 60 * 1000;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly matrixVersions: MatrixVersionService,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      this.applyPolicies().catch((error) =>
+        this.logger.error(
+          `Applying matrix retention failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }, this.POLICY_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async applyPolicies(): Promise<void> {
+    const networks = await this.prisma.network.findMany({
+      where: { matrixVersionRetention: { not: null } },
+      select: { id: true, matrixVersionRetention: true },
+    });
+
+    for (const network of networks) {
+      if (network.matrixVersionRetention === null) {
+        continue;
+      }
+
+      await this.matrixVersions.pruneSuperseded(
+        network.id,
+        network.matrixVersionRetention,
+      );
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { LeakModel, MatrixVersionStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { MatrixVersionService } from './matrix-version.service';
+
+function createService() {
+  const prisma = {
+    sensitivityMatrixVersion: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn((args: { data: object }) => args.data),
+      update: jest.fn((args: { data: object }) => ({
+        id: 'v2',
+        networkId: 'n1',
+        version: 2,
+        ...args.data,
+      })),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    sensitivityMatrix: {
+      deleteMany: jest.fn().mockResolvedValue({ count: 10 }),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+  return {
+    service: new MatrixVersionService(prisma as unknown as PrismaService),
+    prisma,
+  };
+}
+
+describe('MatrixVersionService', () => {
+  it('numbers new versions after the latest one and starts them building', async () => {
+    const { service, prisma } = createService();
+    prisma.sensitivityMatrixVersion.findFirst.mockResolvedValue({
+      version: 3,
+    });
+
+    const version = await service.create({
+      networkId: 'n1',
+      leakModel: LeakModel.FIXED_DEMAND,
+      leakSize: 1,
+      emitterCoefficient: null,
+      emitterExponent: null,
+      sensorIds: ['s1'],
+      epanetFileHash: 'hash',
+    });
+
+    expect(version).toMatchObject({
+      version: 4,
+      status: MatrixVersionStatus.BUILDING,
+    });
+  });
+
+  describe('activate', () => {
+    it('supersedes the active version in the same transaction', async () => {
+      const { service, prisma } = createService();
+      prisma.sensitivityMatrixVersion.findUnique.mockResolvedValue({
+        id: 'v2',
+        networkId: 'n1',
+        generatedAt: null,
+      });
+
+      const activated = await service.activate('v2');
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.sensitivityMatrixVersion.updateMany).toHaveBeenCalledWith({
+        where: {
+          networkId: 'n1',
+          status: MatrixVersionStatus.ACTIVE,
+          id: { not: 'v2' },
+        },
+        data: { status: MatrixVersionStatus.SUPERSEDED },
+      });
+      expect(activated.status).toBe(MatrixVersionStatus.ACTIVE);
+      expect(activated.activatedAt).toBeInstanceOf(Date);
+    });
+
+    it('keeps the entries of superseded versions', async () => {
+      const { service, prisma } = createService();
+      prisma.sensitivityMatrixVersion.findUnique.mockResolvedValue({
+        id: 'v2',
+        networkId: 'n1',
+        generatedAt: null,
+      });
+
+      await service.activate('v2');
+
+      expect(prisma.sensitivityMatrix.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pruneSuperseded', () => {
+    it('deletes entries of older superseded versions no detection used', async () => {
+      const { service, prisma } = createService();
+      prisma.sensitivityMatrixVersion.findMany.mockResolvedValue([
+        { id: 'v1' },
+        { id: 'v0' },
+      ]);
+
+      expect(await service.pruneSuperseded('n1', 2)).toBe(10);
+      expect(prisma.sensitivityMatrixVersion.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { networkId: 'n1', status: MatrixVersionStatus.SUPERSEDED },
+          orderBy: { version: 'desc' },
+          skip: 2,
+        }),
+      );
+      expect(prisma.sensitivityMatrix.deleteMany).toHaveBeenCalledWith({
+        where: {
+          versionId: { in: ['v1', 'v0'] },
+          version: { detections: { none: {} } },
+        },
+      });
+    });
+
+    it('deletes nothing within the retained versions', async () => {
+      const { service, prisma } = createService();
+      prisma.sensitivityMatrixVersion.findMany.mockResolvedValue([]);
+
+      expect(await service.pruneSuperseded('n1', 5)).toBe(0);
+      expect(prisma.sensitivityMatrix.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('only fails versions that are still building', async () => {
+    const { service, prisma } = createService();
+
+    await service.markFailed('v2');
+
+    expect(prisma.sensitivityMatrixVersion.updateMany).toHaveBeenCalledWith({
+      where: { id: 'v2', status: MatrixVersionStatus.BUILDING },
+      data: { status: MatrixVersionStatus.FAILED },
+    });
+  });
+});
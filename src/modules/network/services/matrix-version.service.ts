@@ -0,0 +1,183 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  LeakModel,
+  MatrixVersionStatus,
+  SensitivityMatrixVersion,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+
+export interface CreateMatrixVersionInput {
+  networkId: string;
+  leakModel: LeakModel;
+  leakSize: number | null;
+  emitterCoefficient: number | null;
+  emitterExponent: number | null;
+  sensorIds: string[];
+  epanetFileHash: string;
+}
+
+/**
+ * Tracks sensitivity matrix versions. A network has at most one ACTIVE
+ * version; new versions are built alongside it and swapped in on completion.
+ * Superseded versions keep their entries so detections localized against
+ * them can be reproduced, until the network's retention setting prunes them.
+ */
+@Injectable()
+export class MatrixVersionService {
+  private readonly logger = new Logger(MatrixVersionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    input: CreateMatrixVersionInput,
+  ): Promise<SensitivityMatrixVersion> {
+    const latest = await this.prisma.sensitivityMatrixVersion.findFirst({
+      where: { networkId: input.networkId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    return this.prisma.sensitivityMatrixVersion.create({
+      data: {
+        ...input,
+        version: (latest?.version ?? 0) + 1,
+        status: MatrixVersionStatus.BUILDING,
+      },
+    });
+  }
+
+  async findOne(versionId: string): Promise<SensitivityMatrixVersion> {
+    const version = await this.prisma.sensitivityMatrixVersion.findUnique({
+      where: { id: versionId },
+    });
+
+    if (!version) {
+      throw new NotFoundException(
+        `Sensitivity matrix version with ID ${versionId} not found`,
+      );
+    }
+
+    return version;
+  }
+
+  async findActive(
+    networkId: string,
+  ): Promise<SensitivityMatrixVersion | null> {
+    return this.prisma.sensitivityMatrixVersion.findFirst({
+      where: { networkId, status: MatrixVersionStatus.ACTIVE },
+    });
+  }
+
+  async findAll(networkId?: string) {
+    return this.prisma.sensitivityMatrixVersion.findMany({
+      where: networkId ? { networkId } : {},
+      include: {
+        _count: {
+          select: { entries: true },
+        },
+      },
+      orderBy: [{ networkId: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  /**
+   * Make a version the active one for its network, superseding the
+   * previous active version in the same transaction.
+   */
+  async activate(versionId: string): Promise<SensitivityMatrixVersion> {
+    const version = await this.findOne(versionId);
+    const now = new Date();
+
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.sensitivityMatrixVersion.updateMany({
+        where: {
+          networkId: version.networkId,
+          status: MatrixVersionStatus.ACTIVE,
+          id: { not: versionId },
+        },
+        data: { status: MatrixVersionStatus.SUPERSEDED },
+      }),
+      this.prisma.sensitivityMatrixVersion.update({
+        where: { id: versionId },
+        data: {
+          status: MatrixVersionStatus.ACTIVE,
+          generatedAt: version.generatedAt ?? now,
+          activatedAt: now,
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Activated sensitivity matrix version ${activated.version} for network ${activated.networkId}`,
+    );
+
+    return activated;
+  }
+
+  /**
+   * Delete the entries of superseded versions beyond the newest `keep`.
+   * Versions a detection was localized against keep their entries, and
+   * every version keeps its record. Returns the number of entries deleted.
+   */
+  async pruneSuperseded(networkId: string, keep: number): Promise<number> {
+    const superseded = await this.prisma.sensitivityMatrixVersion.findMany({
+      where: { networkId, status: MatrixVersionStatus.SUPERSEDED },
+      orderBy: { version: 'desc' },
+      skip: keep,
+      select: { id: true },
+    });
+
+    if (superseded.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.sensitivityMatrix.deleteMany({
+      where: {
+        versionId: { in: superseded.map((version) => version.id) },
+        version: { detections: { none: {} } },
+      },
+    });
+
+    if (count > 0) {
+      this.logger.log(
+        `Deleted ${count} entries of superseded matrix versions for network ${networkId}`,
+      );
+    }
+
+    return count;
+  }
+
+  /**
+   * Record details only known once the model has been simulated
+   */
+  async recordSimulationDetails(
+    versionId: string,
+    details: { hoursOfDay: number[]; modelFlowUnits: string },
+  ): Promise<void> {
+    await this.prisma.sensitivityMatrixVersion.update({
+      where: { id: versionId },
+      data: {
+        hoursOfDay: [...details.hoursOfDay].sort((a, b) => a - b),
+        modelFlowUnits: details.modelFlowUnits,
+      },
+    });
+  }
+
+  async markBuilding(versionId: string): Promise<void> {
+    await this.prisma.sensitivityMatrixVersion.updateMany({
+      where: { id: versionId, status: MatrixVersionStatus.FAILED },
+      data: { status: MatrixVersionStatus.BUILDING },
+    });
+  }
+
+  /**
+   * Mark an unfinished version failed. Active and superseded versions are
+   * left untouched so a failed retry cannot take a usable matrix offline.
+   */
+  async markFailed(versionId: string): Promise<void> {
+    await this.prisma.sensitivityMatrixVersion.updateMany({
+      where: { id: versionId, status: MatrixVersionStatus.BUILDING },
+      data: { status: MatrixVersionStatus.FAILED },
+    });
+  }
+}
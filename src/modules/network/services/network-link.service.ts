@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { LinkType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { CreateNetworkLinkDto } from '../dto/create-network-link.dto';
+import { UpdateNetworkLinkDto } from '../dto/update-network-link.dto';
+
+const NODE_SUMMARY = {
+  select: {
+    id: true,
+    nodeId: true,
+    nodeType: true,
+  },
+};
+
+/**
+ * CRUD for pipes, pumps and valves. Links reference nodes of the same
+ * network and are kept alongside the node hierarchy, so loops are preserved.
+ */
+@Injectable()
+export class NetworkLinkService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(createNetworkLinkDto: CreateNetworkLinkDto) {
+    const { networkId, fromNodeId, toNodeId, vertices, ...rest } =
+      createNetworkLinkDto;
+
+    const network = await this.prisma.network.findUnique({
+      where: { id: networkId },
+    });
+
+    if (!network) {
+      throw new NotFoundException(`Network with ID ${networkId} not found`);
+    }
+
+    await this.ensureUniqueLinkId(networkId, createNetworkLinkDto.linkId);
+    await this.validateEndpoints(networkId, fromNodeId, toNodeId);
+
+    return this.prisma.networkLink.create({
+      data: {
+        ...rest,
+        networkId,
+        fromNodeId,
+        toNodeId,
+        vertices: vertices
+          ? (vertices as unknown as Prisma.InputJsonValue)
+          : undefined,
+      },
+      include: {
+        fromNode: NODE_SUMMARY,
+        toNode: NODE_SUMMARY,
+      },
+    });
+  }
+
+  async findAll(networkId?: string, linkType?: LinkType, nodeId?: string) {
+    const where: Prisma.NetworkLinkWhereInput = {};
+    if (networkId) {
+      where.networkId = networkId;
+    }
+    if (linkType) {
+      where.linkType = linkType;
+    }
+    if (nodeId) {
+      where.OR = [{ fromNodeId: nodeId }, { toNodeId: nodeId }];
+    }
+
+    return this.prisma.networkLink.findMany({
+      where,
+      include: {
+        fromNode: NODE_SUMMARY,
+        toNode: NODE_SUMMARY,
+      },
+      orderBy: [{ networkId: 'asc' }, { linkId: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const link = await this.prisma.networkLink.findUnique({
+      where: { id },
+      include: {
+        network: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+          },
+        },
+        fromNode: NODE_SUMMARY,
+        toNode: NODE_SUMMARY,
+      },
+    });
+
+    if (!link) {
+      throw new NotFoundException(`Network link with ID ${id} not found`);
+    }
+
+    return link;
+  }
+
+  async update(id: string, updateNetworkLinkDto: UpdateNetworkLinkDto) {
+    const link = await this.findOne(id);
+    const { vertices, ...rest } = updateNetworkLinkDto;
+
+    if (rest.linkId && rest.linkId !== link.linkId) {
+      await this.ensureUniqueLinkId(link.networkId, rest.linkId);
+    }
+    if (rest.fromNodeId || rest.toNodeId) {
+      await this.validateEndpoints(
+        link.networkId,
+        rest.fromNodeId ?? link.fromNodeId,
+        rest.toNodeId ?? link.toNodeId,
+      );
+    }
+
+    return this.prisma.networkLink.update({
+      where: { id },
+      data: {
+        ...rest,
+        vertices: vertices
+          ? (vertices as unknown as Prisma.InputJsonValue)
+          : undefined,
+      },
+      include: {
+        fromNode: NODE_SUMMARY,
+        toNode: NODE_SUMMARY,
+      },
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+    return this.prisma.networkLink.delete({
+      where: { id },
+    });
+  }
+
+  private async ensureUniqueLinkId(
+    networkId: string,
+    linkId: string,
+  ): Promise<void> {
+    const existing = await this.prisma.networkLink.findUnique({
+      where: {
+        networkId_linkId: { networkId, linkId },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Link with ID ${linkId} already exists in network ${networkId}`,
+      );
+    }
+  }
+
+  private async validateEndpoints(
+    networkId: string,
+    fromNodeId: string,
+    toNodeId: string,
+  ): Promise<void> {
+    if (fromNodeId === toNodeId) {
+      throw new BadRequestException('A link must connect two different nodes');
+    }
+
+    const nodes = await this.prisma.networkNode.findMany({
+      where: { id: { in: [fromNodeId, toNodeId] } },
+      select: { id: true, networkId: true },
+    });
+
+    for (const nodeId of [fromNodeId, toNodeId]) {
+      const node = nodes.find((n) => n.id === nodeId);
+      if (!node) {
+        throw new NotFoundException(`Network node with ID ${nodeId} not found`);
+      }
+      if (node.networkId !== networkId) {
+        throw new BadRequestException(
+          `Node ${nodeId} belongs to a different network. Node network: ${node.networkId}, Link network: ${networkId}`,
+        );
+      }
+    }
+  }
+}
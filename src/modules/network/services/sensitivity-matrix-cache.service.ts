@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+
+/**
+ * One time-of-day slice of a matrix version held as a dense node x sensor
+ * array. Missing entries are 0.
+ */
+export interface DenseMatrixSlice {
+  versionId: string;
+  hourOfDay: number;
+  nodeIds: string[]; // Leak node UUIDs, one per row
+  sensorIds: string[]; // Sensor codes, one per column
+  nodeIndex: Map<string, number>;
+  sensorIndex: Map<string, number>;
+  values: Float64Array; // Row-major, nodeIds.length x sensorIds.length
+}
+
+/**
+ * Keeps recently used sensitivity matrix slices in memory so localization
+ * reads the matrix once per slice instead of querying it per detection.
+ * Slices are dropped when the network's matrix changes.
+ */
+@Injectable()
+export class SensitivityMatrixCacheService {
+  private readonly logger = new Logger(SensitivityMatrixCacheService.name);
+  private readonly MAX_SLICES = 48; // Two full 24-hour versions
+
+  // Insertion order doubles as recency order
+  private readonly slices = new Map<
+    string,
+    { networkId: string; slice: Promise<DenseMatrixSlice> }
+  >();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getSlice(
+    networkId: string,
+    versionId: string,
+    hourOfDay: number,
+  ): Promise<DenseMatrixSlice> {
+    const key = `${versionId}:${hourOfDay}`;
+    let cached = this.slices.get(key);
+
+    if (cached) {
+      this.slices.delete(key);
+    } else {
+      // Share the load between concurrent callers; forget it if it fails
+      const entry = {
+        networkId,
+        slice: this.loadSlice(versionId, hourOfDay),
+      };
+      entry.slice.catch(() => {
+        if (this.slices.get(key) === entry) {
+          this.slices.delete(key);
+        }
+      });
+      cached = entry;
+    }
+
+    this.slices.set(key, cached);
+    this.evict();
+
+    return cached.slice;
+  }
+
+  /**
+   * Drop every cached slice of a network, e.g. after a matrix version has
+   * been activated or had entries added.
+   */
+  invalidateNetwork(networkId: string): void {
+    for (const [key, cached] of [...this.slices.entries()]) {
+      if (cached.networkId === networkId) {
+        this.slices.delete(key);
+      }
+    }
+  }
+
+  private evict(): void {
+    while (this.slices.size > this.MAX_SLICES) {
+      const [oldest] = this.slices.keys();
+      this.slices.delete(oldest);
+    }
+  }
+
+  private async loadSlice(
+    versionId: string,
+    hourOfDay: number,
+  ): Promise<DenseMatrixSlice> {
+    const entries = await this.prisma.sensitivityMatrix.findMany({
+      where: { versionId, hourOfDay },
+      select: {
+        leakNodeId: true,
+        sensitivityValue: true,
+        sensor: {
+          select: {
+            sensorId: true,
+          },
+        },
+      },
+    });
+
+    const nodeIndex = new Map<string, number>();
+    const sensorIndex = new Map<string, number>();
+    for (const entry of entries) {
+      if (!nodeIndex.has(entry.leakNodeId)) {
+        nodeIndex.set(entry.leakNodeId, nodeIndex.size);
+      }
+      if (!sensorIndex.has(entry.sensor.sensorId)) {
+        sensorIndex.set(entry.sensor.sensorId, sensorIndex.size);
+      }
+    }
+
+    const sensorCount = sensorIndex.size;
+    const values = new Float64Array(nodeIndex.size * sensorCount);
+    for (const entry of entries) {
+      values[
+        nodeIndex.get(entry.leakNodeId)! * sensorCount +
+          sensorIndex.get(entry.sensor.sensorId)!
+      ] = entry.sensitivityValue;
+    }
+
+    this.logger.log(
+      `Cached sensitivity matrix version ${versionId} hour ${hourOfDay}: ${nodeIndex.size} nodes x ${sensorCount} sensors`,
+    );
+
+    return {
+      versionId,
+      hourOfDay,
+      nodeIds: [...nodeIndex.keys()],
+      sensorIds: [...sensorIndex.keys()],
+      nodeIndex,
+      sensorIndex,
+      values,
+    };
+  }
+}
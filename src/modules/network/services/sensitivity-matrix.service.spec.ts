@@ -0,0 +1,148 @@
+import { BadRequestException } from '@nestjs/common';
+import { MatrixJobStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { EpanetSimulationService } from './epanet-simulation.service';
+import { MatrixGenerationJobService } from './matrix-generation-job.service';
+import { MatrixVersionService } from './matrix-version.service';
+import { SensitivityMatrixCacheService } from './sensitivity-matrix-cache.service';
+import { SensitivityMatrixService } from './sensitivity-matrix.service';
+import { StorageService } from './storage.service';
+
+// p-limit is ESM only, and generation is not run here
+jest.mock('p-limit', () => jest.fn());
+
+function createService(
+  job: { status: MatrixJobStatus; versionId: string | null },
+  activeVersion: number | null,
+) {
+  const matrixJobs = {
+    findOne: jest.fn().mockResolvedValue({
+      id: 'j1',
+      networkId: 'n1',
+      nodesProcessed: 0,
+      totalNodes: 0,
+      failures: [{ leakNodeId: 'node1', error: 'Simulation timeout' }],
+      ...job,
+    }),
+    findRunningForNetwork: jest.fn().mockResolvedValue(null),
+    takeFailures: jest.fn().mockResolvedValue(['node1']),
+    markRunning: jest.fn(),
+  };
+  const matrixVersions = {
+    findOne: jest.fn().mockResolvedValue({ id: 'v1', version: 1 }),
+    findActive: jest
+      .fn()
+      .mockResolvedValue(
+        activeVersion === null ? null : { id: 'v', version: activeVersion },
+      ),
+    markBuilding: jest.fn(),
+  };
+
+  const service = new SensitivityMatrixService(
+    {} as PrismaService,
+    {} as StorageService,
+    {} as EpanetSimulationService,
+    matrixJobs as unknown as MatrixGenerationJobService,
+    matrixVersions as unknown as MatrixVersionService,
+    {} as SensitivityMatrixCacheService,
+  );
+  // Generation itself runs in the background and is not under test here
+  const startJob = jest
+    .spyOn(
+      service as unknown as { startJob: (...args: unknown[]) => void },
+      'startJob',
+    )
+    .mockReturnValue();
+
+  return { service, matrixJobs, matrixVersions, startJob };
+}
+
+describe('SensitivityMatrixService', () => {
+  describe('resumeJob', () => {
+    it('resumes a failed job, skipping computed nodes', async () => {
+      const { service, matrixJobs, matrixVersions, startJob } = createService(
+        { status: MatrixJobStatus.FAILED, versionId: 'v1' },
+        null,
+      );
+
+      const status = await service.resumeJob('j1');
+
+      expect(matrixJobs.takeFailures).toHaveBeenCalledWith('j1');
+      expect(matrixVersions.markBuilding).toHaveBeenCalledWith('v1');
+      expect(matrixJobs.markRunning).toHaveBeenCalledWith('j1');
+      expect(startJob).toHaveBeenCalledWith('j1', 'n1', {
+        force: false,
+        skipComputed: true,
+      });
+      expect(status.jobId).toBe('j1');
+    });
+
+    it('rejects jobs that have not stopped', async () => {
+      const { service, startJob } = createService(
+        { status: MatrixJobStatus.COMPLETED, versionId: 'v1' },
+        null,
+      );
+
+      await expect(service.resumeJob('j1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(startJob).not.toHaveBeenCalled();
+    });
+
+    it('rejects jobs whose version is older than the active one', async () => {
+      const { service, matrixJobs, startJob } = createService(
+        { status: MatrixJobStatus.CANCELLED, versionId: 'v1' },
+        2,
+      );
+
+      await expect(service.resumeJob('j1')).rejects.toThrow(
+        'version 2 is already active',
+      );
+      expect(matrixJobs.takeFailures).not.toHaveBeenCalled();
+      expect(startJob).not.toHaveBeenCalled();
+    });
+
+    it('rejects a job while another one runs for the network', async () => {
+      const { service, matrixJobs, startJob } = createService(
+        { status: MatrixJobStatus.FAILED, versionId: 'v1' },
+        null,
+      );
+      matrixJobs.findRunningForNetwork.mockResolvedValue({ id: 'j2' });
+
+      await expect(service.resumeJob('j1')).rejects.toThrow(
+        'Matrix generation job j2 is already running',
+      );
+      expect(startJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryFailedNodes', () => {
+    it('retries only the failed nodes', async () => {
+      const { service, startJob } = createService(
+        { status: MatrixJobStatus.FAILED, versionId: 'v1' },
+        1,
+      );
+
+      await service.retryFailedNodes('j1');
+
+      expect(startJob).toHaveBeenCalledWith('j1', 'n1', {
+        force: false,
+        leakNodeIds: ['node1'],
+        skipComputed: false,
+      });
+    });
+
+    it('rejects jobs whose version is older than the active one', async () => {
+      const { service, matrixJobs, startJob } = createService(
+        { status: MatrixJobStatus.FAILED, versionId: 'v1' },
+        3,
+      );
+
+      await expect(service.retryFailedNodes('j1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(matrixJobs.takeFailures).not.toHaveBeenCalled();
+      expect(startJob).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,49 +1,131 @@
 import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import {
+  LeakModel,
+  MatrixGenerationJob,
+  MatrixJobStatus,
+  MatrixVersionStatus,
+  SensitivityMatrixVersion,
+  SensorType,
+} from '@prisma/client';
 import { PrismaService } from '../../../database/prisma/prisma.service';
 import { StorageService } from './storage.service';
-import { EpanetSimulationService } from './epanet-simulation.service';
+import {
+  EpanetSimulationService,
+  LeakModelConfig,
+  SensorNodeIds,
+  SimulationResults,
+} from './epanet-simulation.service';
+import {
+  MatrixGenerationJobService,
+  NodeFailure,
+} from './matrix-generation-job.service';
+import { MatrixVersionService } from './matrix-version.service';
+import { SensitivityMatrixCacheService } from './sensitivity-matrix-cache.service';
+import {
+  getSensorMeasurement,
+  SensorQuantity,
+} from '../../../common/utils/sensor-measurement.util';
+import { startHeartbeat } from '../../../common/utils/heartbeat.util';
 import pLimit from 'p-limit';
 
 export interface MatrixStats {
   exists: boolean;
   totalEntries: number;
   lastComputed?: Date;
+  activeVersion?: {
+    id: string;
+    version: number;
+    leakModel: LeakModel;
+    leakSize: number | null;
+    emitterCoefficient: number | null;
+    emitterExponent: number | null;
+    sensorCount: number;
+    hoursOfDay: number[];
+    epanetFileHash: string;
+  };
 }
 
 export interface GenerationStatus {
-  status: 'not_started' | 'in_progress' | 'completed' | 'error';
+  jobId?: string;
+  networkId?: string;
+  versionId?: string | null;
+  status: 'not_started' | 'in_progress' | 'completed' | 'error' | 'cancelled';
   progress?: {
     nodesProcessed: number;
     totalNodes: number;
     percentage: number;
   };
+  startedAt?: Date;
+  completedAt?: Date | null;
+  failedNodes?: Array<{
+    leakNodeId: string;
+    error: string;
+  }>;
   matrixStats?: MatrixStats;
   error?: string;
 }
 
+export interface LeakModelOptions {
+  leakModel?: LeakModel;
+  emitterCoefficient?: number;
+  emitterExponent?: number;
+}
+
+interface GenerationRun {
+  force: boolean; // Build a new version even if one is active
+  leakNodeIds?: string[]; // Restrict the run to these nodes (retrying failures)
+  skipComputed: boolean; // Skip nodes that already have matrix entries (resuming)
+}
+
+const JOB_STATUS_MAP: Record<MatrixJobStatus, GenerationStatus['status']> = {
+  [MatrixJobStatus.IN_PROGRESS]: 'in_progress',
+  [MatrixJobStatus.COMPLETED]: 'completed',
+  [MatrixJobStatus.FAILED]: 'error',
+  [MatrixJobStatus.CANCELLED]: 'cancelled',
+};
+
 @Injectable()
 export class SensitivityMatrixService {
-  private generationStatus: GenerationStatus = {
-    status: 'not_started',
-  };
   private readonly logger = new Logger(SensitivityMatrixService.name);
   private readonly LEAK_SIZE = 1.0; // 1 L/s leak for sensitivity calculation
+  private readonly DEFAULT_EMITTER_COEFFICIENT = 0.1; // ~0.55 L/s at 30 m
+  private readonly DEFAULT_EMITTER_EXPONENT = 0.5; // Orifice flow
   private readonly CONCURRENCY_LIMIT = 5; // Parallel simulations limit
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly storageService: StorageService,
     private readonly epanetSimulation: EpanetSimulationService,
+    private readonly matrixJobs: MatrixGenerationJobService,
+    private readonly matrixVersions: MatrixVersionService,
+    private readonly matrixCache: SensitivityMatrixCacheService,
   ) {}
 
   async checkMatrixExists(networkId?: string): Promise<boolean> {
-    const where = networkId ? { networkId } : {};
-    const count = await this.prisma.sensitivityMatrix.count({ where });
+    const count = await this.prisma.sensitivityMatrixVersion.count({
+      where: {
+        ...(networkId && { networkId }),
+        status: MatrixVersionStatus.ACTIVE,
+      },
+    });
     return count > 0;
   }
 
+  /**
+   * Get the active matrix version for a network, if any
+   */
+  async getActiveVersion(
+    networkId: string,
+  ): Promise<SensitivityMatrixVersion | null> {
+    return this.matrixVersions.findActive(networkId);
+  }
+
   async getMatrixStats(networkId?: string): Promise<MatrixStats> {
-    const where = networkId ? { networkId } : {};
+    // Only active versions count; versions still building are not usable
+    const where = {
+      ...(networkId && { networkId }),
+      version: { status: MatrixVersionStatus.ACTIVE },
+    };
     const count = await this.prisma.sensitivityMatrix.count({ where });
 
     if (count === 0) {
@@ -64,80 +146,345 @@ export class SensitivityMatrixService {
       },
     });
 
-    return {
+    const stats: MatrixStats = {
       exists: true,
       totalEntries: count,
       lastComputed: latest?.createdAt,
     };
+
+    if (networkId) {
+      const version = await this.matrixVersions.findActive(networkId);
+      if (version) {
+        stats.activeVersion = {
+          id: version.id,
+          version: version.version,
+          leakModel: version.leakModel,
+          leakSize: version.leakSize,
+          emitterCoefficient: version.emitterCoefficient,
+          emitterExponent: version.emitterExponent,
+          sensorCount: version.sensorIds.length,
+          hoursOfDay: version.hoursOfDay,
+          epanetFileHash: version.epanetFileHash,
+        };
+      }
+    }
+
+    return stats;
   }
 
   async generateMatrix(
     force: boolean = false,
     networkId: string,
+    leakModelOptions: LeakModelOptions = {},
   ): Promise<GenerationStatus> {
     if (!networkId) {
-      throw new BadRequestException('Network ID is required for matrix generation');
+      throw new BadRequestException(
+        'Network ID is required for matrix generation',
+      );
     }
 
-    // Check if matrix already exists for this network
-    const exists = await this.checkMatrixExists(networkId);
+    // Without an explicit leak model, keep the one the active version uses
+    const activeVersion = await this.matrixVersions.findActive(networkId);
+    const leak = this.resolveLeakModel({
+      leakModel: activeVersion?.leakModel,
+      ...(activeVersion?.emitterCoefficient != null && {
+        emitterCoefficient: activeVersion.emitterCoefficient,
+      }),
+      ...(activeVersion?.emitterExponent != null && {
+        emitterExponent: activeVersion.emitterExponent,
+      }),
+      ...this.definedOptions(leakModelOptions),
+    });
 
-    if (exists && !force) {
+    // An active matrix built with a different leak model is regenerated
+    if (activeVersion && !force && this.usesLeakModel(activeVersion, leak)) {
       const stats = await this.getMatrixStats(networkId);
       return {
+        networkId,
         status: 'completed',
         matrixStats: stats,
       };
     }
 
-    // Check if generation is already in progress
-    if (this.generationStatus.status === 'in_progress') {
-      return this.generationStatus;
+    // Only one generation per network at a time
+    const runningJob = await this.matrixJobs.findRunningForNetwork(networkId);
+    if (runningJob) {
+      return this.toGenerationStatus(runningJob);
     }
 
-    // Start generation asynchronously
-    this.generateMatrixAsync(force, networkId).catch((error) => {
-      this.generationStatus = {
-        status: 'error',
-        error: error.message,
-      };
+    const job = await this.matrixJobs.create(networkId, force, leak);
+    this.startJob(job.id, networkId, { force, skipComputed: false });
+
+    return this.toGenerationStatus(job);
+  }
+
+  /**
+   * Get the status of a generation job, or of the latest job for a network
+   */
+  async getGenerationStatus(options: {
+    jobId?: string;
+    networkId?: string;
+  }): Promise<GenerationStatus> {
+    let job: Awaited<ReturnType<MatrixGenerationJobService['findOne']>> | null;
+
+    if (options.jobId) {
+      job = await this.matrixJobs.findOne(options.jobId);
+    } else if (options.networkId) {
+      job = await this.matrixJobs.findLatestForNetwork(options.networkId);
+      if (!job) {
+        return {
+          networkId: options.networkId,
+          status: 'not_started',
+        };
+      }
+    } else {
+      throw new BadRequestException('Either jobId or networkId is required');
+    }
+
+    const status = this.toGenerationStatus(job, job.failures);
+    if (job.status === MatrixJobStatus.COMPLETED) {
+      status.matrixStats = await this.getMatrixStats(job.networkId);
+    }
+
+    return status;
+  }
+
+  async findJobs(networkId?: string) {
+    return this.matrixJobs.findAll(networkId);
+  }
+
+  async findVersions(networkId?: string) {
+    return this.matrixVersions.findAll(networkId);
+  }
+
+  async cancelJob(jobId: string): Promise<GenerationStatus> {
+    const job = await this.matrixJobs.cancel(jobId);
+    return this.toGenerationStatus(job);
+  }
+
+  /**
+   * Resume a failed or cancelled job, computing only nodes that have no
+   * entries in the job's matrix version yet.
+   */
+  async resumeJob(jobId: string): Promise<GenerationStatus> {
+    const job = await this.matrixJobs.findOne(jobId);
+
+    if (
+      job.status !== MatrixJobStatus.FAILED &&
+      job.status !== MatrixJobStatus.CANCELLED
+    ) {
+      throw new BadRequestException(
+        `Only failed or cancelled jobs can be resumed. Job ${jobId} is ${job.status}`,
+      );
+    }
+
+    const runningJob = await this.matrixJobs.findRunningForNetwork(
+      job.networkId,
+    );
+    if (runningJob) {
+      throw new BadRequestException(
+        `Matrix generation job ${runningJob.id} is already running for network ${job.networkId}`,
+      );
+    }
+
+    await this.assertLatestVersion(job);
+
+    // Failed nodes have no entries, so the resume recomputes them too
+    await this.matrixJobs.takeFailures(jobId);
+    if (job.versionId) {
+      await this.matrixVersions.markBuilding(job.versionId);
+    }
+    await this.matrixJobs.markRunning(jobId);
+    this.startJob(jobId, job.networkId, { force: false, skipComputed: true });
+
+    return this.getGenerationStatus({ jobId });
+  }
+
+  /**
+   * Re-run the leak simulations for nodes that failed in a finished job
+   */
+  async retryFailedNodes(jobId: string): Promise<GenerationStatus> {
+    const job = await this.matrixJobs.findOne(jobId);
+
+    if (job.status === MatrixJobStatus.IN_PROGRESS) {
+      throw new BadRequestException(
+        `Job ${jobId} is still in progress. Wait for it to finish before retrying failed nodes`,
+      );
+    }
+
+    const runningJob = await this.matrixJobs.findRunningForNetwork(
+      job.networkId,
+    );
+    if (runningJob) {
+      throw new BadRequestException(
+        `Matrix generation job ${runningJob.id} is already running for network ${job.networkId}`,
+      );
+    }
+
+    if (job.failures.length === 0) {
+      return this.getGenerationStatus({ jobId });
+    }
+
+    await this.assertLatestVersion(job);
+
+    const leakNodeIds = await this.matrixJobs.takeFailures(jobId);
+    if (job.versionId) {
+      await this.matrixVersions.markBuilding(job.versionId);
+    }
+    await this.matrixJobs.markRunning(jobId);
+    this.startJob(jobId, job.networkId, {
+      force: false,
+      leakNodeIds,
+      skipComputed: false,
     });
 
+    return this.getGenerationStatus({ jobId });
+  }
+
+  /**
+   * Finishing a job activates its version, which must not replace a newer
+   * active version of the network's matrix
+   */
+  private async assertLatestVersion(job: MatrixGenerationJob): Promise<void> {
+    if (!job.versionId) {
+      return;
+    }
+
+    const [version, activeVersion] = await Promise.all([
+      this.matrixVersions.findOne(job.versionId),
+      this.matrixVersions.findActive(job.networkId),
+    ]);
+    if (activeVersion && activeVersion.version > version.version) {
+      throw new BadRequestException(
+        `Job ${job.id} builds matrix version ${version.version}, but version ${activeVersion.version} is already active for network ${job.networkId}. Generate a new matrix instead.`,
+      );
+    }
+  }
+
+  /**
+   * Fill in defaults and validate the leak model for a generation run
+   */
+  private resolveLeakModel(options: LeakModelOptions): LeakModelConfig {
+    const model = options.leakModel ?? LeakModel.FIXED_DEMAND;
+
+    if (model === LeakModel.FIXED_DEMAND) {
+      return { model, leakSize: this.LEAK_SIZE };
+    }
+
+    const emitterCoefficient =
+      options.emitterCoefficient ?? this.DEFAULT_EMITTER_COEFFICIENT;
+    const emitterExponent =
+      options.emitterExponent ?? this.DEFAULT_EMITTER_EXPONENT;
+
+    if (emitterCoefficient <= 0 || emitterExponent <= 0) {
+      throw new BadRequestException(
+        'Emitter coefficient and exponent must be positive',
+      );
+    }
+
+    return { model, emitterCoefficient, emitterExponent };
+  }
+
+  private toLeakModelConfig(source: {
+    leakModel: LeakModel;
+    leakSize?: number | null;
+    emitterCoefficient: number | null;
+    emitterExponent: number | null;
+  }): LeakModelConfig {
+    return this.resolveLeakModel({
+      leakModel: source.leakModel,
+      emitterCoefficient: source.emitterCoefficient ?? undefined,
+      emitterExponent: source.emitterExponent ?? undefined,
+    });
+  }
+
+  private definedOptions(options: LeakModelOptions): LeakModelOptions {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined),
+    );
+  }
+
+  private usesLeakModel(
+    version: SensitivityMatrixVersion,
+    leak: LeakModelConfig,
+  ): boolean {
+    if (version.leakModel !== leak.model) {
+      return false;
+    }
+    return (
+      leak.model === LeakModel.FIXED_DEMAND ||
+      (version.emitterCoefficient === leak.emitterCoefficient &&
+        version.emitterExponent === leak.emitterExponent)
+    );
+  }
+
+  private toGenerationStatus(
+    job: MatrixGenerationJob,
+    failures: NodeFailure[] = [],
+  ): GenerationStatus {
     return {
-      status: 'in_progress',
+      jobId: job.id,
+      networkId: job.networkId,
+      versionId: job.versionId,
+      status: JOB_STATUS_MAP[job.status],
       progress: {
-        nodesProcessed: 0,
-        totalNodes: 0,
-        percentage: 0,
+        nodesProcessed: job.nodesProcessed,
+        totalNodes: job.totalNodes,
+        percentage:
+          job.totalNodes > 0
+            ? Math.round((job.nodesProcessed / job.totalNodes) * 100)
+            : 0,
       },
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      failedNodes: failures.map(({ leakNodeId, error }) => ({
+        leakNodeId,
+        error,
+      })),
+      error: job.error ?? undefined,
     };
   }
 
-  async getGenerationStatus(): Promise<GenerationStatus> {
-    if (this.generationStatus.status === 'completed') {
-      const stats = await this.getMatrixStats();
-      return {
-        ...this.generationStatus,
-        matrixStats: stats,
-      };
-    }
-
-    return this.generationStatus;
+  /**
+   * Run generation in the background, persisting failure on the job and
+   * its matrix version. The previously active version stays in use.
+   */
+  private startJob(jobId: string, networkId: string, run: GenerationRun): void {
+    const stopHeartbeat = startHeartbeat(
+      () => this.matrixJobs.heartbeat(jobId),
+      (error) =>
+        this.logger.warn(
+          `Failed to record heartbeat for job ${jobId}: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+    );
+
+    this.generateMatrixAsync(jobId, networkId, run)
+      .finally(stopHeartbeat)
+      .catch((error) => {
+        this.matrixJobs
+          .markFailed(
+            jobId,
+            error instanceof Error ? error.message : 'Unknown error occurred',
+          )
+          .then(() => this.matrixJobs.findOne(jobId))
+          .then((job) =>
+            job.versionId
+              ? this.matrixVersions.markFailed(job.versionId)
+              : undefined,
+          )
+          .catch((updateError) =>
+            this.logger.error(
+              `Failed to record failure for job ${jobId}: ${updateError instanceof Error ? updateError.message : String(updateError)}`,
+            ),
+          );
+      });
   }
 
   private async generateMatrixAsync(
-    force: boolean,
+    jobId: string,
     networkId: string,
+    run: GenerationRun,
   ): Promise<void> {
-    this.generationStatus = {
-      status: 'in_progress',
-      progress: {
-        nodesProcessed: 0,
-        totalNodes: 0,
-        percentage: 0,
-      },
-    };
-
     let project: any = null;
     let workspace: any = null;
 
@@ -148,25 +495,23 @@ export class SensitivityMatrixService {
       });
 
       if (!networkRecord) {
-        throw new BadRequestException(
-          `Network with ID ${networkId} not found`,
-        );
+        throw new BadRequestException(`Network with ID ${networkId} not found`);
       }
 
-      // Delete existing matrix for this network if force is true
-      if (force) {
-        await this.prisma.sensitivityMatrix.deleteMany({
-          where: { networkId },
-        });
-      }
+      const job = await this.matrixJobs.findOne(jobId);
+      const existingVersion = job.versionId
+        ? await this.matrixVersions.findOne(job.versionId)
+        : null;
+      const leak = this.toLeakModelConfig(existingVersion ?? job);
 
       // Get all network nodes (potential leak locations) with EPANET node IDs for this network
-      const nodes = await this.prisma.networkNode.findMany({
+      let nodes = await this.prisma.networkNode.findMany({
         where: {
           networkId,
           epanetNodeId: {
             not: null,
           },
+          ...(run.leakNodeIds && { id: { in: run.leakNodeIds } }),
         },
         select: {
           id: true,
@@ -175,11 +520,13 @@ export class SensitivityMatrixService {
         },
       });
 
-      // Get all sensors with their EPANET node IDs for this network
+      // Get all sensors with their EPANET node IDs for this network.
+      // A version being resumed keeps the sensor set it was started with.
       const sensors = await this.prisma.sensor.findMany({
         where: {
           networkId,
           isActive: true,
+          ...(existingVersion && { id: { in: existingVersion.sensorIds } }),
         },
         include: {
           node: {
@@ -209,42 +556,106 @@ export class SensitivityMatrixService {
         );
       }
 
+      const epanetFileHash = this.storageService.getEpanetFileHash(networkId);
+      if (
+        existingVersion &&
+        existingVersion.epanetFileHash !== epanetFileHash
+      ) {
+        throw new BadRequestException(
+          `EPANET file for network ${networkId} changed since matrix version ${existingVersion.version} was started. Generate a new matrix instead.`,
+        );
+      }
+
+      const version =
+        existingVersion ??
+        (await this.matrixVersions.create({
+          networkId,
+          leakModel: leak.model,
+          leakSize: leak.leakSize ?? null,
+          emitterCoefficient: leak.emitterCoefficient ?? null,
+          emitterExponent: leak.emitterExponent ?? null,
+          sensorIds: sensors.map((sensor) => sensor.id),
+          epanetFileHash,
+        }));
+      if (!existingVersion) {
+        await this.matrixJobs.attachVersion(jobId, version.id);
+      }
+
+      // When resuming, skip nodes whose sensitivities are already stored
+      let alreadyProcessed = 0;
+      if (run.skipComputed) {
+        const computed = await this.prisma.sensitivityMatrix.findMany({
+          where: { versionId: version.id },
+          select: { leakNodeId: true },
+          distinct: ['leakNodeId'],
+        });
+        const computedIds = new Set(computed.map((c) => c.leakNodeId));
+        const remaining = nodes.filter((node) => !computedIds.has(node.id));
+        alreadyProcessed = nodes.length - remaining.length;
+        nodes = remaining;
+      }
+
+      const totalNodes = alreadyProcessed + nodes.length;
+      await this.matrixJobs.updateProgress(jobId, alreadyProcessed, totalNodes);
+
+      if (nodes.length === 0) {
+        await this.completeVersion(jobId, version.id);
+        this.logger.log(
+          `Sensitivity matrix for network ${networkId} already complete, nothing to resume`,
+        );
+        return;
+      }
+
       this.logger.log(`Loading EPANET network from ${filePath}`);
       const epanetNetwork = await this.epanetSimulation.loadNetwork(filePath);
       project = epanetNetwork.project;
       workspace = epanetNetwork.workspace;
 
-      // Get sensor EPANET node IDs
-      const sensorEpanetNodeIds = sensors
-        .map((s) => s.node.epanetNodeId)
-        .filter((id): id is string => id !== null);
+      // Group sensor EPANET node IDs by the quantity each sensor measures
+      const sensorNodes: SensorNodeIds = { flow: [], pressure: [], level: [] };
+      for (const sensor of sensors) {
+        const epanetNodeId = sensor.node.epanetNodeId;
+        if (!epanetNodeId) continue;
+
+        const group = sensorNodes[this.getResultGroup(sensor.sensorType)];
+        if (!group.includes(epanetNodeId)) {
+          group.push(epanetNodeId);
+        }
+      }
 
-      if (sensorEpanetNodeIds.length === 0) {
+      const sensorNodeCount =
+        sensorNodes.flow.length +
+        sensorNodes.pressure.length +
+        sensorNodes.level.length;
+      if (sensorNodeCount === 0) {
         throw new BadRequestException(
           'No sensors with valid EPANET node IDs found.',
         );
       }
 
+      if (leak.model === LeakModel.EMITTER && leak.emitterExponent) {
+        this.epanetSimulation.setEmitterExponent(project, leak.emitterExponent);
+      }
+
       // Run baseline simulation once (cache result)
       this.logger.log('Running baseline simulation...');
       const baselineResults = await this.epanetSimulation.runBaselineSimulation(
         project,
-        sensorEpanetNodeIds,
+        sensorNodes,
       );
-
-      const totalNodes = nodes.length;
-      this.generationStatus.progress = {
-        nodesProcessed: 0,
-        totalNodes,
-        percentage: 0,
-      };
+      await this.matrixVersions.recordSimulationDetails(version.id, {
+        hoursOfDay: [...baselineResults.keys()],
+        modelFlowUnits: this.epanetSimulation.getFlowUnits(project),
+      });
 
       // Generate matrix entries in batches
       const batchSize = 1000;
       const matrixEntries: Array<{
         networkId: string;
+        versionId: string;
         leakNodeId: string;
         sensorId: string;
+        hourOfDay: number;
         sensitivityValue: number;
       }> = [];
 
@@ -252,12 +663,16 @@ export class SensitivityMatrixService {
       const limit = pLimit(this.CONCURRENCY_LIMIT);
 
       // Process nodes in parallel batches
-      const nodeBatches: typeof nodes[] = [];
+      const nodeBatches: (typeof nodes)[] = [];
       for (let i = 0; i < nodes.length; i += this.CONCURRENCY_LIMIT) {
         nodeBatches.push(nodes.slice(i, i + this.CONCURRENCY_LIMIT));
       }
 
+      let cancelled = false;
+
       for (const batch of nodeBatches) {
+        const batchFailures: NodeFailure[] = [];
+
         const batchPromises = batch.map((node) =>
           limit(async () => {
             if (!node.epanetNodeId) {
@@ -269,57 +684,72 @@ export class SensitivityMatrixService {
 
             try {
               // Run leak simulation
-              const leakResults =
-                await this.epanetSimulation.runLeakSimulation(
-                  project,
-                  node.epanetNodeId,
-                  this.LEAK_SIZE,
-                  sensorEpanetNodeIds,
-                );
-
-              // Calculate sensitivity for each sensor
-              const sensitivity = this.epanetSimulation.calculateSensitivity(
-                baselineResults,
-                leakResults,
-                this.LEAK_SIZE,
+              const leakResults = await this.epanetSimulation.runLeakSimulation(
+                project,
+                node.epanetNodeId,
+                leak,
+                sensorNodes,
               );
 
-              // Store sensitivity values
-              for (const sensor of sensors) {
-                if (!sensor.node.epanetNodeId) continue;
-
-                const sensitivityValue =
-                  sensitivity.get(sensor.node.epanetNodeId) || 0;
+              // Calculate sensitivity for each sensor in every hourly slice
+              for (const [hourOfDay, baseline] of baselineResults.entries()) {
+                const leakSlice = leakResults.get(hourOfDay);
+                if (!leakSlice) continue;
+
+                // Normalize by the simulated leak flow, which varies with
+                // pressure for emitter leaks
+                const sensitivity = this.epanetSimulation.calculateSensitivity(
+                  baseline,
+                  leakSlice,
+                  leakSlice.leakFlow ?? this.LEAK_SIZE,
+                );
 
-                matrixEntries.push({
-                  networkId,
-                  leakNodeId: node.id,
-                  sensorId: sensor.id,
-                  sensitivityValue,
-                });
+                // Store sensitivity values
+                for (const sensor of sensors) {
+                  if (!sensor.node.epanetNodeId) continue;
+
+                  const sensitivityValue =
+                    this.getSensitivityForSensor(
+                      sensitivity,
+                      sensor.sensorType,
+                      sensor.node.epanetNodeId,
+                    ) || 0;
+
+                  matrixEntries.push({
+                    networkId,
+                    versionId: version.id,
+                    leakNodeId: node.id,
+                    sensorId: sensor.id,
+                    hourOfDay,
+                    sensitivityValue,
+                  });
+                }
               }
             } catch (error) {
               this.logger.error(
                 `Failed to calculate sensitivity for node ${node.nodeId} (EPANET ID: ${node.epanetNodeId}): ${error instanceof Error ? error.message : String(error)}`,
                 error instanceof Error ? error.stack : undefined,
               );
-              // Continue with other nodes - don't fail entire matrix generation
+              // Record the node for retry - don't fail entire matrix generation
+              batchFailures.push({
+                leakNodeId: node.id,
+                error: error instanceof Error ? error.message : String(error),
+              });
             }
           }),
         );
 
         await Promise.all(batchPromises);
 
-        // Update progress
+        // Persist progress and failed nodes
         const processed = Math.min(
-          nodeBatches.indexOf(batch) * this.CONCURRENCY_LIMIT + batch.length,
+          alreadyProcessed +
+            nodeBatches.indexOf(batch) * this.CONCURRENCY_LIMIT +
+            batch.length,
           totalNodes,
         );
-        this.generationStatus.progress = {
-          nodesProcessed: processed,
-          totalNodes,
-          percentage: Math.round((processed / totalNodes) * 100),
-        };
+        await this.matrixJobs.updateProgress(jobId, processed, totalNodes);
+        await this.matrixJobs.recordFailures(jobId, batchFailures);
 
         // Insert in batches
         if (matrixEntries.length >= batchSize) {
@@ -329,9 +759,14 @@ export class SensitivityMatrixService {
           });
           matrixEntries.length = 0; // Clear array
         }
+
+        if (await this.matrixJobs.isCancelled(jobId)) {
+          cancelled = true;
+          break;
+        }
       }
 
-      // Insert remaining entries
+      // Insert remaining entries (also on cancel, so a resume can skip them)
       if (matrixEntries.length > 0) {
         await this.prisma.sensitivityMatrix.createMany({
           data: matrixEntries,
@@ -339,22 +774,26 @@ export class SensitivityMatrixService {
         });
       }
 
+      // Retries can add entries to a version that is already in use
+      this.matrixCache.invalidateNetwork(networkId);
+
       // Close EPANET project
       if (project) {
         this.epanetSimulation.closeProject(project);
       }
 
-      const stats = await this.getMatrixStats();
-      this.generationStatus = {
-        status: 'completed',
-        progress: {
-          nodesProcessed: totalNodes,
-          totalNodes,
-          percentage: 100,
-        },
-        matrixStats: stats,
-      };
+      if (cancelled) {
+        // The version may have been created after the cancel request
+        await this.matrixVersions.markFailed(version.id);
+        this.logger.log(
+          `Sensitivity matrix generation job ${jobId} cancelled for network ${networkId}`,
+        );
+        return;
+      }
 
+      await this.completeVersion(jobId, version.id);
+
+      const stats = await this.getMatrixStats(networkId);
       this.logger.log(
         `Sensitivity matrix generation complete: ${stats.totalEntries} entries computed`,
       );
@@ -374,11 +813,6 @@ export class SensitivityMatrixService {
         error instanceof Error ? error.message : 'Unknown error occurred';
       const errorStack = error instanceof Error ? error.stack : undefined;
 
-      this.generationStatus = {
-        status: 'error',
-        error: errorMessage,
-      };
-
       this.logger.error(
         `Sensitivity matrix generation failed: ${errorMessage}`,
         errorStack,
@@ -387,22 +821,86 @@ export class SensitivityMatrixService {
     }
   }
 
+  /**
+   * Finish a job and swap its version in. A version with failed nodes is
+   * incomplete: the job and version fail until a retry fills them in.
+   */
+  private async completeVersion(
+    jobId: string,
+    versionId: string,
+  ): Promise<void> {
+    const version = await this.matrixVersions.findOne(versionId);
+
+    const failureCount = await this.matrixJobs.countFailures(jobId);
+    if (failureCount > 0) {
+      await this.matrixJobs.markFailed(
+        jobId,
+        `${failureCount} node(s) failed. Retry them to finish matrix version ${version.version}`,
+      );
+      await this.matrixVersions.markFailed(versionId);
+      this.logger.warn(
+        `Matrix version ${version.version} for network ${version.networkId} not activated: ${failureCount} node(s) failed`,
+      );
+      return;
+    }
+
+    if (version.status === MatrixVersionStatus.BUILDING) {
+      await this.matrixVersions.activate(versionId);
+      this.matrixCache.invalidateNetwork(version.networkId);
+    }
+    await this.matrixJobs.markCompleted(jobId);
+  }
+
+  /**
+   * Map a sensor type to the simulation result group holding its values
+   */
+  private getResultGroup(sensorType: SensorType): keyof SensorNodeIds {
+    const groups: Record<SensorQuantity, keyof SensorNodeIds> = {
+      FLOW: 'flow',
+      PRESSURE: 'pressure',
+      LEVEL: 'level',
+    };
+    return groups[getSensorMeasurement(sensorType).quantity];
+  }
+
+  private getSensitivityForSensor(
+    sensitivity: SimulationResults,
+    sensorType: SensorType,
+    epanetNodeId: string,
+  ): number | undefined {
+    switch (this.getResultGroup(sensorType)) {
+      case 'pressure':
+        return sensitivity.nodePressures.get(epanetNodeId);
+      case 'level':
+        return sensitivity.tankLevels.get(epanetNodeId);
+      default:
+        return sensitivity.nodeFlows.get(epanetNodeId);
+    }
+  }
+
   async findAll(
     networkId: string,
     leakNodeId?: string,
     sensorId?: string,
     page: number = 1,
     limit: number = 100,
+    versionId?: string,
+    hourOfDay?: number,
   ) {
     if (limit > 1000) {
       limit = 1000;
     }
     const skip = (page - 1) * limit;
 
+    // Default to the active version
     const where: any = {
       networkId,
+      ...(versionId
+        ? { versionId }
+        : { version: { status: MatrixVersionStatus.ACTIVE } }),
       ...(leakNodeId && { leakNodeId }),
       ...(sensorId && { sensorId }),
+      ...(hourOfDay !== undefined && { hourOfDay }),
     };
 
     const [data, total] = await Promise.all([
@@ -444,7 +942,7 @@ export class SensitivityMatrixService {
 
   async findByLeakNode(leakNodeId: string) {
     const entries = await this.prisma.sensitivityMatrix.findMany({
-      where: { leakNodeId },
+      where: { leakNodeId, version: { status: MatrixVersionStatus.ACTIVE } },
       include: {
         leakNode: {
           select: {
@@ -462,9 +960,7 @@ export class SensitivityMatrixService {
           },
         },
       },
-      orderBy: {
-        sensitivityValue: 'desc',
-      },
+      orderBy: [{ hourOfDay: 'asc' }, { sensitivityValue: 'desc' }],
     });
 
     return entries;
@@ -472,7 +968,7 @@ export class SensitivityMatrixService {
 
   async findBySensor(sensorId: string) {
     const entries = await this.prisma.sensitivityMatrix.findMany({
-      where: { sensorId },
+      where: { sensorId, version: { status: MatrixVersionStatus.ACTIVE } },
       include: {
         leakNode: {
           select: {
@@ -490,9 +986,7 @@ export class SensitivityMatrixService {
           },
         },
       },
-      orderBy: {
-        sensitivityValue: 'desc',
-      },
+      orderBy: [{ hourOfDay: 'asc' }, { sensitivityValue: 'desc' }],
     });
 
     return entries;
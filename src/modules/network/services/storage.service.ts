@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -89,6 +90,15 @@ export class StorageService {
     }
   }
 
+  /**
+   * SHA-256 of the stored EPANET file, used to tell which model a
+   * sensitivity matrix was generated from.
+   */
+  getEpanetFileHash(networkId: string): string {
+    const content = fs.readFileSync(this.getEpanetFilePath(networkId));
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
   fileExists(networkId: string): boolean {
     const filePath = this.getEpanetFilePath(networkId);
     return fs.existsSync(filePath);
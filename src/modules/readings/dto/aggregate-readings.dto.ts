@@ -0,0 +1,84 @@
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsIn,
+  IsString,
+  IsNumber,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { QueryReadingsDto } from './query-readings.dto';
+import {
+  AGGREGATE_FUNCTIONS,
+  BUCKET_SIZES,
+  GAP_FILLS,
+} from '../services/reading-aggregate.service';
+import type {
+  AggregateFunction,
+  BucketSize,
+  GapFill,
+} from '../services/reading-aggregate.service';
+
+export class AggregateReadingsDto extends OmitType(QueryReadingsDto, [
+  'page',
+  'limit',
+  'resolution',
+] as const) {
+  @ApiPropertyOptional({
+    description:
+      'Comma-separated sensor IDs to include, in addition to sensorId',
+    example: 'MAIN_01,PRESSURE_04',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: string | string[] }) =>
+    [value]
+      .flat()
+      .flatMap((list) => list.split(','))
+      .map((sensorId) => sensorId.trim())
+      .filter((sensorId) => sensorId.length > 0),
+  )
+  @IsString({ each: true })
+  sensorIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Bucket size of the series',
+    enum: BUCKET_SIZES,
+    default: '15m',
+  })
+  @IsOptional()
+  @IsIn(BUCKET_SIZES)
+  bucket?: BucketSize;
+
+  @ApiPropertyOptional({
+    description: 'Aggregate function applied to the readings in each bucket',
+    enum: AGGREGATE_FUNCTIONS,
+    default: 'avg',
+  })
+  @IsOptional()
+  @IsIn(AGGREGATE_FUNCTIONS)
+  fn?: AggregateFunction;
+
+  @ApiPropertyOptional({
+    description: 'Percentile (0-100) used when fn is percentile',
+    minimum: 0,
+    maximum: 100,
+    default: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentile?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'How buckets without readings are returned: as gaps (null value) or linearly interpolated between neighbouring buckets',
+    enum: GAP_FILLS,
+    default: 'gap',
+  })
+  @IsOptional()
+  @IsIn(GAP_FILLS)
+  fill?: GapFill;
+}
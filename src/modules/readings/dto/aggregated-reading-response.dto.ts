@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { READING_RESOLUTIONS } from '../services/reading-aggregate.service';
+
+export class AggregatedReadingResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ description: 'Sensor UUID', example: 'uuid-here' })
+  sensorId: string;
+
+  @ApiProperty({
+    example: {
+      id: 'uuid-here',
+      sensorId: 'MAIN_01',
+      sensorType: 'MAINLINE_FLOW',
+    },
+  })
+  sensor: { id: string; sensorId: string; sensorType: string };
+
+  @ApiProperty({ enum: READING_RESOLUTIONS, example: '15m' })
+  resolution: string;
+
+  @ApiProperty({
+    description: 'Start of the bucket',
+    example: '2024-01-15T10:00:00.000Z',
+  })
+  timestamp: Date;
+
+  @ApiProperty({
+    description: "Average value in the sensor's unit (L/s or m)",
+    example: 100.5,
+  })
+  flowValue: number;
+
+  @ApiProperty({ example: 96.2 })
+  minValue: number;
+
+  @ApiProperty({ example: 104.9 })
+  maxValue: number;
+
+  @ApiProperty({ description: 'Readings in the bucket', example: 15 })
+  readingCount: number;
+}
@@ -20,6 +20,13 @@ export class BatchReadingDto {
         timestamp: '2024-01-15T10:00:00.000Z',
         source: 'MANUAL',
       },
+      {
+        sensorId: 'VENDOR_07',
+        flowValue: 36.4,
+        unit: 'm3/h',
+        timestamp: '2024-01-15T10:00:00.000Z',
+        source: 'MANUAL',
+      },
     ],
   })
   @IsArray()
@@ -27,4 +34,3 @@ export class BatchReadingDto {
   @Type(() => CreateReadingDto)
   readings: CreateReadingDto[];
 }
-
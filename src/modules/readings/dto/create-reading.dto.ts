@@ -5,9 +5,10 @@ import {
   IsEnum,
   IsDateString,
   IsOptional,
-  Min,
+  IsIn,
 } from 'class-validator';
 import { DataSource } from '@prisma/client';
+import { READING_UNITS } from '../../../common/utils/units.util';
 
 export class CreateReadingDto {
   @ApiProperty({
@@ -18,14 +19,23 @@ export class CreateReadingDto {
   sensorId: string;
 
   @ApiProperty({
-    description: 'Flow value in liters per second (L/s)',
+    description:
+      'Measured value: flow in L/s for flow sensors, pressure head in m for PRESSURE sensors, water level in m for TANK_LEVEL sensors, unless unit says otherwise',
     example: 100.5,
-    minimum: 0,
   })
   @IsNumber()
-  @Min(0)
   flowValue: number;
 
+  @ApiPropertyOptional({
+    description:
+      "Unit of flowValue. Converted on ingest to the sensor's canonical unit (L/s or m); the original value and unit are kept",
+    enum: READING_UNITS,
+    example: 'm3/h',
+  })
+  @IsOptional()
+  @IsIn(READING_UNITS)
+  unit?: string;
+
   @ApiProperty({
     description: 'Timestamp of the reading (ISO 8601 format)',
     example: '2024-01-15T10:00:00.000Z',
@@ -42,4 +52,3 @@ export class CreateReadingDto {
   @IsEnum(DataSource)
   source?: DataSource;
 }
-
@@ -1,7 +1,9 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsDateString } from 'class-validator';
+import { IsOptional, IsString, IsDateString, IsIn } from 'class-validator';
 import { Type } from 'class-transformer';
 import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { READING_RESOLUTIONS } from '../services/reading-aggregate.service';
+import type { ReadingResolution } from '../services/reading-aggregate.service';
 
 export class QueryReadingsDto extends PaginationDto {
   @ApiPropertyOptional({
@@ -35,5 +37,14 @@ export class QueryReadingsDto extends PaginationDto {
   @IsOptional()
   @IsDateString()
   endDate?: string;
-}
 
+  @ApiPropertyOptional({
+    description:
+      'Return raw readings or per-sensor aggregates at this resolution (timestamp is the bucket start)',
+    enum: READING_RESOLUTIONS,
+    default: 'raw',
+  })
+  @IsOptional()
+  @IsIn(READING_RESOLUTIONS)
+  resolution?: ReadingResolution;
+}
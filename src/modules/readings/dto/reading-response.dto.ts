@@ -1,5 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { DataSource } from '@prisma/client';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DataSource, ReadingQualityFlag } from '@prisma/client';
 
 export class ReadingResponseDto {
   @ApiProperty({ example: 'uuid-here' })
@@ -14,16 +14,41 @@ export class ReadingResponseDto {
   @ApiProperty({ example: 'MAIN_01' })
   sensorId: string;
 
-  @ApiProperty({ example: 100.5 })
+  @ApiProperty({
+    description: "Measured value in the sensor's unit (L/s or m)",
+    example: 100.5,
+  })
   flowValue: number;
 
+  @ApiPropertyOptional({
+    description: 'Value as submitted, when it was converted from another unit',
+    example: 361.8,
+    nullable: true,
+  })
+  originalValue?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Unit the value was submitted in',
+    example: 'm3/h',
+    nullable: true,
+  })
+  originalUnit?: string | null;
+
   @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
   timestamp: Date;
 
   @ApiProperty({ enum: DataSource, example: DataSource.MANUAL })
   source: DataSource;
 
+  @ApiProperty({
+    description:
+      'Data quality checks the reading failed on ingest, empty when it passed all of them',
+    enum: ReadingQualityFlag,
+    isArray: true,
+    example: [ReadingQualityFlag.RATE_OF_CHANGE],
+  })
+  qualityFlags: ReadingQualityFlag[];
+
   @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
   createdAt: Date;
 }
-
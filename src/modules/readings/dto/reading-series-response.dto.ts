@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SensorType } from '@prisma/client';
+import {
+  AGGREGATE_FUNCTIONS,
+  BUCKET_SIZES,
+  GAP_FILLS,
+} from '../services/reading-aggregate.service';
+
+export class SeriesPointDto {
+  @ApiProperty({
+    description: 'Start of the bucket',
+    example: '2024-01-15T10:00:00.000Z',
+  })
+  timestamp: Date;
+
+  @ApiProperty({
+    description: 'Aggregated value, null for a gap',
+    example: 100.5,
+    nullable: true,
+  })
+  value: number | null;
+
+  @ApiProperty({ description: 'Readings in the bucket', example: 15 })
+  readingCount: number;
+
+  @ApiPropertyOptional({
+    description: 'Set when the value was interpolated across a gap',
+    example: true,
+  })
+  interpolated?: boolean;
+}
+
+export class SensorSeriesDto {
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiProperty({ example: 'MAIN_01' })
+  sensorId: string;
+
+  @ApiProperty({ enum: SensorType, example: SensorType.MAINLINE_FLOW })
+  sensorType: SensorType;
+
+  @ApiProperty({ description: 'Unit of the values', example: 'L/s' })
+  unit: string;
+
+  @ApiProperty({ type: [SeriesPointDto] })
+  points: SeriesPointDto[];
+}
+
+export class ReadingSeriesResponseDto {
+  @ApiProperty({ enum: BUCKET_SIZES, example: '15m' })
+  bucket: string;
+
+  @ApiProperty({ enum: AGGREGATE_FUNCTIONS, example: 'avg' })
+  fn: string;
+
+  @ApiPropertyOptional({ example: 95 })
+  percentile?: number;
+
+  @ApiProperty({ enum: GAP_FILLS, example: 'gap' })
+  fill: string;
+
+  @ApiProperty({ example: '2024-01-15T00:00:00.000Z' })
+  startDate: Date;
+
+  @ApiProperty({ example: '2024-01-16T00:00:00.000Z' })
+  endDate: Date;
+
+  @ApiProperty({ type: [SensorSeriesDto] })
+  series: SensorSeriesDto[];
+}
@@ -14,12 +14,17 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiExtraModels,
 } from '@nestjs/swagger';
 import { ReadingsService } from './readings.service';
 import { CreateReadingDto } from './dto/create-reading.dto';
 import { BatchReadingDto } from './dto/batch-reading.dto';
 import { QueryReadingsDto } from './dto/query-readings.dto';
 import { ReadingResponseDto } from './dto/reading-response.dto';
+import { AggregatedReadingResponseDto } from './dto/aggregated-reading-response.dto';
+import { AggregateReadingsDto } from './dto/aggregate-readings.dto';
+import { ReadingSeriesResponseDto } from './dto/reading-series-response.dto';
+import { READING_RESOLUTIONS } from './services/reading-aggregate.service';
 
 @ApiTags('readings')
 @Controller('readings')
@@ -95,6 +100,13 @@ export class ReadingsController {
     description: 'End date (ISO 8601)',
     example: '2024-01-15T23:59:59.999Z',
   })
+  @ApiQuery({
+    name: 'resolution',
+    required: false,
+    enum: READING_RESOLUTIONS,
+    description:
+      'raw readings, or 1m/15m/1h aggregates with average, min, max and count per sensor and bucket',
+  })
   @ApiQuery({
     name: 'page',
     required: false,
@@ -107,15 +119,22 @@ export class ReadingsController {
     description: 'Items per page',
     example: 10,
   })
+  @ApiExtraModels(AggregatedReadingResponseDto)
   @ApiResponse({
     status: 200,
-    description: 'Paginated list of sensor readings',
+    description:
+      'Paginated list of sensor readings, or of aggregated buckets when a resolution is requested',
     schema: {
       type: 'object',
       properties: {
         data: {
           type: 'array',
-          items: { $ref: '#/components/schemas/ReadingResponseDto' },
+          items: {
+            oneOf: [
+              { $ref: '#/components/schemas/ReadingResponseDto' },
+              { $ref: '#/components/schemas/AggregatedReadingResponseDto' },
+            ],
+          },
         },
         total: { type: 'number', example: 100 },
         page: { type: 'number', example: 1 },
@@ -127,6 +146,27 @@ export class ReadingsController {
     return this.readingsService.findAll(query);
   }
 
+  @Get('aggregate')
+  @ApiOperation({
+    summary: 'Get bucketed time series per sensor for dashboards',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One series per sensor covering every bucket of the range',
+    type: ReadingSeriesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid parameters or too many buckets in the range',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'One or more sensors not found',
+  })
+  aggregate(@Query() query: AggregateReadingsDto) {
+    return this.readingsService.aggregate(query);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get sensor reading by ID' })
   @ApiParam({
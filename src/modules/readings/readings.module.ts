@@ -2,12 +2,21 @@ import { Module } from '@nestjs/common';
 import { ReadingsController } from './readings.controller';
 import { ReadingsService } from './readings.service';
 import { PrismaModule } from '../../database/prisma/prisma.module';
+import { ReadingAggregateService } from './services/reading-aggregate.service';
+import { ReadingRetentionService } from './services/reading-retention.service';
+import { ReadingQualityService } from './services/reading-quality.service';
+import { ReadingImputationService } from './services/reading-imputation.service';
 
 @Module({
   imports: [PrismaModule],
   controllers: [ReadingsController],
-  providers: [ReadingsService],
-  exports: [ReadingsService],
+  providers: [
+    ReadingsService,
+    ReadingAggregateService,
+    ReadingRetentionService,
+    ReadingQualityService,
+    ReadingImputationService,
+  ],
+  exports: [ReadingsService, ReadingAggregateService, ReadingImputationService],
 })
 export class ReadingsModule {}
-
@@ -6,11 +6,49 @@ import {
 import { PrismaService } from '../../database/prisma/prisma.service';
 import { CreateReadingDto } from './dto/create-reading.dto';
 import { QueryReadingsDto } from './dto/query-readings.dto';
-import { Prisma } from '@prisma/client';
+import { Prisma, SensorType } from '@prisma/client';
+import { getSensorMeasurement } from '../../common/utils/sensor-measurement.util';
+import { toCanonicalUnit } from '../../common/utils/units.util';
+import {
+  BUCKET_SECONDS,
+  ReadingAggregateService,
+  SeriesBucket,
+} from './services/reading-aggregate.service';
+import { AggregateReadingsDto } from './dto/aggregate-readings.dto';
+import { ReadingQualityService } from './services/reading-quality.service';
+
+export interface SensorSummaryQuery {
+  timestamp: Date; // Latest readings are taken at or before this time
+  timeWindow?: number; // Seconds before timestamp to average over
+  networkId?: string;
+  sensorIds?: string[]; // Sensor UUIDs
+}
+
+export interface SensorReadingSummary {
+  sensorId: string; // Sensor UUID
+  latestValue: number;
+  latestTimestamp: Date;
+  averageValue: number | null; // Mean over the window, null without readings in it
+  readingCount: number; // Readings in the window
+}
+
+export interface SeriesPoint {
+  timestamp: Date; // Bucket start
+  value: number | null; // Null for a gap
+  readingCount: number;
+  interpolated?: boolean;
+}
 
 @Injectable()
 export class ReadingsService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly DEFAULT_AGGREGATE_RANGE = 24 * 60 * 60; // 1 day in seconds
+  private readonly MAX_SERIES_POINTS = 10000;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly readingAggregates: ReadingAggregateService,
+    private readonly readingQuality: ReadingQualityService,
+  ) {}
 
   async create(createReadingDto: CreateReadingDto) {
     // Validate sensor exists and get networkId (sensorId is not unique alone, use findFirst)
@@ -19,6 +57,7 @@ export class ReadingsService {
       select: {
         id: true,
         networkId: true,
+        sensorType: true,
       },
     });
 
@@ -28,13 +67,20 @@ export class ReadingsService {
       );
     }
 
+    const normalized = this.normalizeValue(createReadingDto, sensor.sensorType);
+    const timestamp = new Date(createReadingDto.timestamp);
+    const [qualityFlags] = await this.readingQuality.assess([
+      { sensorId: sensor.id, flowValue: normalized.flowValue, timestamp },
+    ]);
+
     return this.prisma.sensorReading.create({
       data: {
         networkId: sensor.networkId,
         sensorId: sensor.id,
-        flowValue: createReadingDto.flowValue,
-        timestamp: new Date(createReadingDto.timestamp),
+        ...normalized,
+        timestamp,
         source: createReadingDto.source || 'MANUAL',
+        qualityFlags,
       },
       include: {
         network: {
@@ -71,6 +117,7 @@ export class ReadingsService {
         id: true,
         sensorId: true,
         networkId: true,
+        sensorType: true,
       },
     });
 
@@ -83,9 +130,7 @@ export class ReadingsService {
     }
 
     // Create sensor ID to UUID and networkId mapping
-    const sensorMap = new Map(
-      sensors.map((s) => [s.sensorId, { id: s.id, networkId: s.networkId }]),
-    );
+    const sensorMap = new Map(sensors.map((s) => [s.sensorId, s]));
 
     // Prepare data for batch insert
     const data = readings.map((reading) => {
@@ -93,17 +138,18 @@ export class ReadingsService {
       return {
         networkId: sensor.networkId,
         sensorId: sensor.id,
-        flowValue: reading.flowValue,
+        ...this.normalizeValue(reading, sensor.sensorType),
         timestamp: new Date(reading.timestamp),
         source: reading.source || 'MANUAL',
       };
     });
+    const qualityFlags = await this.readingQuality.assess(data);
 
     // Use transaction for batch insert
     const result = await this.prisma.$transaction(
-      data.map((item) =>
+      data.map((item, i) =>
         this.prisma.sensorReading.create({
-          data: item,
+          data: { ...item, qualityFlags: qualityFlags[i] },
           include: {
             network: {
               select: {
@@ -129,8 +175,42 @@ export class ReadingsService {
     };
   }
 
+  /**
+   * Convert a submitted value to the sensor's canonical unit, keeping the
+   * original value and unit when a conversion was needed.
+   */
+  private normalizeValue(
+    reading: { flowValue: number; unit?: string; sensorId: string },
+    sensorType: SensorType,
+  ): { flowValue: number; originalValue?: number; originalUnit?: string } {
+    const { quantity, unit: canonicalUnit } = getSensorMeasurement(sensorType);
+    if (!reading.unit || reading.unit === canonicalUnit) {
+      return { flowValue: reading.flowValue };
+    }
+
+    try {
+      return {
+        flowValue: toCanonicalUnit(quantity, reading.flowValue, reading.unit),
+        originalValue: reading.flowValue,
+        originalUnit: reading.unit,
+      };
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid unit for sensor ${reading.sensorId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   async findAll(query: QueryReadingsDto) {
-    const { page = 1, limit = 10, networkId, sensorId, startDate, endDate } = query;
+    const {
+      page = 1,
+      limit = 10,
+      networkId,
+      sensorId,
+      startDate,
+      endDate,
+      resolution = 'raw',
+    } = query;
     const skip = (page - 1) * limit;
 
     const where: Prisma.SensorReadingWhereInput = {};
@@ -175,6 +255,40 @@ export class ReadingsService {
       }
     }
 
+    if (resolution !== 'raw') {
+      const { data, total } = await this.readingAggregates.findBuckets(
+        resolution,
+        {
+          networkId,
+          sensorId: where.sensorId as string | undefined,
+          start: startDate ? new Date(startDate) : undefined,
+          end: endDate ? new Date(endDate) : undefined,
+        },
+        { skip, take: limit },
+      );
+
+      return {
+        data: data.map((bucket) => ({
+          networkId: bucket.networkId,
+          sensorId: bucket.sensorId,
+          sensor: {
+            id: bucket.sensorId,
+            sensorId: bucket.sensorCode,
+            sensorType: bucket.sensorType,
+          },
+          resolution,
+          timestamp: bucket.bucket,
+          flowValue: bucket.avgValue,
+          minValue: bucket.minValue,
+          maxValue: bucket.maxValue,
+          readingCount: bucket.readingCount,
+        })),
+        total,
+        page,
+        limit,
+      };
+    }
+
     const [data, total] = await Promise.all([
       this.prisma.sensorReading.findMany({
         where,
@@ -210,8 +324,197 @@ export class ReadingsService {
     };
   }
 
+  /**
+   * Latest value and window average for many sensors in one query, keyed by
+   * sensor UUID. Sensors without any reading up to the timestamp are left out.
+   * Flagged readings are skipped on networks that exclude them.
+   */
+  async getSensorSummaries(
+    query: SensorSummaryQuery,
+  ): Promise<Map<string, SensorReadingSummary>> {
+    if (query.sensorIds?.length === 0) {
+      return new Map();
+    }
+
+    const start = new Date(
+      query.timestamp.getTime() - (query.timeWindow ?? 0) * 1000,
+    );
+    const sensorFilter = Prisma.sql`${
+      query.networkId
+        ? Prisma.sql`AND s."networkId" = ${query.networkId}`
+        : Prisma.empty
+    } ${
+      query.sensorIds
+        ? Prisma.sql`AND s."id" IN (${Prisma.join(query.sensorIds)})`
+        : Prisma.empty
+    }`;
+    const quality = Prisma.sql`AND (NOT n."excludeFlaggedReadings" OR cardinality(r."qualityFlags") = 0)`;
+
+    // The latest reading is looked up per sensor so it is an index seek on
+    // (sensorId, timestamp) rather than a scan of the whole history
+    const rows = await this.prisma.$queryRaw<SensorReadingSummary[]>`
+      SELECT
+        s."id" AS "sensorId",
+        l."flowValue" AS "latestValue",
+        l."timestamp" AS "latestTimestamp",
+        w."average" AS "averageValue",
+        COALESCE(w."count", 0) AS "readingCount"
+      FROM "sensors" s
+      JOIN "networks" n ON n."id" = s."networkId"
+      CROSS JOIN LATERAL (
+        SELECT r."flowValue", r."timestamp"
+        FROM "sensor_readings" r
+        WHERE r."sensorId" = s."id"
+          AND r."timestamp" <= ${query.timestamp} ${quality}
+        ORDER BY r."timestamp" DESC
+        LIMIT 1
+      ) l
+      LEFT JOIN LATERAL (
+        SELECT AVG(r."flowValue") AS "average", COUNT(*)::int AS "count"
+        FROM "sensor_readings" r
+        WHERE r."sensorId" = s."id"
+          AND r."timestamp" BETWEEN ${start} AND ${query.timestamp} ${quality}
+      ) w ON TRUE
+      WHERE TRUE ${sensorFilter}
+    `;
+
+    return new Map(rows.map((row) => [row.sensorId, row]));
+  }
+
+  /**
+   * Bucketed time series per sensor over a time range. Every bucket of the
+   * range is returned, with buckets without readings either left as gaps or
+   * interpolated from their neighbours.
+   */
+  async aggregate(query: AggregateReadingsDto) {
+    const {
+      networkId,
+      sensorId,
+      sensorIds = [],
+      bucket = '15m',
+      fn = 'avg',
+      percentile,
+      fill = 'gap',
+    } = query;
+
+    const end = query.endDate ? new Date(query.endDate) : new Date();
+    const start = query.startDate
+      ? new Date(query.startDate)
+      : new Date(end.getTime() - this.DEFAULT_AGGREGATE_RANGE * 1000);
+    if (start >= end) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    // Align to the same bucket grid as the SQL (whole buckets since 2000-01-01)
+    const width = BUCKET_SECONDS[bucket] * 1000;
+    const origin = Date.UTC(2000, 0, 1);
+    const firstBucket =
+      origin + Math.floor((start.getTime() - origin) / width) * width;
+    const bucketCount = Math.ceil((end.getTime() - firstBucket) / width);
+    if (bucketCount > this.MAX_SERIES_POINTS) {
+      throw new BadRequestException(
+        `Time range spans ${bucketCount} buckets of ${bucket}; use a larger bucket or a shorter range (max ${this.MAX_SERIES_POINTS})`,
+      );
+    }
+
+    const codes = [...new Set([...(sensorId ? [sensorId] : []), ...sensorIds])];
+    const sensors = await this.prisma.sensor.findMany({
+      where: {
+        ...(networkId && { networkId }),
+        ...(codes.length > 0 && { sensorId: { in: codes } }),
+      },
+      select: { id: true, networkId: true, sensorId: true, sensorType: true },
+      orderBy: { sensorId: 'asc' },
+    });
+
+    const found = new Set(sensors.map((sensor) => sensor.sensorId));
+    const missing = codes.filter((code) => !found.has(code));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Sensors not found: ${missing.join(', ')}`);
+    }
+
+    const rows = await this.readingAggregates.aggregateSeries({
+      sensorIds: sensors.map((sensor) => sensor.id),
+      start,
+      end,
+      bucket,
+      fn,
+      percentile,
+    });
+
+    const rowsBySensor = new Map<string, SeriesBucket[]>();
+    for (const row of rows) {
+      const sensorRows = rowsBySensor.get(row.sensorId) ?? [];
+      sensorRows.push(row);
+      rowsBySensor.set(row.sensorId, sensorRows);
+    }
+
+    return {
+      bucket,
+      fn,
+      ...(fn === 'percentile' && { percentile: percentile ?? 50 }),
+      fill,
+      startDate: start,
+      endDate: end,
+      series: sensors.map((sensor) => {
+        const points: SeriesPoint[] = Array.from(
+          { length: bucketCount },
+          (_, i) => ({
+            timestamp: new Date(firstBucket + i * width),
+            value: null,
+            readingCount: 0,
+          }),
+        );
+        for (const row of rowsBySensor.get(sensor.id) ?? []) {
+          const point =
+            points[Math.round((row.bucket.getTime() - firstBucket) / width)];
+          if (point) {
+            point.value = row.value;
+            point.readingCount = row.readingCount;
+          }
+        }
+
+        return {
+          networkId: sensor.networkId,
+          sensorId: sensor.sensorId,
+          sensorType: sensor.sensorType,
+          unit: getSensorMeasurement(sensor.sensorType).unit,
+          points:
+            fill === 'interpolate' ? this.interpolateGaps(points) : points,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Fill gaps linearly between the nearest buckets with values on either
+   * side. Gaps before the first or after the last value stay empty.
+   */
+  private interpolateGaps(points: SeriesPoint[]): SeriesPoint[] {
+    let previous = -1;
+    for (let i = 0; i < points.length; i++) {
+      if (points[i].value === null) {
+        continue;
+      }
+
+      if (previous >= 0 && i - previous > 1) {
+        const from = points[previous].value!;
+        const to = points[i].value!;
+        for (let gap = previous + 1; gap < i; gap++) {
+          points[gap].value =
+            from + ((to - from) * (gap - previous)) / (i - previous);
+          points[gap].interpolated = true;
+        }
+      }
+      previous = i;
+    }
+
+    return points;
+  }
+
   async findOne(id: string) {
-    const reading = await this.prisma.sensorReading.findUnique({
+    // Readings are keyed on (id, timestamp), but IDs are unique on their own
+    const reading = await this.prisma.sensorReading.findFirst({
       where: { id },
       include: {
         network: true,
@@ -271,7 +574,7 @@ export class ReadingsService {
         !isFinite(reading.flowValue)
       ) {
         throw new BadRequestException(
-          `Invalid flow value for sensor ${reading.sensorId}: ${reading.flowValue}. Must be a finite number.`,
+          `Invalid value for sensor ${reading.sensorId}: ${reading.flowValue}. Must be a finite number.`,
         );
       }
 
@@ -290,10 +593,11 @@ export class ReadingsService {
         source,
       };
     });
+    const qualityFlags = await this.readingQuality.assess(data);
 
     // Batch insert using createMany for better performance
     await this.prisma.sensorReading.createMany({
-      data,
+      data: data.map((item, i) => ({ ...item, qualityFlags: qualityFlags[i] })),
       skipDuplicates: true,
     });
 
@@ -303,4 +607,3 @@ export class ReadingsService {
     };
   }
 }
-
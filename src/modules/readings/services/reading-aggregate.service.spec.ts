@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { ReadingAggregateService } from './reading-aggregate.service';
+
+function createService(hypertable: boolean) {
+  const queryRaw = jest.fn((strings: TemplateStringsArray) => {
+    const sql = strings.join('?');
+    if (sql.includes('pg_extension')) {
+      return Promise.resolve([{ enabled: hypertable }]);
+    }
+    if (sql.includes('timescaledb_information')) {
+      return Promise.resolve([{}]);
+    }
+    return Promise.resolve(sql.includes('"total"') ? [{ total: 0 }] : []);
+  });
+  const prisma = { $queryRaw: queryRaw } as unknown as PrismaService;
+  return { service: new ReadingAggregateService(prisma), queryRaw };
+}
+
+// Source the buckets query selects from
+function bucketSource(
+  queryRaw: ReturnType<typeof createService>['queryRaw'],
+): Prisma.Sql {
+  const calls = queryRaw.mock.calls as [TemplateStringsArray, ...unknown[]][];
+  const [, source] = calls.find(([strings]) =>
+    strings.join('?').includes('ORDER BY a."bucket" DESC'),
+  )!;
+  return source as Prisma.Sql;
+}
+
+describe('ReadingAggregateService', () => {
+  describe('findBuckets', () => {
+    const filter = {
+      sensorId: 's1',
+      start: new Date('2026-03-01T10:07:00Z'),
+      end: new Date('2026-03-01T10:52:00Z'),
+    };
+
+    it('reads the continuous aggregate with TimescaleDB', async () => {
+      const { service, queryRaw } = createService(true);
+
+      await service.findBuckets('15m', filter, { skip: 0, take: 10 });
+
+      expect(bucketSource(queryRaw).sql).toBe('"sensor_readings_15m"');
+    });
+
+    it('bins only the raw readings in range without it', async () => {
+      const { service, queryRaw } = createService(false);
+
+      await service.findBuckets('15m', filter, { skip: 0, take: 10 });
+
+      // The 10:15, 10:30 and 10:45 buckets
+      const source = bucketSource(queryRaw);
+      expect(source.sql).toContain('FROM "sensor_readings" r');
+      expect(source.values).toEqual([
+        '900 seconds',
+        's1',
+        new Date('2026-03-01T10:15:00Z'),
+        new Date('2026-03-01T11:00:00Z'),
+      ]);
+    });
+  });
+});
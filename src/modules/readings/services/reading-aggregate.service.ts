@@ -0,0 +1,363 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+
+export const READING_RESOLUTIONS = ['raw', '1m', '15m', '1h'] as const;
+export type ReadingResolution = (typeof READING_RESOLUTIONS)[number];
+export type AggregateResolution = Exclude<ReadingResolution, 'raw'>;
+
+// Aggregate views created by the timescale_readings migration
+const AGGREGATE_VIEWS: Record<
+  AggregateResolution,
+  { view: string; seconds: number }
+> = {
+  '1m': { view: 'sensor_readings_1m', seconds: 60 },
+  '15m': { view: 'sensor_readings_15m', seconds: 900 },
+  '1h': { view: 'sensor_readings_1h', seconds: 3600 },
+};
+
+export const BUCKET_SIZES = [
+  '1m',
+  '5m',
+  '15m',
+  '30m',
+  '1h',
+  '6h',
+  '1d',
+] as const;
+export type BucketSize = (typeof BUCKET_SIZES)[number];
+
+export const BUCKET_SECONDS: Record<BucketSize, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '30m': 1800,
+  '1h': 3600,
+  '6h': 21600,
+  '1d': 86400,
+};
+
+export const AGGREGATE_FUNCTIONS = [
+  'avg',
+  'min',
+  'max',
+  'sum',
+  'count',
+  'percentile',
+] as const;
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number];
+
+export const GAP_FILLS = ['gap', 'interpolate'] as const;
+export type GapFill = (typeof GAP_FILLS)[number];
+
+// Raw-reading expression for each function (percentile is added per query)
+const RAW_AGGREGATES: Record<
+  Exclude<AggregateFunction, 'percentile'>,
+  string
+> = {
+  avg: 'AVG(r."flowValue")',
+  min: 'MIN(r."flowValue")',
+  max: 'MAX(r."flowValue")',
+  sum: 'SUM(r."flowValue")',
+  count: 'COUNT(*)',
+};
+
+// The same functions rolled up from a finer aggregate view
+const ROLLUP_AGGREGATES: Record<
+  Exclude<AggregateFunction, 'percentile'>,
+  string
+> = {
+  avg: 'SUM(a."sumValue") / SUM(a."readingCount")',
+  min: 'MIN(a."minValue")',
+  max: 'MAX(a."maxValue")',
+  sum: 'SUM(a."sumValue")',
+  count: 'SUM(a."readingCount")',
+};
+
+// Buckets a window must span before averaging it from an aggregate; partial
+// buckets at the window edges then shift the result only slightly
+const MIN_BUCKETS_PER_WINDOW = 12;
+
+export interface ReadingBucketFilter {
+  networkId?: string;
+  sensorId?: string; // Sensor UUID
+  start?: Date;
+  end?: Date;
+}
+
+export interface SeriesQuery {
+  sensorIds: string[]; // Sensor UUIDs
+  start: Date;
+  end: Date;
+  bucket: BucketSize;
+  fn: AggregateFunction;
+  percentile?: number; // 0-100, for fn percentile
+}
+
+export interface SeriesBucket {
+  sensorId: string; // Sensor UUID
+  bucket: Date;
+  value: number;
+  readingCount: number;
+}
+
+export interface ReadingBucket {
+  networkId: string;
+  sensorId: string; // Sensor UUID
+  sensorCode: string;
+  sensorType: string;
+  bucket: Date;
+  avgValue: number;
+  minValue: number;
+  maxValue: number;
+  sumValue: number;
+  readingCount: number;
+}
+
+/**
+ * Reads the 1-minute, 15-minute and hourly reading aggregates. They are
+ * continuous aggregates with TimescaleDB. Otherwise they are plain views
+ * that bin the whole table, so buckets are computed here from the raw
+ * readings in the requested range instead.
+ */
+@Injectable()
+export class ReadingAggregateService {
+  private hypertable?: boolean;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findBuckets(
+    resolution: AggregateResolution,
+    filter: ReadingBucketFilter,
+    page: { skip: number; take: number },
+  ): Promise<{ data: ReadingBucket[]; total: number }> {
+    const view = (await this.isHypertable())
+      ? Prisma.raw(`"${AGGREGATE_VIEWS[resolution].view}"`)
+      : this.rawBuckets(AGGREGATE_VIEWS[resolution].seconds, filter);
+    const where = this.bucketWhere(filter);
+
+    const [data, [{ total }]] = await Promise.all([
+      this.prisma.$queryRaw<ReadingBucket[]>`
+        SELECT
+          a."networkId",
+          a."sensorId",
+          s."sensorId" AS "sensorCode",
+          s."sensorType"::text AS "sensorType",
+          a."bucket",
+          a."avgValue",
+          a."minValue",
+          a."maxValue",
+          a."sumValue",
+          a."readingCount"
+        FROM ${view} a
+        JOIN "sensors" s ON s."id" = a."sensorId"
+        ${where}
+        ORDER BY a."bucket" DESC, s."sensorId"
+        LIMIT ${page.take} OFFSET ${page.skip}
+      `,
+      this.prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS "total" FROM ${view} a ${where}
+      `,
+    ]);
+
+    return { data, total };
+  }
+
+  /**
+   * One value per sensor and bucket in [start, end). Buckets without readings
+   * are not returned. With TimescaleDB, everything except percentiles is
+   * rolled up from the coarsest aggregate view that divides the bucket.
+   */
+  async aggregateSeries(query: SeriesQuery): Promise<SeriesBucket[]> {
+    if (query.sensorIds.length === 0) {
+      return [];
+    }
+
+    const width = BUCKET_SECONDS[query.bucket];
+    const interval = `${width} seconds`;
+    const view =
+      query.fn !== 'percentile' && (await this.isHypertable())
+        ? (Object.keys(AGGREGATE_VIEWS) as AggregateResolution[])
+            .reverse()
+            .find(
+              (resolution) => width % AGGREGATE_VIEWS[resolution].seconds === 0,
+            )
+        : undefined;
+
+    if (view && query.fn !== 'percentile') {
+      return this.prisma.$queryRaw<SeriesBucket[]>`
+        SELECT
+          a."sensorId",
+          date_bin(${interval}::interval, a."bucket", TIMESTAMP '2000-01-01') AS "bucket",
+          (${Prisma.raw(ROLLUP_AGGREGATES[query.fn])})::float8 AS "value",
+          SUM(a."readingCount")::int AS "readingCount"
+        FROM ${Prisma.raw(`"${AGGREGATE_VIEWS[view].view}"`)} a
+        WHERE a."sensorId" IN (${Prisma.join(query.sensorIds)})
+          AND a."bucket" >= ${query.start}
+          AND a."bucket" < ${query.end}
+        GROUP BY a."sensorId", 2
+        ORDER BY a."sensorId", 2
+      `;
+    }
+
+    const aggregate =
+      query.fn === 'percentile'
+        ? Prisma.sql`percentile_cont(${(query.percentile ?? 50) / 100}) WITHIN GROUP (ORDER BY r."flowValue")`
+        : Prisma.raw(RAW_AGGREGATES[query.fn]);
+
+    return this.prisma.$queryRaw<SeriesBucket[]>`
+      SELECT
+        r."sensorId",
+        date_bin(${interval}::interval, r."timestamp", TIMESTAMP '2000-01-01') AS "bucket",
+        (${aggregate})::float8 AS "value",
+        COUNT(*)::int AS "readingCount"
+      FROM "sensor_readings" r
+      WHERE r."sensorId" IN (${Prisma.join(query.sensorIds)})
+        AND r."timestamp" >= ${query.start}
+        AND r."timestamp" < ${query.end}
+      GROUP BY r."sensorId", 2
+      ORDER BY r."sensorId", 2
+    `;
+  }
+
+  /**
+   * Average reading of each active sensor in a network over [start, end),
+   * keyed by sensor code. With TimescaleDB, long windows are averaged from
+   * the coarsest aggregate that still has enough buckets in them; otherwise
+   * raw readings are used, as the plain views would scan them anyway.
+   * Networks that exclude flagged readings always use raw readings, since
+   * the aggregates include them.
+   */
+  async getSensorAverages(
+    networkId: string,
+    start: Date,
+    end: Date,
+  ): Promise<Map<string, number>> {
+    const network = await this.prisma.network.findUnique({
+      where: { id: networkId },
+      select: { excludeFlaggedReadings: true },
+    });
+    const excludeFlagged = network?.excludeFlaggedReadings ?? false;
+
+    const resolution =
+      !excludeFlagged && (await this.isHypertable())
+        ? this.resolutionForWindow((end.getTime() - start.getTime()) / 1000)
+        : 'raw';
+
+    const rows =
+      resolution === 'raw'
+        ? await this.prisma.$queryRaw<
+            Array<{ sensorId: string; average: number }>
+          >`
+            SELECT s."sensorId", AVG(r."flowValue") AS "average"
+            FROM "sensor_readings" r
+            JOIN "sensors" s ON s."id" = r."sensorId"
+            WHERE r."networkId" = ${networkId}
+              AND s."isActive"
+              AND r."timestamp" >= ${start}
+              AND r."timestamp" < ${end}
+              ${excludeFlagged ? Prisma.sql`AND cardinality(r."qualityFlags") = 0` : Prisma.empty}
+            GROUP BY s."sensorId"
+          `
+        : await this.prisma.$queryRaw<
+            Array<{ sensorId: string; average: number }>
+          >`
+            SELECT s."sensorId", SUM(a."sumValue") / SUM(a."readingCount") AS "average"
+            FROM ${Prisma.raw(`"${AGGREGATE_VIEWS[resolution].view}"`)} a
+            JOIN "sensors" s ON s."id" = a."sensorId"
+            WHERE a."networkId" = ${networkId}
+              AND s."isActive"
+              AND a."bucket" >= ${start}
+              AND a."bucket" < ${end}
+            GROUP BY s."sensorId"
+          `;
+
+    return new Map(rows.map((row) => [row.sensorId, row.average]));
+  }
+
+  resolutionForWindow(windowSeconds: number): ReadingResolution {
+    const resolutions = Object.keys(AGGREGATE_VIEWS) as AggregateResolution[];
+    return (
+      resolutions
+        .reverse()
+        .find(
+          (resolution) =>
+            AGGREGATE_VIEWS[resolution].seconds * MIN_BUCKETS_PER_WINDOW <=
+            windowSeconds,
+        ) ?? 'raw'
+    );
+  }
+
+  /**
+   * Whether the readings table was turned into a TimescaleDB hypertable
+   */
+  async isHypertable(): Promise<boolean> {
+    if (this.hypertable === undefined) {
+      const [{ enabled }] = await this.prisma.$queryRaw<
+        Array<{ enabled: boolean }>
+      >`
+        SELECT EXISTS (
+          SELECT 1 FROM pg_extension WHERE extname = 'timescaledb'
+        ) AS "enabled"
+      `;
+
+      this.hypertable =
+        enabled &&
+        (
+          await this.prisma.$queryRaw<unknown[]>`
+            SELECT 1 FROM timescaledb_information.hypertables
+            WHERE hypertable_name = 'sensor_readings'
+          `
+        ).length > 0;
+    }
+
+    return this.hypertable;
+  }
+
+  /**
+   * Buckets of the given width computed from the raw readings, in the same
+   * shape as an aggregate view. Readings are filtered before they are
+   * binned, to exactly those in the buckets the filter selects.
+   */
+  private rawBuckets(seconds: number, filter: ReadingBucketFilter): Prisma.Sql {
+    const width = seconds * 1000;
+    const conditions = [
+      filter.networkId && Prisma.sql`r."networkId" = ${filter.networkId}`,
+      filter.sensorId && Prisma.sql`r."sensorId" = ${filter.sensorId}`,
+      // Buckets starting at or after start
+      filter.start &&
+        Prisma.sql`r."timestamp" >= ${new Date(Math.ceil(filter.start.getTime() / width) * width)}`,
+      // Buckets starting at or before end
+      filter.end &&
+        Prisma.sql`r."timestamp" < ${new Date((Math.floor(filter.end.getTime() / width) + 1) * width)}`,
+    ].filter((condition): condition is Prisma.Sql => !!condition);
+
+    return Prisma.sql`(
+      SELECT
+        date_bin(${`${seconds} seconds`}::interval, r."timestamp", TIMESTAMP '2000-01-01') AS "bucket",
+        r."networkId",
+        r."sensorId",
+        AVG(r."flowValue") AS "avgValue",
+        MIN(r."flowValue") AS "minValue",
+        MAX(r."flowValue") AS "maxValue",
+        SUM(r."flowValue") AS "sumValue",
+        COUNT(*)::int AS "readingCount"
+      FROM "sensor_readings" r
+      ${conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+      GROUP BY 1, r."networkId", r."sensorId"
+    )`;
+  }
+
+  private bucketWhere(filter: ReadingBucketFilter): Prisma.Sql {
+    const conditions = [
+      filter.networkId && Prisma.sql`a."networkId" = ${filter.networkId}`,
+      filter.sensorId && Prisma.sql`a."sensorId" = ${filter.sensorId}`,
+      filter.start && Prisma.sql`a."bucket" >= ${filter.start}`,
+      filter.end && Prisma.sql`a."bucket" <= ${filter.end}`,
+    ].filter((condition): condition is Prisma.Sql => !!condition);
+
+    return conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+  }
+}
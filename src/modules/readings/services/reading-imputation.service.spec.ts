@@ -0,0 +1,103 @@
+import { ImputationMethod } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { ReadingImputationService } from './reading-imputation.service';
+
+const T0 = new Date('2026-01-01T00:00:00Z').getTime();
+const at = (minutes: number) => new Date(T0 + minutes * 60 * 1000);
+
+// Window of 20 minutes starting at T0
+const start = at(0);
+const end = at(20);
+
+function createService() {
+  const queryRaw = jest.fn();
+  const prisma = { $queryRaw: queryRaw } as unknown as PrismaService;
+  return { service: new ReadingImputationService(prisma), queryRaw };
+}
+
+describe('ReadingImputationService', () => {
+  it('imputes nothing for NONE or without sensors', async () => {
+    const { service, queryRaw } = createService();
+
+    expect(
+      await service.impute(['s1'], start, end, {
+        method: ImputationMethod.NONE,
+        maxAge: 3600,
+      }),
+    ).toEqual(new Map());
+    expect(
+      await service.impute([], start, end, {
+        method: ImputationMethod.LOCF,
+        maxAge: 3600,
+      }),
+    ).toEqual(new Map());
+    expect(queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('carries the last reading forward with LOCF', async () => {
+    const { service, queryRaw } = createService();
+    queryRaw.mockResolvedValueOnce([
+      { sensorId: 's1', value: 4, timestamp: at(-5) },
+    ]);
+
+    const imputed = await service.impute(['s1', 's2'], start, end, {
+      method: ImputationMethod.LOCF,
+      maxAge: 3600,
+    });
+
+    expect(imputed).toEqual(
+      new Map([['s1', { value: 4, method: ImputationMethod.LOCF }]]),
+    );
+    expect(queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('interpolates to the middle of the window with LINEAR', async () => {
+    const { service, queryRaw } = createService();
+    queryRaw
+      .mockResolvedValueOnce([
+        { sensorId: 's1', value: 2, timestamp: at(-10) },
+        { sensorId: 's2', value: 7, timestamp: at(-10) },
+      ])
+      .mockResolvedValueOnce([{ sensorId: 's1', value: 8, timestamp: at(30) }]);
+
+    const imputed = await service.impute(['s1', 's2'], start, end, {
+      method: ImputationMethod.LINEAR,
+      maxAge: 3600,
+    });
+
+    // Halfway from -10 to 30 minutes; s2 has no reading after the gap yet
+    expect(imputed).toEqual(
+      new Map([
+        ['s1', { value: 5, method: ImputationMethod.LINEAR }],
+        ['s2', { value: 7, method: ImputationMethod.LOCF }],
+      ]),
+    );
+  });
+
+  it('imputes nothing without a reading before the gap', async () => {
+    const { service, queryRaw } = createService();
+    queryRaw.mockResolvedValueOnce([]);
+
+    expect(
+      await service.impute(['s1'], start, end, {
+        method: ImputationMethod.LINEAR,
+        maxAge: 3600,
+      }),
+    ).toEqual(new Map());
+    expect(queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('averages earlier days with SEASONAL', async () => {
+    const { service, queryRaw } = createService();
+    queryRaw.mockResolvedValueOnce([{ sensorId: 's1', average: 3.5 }]);
+
+    expect(
+      await service.impute(['s1'], start, end, {
+        method: ImputationMethod.SEASONAL,
+        maxAge: 3600,
+      }),
+    ).toEqual(
+      new Map([['s1', { value: 3.5, method: ImputationMethod.SEASONAL }]]),
+    );
+  });
+});
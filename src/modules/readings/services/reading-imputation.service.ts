@@ -0,0 +1,142 @@
+import { Injectable } from '@nestjs/common';
+import { ImputationMethod, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ImputationOptions {
+  method: ImputationMethod;
+  maxAge: number; // Seconds a reading may be carried forward or interpolated from
+  excludeFlagged?: boolean; // Skip readings with quality flags
+}
+
+export interface ImputedValue {
+  value: number; // Estimated mean over the window
+  method: ImputationMethod; // Method that produced the value
+}
+
+interface NeighbourReading {
+  sensorId: string;
+  value: number;
+  timestamp: Date;
+}
+
+/**
+ * Estimates the mean reading of sensors over a window they have no readings
+ * in, from the readings around the gap or from earlier days.
+ */
+@Injectable()
+export class ReadingImputationService {
+  private readonly SEASONAL_DAYS = 7; // Days of history in a seasonal profile
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Imputed mean over [start, end] for each sensor UUID that has an estimate.
+   * LINEAR falls back to LOCF while no reading after the gap exists yet.
+   */
+  async impute(
+    sensorIds: string[],
+    start: Date,
+    end: Date,
+    options: ImputationOptions,
+  ): Promise<Map<string, ImputedValue>> {
+    if (sensorIds.length === 0 || options.method === ImputationMethod.NONE) {
+      return new Map();
+    }
+
+    if (options.method === ImputationMethod.SEASONAL) {
+      return this.imputeSeasonal(sensorIds, start, end, options);
+    }
+
+    const maxAge = options.maxAge * 1000;
+    const quality = this.qualityFilter(options);
+    const previous = await this.prisma.$queryRaw<NeighbourReading[]>`
+      SELECT DISTINCT ON (r."sensorId") r."sensorId", r."flowValue" AS "value", r."timestamp"
+      FROM "sensor_readings" r
+      WHERE r."sensorId" IN (${Prisma.join(sensorIds)})
+        AND r."timestamp" < ${start}
+        AND r."timestamp" >= ${new Date(end.getTime() - maxAge)} ${quality}
+      ORDER BY r."sensorId", r."timestamp" DESC
+    `;
+
+    const next =
+      options.method === ImputationMethod.LINEAR && previous.length > 0
+        ? await this.prisma.$queryRaw<NeighbourReading[]>`
+            SELECT DISTINCT ON (r."sensorId") r."sensorId", r."flowValue" AS "value", r."timestamp"
+            FROM "sensor_readings" r
+            WHERE r."sensorId" IN (${Prisma.join(previous.map((p) => p.sensorId))})
+              AND r."timestamp" > ${end}
+              AND r."timestamp" <= ${new Date(start.getTime() + maxAge)} ${quality}
+            ORDER BY r."sensorId", r."timestamp" ASC
+          `
+        : [];
+    const nextBySensor = new Map(
+      next.map((reading) => [reading.sensorId, reading]),
+    );
+
+    // Interpolated at the middle of the window, where a linear mean lies
+    const middle = (start.getTime() + end.getTime()) / 2;
+    const imputed = new Map<string, ImputedValue>();
+    for (const before of previous) {
+      const after = nextBySensor.get(before.sensorId);
+      if (!after) {
+        imputed.set(before.sensorId, {
+          value: before.value,
+          method: ImputationMethod.LOCF,
+        });
+        continue;
+      }
+
+      const from = before.timestamp.getTime();
+      const to = after.timestamp.getTime();
+      imputed.set(before.sensorId, {
+        value:
+          before.value +
+          ((after.value - before.value) * (middle - from)) / (to - from),
+        method: ImputationMethod.LINEAR,
+      });
+    }
+
+    return imputed;
+  }
+
+  /**
+   * Mean of each sensor's readings in the same window on each of the
+   * previous days.
+   */
+  private async imputeSeasonal(
+    sensorIds: string[],
+    start: Date,
+    end: Date,
+    options: ImputationOptions,
+  ): Promise<Map<string, ImputedValue>> {
+    const windows = Array.from({ length: this.SEASONAL_DAYS }, (_, i) => {
+      const offset = (i + 1) * DAY_MS;
+      return Prisma.sql`(r."timestamp" BETWEEN ${new Date(start.getTime() - offset)} AND ${new Date(end.getTime() - offset)})`;
+    });
+
+    const rows = await this.prisma.$queryRaw<
+      Array<{ sensorId: string; average: number }>
+    >`
+      SELECT r."sensorId", AVG(r."flowValue") AS "average"
+      FROM "sensor_readings" r
+      WHERE r."sensorId" IN (${Prisma.join(sensorIds)})
+        AND (${Prisma.join(windows, ' OR ')}) ${this.qualityFilter(options)}
+      GROUP BY r."sensorId"
+    `;
+
+    return new Map(
+      rows.map((row) => [
+        row.sensorId,
+        { value: row.average, method: ImputationMethod.SEASONAL },
+      ]),
+    );
+  }
+
+  private qualityFilter(options: ImputationOptions): Prisma.Sql {
+    return options.excludeFlagged
+      ? Prisma.sql`AND cardinality(r."qualityFlags") = 0`
+      : Prisma.empty;
+  }
+}
@@ -0,0 +1,283 @@
+import { ReadingQualityFlag, SensorType } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { ReadingQualityService } from './reading-quality.service';
+
+const T0 = new Date('2026-01-01T00:00:00Z').getTime();
+const at = (seconds: number) => new Date(T0 + seconds * 1000);
+
+interface StoredReading {
+  flowValue: number;
+  timestamp: Date;
+  qualityFlags: ReadingQualityFlag[];
+}
+
+function createService(
+  sensor: Partial<{
+    sensorType: SensorType;
+    minValue: number | null;
+    maxValue: number | null;
+    maxRateOfChange: number | null;
+    flatlineSeconds: number | null;
+  }> = {},
+  history: StoredReading[] = [],
+) {
+  const prisma = {
+    sensor: {
+      findMany: jest.fn().mockResolvedValue([
+        {
+          id: 's1',
+          sensorType: SensorType.MAINLINE_FLOW,
+          minValue: null,
+          maxValue: null,
+          maxRateOfChange: null,
+          flatlineSeconds: null,
+          ...sensor,
+        },
+      ]),
+    },
+    sensorReading: {
+      findMany: jest
+        .fn()
+        .mockResolvedValue(
+          history.map((reading) => ({ sensorId: 's1', ...reading })),
+        ),
+    },
+    $queryRaw: jest
+      .fn()
+      .mockResolvedValue(
+        history.length > 0
+          ? [{ sensorId: 's1', timestamp: history.at(-1)!.timestamp }]
+          : [],
+      ),
+  };
+  return new ReadingQualityService(prisma as unknown as PrismaService);
+}
+
+const stored = (
+  seconds: number,
+  flowValue: number,
+  qualityFlags: ReadingQualityFlag[] = [],
+): StoredReading => ({ flowValue, timestamp: at(seconds), qualityFlags });
+
+const incoming = (seconds: number, flowValue: number) => ({
+  sensorId: 's1',
+  flowValue,
+  timestamp: at(seconds),
+});
+
+describe('ReadingQualityService', () => {
+  it('passes plausible readings without flags', async () => {
+    const service = createService({}, [stored(0, 5)]);
+
+    expect(
+      await service.assess([incoming(60, 5.5), incoming(120, 6)], at(3600)),
+    ).toEqual([[], []]);
+  });
+
+  it('flags timestamps ahead of now', async () => {
+    const service = createService();
+
+    expect(
+      await service.assess([incoming(30, 1), incoming(120, 1)], at(0)),
+    ).toEqual([[], [ReadingQualityFlag.FUTURE_TIMESTAMP]]);
+  });
+
+  it('does not order later readings after a future timestamp', async () => {
+    const service = createService();
+
+    expect(
+      await service.assess([incoming(7200, 1), incoming(60, 1)], at(0)),
+    ).toEqual([[ReadingQualityFlag.FUTURE_TIMESTAMP], []]);
+  });
+
+  it('flags duplicates of stored and earlier listed readings', async () => {
+    const service = createService({}, [stored(0, 5)]);
+
+    expect(
+      await service.assess(
+        [incoming(0, 5), incoming(60, 5), incoming(60, 5)],
+        at(3600),
+      ),
+    ).toEqual([
+      [ReadingQualityFlag.DUPLICATE],
+      [],
+      [ReadingQualityFlag.DUPLICATE],
+    ]);
+  });
+
+  it('flags readings older than the latest one', async () => {
+    const service = createService({}, [stored(600, 5)]);
+
+    expect(
+      await service.assess([incoming(300, 5), incoming(900, 5)], at(3600)),
+    ).toEqual([[ReadingQualityFlag.OUT_OF_ORDER], []]);
+  });
+
+  it('flags values outside the sensor range', async () => {
+    const service = createService({ maxValue: 10 });
+
+    expect(
+      await service.assess(
+        [incoming(0, -1), incoming(60, 12), incoming(120, 8)],
+        at(3600),
+      ),
+    ).toEqual([
+      [ReadingQualityFlag.OUT_OF_RANGE],
+      [ReadingQualityFlag.OUT_OF_RANGE],
+      [],
+    ]);
+  });
+
+  it('flags changes faster than the sensor allows', async () => {
+    // At most 0.1 per second: a 9 unit jump over 60 s is too fast
+    const service = createService({ maxRateOfChange: 0.1 }, [stored(0, 1)]);
+
+    expect(
+      await service.assess([incoming(60, 10), incoming(120, 2)], at(3600)),
+    ).toEqual([[ReadingQualityFlag.RATE_OF_CHANGE], []]);
+  });
+
+  it('skips suspect values when checking the rate of change', async () => {
+    const service = createService({ maxRateOfChange: 0.1 }, [
+      stored(0, 1),
+      stored(60, 50, [ReadingQualityFlag.OUT_OF_RANGE]),
+    ]);
+
+    expect(await service.assess([incoming(120, 2)], at(3600))).toEqual([[]]);
+  });
+
+  it('checks the rate of change in time order', async () => {
+    const service = createService({ maxRateOfChange: 0.1 }, [stored(0, 1)]);
+
+    // The second reading comes first in time and jumps from the stored one;
+    // the first is then checked against the stored one, skipping the jump
+    expect(
+      await service.assess([incoming(120, 2), incoming(60, 20)], at(3600)),
+    ).toEqual([
+      [],
+      [ReadingQualityFlag.OUT_OF_ORDER, ReadingQualityFlag.RATE_OF_CHANGE],
+    ]);
+  });
+
+  it('flags values unchanged for the flatline time', async () => {
+    const service = createService({ flatlineSeconds: 300 }, [
+      stored(0, 5),
+      stored(120, 5),
+      stored(240, 5),
+    ]);
+
+    expect(
+      await service.assess([incoming(290, 5), incoming(300, 5)], at(3600)),
+    ).toEqual([[], [ReadingQualityFlag.FLATLINE]]);
+  });
+
+  it('restarts the flatline time when the value changes', async () => {
+    const service = createService({ flatlineSeconds: 300 }, [
+      stored(0, 5),
+      stored(120, 6),
+      stored(240, 5),
+    ]);
+
+    expect(await service.assess([incoming(300, 5)], at(3600))).toEqual([[]]);
+  });
+
+  it('reads history and latest timestamps for all sensors at once', async () => {
+    const sensor = (id: string) => ({
+      id,
+      sensorType: SensorType.MAINLINE_FLOW,
+      minValue: null,
+      maxValue: null,
+      maxRateOfChange: null,
+      flatlineSeconds: null,
+    });
+    const prisma = {
+      sensor: {
+        findMany: jest.fn().mockResolvedValue([sensor('s1'), sensor('s2')]),
+      },
+      sensorReading: {
+        findMany: jest.fn().mockResolvedValue([
+          { sensorId: 's1', ...stored(0, 5) },
+          { sensorId: 's2', ...stored(60, 5) },
+        ]),
+      },
+      $queryRaw: jest.fn().mockResolvedValue([
+        { sensorId: 's1', timestamp: at(0) },
+        { sensorId: 's2', timestamp: at(600) },
+      ]),
+    };
+    const service = new ReadingQualityService(
+      prisma as unknown as PrismaService,
+    );
+
+    expect(
+      await service.assess(
+        [
+          incoming(0, 5),
+          { ...incoming(60, 5), sensorId: 's2' },
+          { ...incoming(300, 5), sensorId: 's2' },
+          incoming(300, 5),
+        ],
+        at(3600),
+      ),
+    ).toEqual([
+      [ReadingQualityFlag.DUPLICATE],
+      [ReadingQualityFlag.DUPLICATE],
+      [ReadingQualityFlag.OUT_OF_ORDER],
+      [],
+    ]);
+    expect(prisma.sensorReading.findMany).toHaveBeenCalledTimes(1);
+    expect(prisma.sensorReading.findMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { sensorId: 's1', timestamp: { gte: at(-3600), lte: at(300) } },
+          { sensorId: 's2', timestamp: { gte: at(-3540), lte: at(300) } },
+        ],
+      },
+      select: {
+        sensorId: true,
+        flowValue: true,
+        timestamp: true,
+        qualityFlags: true,
+      },
+      orderBy: { timestamp: 'asc' },
+    });
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores stored future readings for the latest timestamp', async () => {
+    const queryRaw = jest.fn().mockResolvedValue([]);
+    const prisma = {
+      sensor: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 's1',
+            sensorType: SensorType.MAINLINE_FLOW,
+            minValue: null,
+            maxValue: null,
+            maxRateOfChange: null,
+            flatlineSeconds: null,
+          },
+        ]),
+      },
+      sensorReading: { findMany: jest.fn().mockResolvedValue([]) },
+      $queryRaw: queryRaw,
+    };
+    const service = new ReadingQualityService(
+      prisma as unknown as PrismaService,
+    );
+
+    await service.assess([incoming(60, 1)], at(0));
+
+    // Up to the clock skew ahead of now, and never flagged as future
+    const [strings, ...values] = queryRaw.mock.calls[0] as [
+      TemplateStringsArray,
+      ...unknown[],
+    ];
+    expect(strings.join('?')).toContain('r."timestamp" <= ?');
+    expect(strings.join('?')).toContain('= ANY(r."qualityFlags")');
+    expect(values.slice(1)).toEqual([
+      at(60),
+      ReadingQualityFlag.FUTURE_TIMESTAMP,
+    ]);
+  });
+});
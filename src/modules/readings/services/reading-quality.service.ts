@@ -0,0 +1,266 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, ReadingQualityFlag } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import {
+  getSensorMeasurement,
+  SensorQuantity,
+} from '../../../common/utils/sensor-measurement.util';
+
+export interface IncomingReading {
+  sensorId: string; // Sensor UUID
+  flowValue: number; // Canonical unit
+  timestamp: Date;
+}
+
+const QUALITY_SENSOR_SELECT = {
+  id: true,
+  sensorType: true,
+  minValue: true,
+  maxValue: true,
+  maxRateOfChange: true,
+  flatlineSeconds: true,
+} satisfies Prisma.SensorSelect;
+
+type QualitySensor = Prisma.SensorGetPayload<{
+  select: typeof QUALITY_SENSOR_SELECT;
+}>;
+
+interface KnownReading {
+  time: number; // Epoch milliseconds
+  value: number;
+  flags: ReadingQualityFlag[];
+}
+
+// Negative flows and tank levels are not physically possible
+const DEFAULT_MIN_VALUES: Partial<Record<SensorQuantity, number>> = {
+  FLOW: 0,
+  LEVEL: 0,
+};
+
+// Flagged values that should not serve as the previous value for a rate check
+const SUSPECT_VALUE_FLAGS: ReadingQualityFlag[] = [
+  ReadingQualityFlag.OUT_OF_RANGE,
+  ReadingQualityFlag.RATE_OF_CHANGE,
+];
+
+/**
+ * Checks readings on ingest against each sensor's plausible range, rate of
+ * change and flatline time, and against the readings the sensor already
+ * has for duplicates and out-of-order timestamps. Readings are stored with
+ * their flags rather than rejected.
+ */
+@Injectable()
+export class ReadingQualityService {
+  private readonly MAX_CLOCK_SKEW = 60 * 1000; // ms a timestamp may be ahead of now
+  private readonly HISTORY_WINDOW = 3600; // Seconds of history read for rate checks
+  private readonly FLATLINE_TOLERANCE = 1e-9;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Quality flags for each reading, in the order given. Readings earlier in
+   * the list count as history for duplicate and ordering checks, and
+   * readings earlier in time for rate of change and flatline checks.
+   */
+  async assess(
+    readings: IncomingReading[],
+    now: Date = new Date(),
+  ): Promise<ReadingQualityFlag[][]> {
+    const sensors = await this.prisma.sensor.findMany({
+      where: { id: { in: [...new Set(readings.map((r) => r.sensorId))] } },
+      select: QUALITY_SENSOR_SELECT,
+    });
+
+    const flags: ReadingQualityFlag[][] = readings.map(() => []);
+    if (sensors.length === 0) {
+      return flags;
+    }
+
+    const indicesBySensor = new Map<string, number[]>(
+      sensors.map((sensor) => [sensor.id, []]),
+    );
+    readings.forEach((reading, i) =>
+      indicesBySensor.get(reading.sensorId)?.push(i),
+    );
+
+    // History around each sensor's readings and each sensor's latest stored
+    // timestamp, for all sensors at once. Readings stamped in the future do
+    // not count as the latest, or every reading after them would be out of
+    // order until the clock caught up.
+    const [history, latest] = await Promise.all([
+      this.prisma.sensorReading.findMany({
+        where: {
+          OR: sensors.map((sensor) => {
+            const times = indicesBySensor
+              .get(sensor.id)!
+              .map((i) => readings[i].timestamp.getTime());
+            const lookback =
+              Math.max(sensor.flatlineSeconds ?? 0, this.HISTORY_WINDOW) * 1000;
+            return {
+              sensorId: sensor.id,
+              timestamp: {
+                gte: new Date(Math.min(...times) - lookback),
+                lte: new Date(Math.max(...times)),
+              },
+            };
+          }),
+        },
+        select: {
+          sensorId: true,
+          flowValue: true,
+          timestamp: true,
+          qualityFlags: true,
+        },
+        orderBy: { timestamp: 'asc' },
+      }),
+      this.prisma.$queryRaw<{ sensorId: string; timestamp: Date }[]>`
+        SELECT DISTINCT ON (r."sensorId") r."sensorId", r."timestamp"
+        FROM "sensor_readings" r
+        WHERE r."sensorId" IN (${Prisma.join(sensors.map((sensor) => sensor.id))})
+          AND r."timestamp" <= ${new Date(now.getTime() + this.MAX_CLOCK_SKEW)}
+          AND NOT (${ReadingQualityFlag.FUTURE_TIMESTAMP}::"ReadingQualityFlag" = ANY(r."qualityFlags"))
+        ORDER BY r."sensorId", r."timestamp" DESC
+      `,
+    ]);
+
+    const historyBySensor = new Map<string, KnownReading[]>(
+      sensors.map((sensor) => [sensor.id, []]),
+    );
+    for (const reading of history) {
+      historyBySensor.get(reading.sensorId)?.push({
+        time: reading.timestamp.getTime(),
+        value: reading.flowValue,
+        flags: reading.qualityFlags,
+      });
+    }
+    const latestBySensor = new Map(
+      latest.map((reading) => [reading.sensorId, reading.timestamp.getTime()]),
+    );
+
+    for (const sensor of sensors) {
+      const indices = indicesBySensor.get(sensor.id)!;
+      const sensorFlags = this.assessSensor(
+        sensor,
+        indices.map((i) => readings[i]),
+        historyBySensor.get(sensor.id)!,
+        latestBySensor.get(sensor.id) ?? -Infinity,
+        now,
+      );
+      indices.forEach((index, i) => (flags[index] = sensorFlags[i]));
+    }
+
+    return flags;
+  }
+
+  /**
+   * Flags for one sensor's readings, given its stored readings around them
+   * in time order and the time of its latest stored reading.
+   */
+  private assessSensor(
+    sensor: QualitySensor,
+    readings: IncomingReading[],
+    known: KnownReading[],
+    latestTime: number,
+    now: Date,
+  ): ReadingQualityFlag[][] {
+    const times = readings.map((reading) => reading.timestamp.getTime());
+    const knownTimes = new Set(known.map((reading) => reading.time));
+
+    const quantity = getSensorMeasurement(sensor.sensorType).quantity;
+    const minValue = sensor.minValue ?? DEFAULT_MIN_VALUES[quantity];
+    const maxValue = sensor.maxValue;
+
+    // Checks against stored readings and earlier readings in the list
+    const flags = readings.map((reading, i) => {
+      const time = times[i];
+      const readingFlags: ReadingQualityFlag[] = [];
+
+      const future = time > now.getTime() + this.MAX_CLOCK_SKEW;
+      if (future) {
+        readingFlags.push(ReadingQualityFlag.FUTURE_TIMESTAMP);
+      }
+
+      if (knownTimes.has(time)) {
+        readingFlags.push(ReadingQualityFlag.DUPLICATE);
+      } else if (time < latestTime) {
+        readingFlags.push(ReadingQualityFlag.OUT_OF_ORDER);
+      }
+      knownTimes.add(time);
+      if (!future) {
+        latestTime = Math.max(latestTime, time);
+      }
+
+      if (
+        (minValue !== undefined && reading.flowValue < minValue) ||
+        (maxValue !== null && reading.flowValue > maxValue)
+      ) {
+        readingFlags.push(ReadingQualityFlag.OUT_OF_RANGE);
+      }
+
+      return readingFlags;
+    });
+
+    if (sensor.maxRateOfChange === null && sensor.flatlineSeconds === null) {
+      return flags;
+    }
+
+    // Checks against the readings before each one in time: walk the readings
+    // in time order, merging in the stored history as it is passed
+    const order = times
+      .map((_, i) => i)
+      .sort((a, b) => times[a] - times[b] || a - b);
+    const timeline: KnownReading[] = [];
+    let next = 0;
+
+    for (const i of order) {
+      const time = times[i];
+      const value = readings[i].flowValue;
+      while (next < known.length && known[next].time < time) {
+        timeline.push(known[next++]);
+      }
+
+      // Readings before this one, from the newest
+      let end = timeline.length;
+      while (end > 0 && timeline[end - 1].time >= time) {
+        end--;
+      }
+
+      if (sensor.maxRateOfChange !== null) {
+        let previous = end - 1;
+        while (
+          previous >= 0 &&
+          timeline[previous].flags.some((flag) =>
+            SUSPECT_VALUE_FLAGS.includes(flag),
+          )
+        ) {
+          previous--;
+        }
+        if (
+          previous >= 0 &&
+          Math.abs(value - timeline[previous].value) /
+            ((time - timeline[previous].time) / 1000) >
+            sensor.maxRateOfChange
+        ) {
+          flags[i].push(ReadingQualityFlag.RATE_OF_CHANGE);
+        }
+      }
+
+      if (sensor.flatlineSeconds !== null) {
+        let since = time;
+        for (let k = end - 1; k >= 0; k--) {
+          if (Math.abs(timeline[k].value - value) > this.FLATLINE_TOLERANCE) {
+            break;
+          }
+          since = timeline[k].time;
+        }
+        if (time - since >= sensor.flatlineSeconds * 1000) {
+          flags[i].push(ReadingQualityFlag.FLATLINE);
+        }
+      }
+
+      timeline.push({ time, value, flags: flags[i] });
+    }
+
+    return flags;
+  }
+}
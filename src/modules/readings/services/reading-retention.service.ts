@@ -0,0 +1,103 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { ReadingAggregateService } from './reading-aggregate.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Applies each network's reading retention and compression settings.
+ * Runs hourly while the application is up.
+ */
+@Injectable()
+export class ReadingRetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReadingRetentionService.name);
+  private readonly POLICY_INTERVAL_MS = 60 * 60 * 1000;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly readingAggregates: ReadingAggregateService,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      this.applyPolicies().catch((error) =>
+        this.logger.error(
+          `Applying reading policies failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }, this.POLICY_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async applyPolicies(now = new Date()): Promise<void> {
+    const networks = await this.prisma.network.findMany({
+      where: {
+        OR: [
+          { readingRetentionDays: { not: null } },
+          { readingCompressionDays: { not: null } },
+        ],
+      },
+      select: {
+        id: true,
+        readingRetentionDays: true,
+        readingCompressionDays: true,
+      },
+    });
+
+    for (const network of networks) {
+      if (network.readingRetentionDays === null) {
+        continue;
+      }
+
+      const { count } = await this.prisma.sensorReading.deleteMany({
+        where: {
+          networkId: network.id,
+          timestamp: {
+            lt: new Date(now.getTime() - network.readingRetentionDays * DAY_MS),
+          },
+        },
+      });
+
+      if (count > 0) {
+        this.logger.log(
+          `Deleted ${count} readings past retention for network ${network.id}`,
+        );
+      }
+    }
+
+    // Chunks hold readings of every network, so a chunk is only compressed
+    // once it is older than the longest compression setting
+    const compressionDays = networks
+      .map((network) => network.readingCompressionDays)
+      .filter((days): days is number => days !== null);
+    if (
+      compressionDays.length > 0 &&
+      (await this.readingAggregates.isHypertable())
+    ) {
+      const days = Math.max(...compressionDays);
+      const compressed = await this.prisma.$queryRaw<unknown[]>`
+        SELECT compress_chunk(format('%I.%I', chunk_schema, chunk_name)::regclass)
+        FROM timescaledb_information.chunks
+        WHERE hypertable_name = 'sensor_readings'
+          AND NOT is_compressed
+          AND range_end < ${new Date(now.getTime() - days * DAY_MS)}
+      `;
+
+      if (compressed.length > 0) {
+        this.logger.log(
+          `Compressed ${compressed.length} reading chunk(s) older than ${days} days`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ScenarioLeakDto {
+  @ApiProperty({
+    description: 'Network node UUID where the leak is injected',
+    example: 'uuid-here',
+  })
+  @IsUUID()
+  nodeId: string;
+
+  @ApiProperty({
+    description: 'Leak size in L/s',
+    example: 4.0,
+    minimum: 0.01,
+  })
+  @IsNumber()
+  @Min(0.01)
+  leakFlow: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Seconds after the scenario start at which the leak begins (default: half the duration)',
+    example: 43200,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  startOffset?: number;
+}
+
+export class CreateScenarioDto {
+  @ApiProperty({
+    description: 'Network whose model generates the readings',
+    example: 'uuid-here',
+  })
+  @IsString()
+  networkId: string;
+
+  @ApiPropertyOptional({ example: 'Two leaks, 1% noise' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Leaks at chosen nodes',
+    type: [ScenarioLeakDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ScenarioLeakDto)
+  leaks?: ScenarioLeakDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Leaks to add at random nodes, starting at random times in the second half of the scenario (default: 0)',
+    example: 2,
+    minimum: 0,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  randomLeakCount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Smallest random leak size in L/s (default: 2.0)',
+    example: 2.0,
+    minimum: 0.01,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  randomLeakFlowMin?: number;
+
+  @ApiPropertyOptional({
+    description: 'Largest random leak size in L/s (default: 10.0)',
+    example: 10.0,
+    minimum: 0.01,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  randomLeakFlowMax?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Seed for random leaks, noise, drift and gaps. The same seed gives the same readings (default: random)',
+    example: 42,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  seed?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Start of the synthetic readings (default: the duration before now). The network must have no readings in the scenario period',
+    example: '2026-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'Length of the scenario in seconds (default: 86400 = 1 day)',
+    example: 86400,
+    minimum: 3600,
+    maximum: 604800,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(3600)
+  @Max(604800)
+  durationSeconds?: number;
+
+  @ApiPropertyOptional({
+    description: 'Seconds between synthetic readings (default: 60)',
+    example: 60,
+    minimum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  intervalSeconds?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Standard deviation of flow sensor noise in L/s (default: 0.05)',
+    example: 0.05,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  flowNoise?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Standard deviation of pressure and level sensor noise in m (default: 0.1)',
+    example: 0.1,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  pressureNoise?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Largest sensor drift as a fraction of the value per day. Each sensor drifts at a random rate up to this (default: 0)',
+    example: 0.01,
+    minimum: 0,
+    maximum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  driftRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of readings dropped at random (default: 0)',
+    example: 0.05,
+    minimum: 0,
+    maximum: 0.9,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.9)
+  missingRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Detection threshold in L/s (default: 5.0)',
+    example: 5.0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  threshold?: number;
+
+  @ApiPropertyOptional({
+    description: 'Detection time window in seconds (default: 300)',
+    example: 300,
+    minimum: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  timeWindow?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Baseline window in seconds used to localize detections (default: 3600)',
+    example: 3600,
+    minimum: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  baselineTimeWindow?: number;
+
+  @ApiPropertyOptional({
+    description: 'Seconds between detection runs (default: 900)',
+    example: 900,
+    minimum: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  detectionInterval?: number;
+}
@@ -0,0 +1,145 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ScenarioStatus } from '@prisma/client';
+
+export class ScenarioLeakResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  nodeId: string;
+
+  @ApiProperty({ example: 4.0, description: 'Leak size in L/s' })
+  leakFlow: number;
+
+  @ApiProperty({ example: '2026-01-01T12:00:00.000Z' })
+  startAt: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Time of the first detection run after the leak started that raised a detection',
+    example: '2026-01-01T12:15:00.000Z',
+  })
+  detectedAt?: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Best rank of the leak node in the localizations of that run, 1 being the top candidate',
+    example: 1,
+  })
+  localizationRank?: number;
+}
+
+export class ScenarioResponseDto {
+  @ApiProperty({ example: 'uuid-here' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-here' })
+  networkId: string;
+
+  @ApiPropertyOptional({ example: 'Two leaks, 1% noise' })
+  name?: string;
+
+  @ApiProperty({ enum: ScenarioStatus, example: ScenarioStatus.COMPLETED })
+  status: ScenarioStatus;
+
+  @ApiProperty({ example: 42 })
+  seed: number;
+
+  @ApiProperty({ example: '2026-01-01T00:00:00.000Z' })
+  startTime: Date;
+
+  @ApiProperty({ example: '2026-01-02T00:00:00.000Z' })
+  endTime: Date;
+
+  @ApiProperty({ example: 60 })
+  intervalSeconds: number;
+
+  @ApiProperty({ example: 0.05, description: 'Flow noise in L/s' })
+  flowNoise: number;
+
+  @ApiProperty({ example: 0.1, description: 'Pressure and level noise in m' })
+  pressureNoise: number;
+
+  @ApiProperty({ example: 0.01 })
+  driftRate: number;
+
+  @ApiProperty({ example: 0.05 })
+  missingRate: number;
+
+  @ApiProperty({ example: 5.0, description: 'Threshold in L/s' })
+  threshold: number;
+
+  @ApiProperty({ example: 300 })
+  timeWindow: number;
+
+  @ApiProperty({ example: 3600 })
+  baselineTimeWindow: number;
+
+  @ApiProperty({ example: 900 })
+  detectionInterval: number;
+
+  @ApiPropertyOptional({
+    description: 'Synthetic readings written',
+    example: 28800,
+  })
+  readingCount?: number;
+
+  @ApiPropertyOptional({ description: 'Detection runs', example: 92 })
+  windowCount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Runs before any leak started that raised a detection',
+    example: 1,
+  })
+  falseAlarmWindows?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of injected leaks detected',
+    example: 1,
+  })
+  detectionRate?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Share of runs before any leak started that raised a detection',
+    example: 0.02,
+  })
+  falseAlarmRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of injected leaks ranked first by localization',
+    example: 0.5,
+  })
+  top1Rate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of injected leaks ranked in the top 5',
+    example: 1,
+  })
+  top5Rate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of injected leaks ranked in the top 10',
+    example: 1,
+  })
+  top10Rate?: number;
+
+  @ApiPropertyOptional({ description: 'Error message if the run failed' })
+  error?: string;
+
+  @ApiProperty({
+    description:
+      'Last sign of life from the server running the scenario. Running scenarios silent for 5 minutes are failed',
+    example: '2026-01-02T10:02:30.000Z',
+  })
+  heartbeatAt: Date;
+
+  @ApiProperty({ type: [ScenarioLeakResponseDto] })
+  leaks: ScenarioLeakResponseDto[];
+
+  @ApiProperty({ example: '2026-01-02T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiPropertyOptional({ example: '2026-01-02T10:03:00.000Z' })
+  completedAt?: Date;
+}
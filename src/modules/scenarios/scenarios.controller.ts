@@ -0,0 +1,115 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ScenariosService } from './scenarios.service';
+import { CreateScenarioDto } from './dto/create-scenario.dto';
+import { ScenarioResponseDto } from './dto/scenario-response.dto';
+
+@ApiTags('scenarios')
+@Controller('scenarios')
+export class ScenariosController {
+  constructor(private readonly scenariosService: ScenariosService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Generate a synthetic leak scenario and benchmark detection on it',
+    description:
+      "Simulates the network model with the given leaks, writes noisy synthetic readings to a sandbox copy of the network and runs leak detection and localization over them in the background. The network's own readings, detections and incidents are not touched. Poll the scenario for its results.",
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Scenario started',
+    type: ScenarioResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No leaks, no sensitivity matrix, or an unmodelled leak node',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Network not found',
+  })
+  async create(@Body() createScenarioDto: CreateScenarioDto) {
+    return this.scenariosService.create(createScenarioDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all scenarios' })
+  @ApiQuery({
+    name: 'networkId',
+    required: false,
+    type: String,
+    description: 'Filter by network ID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scenarios with their benchmark results, newest first',
+    type: [ScenarioResponseDto],
+  })
+  async findAll(@Query('networkId') networkId?: string) {
+    return this.scenariosService.findAll(networkId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get scenario by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Scenario UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scenario with its leaks and benchmark results',
+    type: ScenarioResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Scenario not found',
+  })
+  async findOne(@Param('id') id: string) {
+    return this.scenariosService.findOne(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete a scenario and its results',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Scenario UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Scenario deleted',
+    type: ScenarioResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Scenario not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Scenario is still running',
+  })
+  async remove(@Param('id') id: string) {
+    return this.scenariosService.remove(id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ScenariosController } from './scenarios.controller';
+import { ScenariosService } from './scenarios.service';
+import { PrismaModule } from '../../database/prisma/prisma.module';
+import { NetworkModule } from '../network/network.module';
+import { LeaksModule } from '../leaks/leaks.module';
+import { ScenarioGeneratorService } from './services/scenario-generator.service';
+import { ScenarioBenchmarkService } from './services/scenario-benchmark.service';
+import { ScenarioSandboxService } from './services/scenario-sandbox.service';
+
+@Module({
+  imports: [PrismaModule, NetworkModule, LeaksModule],
+  controllers: [ScenariosController],
+  providers: [
+    ScenariosService,
+    ScenarioGeneratorService,
+    ScenarioBenchmarkService,
+    ScenarioSandboxService,
+  ],
+})
+export class ScenariosModule {}
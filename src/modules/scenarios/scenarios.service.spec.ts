@@ -0,0 +1,65 @@
+import { ScenarioStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { HEARTBEAT_LEASE_MS } from '../../common/utils/heartbeat.util';
+import { SensitivityMatrixService } from '../network/services/sensitivity-matrix.service';
+import { ScenarioBenchmarkService } from './services/scenario-benchmark.service';
+import { ScenarioGeneratorService } from './services/scenario-generator.service';
+import { ScenarioSandboxService } from './services/scenario-sandbox.service';
+import { ScenariosService } from './scenarios.service';
+
+// p-limit is ESM only, and matrices are not generated here
+jest.mock('p-limit', () => jest.fn());
+
+function createService() {
+  const prisma = {
+    leakScenario: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+  const sandbox = {
+    removeAbandoned: jest.fn().mockResolvedValue(0),
+  };
+  const service = new ScenariosService(
+    prisma as unknown as PrismaService,
+    {} as SensitivityMatrixService,
+    {} as ScenarioGeneratorService,
+    {} as ScenarioBenchmarkService,
+    sandbox as unknown as ScenarioSandboxService,
+  );
+  return { service, prisma, sandbox };
+}
+
+describe('ScenariosService', () => {
+  describe('failAbandoned', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    it('fails running scenarios whose heartbeat has expired', async () => {
+      const { service, prisma } = createService();
+
+      await service.failAbandoned(now);
+
+      expect(prisma.leakScenario.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: ScenarioStatus.RUNNING,
+          heartbeatAt: { lt: new Date(now.getTime() - HEARTBEAT_LEASE_MS) },
+        },
+        data: {
+          status: ScenarioStatus.FAILED,
+          error: 'Interrupted: the server running the scenario stopped',
+          completedAt: now,
+        },
+      });
+    });
+
+    it('then deletes sandboxes left without a running scenario', async () => {
+      const { service, prisma, sandbox } = createService();
+
+      await service.failAbandoned(now);
+
+      expect(sandbox.removeAbandoned).toHaveBeenCalledTimes(1);
+      expect(
+        prisma.leakScenario.updateMany.mock.invocationCallOrder[0],
+      ).toBeLessThan(sandbox.removeAbandoned.mock.invocationCallOrder[0]);
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ScenarioStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { SensitivityMatrixService } from '../network/services/sensitivity-matrix.service';
+import {
+  ScenarioGeneratorService,
+  SyntheticLeak,
+} from './services/scenario-generator.service';
+import { ScenarioBenchmarkService } from './services/scenario-benchmark.service';
+import { ScenarioSandboxService } from './services/scenario-sandbox.service';
+import { CreateScenarioDto } from './dto/create-scenario.dto';
+import { createRandom } from '../../common/utils/random.util';
+import {
+  heartbeatExpiry,
+  startHeartbeat,
+} from '../../common/utils/heartbeat.util';
+
+/**
+ * Labelled leak scenarios: synthetic readings generated from a network's
+ * model with known leaks, and a benchmark of detection and localization on
+ * them. Each run works on a sandbox copy of the network that is deleted when
+ * it ends, so only the results are kept. Runs in the background; poll the
+ * scenario for its results. A running scenario's heartbeat tells any
+ * instance whether the process running it is still there.
+ */
+@Injectable()
+export class ScenariosService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScenariosService.name);
+  private readonly ABANDONED_CHECK_INTERVAL_MS = 60 * 1000;
+  private readonly DEFAULT_DURATION = 86400; // 1 day in seconds
+  private readonly DEFAULT_INTERVAL = 60; // Seconds between readings
+  private readonly DEFAULT_RANDOM_LEAK_FLOW = { min: 2.0, max: 10.0 }; // L/s
+  private readonly MAX_READINGS = 2000000;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sensitivityMatrixService: SensitivityMatrixService,
+    private readonly generator: ScenarioGeneratorService,
+    private readonly benchmark: ScenarioBenchmarkService,
+    private readonly sandbox: ScenarioSandboxService,
+  ) {}
+
+  async onModuleInit() {
+    await this.failAbandoned();
+
+    this.timer = setInterval(() => {
+      this.failAbandoned().catch((error) =>
+        this.logger.error(
+          `Checking for abandoned scenarios failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }, this.ABANDONED_CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Runs without a recent heartbeat will never finish. Mark them failed and
+   * delete the sandboxes no running scenario uses.
+   */
+  async failAbandoned(now: Date = new Date()): Promise<void> {
+    const { count } = await this.prisma.leakScenario.updateMany({
+      where: {
+        status: ScenarioStatus.RUNNING,
+        heartbeatAt: { lt: heartbeatExpiry(now) },
+      },
+      data: {
+        status: ScenarioStatus.FAILED,
+        error: 'Interrupted: the server running the scenario stopped',
+        completedAt: now,
+      },
+    });
+
+    if (count > 0) {
+      this.logger.warn(`Marked ${count} abandoned scenario(s) as failed`);
+    }
+
+    const sandboxCount = await this.sandbox.removeAbandoned();
+    if (sandboxCount > 0) {
+      this.logger.warn(
+        `Deleted ${sandboxCount} abandoned scenario sandbox(es)`,
+      );
+    }
+  }
+
+  async create(dto: CreateScenarioDto) {
+    const network = await this.prisma.network.findUnique({
+      where: { id: dto.networkId },
+      select: { id: true },
+    });
+    if (!network) {
+      throw new NotFoundException(`Network with ID ${dto.networkId} not found`);
+    }
+
+    if (!(await this.sensitivityMatrixService.getActiveVersion(network.id))) {
+      throw new BadRequestException(
+        `Sensitivity matrix not found for network ${network.id}. Please generate the matrix first.`,
+      );
+    }
+
+    const chosenLeaks = dto.leaks ?? [];
+    const randomLeakCount = dto.randomLeakCount ?? 0;
+    if (chosenLeaks.length + randomLeakCount === 0) {
+      throw new BadRequestException(
+        'Give at least one leak or a randomLeakCount',
+      );
+    }
+
+    const randomLeakFlow = {
+      min: dto.randomLeakFlowMin ?? this.DEFAULT_RANDOM_LEAK_FLOW.min,
+      max: dto.randomLeakFlowMax ?? this.DEFAULT_RANDOM_LEAK_FLOW.max,
+    };
+    if (randomLeakFlow.min > randomLeakFlow.max) {
+      throw new BadRequestException(
+        'randomLeakFlowMin must not be greater than randomLeakFlowMax',
+      );
+    }
+
+    const duration = dto.durationSeconds ?? this.DEFAULT_DURATION;
+    const interval = dto.intervalSeconds ?? this.DEFAULT_INTERVAL;
+    const startTime = dto.startTime
+      ? new Date(dto.startTime)
+      : new Date(
+          Math.floor(Date.now() / (interval * 1000)) * interval * 1000 -
+            duration * 1000,
+        );
+    const endTime = new Date(startTime.getTime() + duration * 1000);
+
+    const offsets = chosenLeaks.map(
+      (leak) => leak.startOffset ?? Math.floor(duration / 2),
+    );
+    if (offsets.some((offset) => offset >= duration)) {
+      throw new BadRequestException(
+        `Leak startOffset must be less than the duration (${duration} s)`,
+      );
+    }
+
+    const sensorCount = await this.prisma.sensor.count({
+      where: { networkId: network.id, isActive: true },
+    });
+    const readingEstimate = sensorCount * (Math.floor(duration / interval) + 1);
+    if (readingEstimate > this.MAX_READINGS) {
+      throw new BadRequestException(
+        `Scenario would generate about ${readingEstimate} readings, more than ${this.MAX_READINGS}. Shorten the duration or increase the interval.`,
+      );
+    }
+
+    const seed = dto.seed ?? Math.floor(Math.random() * 2147483647);
+    const random = createRandom(seed);
+
+    const modelledNodes = await this.prisma.networkNode.findMany({
+      where: { networkId: network.id, epanetNodeId: { not: null } },
+      select: { id: true, epanetNodeId: true },
+    });
+    const epanetNodeIds = new Map(
+      modelledNodes.map((node) => [node.id, node.epanetNodeId as string]),
+    );
+
+    const leaks: SyntheticLeak[] = chosenLeaks.map((leak, i) => {
+      const epanetNodeId = epanetNodeIds.get(leak.nodeId);
+      if (!epanetNodeId) {
+        throw new BadRequestException(
+          `Node ${leak.nodeId} is not a modelled node of network ${network.id}`,
+        );
+      }
+      return {
+        nodeId: leak.nodeId,
+        epanetNodeId,
+        leakFlow: leak.leakFlow,
+        startAt: new Date(startTime.getTime() + offsets[i] * 1000),
+      };
+    });
+
+    // Random leaks start in the second half, after a leak-free first half
+    const candidates = modelledNodes.filter(
+      (node) => !leaks.some((leak) => leak.nodeId === node.id),
+    );
+    if (candidates.length < randomLeakCount) {
+      throw new BadRequestException(
+        `Network ${network.id} has only ${candidates.length} modelled node(s) left for random leaks`,
+      );
+    }
+    for (let i = 0; i < randomLeakCount; i++) {
+      const [node] = candidates.splice(
+        Math.floor(random() * candidates.length),
+        1,
+      );
+      leaks.push({
+        nodeId: node.id,
+        epanetNodeId: node.epanetNodeId as string,
+        leakFlow:
+          randomLeakFlow.min +
+          random() * (randomLeakFlow.max - randomLeakFlow.min),
+        startAt: new Date(
+          startTime.getTime() +
+            Math.floor(duration / 2 + (random() * duration) / 2) * 1000,
+        ),
+      });
+    }
+
+    const scenario = await this.prisma.leakScenario.create({
+      data: {
+        networkId: network.id,
+        name: dto.name,
+        seed,
+        startTime,
+        endTime,
+        intervalSeconds: interval,
+        flowNoise: dto.flowNoise ?? 0.05,
+        pressureNoise: dto.pressureNoise ?? 0.1,
+        driftRate: dto.driftRate ?? 0,
+        missingRate: dto.missingRate ?? 0,
+        threshold: dto.threshold ?? 5.0,
+        timeWindow: dto.timeWindow ?? 300,
+        baselineTimeWindow: dto.baselineTimeWindow ?? 3600,
+        detectionInterval: dto.detectionInterval ?? 900,
+        leaks: {
+          create: leaks.map(({ nodeId, leakFlow, startAt }) => ({
+            nodeId,
+            leakFlow,
+            startAt,
+          })),
+        },
+      },
+    });
+
+    this.run(scenario.id, leaks).catch((error) =>
+      this.logger.error(
+        `Failed to record the outcome of scenario ${scenario.id}: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    );
+
+    return this.findOne(scenario.id);
+  }
+
+  async findAll(networkId?: string) {
+    return this.prisma.leakScenario.findMany({
+      where: networkId ? { networkId } : undefined,
+      include: { leaks: { orderBy: { startAt: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const scenario = await this.prisma.leakScenario.findUnique({
+      where: { id },
+      include: { leaks: { orderBy: { startAt: 'asc' } } },
+    });
+
+    if (!scenario) {
+      throw new NotFoundException(`Scenario with ID ${id} not found`);
+    }
+
+    return scenario;
+  }
+
+  /**
+   * Delete a scenario with its results. Its readings and detections went
+   * with the sandbox when the run ended.
+   */
+  async remove(id: string) {
+    const scenario = await this.findOne(id);
+    if (scenario.status === ScenarioStatus.RUNNING) {
+      throw new ConflictException(`Scenario ${id} is still running`);
+    }
+
+    await this.prisma.leakScenario.delete({ where: { id } });
+
+    return scenario;
+  }
+
+  /**
+   * Copy the network to a sandbox, generate the readings there, benchmark
+   * the pipeline on them and store the results. Failures are recorded on
+   * the scenario. The sandbox is deleted either way.
+   */
+  private async run(id: string, leaks: SyntheticLeak[]): Promise<void> {
+    const stopHeartbeat = startHeartbeat(
+      () =>
+        this.prisma.leakScenario.updateMany({
+          where: { id, status: ScenarioStatus.RUNNING },
+          data: { heartbeatAt: new Date() },
+        }),
+      (error) =>
+        this.logger.warn(
+          `Failed to record heartbeat for scenario ${id}: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+    );
+    let sandboxId: string | undefined;
+    try {
+      const scenario = await this.findOne(id);
+      const sandbox = await this.sandbox.create(scenario.networkId, id);
+      sandboxId = sandbox.networkId;
+
+      const readingCount = await this.generator.generateReadings(
+        scenario,
+        leaks,
+        sandbox.networkId,
+      );
+      await this.prisma.leakScenario.update({
+        where: { id },
+        data: { readingCount },
+      });
+
+      const { leaks: outcomes, ...result } = await this.benchmark.run(
+        scenario,
+        scenario.leaks.map((leak) => ({
+          ...leak,
+          nodeId: sandbox.nodeIds.get(leak.nodeId) ?? leak.nodeId,
+        })),
+        sandbox.networkId,
+      );
+
+      await this.prisma.$transaction([
+        ...outcomes.map(({ id: leakId, ...outcome }) =>
+          this.prisma.scenarioLeak.update({
+            where: { id: leakId },
+            data: outcome,
+          }),
+        ),
+        this.prisma.leakScenario.update({
+          where: { id },
+          data: {
+            ...result,
+            status: ScenarioStatus.COMPLETED,
+            completedAt: new Date(),
+          },
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Scenario ${id} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      await this.prisma.leakScenario.update({
+        where: { id },
+        data: {
+          status: ScenarioStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        },
+      });
+    } finally {
+      stopHeartbeat();
+      if (sandboxId) {
+        await this.sandbox.remove(sandboxId);
+      }
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { LeakScenario } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { LeaksService } from '../../leaks/leaks.service';
+import { ScenarioBenchmarkService } from './scenario-benchmark.service';
+
+// p-limit is ESM only, and matrices are not generated here
+jest.mock('p-limit', () => jest.fn());
+
+const START = new Date('2026-03-01T00:00:00Z');
+const HOUR_MS = 3600 * 1000;
+
+function at(hours: number): Date {
+  return new Date(START.getTime() + hours * HOUR_MS);
+}
+
+// Detection runs at 2h, 3h, 4h and 5h, once a full baseline is available
+const SCENARIO = {
+  id: 's1',
+  startTime: START,
+  endTime: at(5),
+  threshold: 1,
+  timeWindow: 3600,
+  baselineTimeWindow: 3600,
+  detectionInterval: 3600,
+} as LeakScenario;
+
+function createService(
+  detectionsAt: Record<number, string[]>,
+  rankings: Record<string, string[]>,
+) {
+  const prisma = {
+    leakDetection: {
+      findMany: jest.fn().mockResolvedValue(
+        Object.entries(rankings).map(([id, candidateRanking]) => ({
+          id,
+          candidateRanking,
+        })),
+      ),
+    },
+  };
+  const leaksService = {
+    detectLeaks: jest.fn(({ timestamp }: { timestamp: string }) => {
+      const hours = (new Date(timestamp).getTime() - START.getTime()) / HOUR_MS;
+      return Promise.resolve((detectionsAt[hours] ?? []).map((id) => ({ id })));
+    }),
+    localizeLeaks: jest.fn().mockResolvedValue([]),
+  };
+  const service = new ScenarioBenchmarkService(
+    prisma as unknown as PrismaService,
+    leaksService as unknown as LeaksService,
+  );
+  return { service, prisma, leaksService };
+}
+
+describe('ScenarioBenchmarkService', () => {
+  it('scores detection, false alarms and localization ranks', async () => {
+    const { service } = createService(
+      { 2: ['d0'], 4: ['d1', 'd2'], 5: ['d3'] },
+      {
+        d0: ['J9'],
+        d1: ['J3', 'J1'],
+        d2: ['J1'],
+        d3: ['a', 'b', 'c', 'd', 'e', 'f', 'J2'],
+      },
+    );
+
+    const result = await service.run(
+      SCENARIO,
+      [
+        { id: 'l1', nodeId: 'J1', startAt: at(3.5) },
+        { id: 'l2', nodeId: 'J2', startAt: at(4.5) },
+        { id: 'l3', nodeId: 'J3', startAt: at(5.5) },
+      ],
+      'sb1',
+    );
+
+    expect(result.leaks).toEqual([
+      { id: 'l1', detectedAt: at(4), localizationRank: 1 },
+      { id: 'l2', detectedAt: at(5), localizationRank: 7 },
+      { id: 'l3', detectedAt: null, localizationRank: null },
+    ]);
+    expect(result.windowCount).toBe(4);
+    expect(result.falseAlarmWindows).toBe(1);
+    expect(result.falseAlarmRate).toBe(0.5);
+    expect(result.detectionRate).toBeCloseTo(2 / 3);
+    expect(result.top1Rate).toBeCloseTo(1 / 3);
+    expect(result.top5Rate).toBeCloseTo(1 / 3);
+    expect(result.top10Rate).toBeCloseTo(2 / 3);
+  });
+
+  it('runs detection on the sandbox and localizes only runs that raised detections', async () => {
+    const { service, prisma, leaksService } = createService(
+      { 4: ['d1'] },
+      { d1: ['J1'] },
+    );
+
+    await service.run(
+      SCENARIO,
+      [{ id: 'l1', nodeId: 'J1', startAt: at(3) }],
+      'sb1',
+    );
+
+    expect(leaksService.detectLeaks).toHaveBeenCalledTimes(4);
+    expect(leaksService.detectLeaks).toHaveBeenNthCalledWith(1, {
+      networkId: 'sb1',
+      timestamp: at(2).toISOString(),
+      threshold: 1,
+      timeWindow: 3600,
+    });
+    expect(leaksService.localizeLeaks).toHaveBeenCalledTimes(1);
+    expect(leaksService.localizeLeaks).toHaveBeenCalledWith(['d1'], 3600);
+    expect(prisma.leakDetection.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ['d1'] } },
+      select: { id: true, candidateRanking: true },
+    });
+  });
+
+  it('does not credit detections raised before a leak started', async () => {
+    const { service } = createService({ 2: ['d0'] }, { d0: ['J1'] });
+
+    const result = await service.run(
+      SCENARIO,
+      [{ id: 'l1', nodeId: 'J1', startAt: at(3) }],
+      'sb1',
+    );
+
+    expect(result.leaks).toEqual([
+      { id: 'l1', detectedAt: null, localizationRank: null },
+    ]);
+    expect(result.detectionRate).toBe(0);
+    expect(result.falseAlarmRate).toBe(1);
+  });
+
+  it('has no false alarm rate without runs before the first leak', async () => {
+    const { service } = createService({}, {});
+
+    const result = await service.run(
+      SCENARIO,
+      [{ id: 'l1', nodeId: 'J1', startAt: START }],
+      'sb1',
+    );
+
+    expect(result.falseAlarmWindows).toBe(0);
+    expect(result.falseAlarmRate).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LeakScenario, ScenarioLeak } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { LeaksService } from '../../leaks/leaks.service';
+
+export interface LeakOutcome {
+  id: string; // Scenario leak ID
+  detectedAt: Date | null;
+  localizationRank: number | null;
+}
+
+export interface BenchmarkResult {
+  windowCount: number;
+  falseAlarmWindows: number;
+  detectionRate: number;
+  falseAlarmRate: number | null; // Null without runs before the first leak
+  top1Rate: number;
+  top5Rate: number;
+  top10Rate: number;
+  leaks: LeakOutcome[];
+}
+
+interface DetectionWindow {
+  time: number; // Epoch milliseconds
+  detectionIds: string[];
+}
+
+/**
+ * Runs detection and localization over a scenario's synthetic readings the
+ * way they run on field data, and scores them against the injected leaks.
+ * Runs against the scenario's sandbox network, never the network itself.
+ */
+@Injectable()
+export class ScenarioBenchmarkService {
+  private readonly logger = new Logger(ScenarioBenchmarkService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly leaksService: LeaksService,
+  ) {}
+
+  /**
+   * Detect every detection interval from the first time a full baseline is
+   * available, localizing what each run raises. A leak counts as detected
+   * by the first run after it started that raised a detection, and is
+   * ranked by the best rank of its node among that run's localizations.
+   * Leak node IDs are those of the sandbox.
+   */
+  async run(
+    scenario: LeakScenario,
+    leaks: Array<Pick<ScenarioLeak, 'id' | 'nodeId' | 'startAt'>>,
+    sandboxId: string,
+  ): Promise<BenchmarkResult> {
+    const windows: DetectionWindow[] = [];
+    const first =
+      scenario.startTime.getTime() +
+      (scenario.timeWindow + scenario.baselineTimeWindow) * 1000;
+
+    for (
+      let time = first;
+      time <= scenario.endTime.getTime();
+      time += scenario.detectionInterval * 1000
+    ) {
+      const detections = await this.leaksService.detectLeaks({
+        networkId: sandboxId,
+        timestamp: new Date(time).toISOString(),
+        threshold: scenario.threshold,
+        timeWindow: scenario.timeWindow,
+      });
+      const detectionIds = detections.map((detection) => detection.id);
+
+      if (detectionIds.length > 0) {
+        await this.leaksService.localizeLeaks(
+          detectionIds,
+          scenario.baselineTimeWindow,
+        );
+      }
+
+      windows.push({ time, detectionIds });
+    }
+
+    const rankings = new Map(
+      (
+        await this.prisma.leakDetection.findMany({
+          where: { id: { in: windows.flatMap((w) => w.detectionIds) } },
+          select: { id: true, candidateRanking: true },
+        })
+      ).map((detection) => [detection.id, detection.candidateRanking]),
+    );
+
+    const outcomes = leaks.map((leak): LeakOutcome => {
+      const window = windows.find(
+        (w) => w.time >= leak.startAt.getTime() && w.detectionIds.length > 0,
+      );
+      if (!window) {
+        return { id: leak.id, detectedAt: null, localizationRank: null };
+      }
+
+      let localizationRank: number | null = null;
+      for (const detectionId of window.detectionIds) {
+        const index = (rankings.get(detectionId) ?? []).indexOf(leak.nodeId);
+        if (
+          index >= 0 &&
+          (localizationRank === null || index + 1 < localizationRank)
+        ) {
+          localizationRank = index + 1;
+        }
+      }
+      return {
+        id: leak.id,
+        detectedAt: new Date(window.time),
+        localizationRank,
+      };
+    });
+
+    const firstLeak = Math.min(...leaks.map((leak) => leak.startAt.getTime()));
+    const leakFree = windows.filter((w) => w.time < firstLeak);
+    const falseAlarmWindows = leakFree.filter(
+      (w) => w.detectionIds.length > 0,
+    ).length;
+    const rateOf = (matches: (outcome: LeakOutcome) => boolean) =>
+      outcomes.filter(matches).length / outcomes.length;
+    const rankedWithin = (k: number) => (outcome: LeakOutcome) =>
+      outcome.localizationRank !== null && outcome.localizationRank <= k;
+
+    this.logger.log(
+      `Scenario ${scenario.id}: ${windows.length} detection run(s), ${outcomes.filter((o) => o.detectedAt).length}/${outcomes.length} leak(s) detected, ${falseAlarmWindows} false alarm(s)`,
+    );
+
+    return {
+      windowCount: windows.length,
+      falseAlarmWindows,
+      detectionRate: rateOf((outcome) => outcome.detectedAt !== null),
+      falseAlarmRate:
+        leakFree.length > 0 ? falseAlarmWindows / leakFree.length : null,
+      top1Rate: rateOf(rankedWithin(1)),
+      top5Rate: rateOf(rankedWithin(5)),
+      top10Rate: rateOf(rankedWithin(10)),
+      leaks: outcomes,
+    };
+  }
+}
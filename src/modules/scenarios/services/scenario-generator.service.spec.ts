@@ -0,0 +1,240 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DataSource,
+  LeakModel,
+  LeakScenario,
+  Prisma,
+  SensorType,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { StorageService } from '../../network/services/storage.service';
+import {
+  EpanetSimulationService,
+  SimulationResults,
+  TimeSlicedResults,
+} from '../../network/services/epanet-simulation.service';
+import { ScenarioGeneratorService } from './scenario-generator.service';
+
+const START = new Date('2026-03-01T00:00:00Z');
+const HOUR_MS = 3600 * 1000;
+
+function scenario(overrides: Partial<LeakScenario> = {}): LeakScenario {
+  return {
+    id: 's1',
+    networkId: 'n1',
+    seed: 42,
+    startTime: START,
+    endTime: new Date(START.getTime() + HOUR_MS),
+    intervalSeconds: 1800,
+    flowNoise: 0,
+    pressureNoise: 0,
+    driftRate: 0,
+    missingRate: 0,
+    ...overrides,
+  } as LeakScenario;
+}
+
+function results(flow: number, pressure: number): SimulationResults {
+  return {
+    nodeFlows: new Map([['J1', flow]]),
+    nodePressures: new Map([['J2', pressure]]),
+    tankLevels: new Map(),
+  };
+}
+
+interface SensorRow {
+  id: string;
+  sensorType: SensorType;
+  node: { epanetNodeId: string | null };
+}
+
+function createService(
+  sensors: SensorRow[] = [
+    {
+      id: 'f1',
+      sensorType: SensorType.MAINLINE_FLOW,
+      node: { epanetNodeId: 'J1' },
+    },
+    {
+      id: 'p1',
+      sensorType: SensorType.PRESSURE,
+      node: { epanetNodeId: 'J2' },
+    },
+  ],
+) {
+  // Rows are copied as written, since the service clears its batch
+  const written: Prisma.SensorReadingCreateManyInput[] = [];
+  const prisma = {
+    sensor: {
+      findMany: jest.fn().mockResolvedValue(sensors),
+    },
+    sensorReading: {
+      createMany: jest.fn(
+        ({ data }: { data: Prisma.SensorReadingCreateManyInput[] }) => {
+          written.push(...data);
+          return Promise.resolve({ count: data.length });
+        },
+      ),
+    },
+  };
+  const storage = {
+    fileExists: jest.fn().mockReturnValue(true),
+    getEpanetFilePath: jest.fn().mockReturnValue('/uploads/n1.inp'),
+  };
+  const baseline: TimeSlicedResults = new Map([
+    [0, results(10, 40)],
+    [1, results(20, 38)],
+  ]);
+  const leak: TimeSlicedResults = new Map([
+    [0, results(12, 36)],
+    [1, results(25, 35)],
+  ]);
+  const epanet = {
+    loadNetwork: jest.fn().mockResolvedValue({ project: {} }),
+    runBaselineSimulation: jest.fn().mockResolvedValue(baseline),
+    runLeakSimulations: jest.fn().mockResolvedValue(leak),
+    closeProject: jest.fn(),
+  };
+  const service = new ScenarioGeneratorService(
+    prisma as unknown as PrismaService,
+    storage as unknown as StorageService,
+    epanet as unknown as EpanetSimulationService,
+  );
+  return { service, prisma, storage, epanet, written };
+}
+
+function valuesOf(
+  written: Prisma.SensorReadingCreateManyInput[],
+  sensorId: string,
+) {
+  return written
+    .filter((row) => row.sensorId === sensorId)
+    .map((row) => row.flowValue);
+}
+
+describe('ScenarioGeneratorService', () => {
+  it('interpolates hourly slices and switches to the leak phase when a leak starts', async () => {
+    const { service, written } = createService();
+    const leaks = [
+      {
+        nodeId: 'node1',
+        epanetNodeId: 'J3',
+        leakFlow: 5,
+        startAt: new Date(START.getTime() + HOUR_MS),
+      },
+    ];
+
+    expect(await service.generateReadings(scenario(), leaks, 'sb1')).toBe(6);
+    expect(valuesOf(written, 'f1')).toEqual([10, 15, 25]);
+    expect(valuesOf(written, 'p1')).toEqual([40, 39, 35]);
+    expect(written[0]).toEqual({
+      networkId: 'sb1',
+      sensorId: 'f1',
+      flowValue: 10,
+      timestamp: START,
+      source: DataSource.SYNTHETIC,
+    });
+  });
+
+  it('simulates every leak started so far at each leak start', async () => {
+    const { service, epanet } = createService();
+    const first = new Date(START.getTime() + HOUR_MS);
+    const second = new Date(START.getTime() + 2 * HOUR_MS);
+
+    await service.generateReadings(
+      scenario(),
+      [
+        { nodeId: 'node2', epanetNodeId: 'J4', leakFlow: 3, startAt: second },
+        { nodeId: 'node1', epanetNodeId: 'J3', leakFlow: 5, startAt: first },
+      ],
+      'sb1',
+    );
+
+    expect(epanet.runBaselineSimulation).toHaveBeenCalledWith(
+      {},
+      { flow: ['J1'], pressure: ['J2'], level: [] },
+    );
+    expect(epanet.runLeakSimulations).toHaveBeenCalledTimes(2);
+    expect(epanet.runLeakSimulations).toHaveBeenNthCalledWith(
+      1,
+      {},
+      [{ nodeId: 'J3', leak: { model: LeakModel.FIXED_DEMAND, leakSize: 5 } }],
+      { flow: ['J1'], pressure: ['J2'], level: [] },
+    );
+    expect(epanet.runLeakSimulations).toHaveBeenNthCalledWith(
+      2,
+      {},
+      [
+        { nodeId: 'J3', leak: { model: LeakModel.FIXED_DEMAND, leakSize: 5 } },
+        { nodeId: 'J4', leak: { model: LeakModel.FIXED_DEMAND, leakSize: 3 } },
+      ],
+      { flow: ['J1'], pressure: ['J2'], level: [] },
+    );
+    expect(epanet.closeProject).toHaveBeenCalledTimes(1);
+  });
+
+  it('repeats noise, drift and gaps exactly from the seed', async () => {
+    const noisy = scenario({
+      endTime: new Date(START.getTime() + 6 * HOUR_MS),
+      flowNoise: 0.5,
+      pressureNoise: 0.2,
+      driftRate: 0.01,
+      missingRate: 0.2,
+    });
+    const first = createService();
+    const second = createService();
+
+    await first.service.generateReadings(noisy, [], 'sb1');
+    await second.service.generateReadings(noisy, [], 'sb1');
+
+    expect(first.written.length).toBeLessThan(26);
+    expect(first.written).toEqual(second.written);
+  });
+
+  it('uses the single slice of a steady-state model all day', async () => {
+    const { service, epanet, written } = createService();
+    epanet.runBaselineSimulation.mockResolvedValue(
+      new Map([[0, results(10, 40)]]),
+    );
+
+    await service.generateReadings(
+      scenario({
+        startTime: new Date(START.getTime() + 13 * HOUR_MS),
+        endTime: new Date(START.getTime() + 14 * HOUR_MS),
+      }),
+      [],
+      'sb1',
+    );
+
+    expect(valuesOf(written, 'f1')).toEqual([10, 10, 10]);
+  });
+
+  it('skips sensors on unmodelled nodes', async () => {
+    const { service, written } = createService([
+      {
+        id: 'f1',
+        sensorType: SensorType.MAINLINE_FLOW,
+        node: { epanetNodeId: 'J1' },
+      },
+      {
+        id: 'f2',
+        sensorType: SensorType.MAINLINE_FLOW,
+        node: { epanetNodeId: null },
+      },
+    ]);
+
+    await service.generateReadings(scenario(), [], 'sb1');
+
+    expect(written).toHaveLength(3);
+    expect(written.every((row) => row.sensorId === 'f1')).toBe(true);
+  });
+
+  it('rejects a sandbox without modelled sensors', async () => {
+    const { service, prisma } = createService([]);
+
+    await expect(
+      service.generateReadings(scenario(), [], 'sb1'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.sensorReading.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,285 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import {
+  DataSource,
+  LeakModel,
+  LeakScenario,
+  Prisma,
+  SensorType,
+} from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { StorageService } from '../../network/services/storage.service';
+import {
+  EpanetSimulationService,
+  SensorNodeIds,
+  SimulationResults,
+  TimeSlicedResults,
+} from '../../network/services/epanet-simulation.service';
+import {
+  getSensorMeasurement,
+  SensorQuantity,
+} from '../../../common/utils/sensor-measurement.util';
+import { createRandom, normalSample } from '../../../common/utils/random.util';
+
+const MS_PER_HOUR = 3600 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+const READING_BATCH_SIZE = 5000;
+
+const RESULT_GROUPS: Record<SensorQuantity, keyof SensorNodeIds> = {
+  FLOW: 'flow',
+  PRESSURE: 'pressure',
+  LEVEL: 'level',
+};
+
+// A leak injected into the model, with its node resolved to the EPANET ID
+export interface SyntheticLeak {
+  nodeId: string;
+  epanetNodeId: string;
+  leakFlow: number; // L/s
+  startAt: Date;
+}
+
+interface ModelledSensor {
+  id: string;
+  sensorType: SensorType;
+  epanetNodeId: string;
+}
+
+// Hourly sensor values from a point in time until the next leak starts
+interface SimulationPhase {
+  from: number; // Epoch milliseconds
+  slices: TimeSlicedResults;
+}
+
+/**
+ * Generates sensor readings from the network's EPANET model with leaks
+ * injected, adding noise, drift and gaps so they look like field data.
+ */
+@Injectable()
+export class ScenarioGeneratorService {
+  private readonly logger = new Logger(ScenarioGeneratorService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly epanetSimulation: EpanetSimulationService,
+  ) {}
+
+  /**
+   * Simulate the scenario's network and write SYNTHETIC readings for every
+   * active sensor of the sandbox network on a modelled node. Returns the
+   * number of readings.
+   */
+  async generateReadings(
+    scenario: LeakScenario,
+    leaks: SyntheticLeak[],
+    sandboxId: string,
+  ): Promise<number> {
+    const sensors = await this.prisma.sensor.findMany({
+      where: { networkId: sandboxId, isActive: true },
+      select: {
+        id: true,
+        sensorType: true,
+        node: { select: { epanetNodeId: true } },
+      },
+    });
+    const modelled: ModelledSensor[] = sensors.flatMap((sensor) =>
+      sensor.node.epanetNodeId
+        ? [
+            {
+              id: sensor.id,
+              sensorType: sensor.sensorType,
+              epanetNodeId: sensor.node.epanetNodeId,
+            },
+          ]
+        : [],
+    );
+
+    if (modelled.length === 0) {
+      throw new BadRequestException(
+        `No active sensors with EPANET node IDs found for network ${scenario.networkId}`,
+      );
+    }
+
+    const phases = await this.simulate(scenario.networkId, modelled, leaks);
+
+    // Every sensor drifts at its own rate, up to the scenario's drift rate
+    const random = createRandom(scenario.seed);
+    const driftRates = new Map(
+      modelled.map((sensor) => [
+        sensor.id,
+        (random() * 2 - 1) * scenario.driftRate,
+      ]),
+    );
+
+    const start = scenario.startTime.getTime();
+    const end = scenario.endTime.getTime();
+    const rows: Prisma.SensorReadingCreateManyInput[] = [];
+    let readingCount = 0;
+    let phase = 0;
+
+    for (
+      let time = start;
+      time <= end;
+      time += scenario.intervalSeconds * 1000
+    ) {
+      while (phase + 1 < phases.length && phases[phase + 1].from <= time) {
+        phase++;
+      }
+      const days = (time - start) / MS_PER_DAY;
+
+      for (const sensor of modelled) {
+        const value = this.valueAt(phases[phase].slices, time, sensor);
+        if (value === undefined || random() < scenario.missingRate) {
+          continue;
+        }
+
+        const noise =
+          getSensorMeasurement(sensor.sensorType).quantity === 'FLOW'
+            ? scenario.flowNoise
+            : scenario.pressureNoise;
+        rows.push({
+          networkId: sandboxId,
+          sensorId: sensor.id,
+          flowValue:
+            value * (1 + (driftRates.get(sensor.id) ?? 0) * days) +
+            normalSample(random) * noise,
+          timestamp: new Date(time),
+          source: DataSource.SYNTHETIC,
+        });
+
+        if (rows.length >= READING_BATCH_SIZE) {
+          readingCount += await this.writeReadings(rows);
+        }
+      }
+    }
+    readingCount += await this.writeReadings(rows);
+
+    this.logger.log(
+      `Scenario ${scenario.id}: ${readingCount} synthetic readings for ${modelled.length} sensors, ${leaks.length} leak(s)`,
+    );
+
+    return readingCount;
+  }
+
+  /**
+   * Run the baseline, then one simulation per leak start with every leak
+   * started so far, since leaks keep running once they start.
+   */
+  private async simulate(
+    networkId: string,
+    sensors: ModelledSensor[],
+    leaks: SyntheticLeak[],
+  ): Promise<SimulationPhase[]> {
+    if (!this.storageService.fileExists(networkId)) {
+      throw new BadRequestException(
+        `EPANET file not found for network ${networkId}. Please re-import the network.`,
+      );
+    }
+
+    const sensorNodes: SensorNodeIds = { flow: [], pressure: [], level: [] };
+    for (const sensor of sensors) {
+      const group =
+        sensorNodes[
+          RESULT_GROUPS[getSensorMeasurement(sensor.sensorType).quantity]
+        ];
+      if (!group.includes(sensor.epanetNodeId)) {
+        group.push(sensor.epanetNodeId);
+      }
+    }
+
+    const epanetNetwork = await this.epanetSimulation.loadNetwork(
+      this.storageService.getEpanetFilePath(networkId),
+    );
+
+    try {
+      const phases: SimulationPhase[] = [
+        {
+          from: -Infinity,
+          slices: await this.epanetSimulation.runBaselineSimulation(
+            epanetNetwork.project,
+            sensorNodes,
+          ),
+        },
+      ];
+
+      const ordered = [...leaks].sort(
+        (a, b) => a.startAt.getTime() - b.startAt.getTime(),
+      );
+      for (let i = 0; i < ordered.length; i++) {
+        phases.push({
+          from: ordered[i].startAt.getTime(),
+          slices: await this.epanetSimulation.runLeakSimulations(
+            epanetNetwork.project,
+            ordered.slice(0, i + 1).map((leak) => ({
+              nodeId: leak.epanetNodeId,
+              leak: { model: LeakModel.FIXED_DEMAND, leakSize: leak.leakFlow },
+            })),
+            sensorNodes,
+          ),
+        });
+      }
+
+      return phases;
+    } finally {
+      this.epanetSimulation.closeProject(epanetNetwork.project);
+    }
+  }
+
+  /**
+   * Sensor value at a time of day (UTC), interpolated between the hourly
+   * slices. Steady-state models have a single slice used all day.
+   */
+  private valueAt(
+    slices: TimeSlicedResults,
+    time: number,
+    sensor: ModelledSensor,
+  ): number | undefined {
+    const hours =
+      (((time % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY) / MS_PER_HOUR;
+    const hour = Math.floor(hours);
+    const [fallback] = slices.values();
+    const before = slices.get(hour) ?? fallback;
+    const after = slices.get((hour + 1) % 24) ?? before;
+    if (!before || !after) {
+      return undefined;
+    }
+
+    const group =
+      RESULT_GROUPS[getSensorMeasurement(sensor.sensorType).quantity];
+    const from = this.readSensor(before, group, sensor.epanetNodeId);
+    const to = this.readSensor(after, group, sensor.epanetNodeId);
+    if (from === undefined || to === undefined) {
+      return from ?? to;
+    }
+    return from + (to - from) * (hours - hour);
+  }
+
+  private readSensor(
+    results: SimulationResults,
+    group: keyof SensorNodeIds,
+    epanetNodeId: string,
+  ): number | undefined {
+    switch (group) {
+      case 'pressure':
+        return results.nodePressures.get(epanetNodeId);
+      case 'level':
+        return results.tankLevels.get(epanetNodeId);
+      default:
+        return results.nodeFlows.get(epanetNodeId);
+    }
+  }
+
+  // Write and clear a batch of readings
+  private async writeReadings(
+    rows: Prisma.SensorReadingCreateManyInput[],
+  ): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+    const { count } = await this.prisma.sensorReading.createMany({
+      data: rows,
+    });
+    rows.length = 0;
+    return count;
+  }
+}
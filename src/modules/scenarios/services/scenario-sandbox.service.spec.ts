@@ -0,0 +1,68 @@
+import { ScenarioStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+import { ScenarioSandboxService } from './scenario-sandbox.service';
+
+function createService(sandboxIds: string[], runningSandboxIds: string[]) {
+  const prisma = {
+    network: {
+      findMany: jest.fn().mockResolvedValue(sandboxIds.map((id) => ({ id }))),
+      deleteMany: jest.fn((args: object) => args),
+    },
+    networkPartition: {
+      deleteMany: jest.fn((args: object) => args),
+    },
+    leakScenario: {
+      findMany: jest
+        .fn()
+        .mockResolvedValue(
+          runningSandboxIds.map((sandboxNetworkId) => ({ sandboxNetworkId })),
+        ),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+  return {
+    service: new ScenarioSandboxService(prisma as unknown as PrismaService),
+    prisma,
+  };
+}
+
+describe('ScenarioSandboxService', () => {
+  it('deletes sandboxes without a running scenario', async () => {
+    const { service, prisma } = createService(['sb1', 'sb2', 'sb3'], ['sb2']);
+
+    expect(await service.removeAbandoned()).toBe(2);
+    expect(prisma.leakScenario.findMany).toHaveBeenCalledWith({
+      where: {
+        status: ScenarioStatus.RUNNING,
+        sandboxNetworkId: { not: null },
+      },
+      select: { sandboxNetworkId: true },
+    });
+    expect(prisma.network.deleteMany).toHaveBeenCalledTimes(2);
+    expect(prisma.network.deleteMany).not.toHaveBeenCalledWith({
+      where: { id: 'sb2', scenarioSandbox: true },
+    });
+  });
+
+  it('lists sandboxes before the scenarios that own them', async () => {
+    const { service, prisma } = createService(['sb1'], ['sb1']);
+
+    expect(await service.removeAbandoned()).toBe(0);
+    expect(prisma.network.findMany.mock.invocationCallOrder[0]).toBeLessThan(
+      prisma.leakScenario.findMany.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('only deletes sandbox networks', async () => {
+    const { service, prisma } = createService([], []);
+
+    await service.remove('n1');
+
+    expect(prisma.networkPartition.deleteMany).toHaveBeenCalledWith({
+      where: { networkId: 'n1', network: { scenarioSandbox: true } },
+    });
+    expect(prisma.network.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'n1', scenarioSandbox: true },
+    });
+  });
+});
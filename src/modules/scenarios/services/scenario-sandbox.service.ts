@@ -0,0 +1,218 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { MatrixVersionStatus, Prisma, ScenarioStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../../database/prisma/prisma.service';
+
+// Copies get their own creation times
+const TIMESTAMPS = { createdAt: true, updatedAt: true } as const;
+
+export interface ScenarioSandbox {
+  networkId: string;
+  nodeIds: Map<string, string>; // Network node UUID to sandbox node UUID
+}
+
+/**
+ * Copies a network into a sandbox network a scenario writes its readings,
+ * detections and incidents to, so they never mix with the network's own
+ * data. The copy has the nodes, links, DMAs, sensors, leak priors, settings
+ * and active sensitivity matrix, but no readings or detections.
+ */
+@Injectable()
+export class ScenarioSandboxService {
+  private readonly logger = new Logger(ScenarioSandboxService.name);
+  private readonly COPY_TIMEOUT = 300000; // 5 minutes for large matrices
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    networkId: string,
+    scenarioId: string,
+  ): Promise<ScenarioSandbox> {
+    const sandboxId = randomUUID();
+
+    const nodeIds = await this.prisma.$transaction(
+      async (tx) => {
+        const network = await tx.network.findUnique({
+          where: { id: networkId },
+          omit: TIMESTAMPS,
+        });
+        const activeVersion = await tx.sensitivityMatrixVersion.findFirst({
+          where: { networkId, status: MatrixVersionStatus.ACTIVE },
+          omit: TIMESTAMPS,
+        });
+        if (!network || !activeVersion) {
+          throw new BadRequestException(
+            `Network ${networkId} has no active sensitivity matrix to run a scenario against`,
+          );
+        }
+
+        await tx.network.create({
+          data: {
+            ...network,
+            id: sandboxId,
+            name: `${network.name ?? network.id} (scenario ${scenarioId})`,
+            scenarioSandbox: true,
+          },
+        });
+        // Recorded with the copy, so a sandbox never exists without its owner
+        await tx.leakScenario.update({
+          where: { id: scenarioId },
+          data: { sandboxNetworkId: sandboxId },
+        });
+
+        const nodes = await tx.networkNode.findMany({
+          where: { networkId },
+          omit: TIMESTAMPS,
+        });
+        const nodeIds = new Map(nodes.map((node) => [node.id, randomUUID()]));
+        const nodeId = (id: string) => nodeIds.get(id) as string;
+        await tx.networkNode.createMany({
+          data: nodes.map((node) => ({
+            ...node,
+            id: nodeId(node.id),
+            networkId: sandboxId,
+            parentId: node.parentId ? nodeId(node.parentId) : null,
+          })),
+        });
+
+        const links = await tx.networkLink.findMany({
+          where: { networkId },
+          omit: TIMESTAMPS,
+        });
+        await tx.networkLink.createMany({
+          data: links.map((link) => ({
+            ...link,
+            id: randomUUID(),
+            networkId: sandboxId,
+            fromNodeId: nodeId(link.fromNodeId),
+            toNodeId: nodeId(link.toNodeId),
+            vertices: link.vertices ?? Prisma.DbNull,
+          })),
+        });
+
+        const priors = await tx.nodeLeakPrior.findMany({
+          where: { networkId },
+          omit: TIMESTAMPS,
+        });
+        await tx.nodeLeakPrior.createMany({
+          data: priors.map((prior) => ({
+            ...prior,
+            id: randomUUID(),
+            networkId: sandboxId,
+            nodeId: nodeId(prior.nodeId),
+          })),
+        });
+
+        const partitions = await tx.networkPartition.findMany({
+          where: { networkId },
+          omit: TIMESTAMPS,
+        });
+        const partitionIds = new Map(
+          partitions.map((partition) => [partition.id, randomUUID()]),
+        );
+        await tx.networkPartition.createMany({
+          data: partitions.map((partition) => ({
+            ...partition,
+            id: partitionIds.get(partition.id),
+            networkId: sandboxId,
+            mainlineId: nodeId(partition.mainlineId),
+          })),
+        });
+
+        const sensors = await tx.sensor.findMany({
+          where: { networkId },
+          omit: TIMESTAMPS,
+        });
+        const sensorIds = new Map(
+          sensors.map((sensor) => [sensor.id, randomUUID()]),
+        );
+        await tx.sensor.createMany({
+          data: sensors.map((sensor) => ({
+            ...sensor,
+            id: sensorIds.get(sensor.id),
+            networkId: sandboxId,
+            nodeId: nodeId(sensor.nodeId),
+            partitionId: sensor.partitionId
+              ? partitionIds.get(sensor.partitionId)
+              : null,
+          })),
+        });
+
+        const sandboxVersion = await tx.sensitivityMatrixVersion.create({
+          data: {
+            ...activeVersion,
+            id: randomUUID(),
+            networkId: sandboxId,
+            sensorIds: activeVersion.sensorIds.flatMap((id) => {
+              const sandboxSensorId = sensorIds.get(id);
+              return sandboxSensorId ? [sandboxSensorId] : [];
+            }),
+          },
+        });
+
+        // Entries are matched to the copies by node and sensor code in SQL,
+        // as a matrix can be too large to copy through the application
+        await tx.$executeRaw`
+          INSERT INTO "sensitivity_matrix" ("id", "networkId", "versionId", "leakNodeId", "sensorId", "hourOfDay", "sensitivityValue", "updatedAt")
+          SELECT gen_random_uuid()::TEXT, ${sandboxId}, ${sandboxVersion.id}, tn."id", ts."id", m."hourOfDay", m."sensitivityValue", CURRENT_TIMESTAMP
+          FROM "sensitivity_matrix" m
+          JOIN "network_nodes" n ON n."id" = m."leakNodeId"
+          JOIN "network_nodes" tn ON tn."networkId" = ${sandboxId} AND tn."nodeId" = n."nodeId"
+          JOIN "sensors" s ON s."id" = m."sensorId"
+          JOIN "sensors" ts ON ts."networkId" = ${sandboxId} AND ts."sensorId" = s."sensorId"
+          WHERE m."versionId" = ${activeVersion.id}
+        `;
+
+        return nodeIds;
+      },
+      { timeout: this.COPY_TIMEOUT, maxWait: this.COPY_TIMEOUT },
+    );
+
+    this.logger.log(
+      `Scenario ${scenarioId}: copied network ${networkId} to sandbox ${sandboxId}`,
+    );
+
+    return { networkId: sandboxId, nodeIds };
+  }
+
+  /**
+   * Delete a sandbox with everything written to it. DMAs go first since
+   * their mainline nodes cannot be deleted while they exist.
+   */
+  async remove(sandboxId: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.networkPartition.deleteMany({
+        where: { networkId: sandboxId, network: { scenarioSandbox: true } },
+      }),
+      this.prisma.network.deleteMany({
+        where: { id: sandboxId, scenarioSandbox: true },
+      }),
+    ]);
+  }
+
+  /**
+   * Delete sandboxes whose scenario is no longer running, left behind by
+   * runs whose process stopped. Sandboxes are listed before their owners,
+   * so one created in between is seen with its running scenario.
+   */
+  async removeAbandoned(): Promise<number> {
+    const sandboxes = await this.prisma.network.findMany({
+      where: { scenarioSandbox: true },
+      select: { id: true },
+    });
+    const running = await this.prisma.leakScenario.findMany({
+      where: {
+        status: ScenarioStatus.RUNNING,
+        sandboxNetworkId: { not: null },
+      },
+      select: { sandboxNetworkId: true },
+    });
+
+    const inUse = new Set(running.map((scenario) => scenario.sandboxNetworkId));
+    const abandoned = sandboxes.filter((sandbox) => !inUse.has(sandbox.id));
+    for (const sandbox of abandoned) {
+      await this.remove(sandbox.id);
+    }
+    return abandoned.length;
+  }
+}
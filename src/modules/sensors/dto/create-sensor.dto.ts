@@ -4,6 +4,9 @@ import {
   IsEnum,
   IsOptional,
   IsBoolean,
+  IsInt,
+  IsNumber,
+  Min,
   ValidateIf,
 } from 'class-validator';
 import { SensorType } from '@prisma/client';
@@ -17,7 +20,7 @@ export class CreateSensorDto {
   sensorId: string;
 
   @ApiProperty({
-    description: 'Type of flow sensor',
+    description: 'Type of sensor (flow, pressure or tank level)',
     enum: SensorType,
     example: SensorType.MAINLINE_FLOW,
   })
@@ -55,5 +58,49 @@ export class CreateSensorDto {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Lowest plausible reading in the canonical unit. Null uses 0 for flow and level sensors and no limit for pressure',
+    example: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  minValue?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Highest plausible reading in the canonical unit. Null sets no limit',
+    example: 150,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  maxValue?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Largest plausible change between readings, in canonical units per second. Null skips the check',
+    example: 0.5,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxRateOfChange?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Seconds a value may stay unchanged before readings are flagged as a flatline. Null skips the check',
+    example: 3600,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  flatlineSeconds?: number | null;
 }
 
@@ -0,0 +1,9 @@
+import { PickType } from '@nestjs/swagger';
+import { CreateSensorDto } from './create-sensor.dto';
+
+export class SensorQualitySettingsDto extends PickType(CreateSensorDto, [
+  'minValue',
+  'maxValue',
+  'maxRateOfChange',
+  'flatlineSeconds',
+] as const) {}
@@ -29,6 +29,18 @@ export class SensorResponseDto {
   @ApiProperty({ example: true })
   isActive: boolean;
 
+  @ApiPropertyOptional({ example: 0, nullable: true })
+  minValue?: number | null;
+
+  @ApiPropertyOptional({ example: 150, nullable: true })
+  maxValue?: number | null;
+
+  @ApiPropertyOptional({ example: 0.5, nullable: true })
+  maxRateOfChange?: number | null;
+
+  @ApiPropertyOptional({ example: 3600, nullable: true })
+  flatlineSeconds?: number | null;
+
   @ApiProperty({ example: '2024-01-15T10:00:00.000Z' })
   createdAt: Date;
 
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Param,
   Query,
@@ -18,6 +19,7 @@ import {
 } from '@nestjs/swagger';
 import { SensorsService } from './sensors.service';
 import { CreateSensorDto } from './dto/create-sensor.dto';
+import { SensorQualitySettingsDto } from './dto/sensor-quality-settings.dto';
 import { SensorResponseDto } from './dto/sensor-response.dto';
 import { AutoPlacementService } from './services/auto-placement.service';
 import { AutoPlacementResponseDto } from './dto/auto-placement-response.dto';
@@ -118,6 +120,38 @@ export class SensorsController {
     return this.sensorsService.findBySensorId(sensorId, networkId);
   }
 
+  @Patch(':id/quality')
+  @ApiOperation({
+    summary: 'Update the limits readings of a sensor are checked against',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Sensor UUID',
+    example: 'uuid-here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Quality settings updated',
+    type: SensorResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'minValue is greater than maxValue',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Sensor not found',
+  })
+  updateQualitySettings(
+    @Param('id') id: string,
+    @Body() sensorQualitySettingsDto: SensorQualitySettingsDto,
+  ) {
+    return this.sensorsService.updateQualitySettings(
+      id,
+      sensorQualitySettingsDto,
+    );
+  }
+
   @Post('auto-place')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Automatically place sensors strategically (prioritizes MAINLINE nodes, then high-connectivity JUNCTION nodes)' })
@@ -2,9 +2,11 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
 import { CreateSensorDto } from './dto/create-sensor.dto';
+import { SensorQualitySettingsDto } from './dto/sensor-quality-settings.dto';
 import { NetworkService } from '../network/network.service';
 
 @Injectable()
@@ -15,6 +17,8 @@ export class SensorsService {
   ) {}
 
   async create(createSensorDto: CreateSensorDto) {
+    this.validateRange(createSensorDto.minValue, createSensorDto.maxValue);
+
     // Validate node exists and get its networkId
     const node = await this.prisma.networkNode.findUnique({
       where: { id: createSensorDto.nodeId },
@@ -194,5 +198,43 @@ export class SensorsService {
 
     return sensor;
   }
-}
 
+  /**
+   * Update the limits readings are checked against on ingest. Readings
+   * already stored keep their flags.
+   */
+  async updateQualitySettings(id: string, dto: SensorQualitySettingsDto) {
+    const sensor = await this.prisma.sensor.findUnique({
+      where: { id },
+      select: { minValue: true, maxValue: true },
+    });
+
+    if (!sensor) {
+      throw new NotFoundException(`Sensor with ID ${id} not found`);
+    }
+
+    this.validateRange(
+      dto.minValue === undefined ? sensor.minValue : dto.minValue,
+      dto.maxValue === undefined ? sensor.maxValue : dto.maxValue,
+    );
+
+    return this.prisma.sensor.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  private validateRange(minValue?: number | null, maxValue?: number | null) {
+    if (
+      minValue !== undefined &&
+      minValue !== null &&
+      maxValue !== undefined &&
+      maxValue !== null &&
+      minValue > maxValue
+    ) {
+      throw new BadRequestException(
+        'minValue must not be greater than maxValue',
+      );
+    }
+  }
+}